@@ -38,6 +38,11 @@ const nextConfig: NextConfig = {
     ],
   },
 
+  // Invoice PDFs read their fonts from disk
+  outputFileTracingIncludes: {
+    "/api/**/*": ["./src/lib/invoices/fonts/**/*"],
+  },
+
   // Experimental features
   experimental: {
     // Enable server actions
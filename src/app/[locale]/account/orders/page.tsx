@@ -14,43 +14,88 @@ import {
   CheckCircle,
   Clock,
   XCircle,
+  ClipboardCheck,
+  RotateCcw,
+  FileText,
+  ExternalLink,
 } from "lucide-react";
 import { formatPrice } from "@/lib/pricing/calculator";
+import { summarizeDiamondOrigins } from "@/lib/pricing/stone-origin";
+import type { OrderStatus } from "@/lib/orders/lifecycle";
+import type { OrderItemSpec } from "@/lib/orders/order-items";
+import type { PaymentMode } from "@/lib/payments/payment-terms";
+import type { InvoiceType } from "@/lib/invoices/invoices";
+import type { CarrierId, ShipmentStatus } from "@/lib/shipping/carriers";
 
 interface OrderItem {
   id: string;
   designId: string;
+  name: string | null;
+  jewelryType: string;
+  material: string;
+  thumbnailUrl: string | null;
+  spec: OrderItemSpec;
   size: string | null;
   quantity: number;
   unitPrice: number;
   totalPrice: number;
-  design: {
-    name: string | null;
-    thumbnailUrl: string | null;
-    jewelryType: string;
-  };
+}
+
+interface Invoice {
+  id: string;
+  type: InvoiceType;
+  number: number;
+  total: number;
+  currency: string;
+  issuedAt: string;
+}
+
+interface Shipment {
+  id: string;
+  carrier: CarrierId;
+  trackingNumber: string;
+  trackingUrl: string;
+  shippedAt: string;
+  status: ShipmentStatus;
+  events: { status: ShipmentStatus; description: string | null; location: string | null; occurredAt: string }[];
+}
+
+interface StatusEvent {
+  toStatus: OrderStatus;
+  createdAt: string;
 }
 
 interface Order {
   id: string;
   orderNumber: string;
-  status: string;
+  status: OrderStatus;
   total: number;
   currency: string;
   createdAt: string;
   items: OrderItem[];
+  statusEvents: StatusEvent[];
+  invoices: Invoice[];
+  paymentMode: PaymentMode;
+  depositAmount: number | null;
+  authorizedAmount: number | null;
+  finalAmount: number | null;
+  balanceDue: number;
+  balancePaymentUrl: string | null;
+  settledAt: string | null;
 }
 
 const statusConfig: Record<
-  string,
+  OrderStatus,
   { icon: typeof Clock; color: string; bgColor: string }
 > = {
   pending: { icon: Clock, color: "text-yellow-600", bgColor: "bg-yellow-100 dark:bg-yellow-900/30" },
   paid: { icon: CheckCircle, color: "text-green-600", bgColor: "bg-green-100 dark:bg-green-900/30" },
-  manufacturing: { icon: Package, color: "text-blue-600", bgColor: "bg-blue-100 dark:bg-blue-900/30" },
+  in_production: { icon: Package, color: "text-blue-600", bgColor: "bg-blue-100 dark:bg-blue-900/30" },
+  quality_check: { icon: ClipboardCheck, color: "text-blue-600", bgColor: "bg-blue-100 dark:bg-blue-900/30" },
   shipped: { icon: Truck, color: "text-purple-600", bgColor: "bg-purple-100 dark:bg-purple-900/30" },
   delivered: { icon: CheckCircle, color: "text-green-600", bgColor: "bg-green-100 dark:bg-green-900/30" },
   cancelled: { icon: XCircle, color: "text-red-600", bgColor: "bg-red-100 dark:bg-red-900/30" },
+  refunded: { icon: RotateCcw, color: "text-gray-600", bgColor: "bg-gray-100 dark:bg-gray-700/50" },
 };
 
 export default function MyOrdersPage() {
@@ -168,7 +213,7 @@ export default function MyOrdersPage() {
                     <div className="flex items-center gap-4">
                       <div className="text-right">
                         <p className="font-bold text-lg">
-                          {formatPrice(order.total, order.currency)}
+                          {formatPrice(order.finalAmount ?? order.total, order.currency)}
                         </p>
                         <span
                           className={`text-xs px-2 py-1 rounded-full ${statusInfo.bgColor} ${statusInfo.color}`}
@@ -195,10 +240,10 @@ export default function MyOrdersPage() {
                             className="flex items-center gap-4 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg"
                           >
                             <div className="w-16 h-16 bg-gray-200 dark:bg-gray-600 rounded-lg overflow-hidden flex-shrink-0">
-                              {item.design.thumbnailUrl ? (
+                              {item.thumbnailUrl ? (
                                 <img
-                                  src={item.design.thumbnailUrl}
-                                  alt={item.design.name || "Design"}
+                                  src={item.thumbnailUrl}
+                                  alt={item.name || "Design"}
                                   className="w-full h-full object-cover"
                                 />
                               ) : (
@@ -209,12 +254,13 @@ export default function MyOrdersPage() {
                             </div>
                             <div className="flex-1 min-w-0">
                               <p className="font-medium truncate">
-                                {item.design.name || "Custom Design"}
+                                {item.name || "Custom Design"}
                               </p>
                               <p className="text-sm text-gray-500 dark:text-gray-400 capitalize">
-                                {item.design.jewelryType}
+                                {item.jewelryType}
                                 {item.size && ` - Size ${item.size}`}
                               </p>
+                              <DiamondOriginNote stones={item.spec.stones} />
                               <p className="text-sm text-gray-500 dark:text-gray-400">
                                 Qty: {item.quantity}
                               </p>
@@ -225,6 +271,16 @@ export default function MyOrdersPage() {
                           </li>
                         ))}
                       </ul>
+
+                      <OrderPaymentSummary order={order} />
+
+                      <OrderInvoices orderId={order.id} invoices={order.invoices} />
+
+                      {(order.status === "shipped" || order.status === "delivered") && (
+                        <OrderShipments orderId={order.id} />
+                      )}
+
+                      <OrderTimeline events={order.statusEvents} />
                     </div>
                   )}
                 </div>
@@ -236,3 +292,255 @@ export default function MyOrdersPage() {
     </div>
   );
 }
+
+// Deposit and authorized orders are settled once the piece is weighed
+function OrderPaymentSummary({ order }: { order: Order }) {
+  const t = useTranslations("account");
+  if (order.paymentMode === "full" || order.status === "pending" || order.status === "cancelled") return null;
+
+  const rows: { label: string; amount: number }[] =
+    order.paymentMode === "deposit"
+      ? [
+          { label: t("orders.payment.depositPaid"), amount: order.depositAmount ?? 0 },
+          ...(order.settledAt && order.finalAmount !== null
+            ? [{ label: t("orders.payment.balancePaid"), amount: order.finalAmount - (order.depositAmount ?? 0) }]
+            : [{ label: t("orders.payment.balanceDue"), amount: order.balanceDue }]),
+        ]
+      : order.settledAt && order.finalAmount !== null
+        ? [{ label: t("orders.payment.charged"), amount: order.finalAmount }]
+        : [{ label: t("orders.payment.held"), amount: order.authorizedAmount ?? order.total }];
+
+  return (
+    <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg space-y-2">
+      <h3 className="font-medium">{t("orders.payment.title")}</h3>
+      {rows.map((row) => (
+        <div key={row.label} className="flex justify-between text-sm">
+          <span className="text-gray-500 dark:text-gray-400">{row.label}</span>
+          <span className="font-medium">{formatPrice(row.amount, order.currency)}</span>
+        </div>
+      ))}
+      {!order.settledAt && (
+        order.balancePaymentUrl ? (
+          <a
+            href={order.balancePaymentUrl}
+            className="inline-block mt-2 px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white text-sm font-semibold rounded-lg transition-colors"
+          >
+            {t("orders.payment.payBalance")}
+          </a>
+        ) : (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {t(order.paymentMode === "deposit" ? "orders.payment.depositNote" : "orders.payment.heldNote")}
+          </p>
+        )
+      )}
+    </div>
+  );
+}
+
+// Tax invoices and credit notes, in either language
+function OrderInvoices({ orderId, invoices }: { orderId: string; invoices: Invoice[] }) {
+  const t = useTranslations("account");
+  const locale = useLocale();
+  if (invoices.length === 0) return null;
+
+  return (
+    <div className="mt-6">
+      <h3 className="font-medium mb-3">{t("orders.invoices.title")}</h3>
+      <ul className="space-y-2">
+        {invoices.map((invoice) => (
+          <li
+            key={invoice.id}
+            className="flex items-center justify-between gap-4 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm"
+          >
+            <div className="flex items-center gap-3">
+              <FileText className="w-5 h-5 text-gray-400" />
+              <div>
+                <p className="font-medium">
+                  {t(invoice.type === "credit_note" ? "orders.invoices.creditNote" : "orders.invoices.invoice", {
+                    number: invoice.number,
+                  })}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(invoice.issuedAt).toLocaleDateString(locale === "he" ? "he-IL" : "en-US")}
+                  {" · "}
+                  {formatPrice(invoice.total, invoice.currency)}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-3">
+              {(["he", "en"] as const).map((language) => (
+                <a
+                  key={language}
+                  href={`/api/user/orders/${orderId}/invoices/${invoice.id}?locale=${language}`}
+                  className="text-amber-600 hover:text-amber-700 font-medium"
+                >
+                  {t(`orders.invoices.download.${language}`)}
+                </a>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Parcels with their carrier scans - looked up fresh each time the order is opened
+function OrderShipments({ orderId }: { orderId: string }) {
+  const t = useTranslations("account");
+  const locale = useLocale();
+  const [shipments, setShipments] = useState<Shipment[] | null>(null);
+
+  useEffect(() => {
+    const fetchShipments = async () => {
+      try {
+        const response = await fetch(`/api/user/orders/${orderId}/shipments`);
+        if (response.ok) {
+          const data = await response.json();
+          setShipments(data.shipments);
+        } else {
+          setShipments([]);
+        }
+      } catch (error) {
+        console.error("Error fetching shipments:", error);
+        setShipments([]);
+      }
+    };
+
+    fetchShipments();
+  }, [orderId]);
+
+  const dateLocale = locale === "he" ? "he-IL" : "en-US";
+
+  if (shipments === null) {
+    return (
+      <p className="mt-6 text-sm text-gray-500 dark:text-gray-400">{t("orders.shipments.loading")}</p>
+    );
+  }
+  if (shipments.length === 0) return null;
+
+  return (
+    <div className="mt-6">
+      <h3 className="font-medium mb-3">{t("orders.shipments.title")}</h3>
+      <div className="space-y-4">
+        {shipments.map((shipment) => (
+          <div key={shipment.id} className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <div className="flex items-center gap-3">
+                <Truck className="w-5 h-5 text-gray-400" />
+                <div>
+                  <p className="text-sm font-medium">
+                    {t(`orders.shipments.carriers.${shipment.carrier}`)}
+                    {" · "}
+                    <span className="font-mono" dir="ltr">{shipment.trackingNumber}</span>
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {t("orders.shipments.shipped", {
+                      date: new Date(shipment.shippedAt).toLocaleDateString(dateLocale),
+                    })}
+                  </p>
+                </div>
+              </div>
+              <a
+                href={shipment.trackingUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-sm text-amber-600 hover:text-amber-700 font-medium"
+              >
+                {t("orders.shipments.track")}
+                <ExternalLink className="w-3.5 h-3.5" />
+              </a>
+            </div>
+
+            {shipment.events.length === 0 ? (
+              <p className="text-xs text-gray-500 dark:text-gray-400">{t("orders.shipments.noEvents")}</p>
+            ) : (
+              <ol className="relative border-s border-gray-200 dark:border-gray-600 ms-2 space-y-3">
+                {shipment.events.map((event, index) => {
+                  const isLatest = index === shipment.events.length - 1;
+
+                  return (
+                    <li key={`${event.status}-${event.occurredAt}`} className="ms-4">
+                      <span
+                        className={`absolute -start-1.5 mt-1.5 w-3 h-3 rounded-full ${
+                          isLatest
+                            ? event.status === "exception" ? "bg-red-500" : "bg-amber-500"
+                            : "bg-gray-200 dark:bg-gray-600"
+                        } border border-white dark:border-gray-800`}
+                      />
+                      <p className={`text-sm font-medium ${isLatest ? "text-amber-700 dark:text-amber-400" : ""}`}>
+                        {t(`orders.shipments.status.${event.status}`)}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {new Date(event.occurredAt).toLocaleString(dateLocale, {
+                          month: "short",
+                          day: "numeric",
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
+                        {event.location && ` · ${event.location}`}
+                      </p>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function OrderTimeline({ events }: { events: StatusEvent[] }) {
+  const t = useTranslations("account");
+  const locale = useLocale();
+  if (events.length === 0) return null;
+
+  return (
+    <div className="mt-6">
+      <h3 className="font-medium mb-4">{t("orders.timeline")}</h3>
+      <ol className="relative border-s border-gray-200 dark:border-gray-700 ms-2 space-y-4">
+        {events.map((event, index) => {
+          const statusInfo = statusConfig[event.toStatus];
+          const isLatest = index === events.length - 1;
+
+          return (
+            <li key={`${event.toStatus}-${event.createdAt}`} className="ms-4">
+              <span
+                className={`absolute -start-1.5 mt-1.5 w-3 h-3 rounded-full ${
+                  isLatest ? statusInfo.bgColor : "bg-gray-200 dark:bg-gray-700"
+                } border border-white dark:border-gray-800`}
+              />
+              <p className={`text-sm font-medium ${isLatest ? statusInfo.color : ""}`}>
+                {t(`orders.status.${event.toStatus}`)}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {new Date(event.createdAt).toLocaleString(locale === "he" ? "he-IL" : "en-US", {
+                  year: "numeric",
+                  month: "short",
+                  day: "numeric",
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+              </p>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
+// Diamond origin must be disclosed on every order record
+function DiamondOriginNote({ stones }: { stones: unknown }) {
+  const t = useTranslations("account");
+  const origin = summarizeDiamondOrigins(stones);
+  if (!origin) return null;
+
+  return (
+    <p className="text-xs text-amber-700 dark:text-amber-400">
+      {t(`diamondOrigin.${origin}`)}
+    </p>
+  );
+}
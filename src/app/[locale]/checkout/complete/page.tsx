@@ -4,19 +4,44 @@ import { useEffect, useState } from "react";
 import { useSearchParams } from "next/navigation";
 import { useTranslations, useLocale } from "next-intl";
 import Link from "next/link";
-import { Check, XCircle, Loader2, Package, Mail, ArrowRight } from "lucide-react";
+import { Check, XCircle, Loader2, Package, Mail, ArrowRight, Truck, ExternalLink } from "lucide-react";
+import type { OrderStatus } from "@/lib/orders/lifecycle";
+import type { PaymentMode } from "@/lib/payments/payment-terms";
+import type { CarrierId, ShipmentStatus } from "@/lib/shipping/carriers";
+
+interface StatusEvent {
+  toStatus: OrderStatus;
+  createdAt: string;
+}
+
+interface Shipment {
+  id: string;
+  carrier: CarrierId;
+  trackingNumber: string;
+  trackingUrl: string;
+  shippedAt: string;
+  events: { status: ShipmentStatus; description: string | null; location: string | null; occurredAt: string }[];
+}
 
 interface OrderDetails {
   id: string;
   orderNumber: string;
-  status: string;
+  status: OrderStatus;
   total: number;
   customerEmail: string;
   customerName: string;
+  statusEvents: StatusEvent[];
+  paymentMode: PaymentMode;
+  depositAmount: number | null;
+  authorizedAmount: number | null;
+  finalAmount: number | null;
+  balanceDue: number;
+  settledAt: string | null;
 }
 
 export default function CheckoutCompletePage() {
   const t = useTranslations("checkout");
+  const tAccount = useTranslations("account");
   const locale = useLocale();
   const searchParams = useSearchParams();
   const orderId = searchParams.get("orderId");
@@ -39,8 +64,8 @@ export default function CheckoutCompletePage() {
           const data = await response.json();
           setOrder(data.order);
           
-          // Clear cart if payment was successful
-          if (data.order.status === "paid") {
+          // Clear cart once payment has gone through
+          if (data.order.status !== "pending" && data.order.status !== "cancelled") {
             localStorage.removeItem("gold-jewelry-cart");
           }
         } else {
@@ -113,8 +138,9 @@ export default function CheckoutCompletePage() {
     );
   }
 
-  const isPaid = order.status === "paid";
-  const isFailed = order.status === "failed";
+  // Payment failures cancel the order
+  const isFailed = order.status === "cancelled";
+  const isPaid = !isFailed && order.status !== "pending";
 
   if (isFailed) {
     return (
@@ -184,18 +210,77 @@ export default function CheckoutCompletePage() {
                     ? "bg-green-500/20 text-green-400" 
                     : "bg-yellow-500/20 text-yellow-400"
                 }`}>
-                  {isPaid ? t("statusPaid") : t("statusPending")}
+                  {tAccount(`orders.status.${order.status}`)}
                 </span>
               </div>
               
               <div className="flex justify-between items-center py-2 border-b border-dark-700">
                 <span className="text-dark-400">{t("total")}</span>
                 <span className="text-lg font-bold text-gradient-gold-bright">
-                  ₪{order.total.toLocaleString()}
+                  ₪{(order.finalAmount ?? order.total).toLocaleString()}
                 </span>
               </div>
+
+              {/* Deposit and authorized orders are settled once the piece is weighed */}
+              {isPaid && order.paymentMode !== "full" && (
+                <>
+                  <div className="flex justify-between items-center py-2 border-b border-dark-700">
+                    <span className="text-dark-400">
+                      {tAccount(order.paymentMode === "deposit" ? "orders.payment.depositPaid" : "orders.payment.held")}
+                    </span>
+                    <span className="text-dark-100">
+                      ₪{(order.depositAmount ?? order.authorizedAmount ?? order.total).toLocaleString()}
+                    </span>
+                  </div>
+                  {order.settledAt ? (
+                    <p className="text-sm text-green-400">{tAccount("orders.payment.settled")}</p>
+                  ) : (
+                    <>
+                      {order.paymentMode === "deposit" && (
+                        <div className="flex justify-between items-center py-2 border-b border-dark-700">
+                          <span className="text-dark-400">{tAccount("orders.payment.balanceDue")}</span>
+                          <span className="text-dark-100">₪{order.balanceDue.toLocaleString()}</span>
+                        </div>
+                      )}
+                      <p className="text-sm text-dark-400">
+                        {tAccount(order.paymentMode === "deposit" ? "orders.payment.depositNote" : "orders.payment.heldNote")}
+                      </p>
+                    </>
+                  )}
+                </>
+              )}
             </div>
 
+            {/* Status History */}
+            {order.statusEvents.length > 1 && (
+              <div className="mt-6">
+                <h3 className="text-sm font-medium mb-3 text-dark-200">{tAccount("orders.timeline")}</h3>
+                <ol className="space-y-2">
+                  {order.statusEvents.map((event) => (
+                    <li
+                      key={`${event.toStatus}-${event.createdAt}`}
+                      className="flex justify-between items-center text-sm"
+                    >
+                      <span className="text-dark-300">{tAccount(`orders.status.${event.toStatus}`)}</span>
+                      <span className="text-dark-500">
+                        {new Date(event.createdAt).toLocaleString(locale === "he" ? "he-IL" : "en-US", {
+                          month: "short",
+                          day: "numeric",
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
+            {/* Delivery Tracking */}
+            {(order.status === "shipped" || order.status === "delivered") && (
+              <ShipmentTracking orderId={order.id} />
+            )}
+
             {/* Email Notification */}
             <div className="mt-6 p-4 bg-dark-850 rounded-xl flex items-start gap-3">
               <Mail className="w-5 h-5 text-gold-400 mt-0.5 flex-shrink-0" />
@@ -266,3 +351,82 @@ export default function CheckoutCompletePage() {
     </div>
   );
 }
+
+// Live carrier scans for each parcel of a shipped order
+function ShipmentTracking({ orderId }: { orderId: string }) {
+  const tAccount = useTranslations("account");
+  const locale = useLocale();
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+
+  useEffect(() => {
+    const fetchShipments = async () => {
+      try {
+        const response = await fetch(`/api/user/orders/${orderId}/shipments`);
+        if (response.ok) {
+          const data = await response.json();
+          setShipments(data.shipments);
+        }
+      } catch (err) {
+        console.error("Error fetching shipments:", err);
+      }
+    };
+
+    fetchShipments();
+  }, [orderId]);
+
+  if (shipments.length === 0) return null;
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-sm font-medium mb-3 text-dark-200">{tAccount("orders.shipments.title")}</h3>
+      <div className="space-y-4">
+        {shipments.map((shipment) => (
+          <div key={shipment.id} className="p-4 bg-dark-850 rounded-xl">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <div className="flex items-center gap-2 text-sm">
+                <Truck className="w-4 h-4 text-gold-400" />
+                <span className="text-dark-200">{tAccount(`orders.shipments.carriers.${shipment.carrier}`)}</span>
+                <span className="font-mono text-gold-400" dir="ltr">{shipment.trackingNumber}</span>
+              </div>
+              <a
+                href={shipment.trackingUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-sm text-gold-400 hover:text-gold-300"
+              >
+                {tAccount("orders.shipments.track")}
+                <ExternalLink className="w-3.5 h-3.5" />
+              </a>
+            </div>
+
+            {shipment.events.length === 0 ? (
+              <p className="text-sm text-dark-400">{tAccount("orders.shipments.noEvents")}</p>
+            ) : (
+              <ol className="space-y-2">
+                {shipment.events.map((event, index) => (
+                  <li
+                    key={`${event.status}-${event.occurredAt}`}
+                    className="flex justify-between items-center gap-4 text-sm"
+                  >
+                    <span className={index === shipment.events.length - 1 ? "text-gold-400" : "text-dark-300"}>
+                      {tAccount(`orders.shipments.status.${event.status}`)}
+                      {event.location && <span className="text-dark-500"> · {event.location}</span>}
+                    </span>
+                    <span className="text-dark-500">
+                      {new Date(event.occurredAt).toLocaleString(locale === "he" ? "he-IL" : "en-US", {
+                        month: "short",
+                        day: "numeric",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
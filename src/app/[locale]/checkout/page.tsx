@@ -1,13 +1,18 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useTranslations, useLocale } from "next-intl";
 import { useCart } from "@/contexts/CartContext";
 import { formatPrice } from "@/lib/pricing/calculator";
-import { ShoppingBag, CreditCard, Truck, ChevronLeft, Check, Sparkles, X, ZoomIn, FlaskConical } from "lucide-react";
+import type { CheckoutTotals, ShippingMethod } from "@/lib/pricing/shipping-tax";
+import type { CheckoutPaymentPlan } from "@/lib/payments/payment-terms";
+import { ShoppingBag, CreditCard, Truck, ChevronLeft, Check, Sparkles, X, ZoomIn, FlaskConical, Tag } from "lucide-react";
 import Link from "next/link";
 import Image from "next/image";
 
+// Test products are only accepted by the payment API in development
+const SHOW_TEST_PRODUCT = process.env.NODE_ENV === "development";
+
 // Test product button component for testing checkout flow
 function TestProductButton() {
   const { addItem, setCartOpen } = useCart();
@@ -21,7 +26,7 @@ function TestProductButton() {
       modelUrl: undefined,
       jewelryType: "ring",
       material: "test",
-      size: "7",
+      size: "US 7",
       price: 10, // 10 NIS
     });
     setAdded(true);
@@ -40,6 +45,16 @@ function TestProductButton() {
   );
 }
 
+// Discount as previewed by /api/pricing/checkout (re-checked when the order is created)
+interface AppliedDiscount {
+  code: string;
+  amount: number;
+  freeShipping: boolean;
+}
+
+// Wait for typing to settle before re-pricing shipping for a city
+const TOTALS_DEBOUNCE_MS = 300;
+
 interface ShippingForm {
   name: string;
   email: string;
@@ -55,7 +70,7 @@ export default function CheckoutPage() {
   const tCart = useTranslations("cart");
   const tCommon = useTranslations("common");
   const locale = useLocale();
-  const { items, subtotal, clearCart } = useCart();
+  const { items, subtotal, clearCart, updatePrices } = useCart();
   const [step, setStep] = useState<"shipping" | "payment" | "confirmation">("shipping");
   const [isProcessing, setIsProcessing] = useState(false);
   const [previewImage, setPreviewImage] = useState<{ url: string; name: string } | null>(null);
@@ -66,17 +81,99 @@ export default function CheckoutPage() {
     street: "",
     city: "",
     postalCode: "",
-    country: "Israel",
+    country: "IL",
   });
+  const [shippingMethod, setShippingMethod] = useState<ShippingMethod>("standard");
+  const [shipsTo, setShipsTo] = useState<string[]>(["IL"]);
+  const [totals, setTotals] = useState<CheckoutTotals | null>(null);
+  const [paymentPlan, setPaymentPlan] = useState<CheckoutPaymentPlan | null>(null);
+  const [totalsError, setTotalsError] = useState<string | null>(null);
+  const [discountInput, setDiscountInput] = useState("");
+  const [discountCode, setDiscountCode] = useState<string | null>(null);
+  const [discount, setDiscount] = useState<AppliedDiscount | null>(null);
+  const [discountError, setDiscountError] = useState<string | null>(null); // Rejection reason
 
-  // Check if cart only contains test products
+  // Test products carry no shipping or VAT
   const isTestOrder = items.every(item => item.designId.startsWith("test-product"));
-  
-  // Calculate totals (no shipping/tax for test orders)
-  const shippingCost = isTestOrder ? 0 : (subtotal > 500 ? 0 : 35); // Free shipping over 500 ILS
-  const taxRate = 0.17; // 17% VAT in Israel
-  const tax = isTestOrder ? 0 : (subtotal + shippingCost) * taxRate;
-  const total = subtotal + shippingCost + tax;
+
+  const discountErrorMessage = (reason?: string) =>
+    t.has(`discount.errors.${reason}`) ? t(`discount.errors.${reason}`) : t("discount.errors.generic");
+
+  // Shipping, discount, VAT and total are computed by the server
+  const { country, city, email } = shippingForm;
+  useEffect(() => {
+    if (items.length === 0) return;
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/pricing/checkout', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            items: items.map(item => ({
+              id: item.id,
+              designId: item.designId,
+              jewelryType: item.jewelryType,
+              material: item.material,
+              price: item.price,
+              quantity: item.quantity,
+            })),
+            country,
+            city: city || undefined,
+            shippingMethod,
+            discountCode: discountCode ?? undefined,
+            email: email.includes("@") ? email : undefined,
+          }),
+        });
+
+        const data = await response.json();
+        if (cancelled) return;
+
+        if (data.shipsTo) setShipsTo(data.shipsTo);
+
+        if (data.success) {
+          setTotals(data.totals);
+          setPaymentPlan(data.payment);
+          setTotalsError(null);
+          setDiscount(data.discount);
+          if (data.discountError) {
+            setDiscountCode(null);
+            setDiscountError(data.discountError.reason);
+          }
+        } else if (data.reason === "unsupported_method") {
+          setShippingMethod("standard");
+        } else {
+          setTotals(null);
+          setPaymentPlan(null);
+          setTotalsError(data.error);
+        }
+      } catch (error) {
+        console.error('Checkout totals error:', error);
+      }
+    }, TOTALS_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [items, country, city, email, shippingMethod, discountCode]);
+
+  const handleApplyDiscount = () => {
+    if (!discountInput.trim()) return;
+    setDiscountError(null);
+    setDiscountCode(discountInput.trim());
+  };
+
+  const handleRemoveDiscount = () => {
+    setDiscountCode(null);
+    setDiscount(null);
+  };
+
+  const countryName = (code: string) =>
+    new Intl.DisplayNames([locale], { type: "region" }).of(code) ?? code;
 
   const handleShippingSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -93,8 +190,8 @@ export default function CheckoutPage() {
       const paymentMethod = paymentMethodInput?.value || 'card';
       const installments = paymentMethod === 'installments' ? 3 : 1;
 
-      // Create payment with Z-Credit
-      const response = await fetch('/api/payments/zcredit/create', {
+      // Create payment with the configured gateway
+      const response = await fetch('/api/payments/create', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -102,24 +199,38 @@ export default function CheckoutPage() {
         body: JSON.stringify({
           items: items.map(item => ({
             id: item.id,
+            designId: item.designId,
             name: item.name,
             thumbnailUrl: item.thumbnailUrl,
             price: item.price,
             quantity: item.quantity,
             jewelryType: item.jewelryType,
             material: item.material,
+            size: item.size,
+            quoteId: item.quoteId,
           })),
           shippingInfo: shippingForm,
           locale,
           installments,
+          discountCode: discountCode ?? undefined,
+          shippingMethod,
         }),
       });
 
       const data = await response.json();
 
       if (data.success && data.paymentUrl) {
-        // Redirect to Z-Credit payment page
+        // Redirect to the gateway's payment page
         window.location.href = data.paymentUrl;
+      } else if (data.code === "PRICE_CHANGED" || data.code === "QUOTE_EXPIRED") {
+        // Server re-quoted the cart - show the new prices before paying
+        updatePrices(data.items);
+        setIsProcessing(false);
+        alert(t(data.code === "QUOTE_EXPIRED" ? "quoteExpired" : "pricesUpdated"));
+      } else if (data.code === "DISCOUNT_INVALID") {
+        handleRemoveDiscount();
+        setDiscountError(data.reason ?? "generic");
+        setIsProcessing(false);
       } else {
         // Show error
         alert(data.error || t("paymentError"));
@@ -154,8 +265,8 @@ export default function CheckoutPage() {
               <Sparkles className="w-5 h-5" />
               {tCart("startDesigning")}
             </Link>
-            {/* Test button - remove after testing */}
-            <TestProductButton />
+            {/* Test button - development only */}
+            {SHOW_TEST_PRODUCT && <TestProductButton />}
           </div>
         </div>
       </div>
@@ -201,8 +312,8 @@ export default function CheckoutPage() {
           </Link>
           <div className="flex items-center justify-between gap-4 flex-wrap">
             <h1 className="text-3xl font-bold text-gradient-gold-bright">{t("title")}</h1>
-            {/* Test button - remove after testing */}
-            <TestProductButton />
+            {/* Test button - development only */}
+            {SHOW_TEST_PRODUCT && <TestProductButton />}
           </div>
         </div>
 
@@ -348,9 +459,45 @@ export default function CheckoutPage() {
                       }
                       className="w-full px-4 py-3 border border-dark-700 rounded-xl bg-dark-850 text-dark-100 focus:ring-2 focus:ring-gold-500/30 focus:border-gold-500/50 transition-all"
                     >
-                      <option value="Israel">Israel</option>
+                      {shipsTo.map((code) => (
+                        <option key={code} value={code}>{countryName(code)}</option>
+                      ))}
                     </select>
                   </div>
+                  {/* Shipping Method */}
+                  {totals && totals.shippingOptions.length > 0 && (
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium mb-2 text-dark-200">
+                        {t("shippingMethod.title")}
+                      </label>
+                      <div className="space-y-2">
+                        {totals.shippingOptions.map((option) => (
+                          <label
+                            key={option.method}
+                            className="flex items-center gap-4 p-3 border border-dark-700 rounded-xl cursor-pointer hover:border-gold-500/50 hover:bg-dark-700/50 transition-all"
+                          >
+                            <input
+                              type="radio"
+                              name="shippingMethod"
+                              value={option.method}
+                              checked={shippingMethod === option.method}
+                              onChange={() => setShippingMethod(option.method)}
+                              className="w-4 h-4 text-gold-500 bg-dark-800 border-dark-600 focus:ring-gold-500/50"
+                            />
+                            <span className="flex-1 text-dark-200">
+                              {t(`shippingMethod.${option.method}`)}
+                              <span className="block text-xs text-dark-500">
+                                {t("shippingMethod.days", { min: option.minDays, max: option.maxDays })}
+                              </span>
+                            </span>
+                            <span className="text-sm text-gold-400">
+                              {option.price === 0 ? t("freeShipping") : formatPrice(option.price)}
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
                 <button
                   type="submit"
@@ -431,7 +578,7 @@ export default function CheckoutPage() {
 
                 <button
                   type="submit"
-                  disabled={isProcessing}
+                  disabled={isProcessing || !totals}
                   className="w-full py-3 px-4 bg-gradient-to-r from-gold-500 to-gold-400 disabled:from-dark-600 disabled:to-dark-700 disabled:text-dark-400 text-dark-900 font-semibold rounded-xl transition-all shadow-lg shadow-gold-500/25 hover:shadow-gold-400/40 hover:shadow-xl disabled:shadow-none"
                 >
                   {isProcessing ? t("processing") : t("placeOrder")}
@@ -489,24 +636,100 @@ export default function CheckoutPage() {
                 ))}
               </ul>
 
+              {/* Discount Code */}
+              <div className="pt-4 pb-4 border-t border-dark-700">
+                <label className="flex items-center gap-2 text-sm font-medium mb-2 text-dark-200">
+                  <Tag className="w-4 h-4 text-gold-400" />
+                  {t("discount.title")}
+                </label>
+                {discount && discountCode ? (
+                  <div className="flex items-center justify-between gap-2 px-3 py-2 bg-dark-850 border border-gold-500/30 rounded-xl text-sm">
+                    <span className="text-gold-400">
+                      {discount.freeShipping
+                        ? t("discount.freeShipping", { code: discount.code })
+                        : t("discount.applied", { code: discount.code })}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={handleRemoveDiscount}
+                      className="text-dark-400 hover:text-gold-400 transition-colors"
+                    >
+                      {t("discount.remove")}
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={discountInput}
+                      placeholder={t("discount.placeholder")}
+                      onChange={(e) => setDiscountInput(e.target.value.toUpperCase())}
+                      className="flex-1 min-w-0 px-3 py-2 border border-dark-700 rounded-xl bg-dark-850 text-dark-100 text-sm placeholder:text-dark-500 focus:ring-2 focus:ring-gold-500/30 focus:border-gold-500/50 transition-all"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleApplyDiscount}
+                      disabled={!discountInput.trim()}
+                      className="px-4 py-2 bg-dark-700 hover:bg-dark-600 disabled:opacity-50 text-gold-400 text-sm font-medium rounded-xl transition-all"
+                    >
+                      {t("discount.apply")}
+                    </button>
+                  </div>
+                )}
+                {discountError && (
+                  <p className="mt-2 text-xs text-red-400">{discountErrorMessage(discountError)}</p>
+                )}
+              </div>
+
               {/* Totals */}
               <div className="space-y-2 pt-4 border-t border-dark-700">
                 <div className="flex justify-between text-sm">
                   <span className="text-dark-400">{tCart("subtotal")}</span>
-                  <span className="text-dark-200">{formatPrice(subtotal)}</span>
+                  <span className="text-dark-200">{formatPrice(totals?.subtotal ?? subtotal)}</span>
                 </div>
+                {totals && totals.discount > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-dark-400">{t("discount.label")} ({discount?.code})</span>
+                    <span className="text-gold-400">-{formatPrice(totals.discount)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm">
                   <span className="text-dark-400">{tCart("shipping")}</span>
-                  <span className="text-gold-400">{shippingCost === 0 ? t("freeShipping") : formatPrice(shippingCost)}</span>
+                  <span className="text-gold-400">
+                    {!totals ? "—" : totals.shipping === 0 ? t("freeShipping") : formatPrice(totals.shipping)}
+                  </span>
                 </div>
                 <div className="flex justify-between text-sm">
-                  <span className="text-dark-400">{tCart("tax")} (17%)</span>
-                  <span className="text-dark-200">{formatPrice(tax)}</span>
+                  <span className="text-dark-400">
+                    {tCart("tax")} ({totals ? Math.round(totals.taxRate * 1000) / 10 : "—"}%)
+                    {totals && totals.taxRate === 0 && !isTestOrder && (
+                      <span className="block text-xs text-dark-500">{t("zeroRated")}</span>
+                    )}
+                  </span>
+                  <span className="text-dark-200">{totals ? formatPrice(totals.tax) : "—"}</span>
                 </div>
                 <div className="flex justify-between text-lg font-bold pt-3 mt-2 border-t border-dark-600">
                   <span className="text-dark-100">{tCart("total")}</span>
-                  <span className="text-gradient-gold-bright">{formatPrice(total)}</span>
+                  <span className="text-gradient-gold-bright">{totals ? formatPrice(totals.total) : "—"}</span>
                 </div>
+                {paymentPlan && paymentPlan.mode !== "full" && (
+                  <div className="space-y-1 pt-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-dark-300">
+                        {t(paymentPlan.mode === "deposit" ? "paymentTerms.depositNow" : "paymentTerms.authorizedNow")}
+                      </span>
+                      <span className="text-dark-100">{formatPrice(paymentPlan.chargeNow)}</span>
+                    </div>
+                    <p className="text-xs text-dark-500">
+                      {t(paymentPlan.mode === "deposit" ? "paymentTerms.depositNote" : "paymentTerms.authorizeNote", {
+                        balance: formatPrice(paymentPlan.balanceDue),
+                      })}
+                    </p>
+                  </div>
+                )}
+                {totalsError && (
+                  <p className="text-xs text-red-400">{t("shippingUnavailable")}</p>
+                )}
               </div>
             </div>
           </div>
@@ -1,13 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
 import { isAdminAuthenticated } from "@/lib/auth/admin";
-import { calculatePriceAdvanced, type Stone } from "@/lib/pricing/calculator";
+import { measureModel } from "@/lib/pricing/mesh-volume";
+import {
+  calculatePriceWithSnapshot,
+  recordPricingSnapshot,
+  getLatestDesignSnapshots,
+  listDesignSnapshots,
+  type PricingSnapshot,
+} from "@/lib/pricing/snapshots";
 
 /**
  * Admin Designs API - Fetch all designs with detailed pricing breakdowns
  * 
  * Returns all designs created by users with:
- * - Full pricing breakdown
+ * - Full pricing breakdown (the latest stored pricing snapshot, never recalculated)
+ * - Pricing history when a single design is requested
  * - User information
  * - Design status
  * - Conversion progress
@@ -30,9 +38,11 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get("limit") || "50", 10);
     const offset = parseInt(searchParams.get("offset") || "0", 10);
     const includeBreakdown = searchParams.get("breakdown") === "true";
+    const designId = searchParams.get("designId");
     
     // Build filter
     const where: Record<string, unknown> = {};
+    if (designId) where.id = designId;
     if (status) where.status = status;
     if (jewelryType) where.jewelryType = jewelryType;
     
@@ -82,37 +92,32 @@ export async function GET(request: NextRequest) {
       });
     }
     
-    // Calculate detailed pricing breakdowns if requested and there are designs
-    let designsWithBreakdowns: typeof designs & { pricingBreakdown?: unknown }[] = designs;
+    // Attach the stored pricing snapshots if requested and there are designs
+    let designsWithBreakdowns: typeof designs & {
+      pricingBreakdown?: unknown;
+      pricingSnapshot?: unknown;
+      pricingHistory?: unknown;
+    }[] = designs;
     
     if (includeBreakdown && designs.length > 0) {
-      designsWithBreakdowns = await Promise.all(
-        designs.map(async (design) => {
-          try {
-            const breakdown = await calculatePriceAdvanced({
-              material: design.material as "gold_14k" | "gold_18k" | "gold_24k" | "silver" | "platinum",
-              jewelryType: design.jewelryType as "ring" | "necklace" | "bracelet" | "earrings",
-              description: design.prompt,
-              size: "medium",
-              stones: (design.stones as unknown as Stone[]) || [],
-              complexity: design.complexity as "simple" | "moderate" | "complex" | "master",
-              includeAIEstimate: false, // Skip text-based AI estimate to speed things up
-              imageUrl: design.thumbnailUrl || undefined, // Use image analysis if available
-            });
-            
-            return {
-              ...design,
-              pricingBreakdown: breakdown,
-            };
-          } catch (error) {
-            console.error(`Failed to calculate price for design ${design.id}:`, error);
-            return {
-              ...design,
-              pricingBreakdown: null,
-            };
-          }
-        })
-      );
+      try {
+        const latest = await getLatestDesignSnapshots(designs.map((design) => design.id));
+        const history = designId ? await listDesignSnapshots(designId) : null;
+        
+        designsWithBreakdowns = designs.map((design) => {
+          const snapshot = latest.get(design.id);
+          return {
+            ...design,
+            pricingBreakdown: snapshot?.breakdown ?? null,
+            pricingSnapshot: snapshot ? snapshotSummary(snapshot) : null,
+            ...(history && {
+              pricingHistory: history.map((entry) => ({ ...snapshotSummary(entry), breakdown: entry.breakdown })),
+            }),
+          };
+        });
+      } catch (error) {
+        console.error("Failed to load pricing snapshots:", error);
+      }
     }
     
     // Calculate summary stats
@@ -195,11 +200,19 @@ export async function POST(request: NextRequest) {
         );
       }
       
+      // Measure the 3D model if that hasn't happened yet
+      const measurement =
+        !design.volumeCm3 && design.modelUrl
+          ? await measureModel(design.modelUrl, design.jewelryType)
+          : null;
+      const volumeCm3 = measurement?.volumeCm3 ?? design.volumeCm3 ?? undefined;
+      
       // Recalculate pricing with image analysis
-      const breakdown = await calculatePriceAdvanced({
+      const { breakdown, metalPrices } = await calculatePriceWithSnapshot({
         material: design.material as any,
         jewelryType: design.jewelryType as any,
         description: design.prompt,
+        volumeCm3,
         size: "medium",
         stones: (design.stones as any[]) || [],
         complexity: design.complexity as any,
@@ -213,14 +226,24 @@ export async function POST(request: NextRequest) {
         where: { id: designId },
         data: {
           estimatedPrice: breakdown.total,
+          pricingConfigVersion: breakdown.metadata.configVersion,
           complexity: breakdown.aiEstimate?.complexity || design.complexity,
+          ...(volumeCm3 && { volumeCm3, weightGrams: breakdown.materials.weightGrams }),
         },
       });
       
+      const snapshot = await recordPricingSnapshot({
+        source: "admin_recalculate",
+        designId,
+        breakdown,
+        metalPrices,
+      });
+      
       return NextResponse.json({
         success: true,
         design: updatedDesign,
         breakdown,
+        snapshot: snapshotSummary(snapshot),
       });
     }
     
@@ -236,3 +259,15 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+// Snapshot metadata for the admin panel (the breakdown is sent separately)
+function snapshotSummary(snapshot: PricingSnapshot) {
+  return {
+    id: snapshot.id,
+    source: snapshot.source,
+    total: snapshot.total,
+    configVersion: snapshot.configVersion,
+    metalPrices: snapshot.metalPrices,
+    createdAt: snapshot.createdAt,
+  };
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import { updateDiscountCode, discountCodeUpdateSchema } from "@/lib/pricing/discounts";
+
+interface RouteContext {
+  params: Promise<{ codeId: string }>;
+}
+
+/**
+ * Update a discount code (limits, dates, active flag)
+ *
+ * Codes are deactivated rather than deleted - orders keep referencing them.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { codeId } = await context.params;
+    const body = await request.json();
+    const validated = discountCodeUpdateSchema.parse(body);
+
+    const result = await updateDiscountCode(codeId, validated);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.notFound ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      code: result.code,
+    });
+  } catch (error) {
+    console.error("Discount code update error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to update discount code" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import {
+  listDiscountCodes,
+  createDiscountCode,
+  discountCodeInputSchema,
+} from "@/lib/pricing/discounts";
+
+/**
+ * Admin Discount Codes API
+ *
+ * GET  - All discount codes with their usage
+ * POST - Create a code
+ */
+
+export async function GET() {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const codes = await listDiscountCodes();
+
+    return NextResponse.json({
+      success: true,
+      codes,
+    });
+  } catch (error) {
+    console.error("Discount codes fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch discount codes" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validated = discountCodeInputSchema.parse(body);
+
+    const result = await createDiscountCode(validated, "admin");
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.conflict ? 409 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      code: result.code,
+    });
+  } catch (error) {
+    console.error("Discount code create error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to create discount code" },
+      { status: 500 }
+    );
+  }
+}
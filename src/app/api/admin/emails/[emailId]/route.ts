@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import { retryEmail } from "@/lib/notifications/queue";
+
+interface RouteContext {
+  params: Promise<{ emailId: string }>;
+}
+
+/**
+ * POST - Send an email that ran out of attempts again
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { emailId } = await context.params;
+    const result = await retryEmail(emailId);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.notFound ? 404 : 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      email: result.email,
+    });
+  } catch (error) {
+    console.error("Email retry error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to retry email" },
+      { status: 500 }
+    );
+  }
+}
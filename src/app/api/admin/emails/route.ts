@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import { EMAIL_STATUSES, listEmails } from "@/lib/notifications/queue";
+
+/**
+ * Admin Outbound Email Log
+ *
+ * GET - Emails sent or queued, newest first
+ *
+ * Query: status (queued, sent, failed), orderId, to, limit, offset
+ */
+
+const emailQuerySchema = z.object({
+  status: z.enum(EMAIL_STATUSES).optional(),
+  orderId: z.string().min(1).optional(),
+  to: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const query = emailQuerySchema.parse(
+      Object.fromEntries(
+        [...request.nextUrl.searchParams.entries()].filter(([, value]) => value !== "")
+      )
+    );
+    const { emails, total } = await listEmails(query);
+
+    return NextResponse.json({
+      success: true,
+      emails,
+      pagination: {
+        total,
+        limit: query.limit,
+        offset: query.offset,
+        hasMore: query.offset + emails.length < total,
+      },
+    });
+  } catch (error) {
+    console.error("Email log fetch error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch emails" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import { issueDueInvoices, listOrderInvoices } from "@/lib/invoices/invoices";
+
+interface RouteContext {
+  params: Promise<{ orderId: string }>;
+}
+
+/**
+ * An order's tax documents
+ *
+ * GET  - Invoices and credit notes issued for the order
+ * POST - Issue the invoices the order is missing (e.g. after invoicing
+ *        was configured, or when issuing failed at payment time)
+ */
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { orderId } = await context.params;
+    const invoices = await listOrderInvoices(orderId);
+
+    return NextResponse.json({
+      success: true,
+      invoices,
+    });
+  } catch (error) {
+    console.error("List invoices error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch invoices" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { orderId } = await context.params;
+    const result = await issueDueInvoices(orderId);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.notFound ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      issued: result.invoices,
+      invoices: await listOrderInvoices(orderId),
+    });
+  } catch (error) {
+    console.error("Issue invoices error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to issue invoices" },
+      { status: 500 }
+    );
+  }
+}
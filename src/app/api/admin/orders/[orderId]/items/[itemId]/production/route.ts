@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import { recordProductionActuals } from "@/lib/pricing/labor-calibration";
+
+interface RouteContext {
+  params: Promise<{ orderId: string; itemId: string }>;
+}
+
+/**
+ * Record actual bench hours and finished weight for an order item
+ *
+ * Values are per piece. Recording again replaces the previous actuals.
+ */
+
+const productionSchema = z.object({
+  actualLaborHours: z.number().positive().max(500),
+  actualWeightGrams: z.number().positive().max(5000),
+  notes: z.string().max(1000).optional(),
+});
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { orderId, itemId } = await context.params;
+    const body = await request.json();
+    const validated = productionSchema.parse(body);
+
+    const result = await recordProductionActuals({
+      orderId,
+      orderItemId: itemId,
+      actualLaborHours: validated.actualLaborHours,
+      actualWeightGrams: validated.actualWeightGrams,
+      notes: validated.notes,
+      recordedBy: "admin",
+    });
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.notFound ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      record: result.record,
+    });
+  } catch (error) {
+    console.error("Production actuals error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to record production actuals" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,25 +1,46 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
+import { z } from "zod";
 import { authOptions } from "@/lib/auth/config";
-import { prisma } from "@/lib/db/prisma";
-import { getZCreditClient } from "@/lib/payments/zcredit";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import { getRefundSummary, refundOrder } from "@/lib/orders/refunds";
 
 interface RouteContext {
   params: Promise<{ orderId: string }>;
 }
 
 /**
- * Process a refund for an order
+ * Refunds for an order
  * Admin only endpoint
+ *
+ * GET  - Refund history and the remaining refundable balance
+ * POST - Refund part of the order, or everything still refundable
  */
-export async function POST(
+
+const refundSchema = z.object({
+  amount: z.number().positive().max(1000000).optional(), // Omit to refund the rest
+  reason: z.string().trim().max(1000).optional(),
+});
+
+// Admin panel cookie, or a signed-in admin user
+async function getRefundActor(): Promise<string | null> {
+  if (await isAdminAuthenticated()) {
+    return "admin";
+  }
+
+  const session = await getServerSession(authOptions);
+  if (session?.user && session.user.role === "admin") {
+    return session.user.email ?? "admin";
+  }
+  return null;
+}
+
+export async function GET(
   request: NextRequest,
   context: RouteContext
 ) {
   try {
-    // Check admin authentication
-    const session = await getServerSession(authOptions);
-    if (!session?.user || session.user.role !== "admin") {
+    if (!(await getRefundActor())) {
       return NextResponse.json(
         { success: false, error: "Unauthorized" },
         { status: 401 }
@@ -27,64 +48,67 @@ export async function POST(
     }
 
     const { orderId } = await context.params;
-    const body = await request.json();
-    const { amount } = body; // Optional partial refund amount
-
-    // Get order
-    const order = await prisma.order.findUnique({
-      where: { id: orderId },
-    });
-
-    if (!order) {
+    const result = await getRefundSummary(orderId);
+    if (!result.success) {
       return NextResponse.json(
-        { success: false, error: "Order not found" },
-        { status: 404 }
+        { success: false, error: result.error },
+        { status: result.notFound ? 404 : 400 }
       );
     }
 
-    if (order.status !== "paid") {
-      return NextResponse.json(
-        { success: false, error: "Order cannot be refunded - not in paid status" },
-        { status: 400 }
-      );
-    }
+    return NextResponse.json({
+      success: true,
+      summary: result.summary,
+    });
+  } catch (error) {
+    console.error("Refund summary error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch refunds" },
+      { status: 500 }
+    );
+  }
+}
 
-    if (!order.paymentReference) {
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const actor = await getRefundActor();
+    if (!actor) {
       return NextResponse.json(
-        { success: false, error: "No payment reference found for this order" },
-        { status: 400 }
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
       );
     }
 
-    // Process refund
-    const zcreditClient = getZCreditClient();
-    const result = await zcreditClient.refundTransaction(
-      order.paymentReference,
-      amount
-    );
+    const { orderId } = await context.params;
+    const body = await request.json();
+    const validated = refundSchema.parse(body);
 
+    const result = await refundOrder(orderId, {
+      amount: validated.amount,
+      reason: validated.reason || undefined,
+      actor,
+    });
     if (!result.success) {
       return NextResponse.json(
         { success: false, error: result.error },
-        { status: 500 }
+        { status: result.notFound ? 404 : result.conflict ? 409 : 400 }
       );
     }
 
-    // Update order status
-    await prisma.order.update({
-      where: { id: orderId },
-      data: {
-        status: amount && amount < order.total ? "partial_refund" : "refunded",
-        notes: `${order.notes || ""}\nRefund processed: ${result.refundGuid}`.trim(),
-      },
-    });
-
-    return NextResponse.json({
-      success: true,
-      refundGuid: result.refundGuid,
-    });
+    return NextResponse.json(result);
   } catch (error) {
     console.error("Refund error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { success: false, error: "Failed to process refund" },
       { status: 500 }
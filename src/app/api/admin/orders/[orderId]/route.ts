@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import { getOrderDetail, updateOrderNotes } from "@/lib/orders/admin-orders";
+
+interface RouteContext {
+  params: Promise<{ orderId: string }>;
+}
+
+/**
+ * A single order for the admin order view
+ *
+ * GET   - Items, payment, shipping address, notes, history, refunds and invoices
+ * PATCH - Replace the internal notes
+ *
+ * Status changes go through the status endpoint, refunds through the refund endpoint.
+ */
+
+const notesSchema = z.object({
+  notes: z.string().max(5000).nullable(),
+});
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { orderId } = await context.params;
+    const result = await getOrderDetail(orderId);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.notFound ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      order: result.order,
+    });
+  } catch (error) {
+    console.error("Admin order fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch order" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { orderId } = await context.params;
+    const body = await request.json();
+    const validated = notesSchema.parse(body);
+
+    const result = await updateOrderNotes(orderId, validated.notes?.trim() || null);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.notFound ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      notes: result.notes,
+    });
+  } catch (error) {
+    console.error("Admin order notes error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to update order notes" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import { getSettlementQuote, settleOrder } from "@/lib/orders/settlement";
+
+interface RouteContext {
+  params: Promise<{ orderId: string }>;
+}
+
+/**
+ * Settle a made-to-order piece once it is finished and weighed
+ *
+ * GET  - Suggested final amount from the recorded weights
+ * POST - Capture the final amount (authorize terms) or request the
+ *        balance (deposit terms)
+ */
+
+const settleSchema = z.object({
+  amount: z.number().positive().max(1000000),
+  locale: z.enum(["he", "en"]).default("he"), // Balance payment page language
+  note: z.string().max(1000).optional(),
+});
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { orderId } = await context.params;
+    const result = await getSettlementQuote(orderId);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.notFound ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      quote: result.quote,
+    });
+  } catch (error) {
+    console.error("Settlement quote error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch settlement" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { orderId } = await context.params;
+    const body = await request.json();
+    const validated = settleSchema.parse(body);
+
+    const result = await settleOrder(orderId, {
+      amount: validated.amount,
+      locale: validated.locale,
+      note: validated.note,
+      baseUrl: request.nextUrl.origin,
+    });
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.notFound ? 404 : result.conflict ? 409 : 400 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Settlement error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to settle order" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import { addShipmentEvent, shipmentEventInputSchema } from "@/lib/shipping/shipments";
+
+interface RouteContext {
+  params: Promise<{ orderId: string; shipmentId: string }>;
+}
+
+/**
+ * Add a tracking scan by hand
+ *
+ * A delivered scan on the order's last undelivered parcel marks the order delivered.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { orderId, shipmentId } = await context.params;
+    const body = await request.json();
+    const validated = shipmentEventInputSchema.parse(body);
+
+    const result = await addShipmentEvent(orderId, shipmentId, validated);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.notFound ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      shipment: result.shipment,
+    });
+  } catch (error) {
+    console.error("Admin shipment event error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to add tracking event" },
+      { status: 500 }
+    );
+  }
+}
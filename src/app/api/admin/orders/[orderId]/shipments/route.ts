@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import { createShipment, getOrderShipments, shipmentInputSchema } from "@/lib/shipping/shipments";
+
+interface RouteContext {
+  params: Promise<{ orderId: string }>;
+}
+
+/**
+ * An order's parcels
+ *
+ * GET  - Parcels with their tracking timelines
+ * POST - Record a parcel: carrier, tracking number, insured value and ship
+ *        date. The first parcel moves an order that passed its quality
+ *        check to shipped.
+ */
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { orderId } = await context.params;
+    const shipments = await getOrderShipments(orderId);
+
+    return NextResponse.json({
+      success: true,
+      shipments,
+    });
+  } catch (error) {
+    console.error("Admin shipments fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch shipments" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { orderId } = await context.params;
+    const body = await request.json();
+    const validated = shipmentInputSchema.parse(body);
+
+    const result = await createShipment(orderId, validated, "admin");
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.notFound ? 404 : result.conflict ? 409 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      shipment: result.shipment,
+    });
+  } catch (error) {
+    console.error("Admin shipment create error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to record shipment" },
+      { status: 500 }
+    );
+  }
+}
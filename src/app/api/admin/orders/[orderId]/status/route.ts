@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import { ADMIN_ORDER_STATUSES, getOrderTimeline, transitionOrder } from "@/lib/orders/lifecycle";
+
+interface RouteContext {
+  params: Promise<{ orderId: string }>;
+}
+
+/**
+ * Order status history, and moving an order along its lifecycle
+ *
+ * Admins move orders through fulfilment or cancel them. Orders are marked
+ * paid only by a verified payment, and refunded through the refund
+ * endpoint, which also refunds the payment.
+ */
+
+const statusSchema = z.object({
+  status: z.enum(ADMIN_ORDER_STATUSES),
+  note: z.string().max(1000).optional(),
+});
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { orderId } = await context.params;
+    const timeline = await getOrderTimeline(orderId);
+
+    return NextResponse.json({
+      success: true,
+      timeline,
+    });
+  } catch (error) {
+    console.error("Order timeline error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch order timeline" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { orderId } = await context.params;
+    const body = await request.json();
+    const validated = statusSchema.parse(body);
+
+    const result = await transitionOrder(orderId, validated.status, {
+      actor: "admin",
+      note: validated.note,
+    });
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.notFound ? 404 : 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: result.status,
+      event: result.event,
+    });
+  } catch (error) {
+    console.error("Order status error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to update order status" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import {
+  exportOrdersCsv,
+  listOrders,
+  orderFilterSchema,
+  orderListQuerySchema,
+} from "@/lib/orders/admin-orders";
+
+/**
+ * Admin Orders API
+ *
+ * GET - Orders matching the filters, newest first
+ *
+ * Query: status, gateway, customer (email or user ID), q (order number or
+ * email), from/to (YYYY-MM-DD), limit, offset. With format=csv the
+ * matching orders are downloaded as a CSV file instead.
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    // Empty form fields arrive as empty strings
+    const params = Object.fromEntries(
+      [...request.nextUrl.searchParams.entries()].filter(([, value]) => value !== "")
+    );
+
+    if (params.format === "csv") {
+      const filter = orderFilterSchema.parse(params);
+      const { csv, truncated } = await exportOrdersCsv(filter);
+      const date = new Date().toISOString().slice(0, 10);
+
+      return new NextResponse(csv, {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="orders-${date}.csv"`,
+          "Cache-Control": "private, no-store",
+          ...(truncated ? { "X-Export-Truncated": "true" } : {}),
+        },
+      });
+    }
+
+    const query = orderListQuerySchema.parse(params);
+    const { orders, total } = await listOrders(query);
+
+    return NextResponse.json({
+      success: true,
+      orders,
+      pagination: {
+        total,
+        limit: query.limit,
+        offset: query.offset,
+        hasMore: query.offset + orders.length < total,
+      },
+    });
+  } catch (error) {
+    console.error("Admin orders fetch error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch orders" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import {
+  getLaborCalibration,
+  getEstimatorBias,
+  listProductionRecords,
+  MIN_CALIBRATION_SAMPLES,
+} from "@/lib/pricing/labor-calibration";
+
+/**
+ * Admin Labor Calibration API
+ *
+ * GET - Correction factors by jewelry type and complexity, monthly
+ *       estimator bias and the most recent production records.
+ *       Query: months (default 12)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const months = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get("months") || "12", 10) || 12, 1), 36);
+
+    const [calibration, bias, records] = await Promise.all([
+      getLaborCalibration(),
+      getEstimatorBias(months),
+      listProductionRecords(20),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      calibration,
+      minSamples: MIN_CALIBRATION_SAMPLES,
+      bias,
+      records,
+    });
+  } catch (error) {
+    console.error("Labor calibration fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch labor calibration" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import { pricingRulesSchema, type PricingRules } from "@/lib/pricing/config";
+import { previewPricingRules } from "@/lib/pricing/config-preview";
+
+/**
+ * POST /api/admin/pricing/config/preview
+ *
+ * Recalculates recent designs with draft rules (non-AI path)
+ * and returns the price change against the active rules.
+ */
+
+const previewSchema = z.object({
+  rules: pricingRulesSchema,
+  limit: z.number().int().positive().max(100).optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validated = previewSchema.parse(body);
+
+    const preview = await previewPricingRules(validated.rules as PricingRules, {
+      limit: validated.limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      preview,
+    });
+  } catch (error) {
+    console.error("Pricing config preview error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to preview pricing rules" },
+      { status: 500 }
+    );
+  }
+}
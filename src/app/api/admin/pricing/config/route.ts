@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import {
+  getActivePricingConfig,
+  listPricingConfigVersions,
+  createPricingConfigVersion,
+  pricingRulesSchema,
+  type PricingRules,
+} from "@/lib/pricing/config";
+
+/**
+ * Admin Pricing Rules API
+ *
+ * GET  - Active rules plus the full version history
+ * POST - Publish a new version (optionally scheduled for a future date)
+ */
+
+const createVersionSchema = z.object({
+  rules: pricingRulesSchema,
+  effectiveAt: z.string().datetime().optional(),
+  note: z.string().max(500).optional(),
+});
+
+export async function GET() {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const [active, versions] = await Promise.all([
+      getActivePricingConfig(),
+      listPricingConfigVersions().catch((error) => {
+        console.error("Pricing config history error:", error);
+        return [];
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      active,
+      versions,
+    });
+  } catch (error) {
+    console.error("Pricing config fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch pricing rules" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validated = createVersionSchema.parse(body);
+
+    const version = await createPricingConfigVersion({
+      rules: validated.rules as PricingRules,
+      effectiveAt: validated.effectiveAt ? new Date(validated.effectiveAt) : undefined,
+      note: validated.note,
+      createdBy: "admin",
+    });
+
+    return NextResponse.json({
+      success: true,
+      version,
+    });
+  } catch (error) {
+    console.error("Pricing config create error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to save pricing rules" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import {
+  getGemstonePriceTable,
+  listGemstonePriceTableVersions,
+  setGemstonePriceTable,
+  gemstonePriceTableSchema,
+  GEMSTONE_CARAT_BANDS,
+  type GemstonePriceTable,
+} from "@/lib/pricing/gemstones";
+
+/**
+ * Admin Gemstone Prices API
+ *
+ * GET  - Active species tables plus the version history
+ * POST - Save a new version of the tables (USD per carat)
+ */
+
+const saveTableSchema = z.object({
+  table: gemstonePriceTableSchema,
+  note: z.string().max(500).optional(),
+});
+
+export async function GET() {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const [active, versions] = await Promise.all([
+      getGemstonePriceTable(),
+      listGemstonePriceTableVersions().catch((error) => {
+        console.error("Gemstone price history error:", error);
+        return [];
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      active,
+      versions,
+      caratBands: GEMSTONE_CARAT_BANDS,
+    });
+  } catch (error) {
+    console.error("Gemstone prices fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch gemstone prices" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validated = saveTableSchema.parse(body);
+
+    const version = await setGemstonePriceTable({
+      table: validated.table as Partial<GemstonePriceTable>,
+      note: validated.note,
+      createdBy: "admin",
+    });
+
+    return NextResponse.json({
+      success: true,
+      version,
+    });
+  } catch (error) {
+    console.error("Gemstone prices save error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to save gemstone prices" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import {
+  getManualMetalPrices,
+  getMetalPriceProviderStatus,
+  setManualMetalPrices,
+  manualMetalPricesSchema,
+} from "@/lib/pricing/metal-providers";
+
+/**
+ * Admin Metal Price Providers API
+ *
+ * GET  - Provider priority/configuration and the current manual prices
+ * POST - Enter new manual prices (ILS per gram, pure metal)
+ */
+
+const manualPricesRequestSchema = z.object({
+  prices: manualMetalPricesSchema,
+  note: z.string().max(500).optional(),
+});
+
+export async function GET() {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const [providers, manual] = await Promise.all([
+      getMetalPriceProviderStatus(),
+      getManualMetalPrices(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      providers,
+      manual,
+    });
+  } catch (error) {
+    console.error("Metal providers fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch metal price providers" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validated = manualPricesRequestSchema.parse(body);
+
+    const manual = await setManualMetalPrices({
+      prices: validated.prices,
+      note: validated.note,
+      createdBy: "admin",
+    });
+
+    return NextResponse.json({
+      success: true,
+      manual,
+    });
+  } catch (error) {
+    console.error("Manual metal prices error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to save manual metal prices" },
+      { status: 500 }
+    );
+  }
+}
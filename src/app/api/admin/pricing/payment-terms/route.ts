@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import {
+  getPaymentTerms,
+  listPaymentTermsVersions,
+  setPaymentTerms,
+  paymentTermsSchema,
+} from "@/lib/payments/payment-terms";
+
+/**
+ * Admin Payment Terms API
+ *
+ * GET  - Active terms plus the version history
+ * POST - Save a new version of the terms
+ */
+
+const saveTermsSchema = z.object({
+  terms: paymentTermsSchema,
+  note: z.string().max(500).optional(),
+});
+
+export async function GET() {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const [active, versions] = await Promise.all([
+      getPaymentTerms(),
+      listPaymentTermsVersions().catch((error) => {
+        console.error("Payment terms history error:", error);
+        return [];
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      active,
+      versions,
+    });
+  } catch (error) {
+    console.error("Payment terms fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch payment terms" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validated = saveTermsSchema.parse(body);
+
+    const version = await setPaymentTerms({
+      terms: validated.terms,
+      note: validated.note,
+      createdBy: "admin",
+    });
+
+    return NextResponse.json({
+      success: true,
+      version,
+    });
+  } catch (error) {
+    console.error("Payment terms save error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to save payment terms" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import {
+  runBulkReprice,
+  listRepriceRuns,
+  getRepriceThresholdPercent,
+} from "@/lib/pricing/bulk-reprice";
+
+/**
+ * Admin Bulk Repricing API
+ *
+ * GET  - Recent repricing runs with their old/new price reports
+ * POST - Reprice now, optionally with a different threshold
+ */
+
+const runRepriceSchema = z.object({
+  thresholdPercent: z.number().positive().max(100).optional(),
+});
+
+export async function GET() {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const runs = await listRepriceRuns();
+
+    return NextResponse.json({
+      success: true,
+      runs,
+      thresholdPercent: getRepriceThresholdPercent(),
+    });
+  } catch (error) {
+    console.error("Reprice runs fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch repricing runs" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validated = runRepriceSchema.parse(body);
+
+    const result = await runBulkReprice({
+      trigger: "manual",
+      thresholdPercent: validated.thresholdPercent,
+    });
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.conflict ? 409 : 503 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      run: result.run,
+    });
+  } catch (error) {
+    console.error("Bulk reprice error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to reprice designs" },
+      { status: 500 }
+    );
+  }
+}
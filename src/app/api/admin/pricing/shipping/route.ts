@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import {
+  getShippingTaxRules,
+  listShippingTaxRuleVersions,
+  setShippingTaxRules,
+  shippingTaxRulesSchema,
+} from "@/lib/pricing/shipping-tax";
+
+/**
+ * Admin Shipping & Tax Rules API
+ *
+ * GET  - Active rules plus the version history
+ * POST - Save a new version of the rules
+ */
+
+const saveRulesSchema = z.object({
+  rules: shippingTaxRulesSchema,
+  note: z.string().max(500).optional(),
+});
+
+export async function GET() {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const [active, versions] = await Promise.all([
+      getShippingTaxRules(),
+      listShippingTaxRuleVersions().catch((error) => {
+        console.error("Shipping rules history error:", error);
+        return [];
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      active,
+      versions,
+    });
+  } catch (error) {
+    console.error("Shipping rules fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch shipping and tax rules" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validated = saveRulesSchema.parse(body);
+
+    const version = await setShippingTaxRules({
+      rules: validated.rules,
+      note: validated.note,
+      createdBy: "admin",
+    });
+
+    return NextResponse.json({
+      success: true,
+      version,
+    });
+  } catch (error) {
+    console.error("Shipping rules save error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to save shipping and tax rules" },
+      { status: 500 }
+    );
+  }
+}
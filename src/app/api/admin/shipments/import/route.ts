@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import { importShipments } from "@/lib/shipping/shipments";
+
+/**
+ * Import tracking numbers for many orders at once
+ *
+ * Body: { csv } with lines of order_number, tracking_number, carrier,
+ * insured_value, shipped_at. Responds with the outcome of each line.
+ */
+
+const importSchema = z.object({
+  csv: z.string().min(1).max(200_000),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const isAdmin = await isAdminAuthenticated();
+    if (!isAdmin) {
+      return NextResponse.json(
+        { success: false, error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validated = importSchema.parse(body);
+
+    const result = await importShipments(validated.csv, "admin");
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      results: result.results,
+    });
+  } catch (error) {
+    console.error("Shipment import error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to import tracking" },
+      { status: 500 }
+    );
+  }
+}
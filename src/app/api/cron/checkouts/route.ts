@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelExpiredCheckouts } from "@/lib/payments/payment-callbacks";
+
+/**
+ * GET /api/cron/checkouts
+ *
+ * Cancels orders left unpaid after their payment session expired, run
+ * hourly by Vercel Cron (vercel.json) with `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await cancelExpiredCheckouts();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    console.error("Expired checkout run error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to cancel expired checkouts" },
+      { status: 500 }
+    );
+  }
+}
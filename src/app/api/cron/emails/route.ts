@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { processEmailQueue } from "@/lib/notifications/queue";
+
+/**
+ * GET /api/cron/emails
+ *
+ * Retries queued emails whose transport failed, run every five minutes
+ * by Vercel Cron (vercel.json) with `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const summary = await processEmailQueue();
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+    });
+  } catch (error) {
+    console.error("Email queue run error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to process the email queue" },
+      { status: 500 }
+    );
+  }
+}
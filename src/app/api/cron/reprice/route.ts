@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runBulkReprice } from "@/lib/pricing/bulk-reprice";
+
+/**
+ * GET /api/cron/reprice
+ *
+ * Scheduled bulk repricing, run daily before the Israeli business day by
+ * Vercel Cron (vercel.json), which sends `Authorization: Bearer $CRON_SECRET`.
+ * Designs are only repriced when their metal moved past
+ * REPRICE_THRESHOLD_PERCENT; quotes in carts for repriced designs expire.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await runBulkReprice({ trigger: "scheduled" });
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.conflict ? 409 : 503 }
+      );
+    }
+
+    const { run } = result;
+    return NextResponse.json({
+      success: true,
+      run: {
+        id: run.id,
+        scanned: run.scanned,
+        repriced: run.repriced,
+        failed: run.failed,
+      },
+    });
+  } catch (error) {
+    console.error("Scheduled reprice error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to reprice designs" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,11 +3,18 @@ import { z } from "zod";
 import { prisma } from "@/lib/db/prisma";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth/config";
-import { calculatePriceAdvanced } from "@/lib/pricing/calculator";
+import { applyDiamondOrigin, type Stone } from "@/lib/pricing/calculator";
+import { calculatePriceWithSnapshot, recordPricingSnapshot } from "@/lib/pricing/snapshots";
+import { parseJewelrySize, formatJewelrySize } from "@/lib/pricing/sizes";
+import { STONE_TYPES, STONE_QUALITIES, GEMSTONE_TREATMENTS } from "@/lib/pricing/gemstones";
+import { DIAMOND_ORIGINS } from "@/lib/pricing/stone-origin";
+import { measureModel } from "@/lib/pricing/mesh-volume";
 
 /**
  * Save Design API - Persists user designs to database with pricing estimation
  * 
+ * Every calculated price is also stored as an immutable pricing snapshot.
+ * 
  * This is called when:
  * 1. User generates variations (saves as draft)
  * 2. User enhances image (updates design)
@@ -15,12 +22,14 @@ import { calculatePriceAdvanced } from "@/lib/pricing/calculator";
  */
 
 const stoneSchema = z.object({
-  type: z.enum(["diamond", "sapphire", "ruby", "emerald"]),
+  type: z.enum(STONE_TYPES),
   size: z.union([
     z.enum(["tiny", "small", "medium", "large", "statement"]),
     z.number().positive(),
   ]),
-  quality: z.enum(["economy", "standard", "premium", "luxury"]).optional(),
+  quality: z.enum(STONE_QUALITIES).optional(),
+  treatment: z.enum(GEMSTONE_TREATMENTS).optional(),
+  origin: z.enum(DIAMOND_ORIGINS).optional(),
   quantity: z.number().int().positive(),
 });
 
@@ -37,8 +46,10 @@ const saveDesignSchema = z.object({
   thumbnailUrl: z.string().url().optional(),
   modelUrl: z.string().optional(), // Can be a proxied URL starting with /api/
   stones: z.array(stoneSchema).optional(),
+  diamondOrigin: z.enum(DIAMOND_ORIGINS).optional(), // Natural or lab-grown for every diamond
   complexity: z.enum(["simple", "moderate", "complex", "master"]).optional(),
   size: z.enum(["small", "medium", "large"]).optional(),
+  jewelrySize: z.string().max(20).optional(), // Ring size, chain length or wrist size in any supported system
   chatHistory: z.array(z.any()).optional(),
   status: z.enum(["draft", "saved", "ordered"]).optional(),
   tripoTaskId: z.string().optional(),
@@ -49,40 +60,76 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validated = saveDesignSchema.parse(body);
     
+    const parsedSize = parseJewelrySize(validated.jewelryType, validated.jewelrySize);
+    if (!parsedSize.success) {
+      return NextResponse.json(
+        { success: false, error: parsedSize.error },
+        { status: 400 }
+      );
+    }
+    const jewelrySize = parsedSize.size ? formatJewelrySize(parsedSize.size) : null;
+    
     // Get user session (optional - allows anonymous designs too)
     const session = await getServerSession(authOptions);
     const userId = session?.user?.id || null;
     
     // Calculate price estimation using image analysis if available
     let estimatedPrice: number | null = null;
+    let pricing: Awaited<ReturnType<typeof calculatePriceWithSnapshot>> | null = null;
+    let pricingConfigVersion: number | null = null;
+    let weightGrams: number | null = null;
+    // Stones with their origin disclosed - detected from the image when available
+    let stones: Stone[] = applyDiamondOrigin((validated.stones || []) as Stone[], validated.diamondOrigin);
     let complexity = validated.complexity || "moderate";
     
+    // Measure the 3D model when we have one - the metal volume drives the price
+    const measurement = validated.modelUrl
+      ? await measureModel(validated.modelUrl, validated.jewelryType)
+      : null;
+    
     try {
-      const priceBreakdown = await calculatePriceAdvanced({
+      pricing = await calculatePriceWithSnapshot({
         material: validated.material,
         jewelryType: validated.jewelryType,
         description: validated.prompt,
         size: validated.size || "medium",
-        stones: validated.stones as any,
+        volumeCm3: measurement?.volumeCm3,
+        jewelrySize: parsedSize.size ?? undefined,
+        stones,
+        diamondOrigin: validated.diamondOrigin,
         complexity,
         includeAIEstimate: true,
         // Use thumbnail URL for image-based analysis
         imageUrl: validated.thumbnailUrl,
       });
+      const priceBreakdown = pricing.breakdown;
       
       estimatedPrice = priceBreakdown.total;
+      pricingConfigVersion = priceBreakdown.metadata.configVersion;
+      weightGrams = priceBreakdown.materials.weightGrams;
+      stones = priceBreakdown.stones.specs;
       
       // Use AI-estimated complexity if available
       if (priceBreakdown.aiEstimate?.confidence) {
         complexity = priceBreakdown.aiEstimate.complexity || complexity;
       }
       
-      console.log(`[Save] Price calculated: ₪${estimatedPrice} (${complexity} complexity, source: ${priceBreakdown.metadata.laborSource})`);
+      console.log(`[Save] Price calculated: ₪${estimatedPrice} (${complexity} complexity, source: ${priceBreakdown.metadata.laborSource}, volume: ${priceBreakdown.materials.volumeSource})`);
     } catch (error) {
       console.error("Failed to calculate price:", error);
       // Continue without price - not a critical error
     }
     
+    // Freeze the calculated price for this design
+    const snapshotPrice = async (designId: string) => {
+      if (!pricing) return;
+      try {
+        await recordPricingSnapshot({ source: "design_save", designId, ...pricing });
+      } catch (error) {
+        console.error("[Save] Failed to record pricing snapshot:", error);
+      }
+    };
+    
     // Check if we're updating or creating
     if (validated.designId) {
       // Update existing design
@@ -93,17 +140,21 @@ export async function POST(request: NextRequest) {
           jewelryType: validated.jewelryType,
           targetGender: validated.targetGender,
           material: validated.material,
+          ...(validated.jewelrySize !== undefined && { jewelrySize }),
           thumbnailUrl: validated.thumbnailUrl,
           modelUrl: validated.modelUrl,
-          stones: validated.stones || [],
+          stones: JSON.parse(JSON.stringify(stones)),
           complexity,
           estimatedPrice,
+          pricingConfigVersion,
+          ...(measurement && { volumeCm3: measurement.volumeCm3, weightGrams }),
           chatHistory: validated.chatHistory || [],
           status: validated.status || "draft",
           name: validated.name,
           tripoTaskId: validated.tripoTaskId,
         },
       });
+      await snapshotPrice(design.id);
       
       return NextResponse.json({
         success: true,
@@ -122,17 +173,21 @@ export async function POST(request: NextRequest) {
           jewelryType: validated.jewelryType,
           targetGender: validated.targetGender,
           material: validated.material,
+          jewelrySize,
           thumbnailUrl: validated.thumbnailUrl,
           modelUrl: validated.modelUrl,
-          stones: validated.stones || [],
+          stones: JSON.parse(JSON.stringify(stones)),
           complexity,
           estimatedPrice,
+          pricingConfigVersion,
+          ...(measurement && { volumeCm3: measurement.volumeCm3, weightGrams }),
           chatHistory: validated.chatHistory || [],
           status: validated.status || "draft",
           name: validated.name,
           tripoTaskId: validated.tripoTaskId,
         },
       });
+      await snapshotPrice(design.id);
       
       return NextResponse.json({
         success: true,
@@ -1,5 +1,7 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { getTripoClient } from "@/lib/ai/tripo3d";
+import { storeTaskMeasurement } from "@/lib/pricing/mesh-volume";
+import { notifyDesignReady } from "@/lib/notifications/notifications";
 
 // Store preview images temporarily (in production, use Redis or database)
 const previewImageCache = new Map<string, string>();
@@ -32,6 +34,14 @@ export async function GET(request: NextRequest) {
       ? `/api/proxy/model?url=${encodeURIComponent(rawModelUrl)}`
       : null;
 
+    // Measure the finished mesh so pricing uses the real metal volume,
+    // without holding up the poll on the model download
+    if (task.status === "success" && rawModelUrl) {
+      after(() => storeTaskMeasurement(taskId, rawModelUrl));
+      // Owners of designs saved while the model was generating hear it is ready
+      await notifyDesignReady(taskId, request.cookies.get("NEXT_LOCALE")?.value);
+    }
+
     // Get preview image from cache if available
     const previewImageUrl = previewImageCache.get(taskId) || null;
 
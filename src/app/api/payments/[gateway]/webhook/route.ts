@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { archiveOrderItemAssets } from "@/lib/orders/order-items";
+import { isPaymentGatewayId } from "@/lib/payments/gateway";
+import { processPaymentCallback, type CallbackResult } from "@/lib/payments/payment-callbacks";
+
+interface RouteContext {
+  params: Promise<{ gateway: string }>;
+}
+
+/**
+ * Payment Gateway Webhook Handler
+ * Receives payment notifications after successful/failed payments.
+ * Orders are only marked paid once the transaction is confirmed with the gateway.
+ */
+
+// Gateways retry a callback that does not get a 200
+function toResponse(result: CallbackResult): NextResponse {
+  switch (result.outcome) {
+    case "not_found":
+      return new NextResponse("Order not found", { status: 404 });
+    case "rejected":
+      return new NextResponse("Callback rejected", { status: 400 });
+    case "error":
+      return new NextResponse("Verification unavailable", { status: 503 });
+    default:
+      // Gateways expect an empty response with 200 status
+      return new NextResponse("OK", { status: 200 });
+  }
+}
+
+// Copy the items' thumbnails and models to order storage once the order is paid
+function archivePaidOrder(result: CallbackResult): void {
+  const { outcome, orderId } = result;
+  if (outcome === "paid" && orderId) {
+    after(() => archiveOrderItemAssets(orderId));
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { gateway } = await context.params;
+  if (!isPaymentGatewayId(gateway)) {
+    return new NextResponse("Unknown gateway", { status: 404 });
+  }
+
+  try {
+    const formData = await request.formData();
+
+    const raw: Record<string, string> = {};
+    formData.forEach((value, key) => {
+      raw[key] = typeof value === "string" ? value : value.name;
+    });
+
+    const result = await processPaymentCallback(gateway, raw, { source: "webhook_post" });
+    archivePaidOrder(result);
+    return toResponse(result);
+  } catch (error) {
+    console.error(`${gateway} webhook error:`, error);
+    return new NextResponse("Internal server error", { status: 500 });
+  }
+}
+
+// Also handle GET requests (sometimes used for verification)
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { gateway } = await context.params;
+  if (!isPaymentGatewayId(gateway)) {
+    return new NextResponse("Unknown gateway", { status: 404 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+
+  // Without callback parameters this is a reachability check
+  if (searchParams.size === 0) {
+    return new NextResponse("OK", { status: 200 });
+  }
+
+  try {
+    const result = await processPaymentCallback(gateway, Object.fromEntries(searchParams.entries()), {
+      source: "webhook_get",
+    });
+    archivePaidOrder(result);
+    return toResponse(result);
+  } catch (error) {
+    console.error(`${gateway} webhook (GET) error:`, error);
+    return new NextResponse("Internal server error", { status: 500 });
+  }
+}
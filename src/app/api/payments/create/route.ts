@@ -0,0 +1,332 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth/config";
+import { getActivePaymentGateway } from "@/lib/payments/gateway";
+import { cancelDeclinedCheckouts } from "@/lib/payments/payment-callbacks";
+import { getPaymentTerms, planCheckoutPayment } from "@/lib/payments/payment-terms";
+import { prisma } from "@/lib/db/prisma";
+import { placedStatusEvent, transitionOrder, type OrderActor } from "@/lib/orders/lifecycle";
+import { buildOrderItems } from "@/lib/orders/order-items";
+import { repriceCartItems } from "@/lib/pricing/reprice";
+import { diamondOriginDisclosure } from "@/lib/pricing/stone-origin";
+import {
+  evaluateDiscountCode,
+  redeemDiscountCode,
+  releaseDiscountCode,
+  type AppliedDiscount,
+} from "@/lib/pricing/discounts";
+import {
+  getShippingTaxRules,
+  calculateCheckoutTotals,
+  normalizeCountry,
+  type ShippingMethod,
+} from "@/lib/pricing/shipping-tax";
+
+interface CartItem {
+  id: string;
+  designId: string;
+  name: string;
+  thumbnailUrl?: string;
+  price: number;
+  quantity: number;
+  jewelryType: string;
+  material: string;
+  size?: string;
+  quoteId?: string;
+}
+
+interface CreatePaymentRequest {
+  items: CartItem[];
+  shippingInfo: {
+    name: string;
+    email: string;
+    phone: string;
+    street: string;
+    city: string;
+    postalCode?: string;
+    country: string;
+  };
+  locale: string;
+  installments?: number;
+  discountCode?: string;
+  shippingMethod?: ShippingMethod;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const body: CreatePaymentRequest = await request.json();
+
+    const { items, shippingInfo, locale, installments = 1, discountCode, shippingMethod = "standard" } = body;
+
+    if (!items || items.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "No items in cart" },
+        { status: 400 }
+      );
+    }
+
+    if (!shippingInfo || !shippingInfo.name || !shippingInfo.email || !shippingInfo.phone) {
+      return NextResponse.json(
+        { success: false, error: "Missing shipping information" },
+        { status: 400 }
+      );
+    }
+
+    // Recompute every unit price on the server - never trust client prices
+    const repricing = await repriceCartItems(items);
+
+    if (!repricing.success) {
+      return NextResponse.json(
+        { success: false, error: repricing.error, itemId: repricing.itemId },
+        { status: 400 }
+      );
+    }
+
+    // Ask the client to confirm new prices if a quote expired
+    // or a price moved beyond tolerance
+    if (repricing.items.some(item => !item.withinTolerance)) {
+      const quoteExpired = repricing.items.some(item => item.quoteStatus === "expired");
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: quoteExpired
+            ? "Your price quote has expired"
+            : "Prices have changed since the items were added to the cart",
+          code: quoteExpired ? "QUOTE_EXPIRED" : "PRICE_CHANGED",
+          items: repricing.items.map(item => ({
+            id: item.id,
+            designId: item.designId,
+            previousPrice: item.clientPrice,
+            price: item.unitPrice,
+            quoteId: item.quoteId,
+            quoteExpiresAt: item.quoteExpiresAt,
+          })),
+        },
+        { status: 409 }
+      );
+    }
+
+    // A declined earlier checkout would still hold its discount code use
+    await cancelDeclinedCheckouts({ userId: session?.user?.id, email: shippingInfo.email });
+
+    // Apply the discount code against the server prices
+    let discount: AppliedDiscount | null = null;
+    if (discountCode?.trim()) {
+      const evaluation = await evaluateDiscountCode(discountCode, {
+        lines: repricing.items.map(item => ({
+          id: item.id,
+          jewelryType: item.jewelryType,
+          material: item.material,
+          unitPrice: item.unitPrice,
+          quantity: item.quantity,
+        })),
+        userId: session?.user?.id,
+        email: shippingInfo.email,
+      });
+
+      if (!evaluation.success) {
+        return NextResponse.json(
+          { success: false, error: evaluation.error, code: "DISCOUNT_INVALID", reason: evaluation.reason },
+          { status: 400 }
+        );
+      }
+      discount = evaluation.discount;
+    }
+
+    const pricedItems = items.map((item, index) => ({
+      ...item,
+      material: repricing.items[index].material,
+      size: repricing.items[index].size,
+      sizeDetails: repricing.items[index].sizeDetails,
+      diamondOrigin: repricing.items[index].diamondOrigin,
+      price: repricing.items[index].unitPrice,
+      unitDiscount: discount?.items.find(line => line.id === item.id)?.unitDiscount ?? 0,
+      quoteId: repricing.items[index].quoteId,
+    }));
+
+    // Check if cart only contains test products
+    const isTestOrder = repricing.items.every(item => item.isTestProduct);
+    
+    // Calculate totals from the shipping and tax rules (no shipping/tax for test orders)
+    const { rules } = await getShippingTaxRules();
+    const totalsResult = calculateCheckoutTotals(rules, {
+      lines: repricing.items,
+      destination: { country: shippingInfo.country || "IL", city: shippingInfo.city },
+      method: shippingMethod,
+      discount,
+      isTestOrder,
+    });
+
+    if (!totalsResult.success) {
+      return NextResponse.json(
+        { success: false, error: totalsResult.error, code: "SHIPPING_UNAVAILABLE", reason: totalsResult.reason },
+        { status: 400 }
+      );
+    }
+    const totals = totalsResult.totals;
+
+    // Made-to-order pieces may only be partly charged (or held) now
+    const { terms } = await getPaymentTerms();
+    const plan = planCheckoutPayment(terms, totals.total, { isTestOrder });
+
+    // Throws if the configured gateway has no credentials
+    const gateway = getActivePaymentGateway();
+
+    // Order items keep their own copy of each design
+    const orderItems = await buildOrderItems(
+      pricedItems.map((item, index) => ({
+        designId: item.designId,
+        material: item.material,
+        size: item.size,
+        sizeDetails: item.sizeDetails,
+        quantity: item.quantity,
+        unitPrice: item.price,
+        unitDiscount: item.unitDiscount,
+        isTestProduct: repricing.items[index].isTestProduct,
+        pricing: repricing.items[index].pricing,
+      }))
+    );
+
+    // Reserve a use of the code - another checkout may have taken the last one
+    if (discount && !(await redeemDiscountCode(discount.codeId))) {
+      return NextResponse.json(
+        { success: false, error: "This discount code has been fully redeemed", code: "DISCOUNT_INVALID", reason: "usage_limit" },
+        { status: 400 }
+      );
+    }
+
+    // Create order in database
+    const order = await prisma.order.create({
+      data: {
+        userId: session?.user?.id || undefined,
+        status: "pending",
+        statusEvents: placedStatusEvent(),
+        total: totals.total,
+        subtotal: totals.subtotal,
+        tax: totals.tax,
+        taxRate: totals.taxRate,
+        shipping: totals.shipping,
+        shippingMethod: totals.shippingMethod,
+        currency: "ILS",
+        customerName: shippingInfo.name,
+        customerEmail: shippingInfo.email,
+        customerPhone: shippingInfo.phone,
+        locale: locale === "en" ? "en" : "he",
+        shippingAddress: {
+          street: shippingInfo.street,
+          city: shippingInfo.city,
+          postalCode: shippingInfo.postalCode,
+          country: normalizeCountry(shippingInfo.country || "IL"),
+        },
+        items: { create: orderItems },
+        itemsJson: JSON.parse(JSON.stringify(pricedItems)),
+        paymentGateway: gateway.id,
+        paymentMode: plan.mode,
+        depositAmount: plan.mode === "deposit" ? plan.chargeNow : null,
+        authorizedAmount: plan.mode === "authorize" ? plan.chargeNow : null,
+        balanceDue: plan.balanceDue,
+        discountCodeId: discount?.codeId,
+        discount: totals.discount,
+        discountDetails: discount ? JSON.parse(JSON.stringify(discount)) : undefined,
+      },
+    }).catch(async (error) => {
+      if (discount) await releaseDiscountCode(discount.codeId);
+      throw error;
+    });
+
+    // Until the payment page is open the order can still fall through -
+    // cancel it and give back its discount code use
+    const cancelUnpaidOrder = async (actor: OrderActor, reason: string) => {
+      const cancelled = await transitionOrder(order.id, "cancelled", {
+        actor,
+        note: reason,
+        data: { notes: reason },
+      });
+      if (cancelled.success && discount) await releaseDiscountCode(discount.codeId);
+    };
+
+    try {
+      // Get the base URL for callbacks
+      // Use the request origin for production compatibility (don't rely on NEXTAUTH_URL which may be localhost)
+      const baseUrl = request.nextUrl.origin;
+
+      const description = items.length === 1
+        ? items[0].name
+        : `${items.length} ${locale === "he" ? "פריטים" : "items"}`;
+
+      const result = await gateway.createPayment({
+        orderId: order.id,
+        amount: plan.chargeNow,
+        installments,
+        locale: locale === "he" ? "he" : "en",
+        description,
+        // The item prices only add up to the full total - a deposit or padded hold is one line
+        items: plan.chargeNow !== totals.total ? [{
+          name: [
+            plan.mode === "deposit" ? `${locale === "he" ? "מקדמה" : "Deposit"}: ${description}` : description,
+            ...new Set(pricedItems.flatMap(item =>
+              item.diamondOrigin ? [`(${diamondOriginDisclosure(item.diamondOrigin, locale)})`] : []
+            )),
+          ].join(" "),
+          quantity: 1,
+          unitPrice: plan.chargeNow,
+        }] : pricedItems.map((item) => ({
+          // Diamond origin disclosure is legally required on the payment page
+          name: [
+            item.name,
+            item.diamondOrigin && `(${diamondOriginDisclosure(item.diamondOrigin, locale)})`,
+            item.unitDiscount > 0 && discount && `[${discount.code}]`,
+          ].filter(Boolean).join(" "),
+          imageUrl: item.thumbnailUrl,
+          sku: item.designId,
+          quantity: item.quantity,
+          unitPrice: item.price - item.unitDiscount,
+        })),
+        customer: {
+          name: shippingInfo.name,
+          email: shippingInfo.email,
+          phone: shippingInfo.phone,
+        },
+        redirectUrl: `${baseUrl}/${locale}/checkout/complete?orderId=${order.id}`,
+        notifyUrl: `${baseUrl}/api/payments/${gateway.id}/webhook`,
+        cancelUrl: `${baseUrl}/${locale}/checkout?cancelled=true`,
+        authorizeOnly: plan.authorizeOnly,
+      });
+
+      if (!result.success) {
+        // The payment page was never opened - cancel the order
+        await cancelUnpaidOrder(gateway.id, result.error);
+
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: 500 }
+        );
+      }
+
+      // Update order with payment info
+      await prisma.order.update({
+        where: { id: order.id },
+        data: { paymentReference: result.reference },
+      });
+
+      return NextResponse.json({
+        success: true,
+        paymentUrl: result.paymentUrl,
+        orderId: order.id,
+      });
+    } catch (error) {
+      await cancelUnpaidOrder("system", error instanceof Error ? error.message : "Checkout failed").catch((cancelError) =>
+        console.error(`Failed to cancel order ${order.id} after a checkout error:`, cancelError)
+      );
+      throw error;
+    }
+  } catch (error) {
+    console.error("Payment creation error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
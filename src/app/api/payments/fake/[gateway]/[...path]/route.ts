@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isFakeGatewayEnabled, fakeNotFound } from "@/lib/payments/fakes/shared";
+import { handleFakeZCredit } from "@/lib/payments/fakes/zcredit";
+import { handleFakeTranzila } from "@/lib/payments/fakes/tranzila";
+import { handleFakeMeshulam } from "@/lib/payments/fakes/meshulam";
+
+interface RouteContext {
+  params: Promise<{ gateway: string; path: string[] }>;
+}
+
+/**
+ * Fake Payment Gateways
+ * Local stand-ins for the gateway APIs - see lib/payments/fakes/shared.ts.
+ * Only served in development or with PAYMENT_FAKE_GATEWAYS=true.
+ */
+async function handle(request: NextRequest, context: RouteContext) {
+  if (!isFakeGatewayEnabled()) {
+    return new NextResponse("Not found", { status: 404 });
+  }
+
+  const { gateway, path } = await context.params;
+  const subPath = path.join("/");
+  const baseUrl = `${request.nextUrl.origin}/api/payments/fake/${gateway}`;
+
+  try {
+    switch (gateway) {
+      case "zcredit":
+        return await handleFakeZCredit(request, subPath, baseUrl);
+      case "tranzila":
+        return await handleFakeTranzila(request, subPath, baseUrl);
+      case "meshulam":
+        return await handleFakeMeshulam(request, subPath, baseUrl);
+      default:
+        return fakeNotFound("Gateway");
+    }
+  } catch (error) {
+    console.error(`[FakeGateway] ${gateway}/${subPath} error:`, error);
+    return NextResponse.json({ error: "Fake gateway error" }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
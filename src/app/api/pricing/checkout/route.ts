@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth/config";
+import { evaluateDiscountCode, type AppliedDiscount } from "@/lib/pricing/discounts";
+import { isTestProduct } from "@/lib/pricing/reprice";
+import { getPaymentTerms, planCheckoutPayment } from "@/lib/payments/payment-terms";
+import {
+  getShippingTaxRules,
+  calculateCheckoutTotals,
+  SHIPPING_METHODS,
+} from "@/lib/pricing/shipping-tax";
+
+// Cart as shown at checkout
+const checkoutTotalsSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        designId: z.string().min(1),
+        jewelryType: z.string().optional(),
+        material: z.string(),
+        price: z.number().nonnegative(),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .min(1),
+  country: z.string().min(1).default("IL"),
+  city: z.string().optional(),
+  shippingMethod: z.enum(SHIPPING_METHODS).optional(),
+  discountCode: z.string().trim().max(32).optional(),
+  email: z.string().email().optional(),
+});
+
+/**
+ * POST /api/pricing/checkout
+ *
+ * Shipping options, discount, VAT and total for the cart as displayed,
+ * and how much of the total is charged now under the payment terms.
+ * Checkout shows these amounts as-is; the order is priced again from the
+ * server-side item prices when it is created.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    const body = await request.json();
+    const validated = checkoutTotalsSchema.parse(body);
+
+    const lines = validated.items.map((item) => ({
+      id: item.id,
+      jewelryType: item.jewelryType,
+      material: item.material,
+      unitPrice: item.price,
+      quantity: item.quantity,
+    }));
+
+    let discount: AppliedDiscount | null = null;
+    let discountError: { error: string; reason: string } | null = null;
+    if (validated.discountCode) {
+      const evaluation = await evaluateDiscountCode(validated.discountCode, {
+        lines,
+        userId: session?.user?.id,
+        email: validated.email,
+      });
+      if (evaluation.success) {
+        discount = evaluation.discount;
+      } else {
+        discountError = { error: evaluation.error, reason: evaluation.reason };
+      }
+    }
+
+    const isTestOrder = validated.items.every((item) => isTestProduct(item.designId));
+    const [{ rules }, { terms }] = await Promise.all([getShippingTaxRules(), getPaymentTerms()]);
+    const result = calculateCheckoutTotals(rules, {
+      lines,
+      destination: { country: validated.country, city: validated.city },
+      method: validated.shippingMethod,
+      discount,
+      isTestOrder,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ ...result, shipsTo: rules.shipsTo });
+    }
+
+    return NextResponse.json({
+      success: true,
+      totals: result.totals,
+      payment: planCheckoutPayment(terms, result.totals.total, { isTestOrder }),
+      discount: discount && {
+        code: discount.code,
+        type: discount.type,
+        amount: discount.amount,
+        freeShipping: discount.freeShipping,
+      },
+      discountError,
+      shipsTo: rules.shipsTo,
+    });
+  } catch (error) {
+    console.error("Checkout totals error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to calculate checkout totals" },
+      { status: 500 }
+    );
+  }
+}
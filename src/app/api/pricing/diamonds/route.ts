@@ -10,6 +10,8 @@ import {
   type DiamondShape,
   type DiamondSizeCategory,
 } from "@/lib/pricing/diamonds-api";
+import { STONE_TYPES, STONE_QUALITIES, GEMSTONE_TREATMENTS } from "@/lib/pricing/gemstones";
+import { DIAMOND_ORIGINS, type DiamondOrigin } from "@/lib/pricing/stone-origin";
 import { z } from "zod";
 
 // Diamond specs schema
@@ -46,6 +48,7 @@ const diamondSpecsSchema = z.object({
       "heart",
     ])
     .optional(),
+  origin: z.enum(DIAMOND_ORIGINS).optional(),
 });
 
 // Quick estimate schema
@@ -55,18 +58,21 @@ const quickEstimateSchema = z.object({
     z.number().positive(),
   ]),
   quality: z.enum(["economy", "standard", "premium", "luxury"]).optional(),
+  origin: z.enum(DIAMOND_ORIGINS).optional(),
 });
 
 // Multiple stones schema
 const stonesSchema = z.object({
   stones: z.array(
     z.object({
-      type: z.enum(["diamond", "sapphire", "ruby", "emerald"]),
+      type: z.enum(STONE_TYPES),
       size: z.union([
         z.enum(["tiny", "small", "medium", "large", "statement"]),
         z.number().positive(),
       ]),
-      quality: z.enum(["economy", "standard", "premium", "luxury"]).optional(),
+      quality: z.enum(STONE_QUALITIES).optional(),
+      treatment: z.enum(GEMSTONE_TREATMENTS).optional(),
+      origin: z.enum(DIAMOND_ORIGINS).optional(),
       quantity: z.number().int().positive(),
     })
   ),
@@ -88,6 +94,7 @@ export async function GET(request: NextRequest) {
       | "standard"
       | "premium"
       | "luxury";
+    const origin: DiamondOrigin = searchParams.get("origin") === "lab_grown" ? "lab_grown" : "natural";
 
     // Parse size (can be category or carat number)
     let size: DiamondSizeCategory | number;
@@ -98,7 +105,7 @@ export async function GET(request: NextRequest) {
       size = sizeParam as DiamondSizeCategory;
     }
 
-    const price = await getQuickDiamondEstimate(size, quality);
+    const price = await getQuickDiamondEstimate(size, quality, origin);
 
     return NextResponse.json({
       success: true,
@@ -114,6 +121,7 @@ export async function GET(request: NextRequest) {
       },
       specs: price.specs,
       metadata: {
+        origin: price.origin,
         source: price.source,
         timestamp: price.timestamp,
       },
@@ -133,10 +141,10 @@ export async function GET(request: NextRequest) {
  * Get detailed diamond price or calculate multiple stones.
  *
  * For single diamond with full specs:
- * { carat, clarity, color, cut?, shape? }
+ * { carat, clarity, color, cut?, shape?, origin? }
  *
  * For multiple stones:
- * { stones: [{ type, size, quality?, quantity }] }
+ * { stones: [{ type, size, quality?, treatment?, origin?, quantity }] }
  */
 export async function POST(request: NextRequest) {
   try {
@@ -163,7 +171,8 @@ export async function POST(request: NextRequest) {
 
       const price = await getQuickDiamondEstimate(
         validatedData.size as DiamondSizeCategory | number,
-        validatedData.quality
+        validatedData.quality,
+        validatedData.origin
       );
 
       return NextResponse.json({
@@ -180,6 +189,7 @@ export async function POST(request: NextRequest) {
         },
         specs: price.specs,
         metadata: {
+          origin: price.origin,
           source: price.source,
           timestamp: price.timestamp,
         },
@@ -195,6 +205,7 @@ export async function POST(request: NextRequest) {
       color: validatedData.color as DiamondColor,
       cut: validatedData.cut as DiamondCut | undefined,
       shape: validatedData.shape as DiamondShape | undefined,
+      origin: validatedData.origin,
     };
 
     const price = await getDiamondPrice(specs);
@@ -213,6 +224,7 @@ export async function POST(request: NextRequest) {
       },
       specs: price.specs,
       metadata: {
+        origin: price.origin,
         source: price.source,
         timestamp: price.timestamp,
       },
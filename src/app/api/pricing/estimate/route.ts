@@ -8,16 +8,22 @@ import {
   type PricingBreakdown,
 } from "@/lib/pricing/calculator";
 import { getMetalPricesSafe, getMetalPricesCacheStatus } from "@/lib/pricing/metals-api";
+import { getActivePricingConfig } from "@/lib/pricing/config";
+import { issuePriceQuote, issueDesignQuote, type PriceQuote } from "@/lib/pricing/quotes";
+import { STONE_TYPES, STONE_QUALITIES, GEMSTONE_TREATMENTS } from "@/lib/pricing/gemstones";
+import { DIAMOND_ORIGINS } from "@/lib/pricing/stone-origin";
 import { z } from "zod";
 
 // Stone schema for validation
 const stoneSchema = z.object({
-  type: z.enum(["diamond", "sapphire", "ruby", "emerald"]),
+  type: z.enum(STONE_TYPES),
   size: z.union([
     z.enum(["tiny", "small", "medium", "large", "statement"]),
     z.number().positive(),
   ]),
-  quality: z.enum(["economy", "standard", "premium", "luxury"]).optional(),
+  quality: z.enum(STONE_QUALITIES).optional(),
+  treatment: z.enum(GEMSTONE_TREATMENTS).optional(),
+  origin: z.enum(DIAMOND_ORIGINS).optional(),
   quantity: z.number().int().positive(),
 });
 
@@ -29,11 +35,31 @@ const advancedEstimateSchema = z.object({
   volumeCm3: z.number().positive().optional(),
   size: z.enum(["small", "medium", "large"]).optional(),
   stones: z.array(stoneSchema).optional(),
+  diamondOrigin: z.enum(DIAMOND_ORIGINS).optional(), // Applies to every diamond
   complexity: z.enum(["simple", "moderate", "complex", "master"]).optional(),
   marginMultiplier: z.number().positive().optional(),
   includeAIEstimate: z.boolean().optional(),
+  quote: z.boolean().optional(), // Issue a signed, time-limited quote
 });
 
+// Quote for a saved design
+const designQuoteSchema = z.object({
+  designId: z.string().min(1),
+  material: z.enum(["gold_14k", "gold_18k", "gold_24k", "silver", "platinum"]).optional(),
+  size: z.string().max(20).optional(), // Ring size, chain length or wrist size in any supported system
+});
+
+// Public part of a quote (signature lets the client reference it verbatim)
+function quoteSummary(quote: PriceQuote) {
+  return {
+    id: quote.id,
+    total: quote.total,
+    currency: quote.currency,
+    expiresAt: quote.expiresAt,
+    signature: quote.signature,
+  };
+}
+
 // Legacy estimate schema
 const legacyEstimateSchema = z.object({
   material: z.enum(["gold_14k", "gold_18k", "gold_24k", "silver", "platinum"]),
@@ -49,11 +75,42 @@ const legacyEstimateSchema = z.object({
  *
  * Advanced pricing estimation with real-time metal prices,
  * diamond pricing, and AI-powered labor estimation.
+ *
+ * Pass `quote: true` (or a saved `designId`) to receive a signed quote
+ * that checkout will honour until it expires.
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
 
+    // Quote for a saved design (deterministic, non-AI path)
+    if ("designId" in body && !("description" in body)) {
+      const validatedData = designQuoteSchema.parse(body);
+
+      const result = await issueDesignQuote(validatedData.designId, {
+        material: validatedData.material,
+        size: validatedData.size,
+      });
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.notFound ? 404 : 400 }
+        );
+      }
+      const { quote } = result;
+
+      return NextResponse.json({
+        success: true,
+        breakdown: quote.breakdown,
+        summary: {
+          total: quote.total,
+          range: quote.breakdown.priceRange,
+          currency: "ILS",
+        },
+        quote: quoteSummary(quote),
+      });
+    }
+
     // Check if this is an advanced request (has description) or legacy
     const isAdvanced = "description" in body && body.description?.length > 0;
 
@@ -61,17 +118,35 @@ export async function POST(request: NextRequest) {
       // Advanced pricing with AI estimation
       const validatedData = advancedEstimateSchema.parse(body);
 
-      const breakdown = await calculatePriceAdvanced({
+      const input = {
         material: validatedData.material,
         jewelryType: validatedData.jewelryType,
         description: validatedData.description,
         volumeCm3: validatedData.volumeCm3,
         size: validatedData.size,
         stones: validatedData.stones as Stone[] | undefined,
+        diamondOrigin: validatedData.diamondOrigin,
         complexity: validatedData.complexity,
         marginMultiplier: validatedData.marginMultiplier,
         includeAIEstimate: validatedData.includeAIEstimate ?? true,
-      });
+      };
+
+      if (validatedData.quote) {
+        const quote = await issuePriceQuote(input);
+
+        return NextResponse.json({
+          success: true,
+          breakdown: quote.breakdown,
+          summary: {
+            total: quote.total,
+            range: quote.breakdown.priceRange,
+            currency: "ILS",
+          },
+          quote: quoteSummary(quote),
+        });
+      }
+
+      const breakdown = await calculatePriceAdvanced(input);
 
       return NextResponse.json({
         success: true,
@@ -87,9 +162,10 @@ export async function POST(request: NextRequest) {
       const validatedData = legacyEstimateSchema.parse(body);
 
       const goldPricePerGram = await getCurrentGoldPrice();
+      const { rules } = await getActivePricingConfig();
       const volumeCm3 =
         validatedData.volumeCm3 ||
-        estimateVolume(validatedData.jewelryType, validatedData.size);
+        estimateVolume(validatedData.jewelryType, validatedData.size, rules);
 
       const breakdown = await calculatePrice({
         material: validatedData.material,
@@ -153,12 +229,15 @@ export async function GET(request: NextRequest) {
     const size = (searchParams.get("size") || "medium") as "small" | "medium" | "large";
     const description = searchParams.get("description") || "";
 
-    // Get current metal prices and cache status
-    const metalPrices = await getMetalPricesSafe();
-    const cacheStatus = getMetalPricesCacheStatus();
+    // Get current metal prices, cache status and pricing rules
+    const [metalPrices, pricingConfig] = await Promise.all([
+      getMetalPricesSafe(),
+      getActivePricingConfig(),
+    ]);
+    const cacheStatus = await getMetalPricesCacheStatus();
 
     // Calculate volume estimate
-    const volumeCm3 = estimateVolume(jewelryType, size);
+    const volumeCm3 = estimateVolume(jewelryType, size, pricingConfig.rules);
 
     // If description provided, use advanced calculation
     if (description.length >= 10) {
@@ -170,6 +249,7 @@ export async function GET(request: NextRequest) {
         size,
         complexity,
         includeAIEstimate: true,
+        pricingConfig,
       });
 
       return NextResponse.json({
@@ -188,7 +268,8 @@ export async function GET(request: NextRequest) {
             silver: metalPrices.silver,
             platinum: metalPrices.platinum,
           },
-          source: metalPrices.source,
+          source: metalPrices.source.status,
+          provider: metalPrices.source.provider,
           lastUpdated: metalPrices.timestamp,
           isFresh: cacheStatus.isFresh,
         },
@@ -220,7 +301,8 @@ export async function GET(request: NextRequest) {
           silver: metalPrices.silver,
           platinum: metalPrices.platinum,
         },
-        source: metalPrices.source,
+        source: metalPrices.source.status,
+        provider: metalPrices.source.provider,
         lastUpdated: metalPrices.timestamp,
         isFresh: cacheStatus.isFresh,
       },
@@ -244,6 +326,13 @@ export type EstimateResponse =
         range: { low: number; high: number };
         currency: string;
       };
+      quote?: {
+        id: string;
+        total: number;
+        currency: string;
+        expiresAt: Date;
+        signature: string;
+      };
       marketData?: {
         metalPrices: {
           gold_24k: number;
@@ -253,6 +342,7 @@ export type EstimateResponse =
           platinum: number;
         };
         source: string;
+        provider: string;
         lastUpdated: Date;
         isFresh: boolean;
       };
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  getMetalPriceHistory,
+  HISTORY_METALS,
+  type HistoryInterval,
+  type HistoryMetal,
+} from "@/lib/pricing/metal-history";
+
+// Preset ranges in days
+const RANGES: Record<string, number> = {
+  "7d": 7,
+  "30d": 30,
+  "365d": 365,
+};
+
+// Default interval per range keeps charts at a readable number of points
+const DEFAULT_INTERVALS: Record<string, HistoryInterval> = {
+  "7d": "hour",
+  "30d": "day",
+  "365d": "week",
+};
+
+// Intervals each range may request; hourly points are only served for a week
+const ALLOWED_INTERVALS: Record<string, readonly HistoryInterval[]> = {
+  "7d": ["hour", "day"],
+  "30d": ["day", "week"],
+  "365d": ["day", "week"],
+};
+
+const historyQuerySchema = z
+  .object({
+    range: z.enum(["7d", "30d", "365d"]).default("30d"),
+    interval: z.enum(["hour", "day", "week"]).optional(),
+    metals: z
+      .string()
+      .optional()
+      .transform((value) => (value ? value.split(",") : undefined))
+      .pipe(z.array(z.enum(HISTORY_METALS)).optional()),
+  })
+  .refine((query) => !query.interval || ALLOWED_INTERVALS[query.range].includes(query.interval), {
+    message: "Interval is too fine for this range",
+    path: ["interval"],
+  });
+
+/**
+ * GET /api/pricing/metals/history
+ *
+ * Returns the recorded metal price series in ILS per gram.
+ *
+ * Query params:
+ * - range: 7d | 30d | 365d (default 30d)
+ * - interval: hour | day | week (default depends on range; hour only for 7d)
+ * - metals: comma-separated list (default all metals)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const query = historyQuerySchema.parse({
+      range: searchParams.get("range") ?? undefined,
+      interval: searchParams.get("interval") ?? undefined,
+      metals: searchParams.get("metals") ?? undefined,
+    });
+
+    const history = await getMetalPriceHistory({
+      days: RANGES[query.range],
+      interval: query.interval ?? DEFAULT_INTERVALS[query.range],
+      metals: query.metals as HistoryMetal[] | undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      range: query.range,
+      history,
+      metadata: {
+        currency: "ILS",
+        unit: "gram",
+      },
+    });
+  } catch (error) {
+    console.error("Metal price history error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Failed to load metal price history" },
+      { status: 500 }
+    );
+  }
+}
@@ -16,7 +16,7 @@ import {
 export async function GET() {
   try {
     const prices = await getMetalPricesSafe();
-    const cacheStatus = getMetalPricesCacheStatus();
+    const cacheStatus = await getMetalPricesCacheStatus();
 
     return NextResponse.json({
       success: true,
@@ -30,7 +30,8 @@ export async function GET() {
       metadata: {
         currency: "ILS",
         unit: "gram",
-        source: prices.source,
+        source: prices.source.status,
+        provider: prices.source.provider,
         timestamp: prices.timestamp,
         isFresh: cacheStatus.isFresh,
         remainingTtlSeconds: Math.round(cacheStatus.remainingTtlMs / 1000),
@@ -53,6 +54,7 @@ export async function GET() {
         currency: "ILS",
         unit: "gram",
         source: "fallback",
+        provider: DEFAULT_METAL_PRICES.source.provider,
         timestamp: new Date(),
         isFresh: false,
         remainingTtlSeconds: 0,
@@ -95,7 +97,8 @@ export async function POST(request: NextRequest) {
       metadata: {
         currency: "ILS",
         unit: "gram",
-        source: prices.source,
+        source: prices.source.status,
+        provider: prices.source.provider,
         timestamp: prices.timestamp,
         refreshed: true,
       },
@@ -122,7 +125,8 @@ export type MetalPricesResponse = {
   metadata: {
     currency: string;
     unit: string;
-    source: MetalPrices["source"];
+    source: MetalPrices["source"]["status"];
+    provider: string;
     timestamp: Date;
     isFresh: boolean;
     remainingTtlSeconds: number;
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { isTrustedModelUrl } from "@/lib/pricing/mesh-volume";
 
 /**
  * Proxy endpoint for 3D models to avoid CORS issues
@@ -16,13 +17,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Validate URL is from trusted sources
-    const trustedDomains = [
-      "tripo-data.rg1.data.tripo3d.com",
-      "assets.meshy.ai",
-    ];
-
-    const urlObj = new URL(url);
-    if (!trustedDomains.some(domain => urlObj.hostname.includes(domain))) {
+    if (!isTrustedModelUrl(url)) {
       return NextResponse.json(
         { success: false, error: "Untrusted model source" },
         { status: 403 }
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { prisma } from "@/lib/db/prisma";
+import { authOptions } from "@/lib/auth/config";
+import { isAdminAuthenticated } from "@/lib/auth/admin";
+import { getInvoicePdf } from "@/lib/invoices/invoices";
+
+interface RouteContext {
+  params: Promise<{ orderId: string; invoiceId: string }>;
+}
+
+/**
+ * Download an order's invoice or credit note as a PDF
+ *
+ * Query: locale - "he" (default) or "en"
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { orderId, invoiceId } = await context.params;
+    const locale = request.nextUrl.searchParams.get("locale") === "en" ? "en" : "he";
+
+    // The customer's own orders - admins may download any
+    if (!(await isAdminAuthenticated())) {
+      const session = await getServerSession(authOptions);
+      if (!session?.user?.email) {
+        return NextResponse.json(
+          { success: false, error: "Unauthorized" },
+          { status: 401 }
+        );
+      }
+
+      const order = await prisma.order.findFirst({
+        where: { id: orderId, user: { email: session.user.email } },
+        select: { id: true },
+      });
+      if (!order) {
+        return NextResponse.json(
+          { success: false, error: "Order not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const result = await getInvoicePdf(orderId, invoiceId, locale);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.notFound ? 404 : 400 }
+      );
+    }
+
+    return new NextResponse(Buffer.from(result.pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${result.filename}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Invoice download error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch invoice" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db/prisma";
+import { toOrderStatus } from "@/lib/orders/lifecycle";
 
 interface RouteContext {
   params: Promise<{ orderId: string }>;
@@ -29,6 +30,7 @@ export async function GET(
         subtotal: true,
         tax: true,
         shipping: true,
+        discount: true,
         currency: true,
         customerName: true,
         customerEmail: true,
@@ -37,8 +39,19 @@ export async function GET(
         itemsJson: true,
         paymentGateway: true,
         paymentApproval: true,
+        paymentMode: true,
+        depositAmount: true,
+        authorizedAmount: true,
+        finalAmount: true,
+        balanceDue: true,
+        balancePaymentUrl: true,
+        settledAt: true,
         createdAt: true,
         updatedAt: true,
+        statusEvents: {
+          orderBy: { createdAt: "asc" },
+          select: { toStatus: true, createdAt: true },
+        },
       },
     });
 
@@ -49,7 +62,16 @@ export async function GET(
       );
     }
 
-    return NextResponse.json({ order });
+    return NextResponse.json({
+      order: {
+        ...order,
+        status: toOrderStatus(order.status),
+        statusEvents: order.statusEvents.map((event) => ({
+          ...event,
+          toStatus: toOrderStatus(event.toStatus),
+        })),
+      },
+    });
   } catch (error) {
     console.error("Error fetching order:", error);
     return NextResponse.json(
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { getOrderShipments } from "@/lib/shipping/shipments";
+
+interface RouteContext {
+  params: Promise<{ orderId: string }>;
+}
+
+/**
+ * An order's parcels with their live tracking timelines
+ *
+ * Looks up new scans at the carrier, at most every half hour per parcel.
+ */
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { orderId } = await context.params;
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { id: true },
+    });
+    if (!order) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    const shipments = await getOrderShipments(orderId, { refresh: true });
+
+    return NextResponse.json({
+      shipments: shipments.map(({ id, carrier, trackingNumber, trackingUrl, shippedAt, status, deliveredAt, events }) => ({
+        id,
+        carrier,
+        trackingNumber,
+        trackingUrl,
+        shippedAt,
+        status,
+        deliveredAt,
+        events: events.map(({ status, description, location, occurredAt }) => ({
+          status,
+          description,
+          location,
+          occurredAt,
+        })),
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching shipments:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch shipments" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { prisma } from "@/lib/db/prisma";
 import { authOptions } from "@/lib/auth/config";
+import { toOrderStatus } from "@/lib/orders/lifecycle";
 
 export async function GET(request: NextRequest) {
   try {
@@ -29,23 +30,43 @@ export async function GET(request: NextRequest) {
       where: { userId: user.id },
       orderBy: { createdAt: "desc" },
       include: {
+        // Order-time copies - not the design as it is now
         items: {
-          include: {
-            design: {
-              select: {
-                name: true,
-                thumbnailUrl: true,
-                jewelryType: true,
-              },
-            },
+          select: {
+            id: true,
+            designId: true,
+            name: true,
+            jewelryType: true,
+            material: true,
+            thumbnailUrl: true,
+            spec: true, // Stones for the diamond origin disclosure
+            size: true,
+            quantity: true,
+            unitPrice: true,
+            totalPrice: true,
           },
         },
+        statusEvents: {
+          orderBy: { createdAt: "asc" },
+          select: { toStatus: true, createdAt: true },
+        },
+        invoices: {
+          orderBy: { issuedAt: "asc" },
+          select: { id: true, type: true, number: true, total: true, currency: true, issuedAt: true },
+        },
       },
     });
 
     return NextResponse.json({
       success: true,
-      orders,
+      orders: orders.map((order) => ({
+        ...order,
+        status: toOrderStatus(order.status),
+        statusEvents: order.statusEvents.map((event) => ({
+          ...event,
+          toStatus: toOrderStatus(event.toStatus),
+        })),
+      })),
     });
   } catch (error) {
     console.error("Failed to fetch orders:", error);
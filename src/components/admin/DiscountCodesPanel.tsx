@@ -0,0 +1,355 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { DiscountType } from "@/lib/pricing/discounts";
+
+interface DiscountCodeSummary {
+  id: string;
+  code: string;
+  description: string | null;
+  type: DiscountType;
+  value: number;
+  firstOrderOnly: boolean;
+  jewelryTypes: string[];
+  materials: string[];
+  minSubtotal: number | null;
+  maxUses: number | null;
+  maxUsesPerCustomer: number | null;
+  usedCount: number;
+  startsAt: string | null;
+  expiresAt: string | null;
+  active: boolean;
+}
+
+const DISCOUNT_TYPES: Array<{ value: DiscountType; label: string }> = [
+  { value: "percent", label: "Percent off" },
+  { value: "fixed", label: "Fixed amount (₪)" },
+  { value: "free_shipping", label: "Free shipping" },
+];
+
+const JEWELRY_TYPES = ["ring", "necklace", "bracelet", "earrings"];
+const MATERIALS = ["gold_14k", "gold_18k", "gold_24k", "silver", "platinum"];
+
+const EMPTY_FORM = {
+  code: "",
+  description: "",
+  type: "percent" as DiscountType,
+  value: "",
+  firstOrderOnly: false,
+  jewelryTypes: [] as string[],
+  materials: [] as string[],
+  minSubtotal: "",
+  maxUses: "",
+  maxUsesPerCustomer: "",
+  expiresAt: "",
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+const formatDiscount = (code: DiscountCodeSummary) =>
+  code.type === "percent" ? `${code.value}% off` : code.type === "fixed" ? `₪${code.value} off` : "Free shipping";
+
+const optionalNumber = (value: string) => (value.trim() ? parseFloat(value) : null);
+
+export function DiscountCodesPanel() {
+  const [codes, setCodes] = useState<DiscountCodeSummary[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCodes = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/discounts");
+      const data = await response.json();
+
+      if (data.success) {
+        setCodes(data.codes);
+        setError(null);
+      } else {
+        setError(data.error || "Failed to load discount codes");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Fetch discount codes error:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCodes();
+  }, [fetchCodes]);
+
+  const toggle = (field: "jewelryTypes" | "materials", value: string) =>
+    setForm({
+      ...form,
+      [field]: form[field].includes(value) ? form[field].filter((v) => v !== value) : [...form[field], value],
+    });
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/discounts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          code: form.code,
+          description: form.description || null,
+          type: form.type,
+          value: form.type === "free_shipping" ? 0 : parseFloat(form.value) || 0,
+          firstOrderOnly: form.firstOrderOnly,
+          jewelryTypes: form.jewelryTypes,
+          materials: form.materials,
+          minSubtotal: optionalNumber(form.minSubtotal),
+          maxUses: optionalNumber(form.maxUses),
+          maxUsesPerCustomer: optionalNumber(form.maxUsesPerCustomer),
+          expiresAt: form.expiresAt ? new Date(`${form.expiresAt}T23:59:59`).toISOString() : null,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setForm(EMPTY_FORM);
+        await fetchCodes();
+      } else {
+        setError(data.details?.[0]?.message || data.error || "Failed to create discount code");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Create discount code error:", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (code: DiscountCodeSummary) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/discounts/${code.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ active: !code.active }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        await fetchCodes();
+      } else {
+        setError(data.error || "Failed to update discount code");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Update discount code error:", err);
+    }
+  };
+
+  const isExpired = (code: DiscountCodeSummary) => !!code.expiresAt && new Date(code.expiresAt) < new Date();
+
+  return (
+    <div className="admin-section">
+      <div className="admin-section-header">
+        <span className="admin-section-title">Discount Codes</span>
+        <span className="admin-badge" style={{ background: 'var(--admin-gold-muted)', color: 'var(--admin-gold)' }}>
+          {codes.filter((code) => code.active && !isExpired(code)).length} active
+        </span>
+      </div>
+      <div className="admin-section-content" style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+        {/* New Code */}
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+          <span className="admin-label">New code</span>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '0.75rem' }}>
+            <input
+              type="text"
+              value={form.code}
+              placeholder="CODE"
+              onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+              style={{ ...inputStyle, fontFamily: 'monospace' }}
+            />
+            <select
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value as DiscountType })}
+              style={inputStyle}
+            >
+              {DISCOUNT_TYPES.map((type) => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              value={form.type === "free_shipping" ? "" : form.value}
+              disabled={form.type === "free_shipping"}
+              placeholder={form.type === "percent" ? "Percent" : "Amount (₪)"}
+              onChange={(e) => setForm({ ...form, value: e.target.value })}
+              style={{ ...inputStyle, fontFamily: 'monospace' }}
+            />
+            <input
+              type="date"
+              value={form.expiresAt}
+              onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+              style={inputStyle}
+            />
+            <input
+              type="number"
+              min={0}
+              value={form.minSubtotal}
+              placeholder="Min. order (₪)"
+              onChange={(e) => setForm({ ...form, minSubtotal: e.target.value })}
+              style={{ ...inputStyle, fontFamily: 'monospace' }}
+            />
+            <input
+              type="number"
+              min={1}
+              value={form.maxUses}
+              placeholder="Total uses"
+              onChange={(e) => setForm({ ...form, maxUses: e.target.value })}
+              style={{ ...inputStyle, fontFamily: 'monospace' }}
+            />
+            <input
+              type="number"
+              min={1}
+              value={form.maxUsesPerCustomer}
+              placeholder="Uses per customer"
+              onChange={(e) => setForm({ ...form, maxUsesPerCustomer: e.target.value })}
+              style={{ ...inputStyle, fontFamily: 'monospace' }}
+            />
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8125rem', color: 'var(--admin-text-secondary)' }}>
+              <input
+                type="checkbox"
+                checked={form.firstOrderOnly}
+                onChange={(e) => setForm({ ...form, firstOrderOnly: e.target.checked })}
+              />
+              First order only
+            </label>
+          </div>
+
+          {/* Eligibility - nothing selected means everything */}
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+            {JEWELRY_TYPES.map((type) => (
+              <button
+                key={type}
+                onClick={() => toggle("jewelryTypes", type)}
+                className={`admin-btn ${form.jewelryTypes.includes(type) ? "admin-btn-primary" : "admin-btn-ghost"}`}
+                style={{ padding: '0.375rem 0.75rem', fontSize: '0.75rem', textTransform: 'capitalize' }}
+              >
+                {type}
+              </button>
+            ))}
+            {MATERIALS.map((material) => (
+              <button
+                key={material}
+                onClick={() => toggle("materials", material)}
+                className={`admin-btn ${form.materials.includes(material) ? "admin-btn-primary" : "admin-btn-ghost"}`}
+                style={{ padding: '0.375rem 0.75rem', fontSize: '0.75rem' }}
+              >
+                {material.replace("_", " ")}
+              </button>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+            <input
+              type="text"
+              value={form.description}
+              placeholder="Description (optional)"
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <button
+              onClick={handleCreate}
+              disabled={isSaving || form.code.trim().length < 3}
+              className="admin-btn admin-btn-primary"
+            >
+              {isSaving ? "Saving..." : "Create Code"}
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <p style={{ fontSize: '0.875rem', color: '#B91C1C' }}>{error}</p>
+        )}
+
+        {/* Existing Codes */}
+        {codes.length > 0 && (
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', fontSize: '0.8125rem', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ textAlign: 'left', color: 'var(--admin-text-tertiary)' }}>
+                  <th style={{ padding: '0.5rem' }}>Code</th>
+                  <th style={{ padding: '0.5rem' }}>Discount</th>
+                  <th style={{ padding: '0.5rem' }}>Applies To</th>
+                  <th style={{ padding: '0.5rem' }}>Used</th>
+                  <th style={{ padding: '0.5rem' }}>Expires</th>
+                  <th style={{ padding: '0.5rem' }}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {codes.map((code) => (
+                  <tr
+                    key={code.id}
+                    style={{
+                      borderTop: '1px solid var(--admin-border-light)',
+                      color: code.active && !isExpired(code) ? 'var(--admin-text-primary)' : 'var(--admin-text-tertiary)',
+                    }}
+                  >
+                    <td style={{ padding: '0.5rem', fontFamily: 'monospace' }}>
+                      {code.code}
+                      {code.description && (
+                        <span style={{ display: 'block', fontFamily: 'inherit', fontSize: '0.6875rem', color: 'var(--admin-text-tertiary)' }}>
+                          {code.description}
+                        </span>
+                      )}
+                    </td>
+                    <td style={{ padding: '0.5rem' }}>
+                      {formatDiscount(code)}
+                      {code.firstOrderOnly ? " · first order" : ""}
+                      {code.minSubtotal ? ` · min ₪${code.minSubtotal}` : ""}
+                    </td>
+                    <td style={{ padding: '0.5rem', fontSize: '0.75rem', textTransform: 'capitalize' }}>
+                      {[...code.jewelryTypes, ...code.materials.map((m) => m.replace("_", " "))].join(", ") || "Everything"}
+                    </td>
+                    <td style={{ padding: '0.5rem', fontFamily: 'monospace' }}>
+                      {code.usedCount}{code.maxUses !== null ? ` / ${code.maxUses}` : ""}
+                      {code.maxUsesPerCustomer !== null && (
+                        <span style={{ display: 'block', fontSize: '0.6875rem', color: 'var(--admin-text-tertiary)' }}>
+                          {code.maxUsesPerCustomer} per customer
+                        </span>
+                      )}
+                    </td>
+                    <td style={{ padding: '0.5rem' }}>
+                      {code.expiresAt ? formatDate(code.expiresAt) : "Never"}
+                    </td>
+                    <td style={{ padding: '0.5rem', textAlign: 'right' }}>
+                      <button
+                        onClick={() => handleToggleActive(code)}
+                        className="admin-btn admin-btn-ghost"
+                        style={{ padding: '0.25rem 0.625rem', fontSize: '0.75rem' }}
+                      >
+                        {code.active ? "Deactivate" : "Activate"}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.5rem 0.75rem',
+  borderRadius: 'var(--admin-radius-md)',
+  border: '1px solid var(--admin-border)',
+  background: 'var(--admin-bg)',
+  color: 'var(--admin-text-primary)',
+  fontSize: '0.875rem',
+};
@@ -0,0 +1,260 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type {
+  GemstoneSpecies,
+  GemstoneTreatment,
+  GemstonePriceTable,
+  GemstonePriceTableVersion,
+  StoneQuality,
+} from "@/lib/pricing/gemstones";
+
+const GEMSTONE_SPECIES: GemstoneSpecies[] = ["sapphire", "ruby", "emerald", "opal", "pearl", "amethyst", "topaz", "other"];
+const GEMSTONE_TREATMENTS: GemstoneTreatment[] = ["untreated", "heated", "oiled", "filled", "diffused", "irradiated", "dyed"];
+const STONE_QUALITIES: StoneQuality[] = ["economy", "standard", "premium", "luxury"];
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function GemstonePricesPanel() {
+  const [active, setActive] = useState<GemstonePriceTableVersion | null>(null);
+  const [versions, setVersions] = useState<GemstonePriceTableVersion[]>([]);
+  const [caratBands, setCaratBands] = useState<number[]>([]);
+  const [draft, setDraft] = useState<GemstonePriceTable | null>(null);
+  const [species, setSpecies] = useState<GemstoneSpecies>("sapphire");
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchTables = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/pricing/gemstones");
+      const data = await response.json();
+
+      if (data.success) {
+        setActive(data.active);
+        setVersions(data.versions);
+        setCaratBands(data.caratBands);
+        setDraft(data.active.table);
+        setError(null);
+      } else {
+        setError(data.error || "Failed to load gemstone prices");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Fetch gemstone prices error:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTables();
+  }, [fetchTables]);
+
+  const updatePrice = (quality: StoneQuality, band: number, value: number) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const prices = [...prev[species].pricesPerCarat[quality]];
+      prices[band] = value;
+      return {
+        ...prev,
+        [species]: {
+          ...prev[species],
+          pricesPerCarat: { ...prev[species].pricesPerCarat, [quality]: prices },
+        },
+      };
+    });
+  };
+
+  const updateTreatment = (treatment: GemstoneTreatment, value: number | null) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const treatments = { ...prev[species].treatments };
+      if (value === null) {
+        delete treatments[treatment];
+      } else {
+        treatments[treatment] = value;
+      }
+      return { ...prev, [species]: { ...prev[species], treatments } };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/pricing/gemstones", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ table: draft, note: note || undefined }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setMessage(`Gemstone prices v${data.version.version} saved`);
+        setNote("");
+        await fetchTables();
+      } else {
+        setError(data.error || "Failed to save gemstone prices");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Save gemstone prices error:", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!draft) {
+    return error ? (
+      <div className="admin-empty-state">
+        <h3 className="admin-empty-title">Gemstone prices unavailable</h3>
+        <p className="admin-empty-text">{error}</p>
+      </div>
+    ) : null;
+  }
+
+  const pricing = draft[species];
+
+  return (
+    <div className="admin-section">
+      <div className="admin-section-header">
+        <span className="admin-section-title">Gemstone Prices</span>
+        {active && (
+          <span className="admin-badge" style={{ background: 'var(--admin-gold-muted)', color: 'var(--admin-gold)' }}>
+            Active: v{active.version}{active.source === "default" ? " (defaults)" : ""}
+          </span>
+        )}
+      </div>
+      <div className="admin-section-content" style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+        {/* Species Tabs */}
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+          {GEMSTONE_SPECIES.map((value) => (
+            <button
+              key={value}
+              onClick={() => setSpecies(value)}
+              className={`admin-btn ${species === value ? "admin-btn-primary" : "admin-btn-ghost"}`}
+              style={{ padding: '0.375rem 0.75rem', fontSize: '0.8125rem', textTransform: 'capitalize' }}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+
+        {/* Price per Carat by Band and Quality */}
+        <div style={{ overflowX: 'auto' }}>
+          <table style={{ width: '100%', fontSize: '0.8125rem', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ textAlign: 'left', color: 'var(--admin-text-tertiary)' }}>
+                <th style={{ padding: '0.5rem' }}>USD / ct</th>
+                {caratBands.map((bound, index) => (
+                  <th key={bound} style={{ padding: '0.5rem' }}>
+                    {index === caratBands.length - 1 ? `> ${caratBands[index - 1]}ct` : `≤ ${bound}ct`}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {STONE_QUALITIES.map((quality) => (
+                <tr key={quality} style={{ borderTop: '1px solid var(--admin-border-light)' }}>
+                  <td style={{ padding: '0.5rem', textTransform: 'capitalize', color: 'var(--admin-text-primary)' }}>
+                    {quality}
+                  </td>
+                  {pricing.pricesPerCarat[quality].map((price, band) => (
+                    <td key={band} style={{ padding: '0.25rem' }}>
+                      <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={price}
+                        onChange={(e) => updatePrice(quality, band, parseFloat(e.target.value) || 0)}
+                        style={{ ...inputStyle, width: '80px', fontFamily: 'monospace' }}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Treatments */}
+        <div>
+          <span className="admin-label">Treatment multipliers (blank = priced as typical)</span>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '0.75rem', marginTop: '0.5rem' }}>
+            {GEMSTONE_TREATMENTS.map((treatment) => (
+              <label key={treatment} style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                <span className="admin-label" style={{ textTransform: 'capitalize' }}>
+                  {treatment}{pricing.defaultTreatment === treatment ? " (typical)" : ""}
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.05}
+                  value={pricing.treatments[treatment] ?? ""}
+                  onChange={(e) => updateTreatment(treatment, e.target.value === "" ? null : parseFloat(e.target.value) || 0)}
+                  style={{ ...inputStyle, fontFamily: 'monospace' }}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Save */}
+        <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+          <input
+            type="text"
+            value={note}
+            placeholder="Why is this changing?"
+            onChange={(e) => setNote(e.target.value)}
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <button
+            onClick={() => { setDraft(active?.table ?? draft); setMessage(null); }}
+            className="admin-btn admin-btn-ghost"
+          >
+            Reset
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="admin-btn admin-btn-primary"
+          >
+            {isSaving ? "Saving..." : "Save Prices"}
+          </button>
+        </div>
+
+        {error && (
+          <p style={{ fontSize: '0.875rem', color: '#B91C1C' }}>{error}</p>
+        )}
+        {message && (
+          <p style={{ fontSize: '0.875rem', color: 'var(--admin-gold)' }}>{message}</p>
+        )}
+
+        {versions.length > 0 && (
+          <p style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)' }}>
+            Last saved {formatDate(versions[0].createdAt)}
+            {versions[0].note ? ` — ${versions[0].note}` : ""}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.5rem 0.75rem',
+  borderRadius: 'var(--admin-radius-md)',
+  border: '1px solid var(--admin-border)',
+  background: 'var(--admin-bg)',
+  color: 'var(--admin-text-primary)',
+  fontSize: '0.875rem',
+};
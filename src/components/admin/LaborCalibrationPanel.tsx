@@ -0,0 +1,264 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type {
+  LaborCalibration,
+  EstimatorBiasPeriod,
+  ProductionRecord,
+} from "@/lib/pricing/labor-calibration";
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+const formatBias = (percent: number) => `${percent > 0 ? "+" : ""}${percent.toFixed(1)}%`;
+
+// Positive bias = the estimate was too low
+const biasColor = (percent: number) =>
+  Math.abs(percent) < 5 ? 'var(--admin-success)' : Math.abs(percent) < 15 ? 'var(--admin-gold)' : '#B91C1C';
+
+export function LaborCalibrationPanel() {
+  const [calibration, setCalibration] = useState<LaborCalibration | null>(null);
+  const [minSamples, setMinSamples] = useState(0);
+  const [bias, setBias] = useState<EstimatorBiasPeriod[]>([]);
+  const [records, setRecords] = useState<ProductionRecord[]>([]);
+  const [form, setForm] = useState({ orderId: "", itemId: "", hours: "", weight: "", notes: "" });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchCalibration = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/pricing/calibration");
+      const data = await response.json();
+
+      if (data.success) {
+        setCalibration(data.calibration);
+        setMinSamples(data.minSamples);
+        setBias(data.bias);
+        setRecords(data.records);
+        setError(null);
+      } else {
+        setError(data.error || "Failed to load labor calibration");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Fetch labor calibration error:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCalibration();
+  }, [fetchCalibration]);
+
+  const handleRecord = async () => {
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(
+        `/api/admin/orders/${encodeURIComponent(form.orderId.trim())}/items/${encodeURIComponent(form.itemId.trim())}/production`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            actualLaborHours: parseFloat(form.hours),
+            actualWeightGrams: parseFloat(form.weight),
+            notes: form.notes || undefined,
+          }),
+        }
+      );
+      const data = await response.json();
+
+      if (data.success) {
+        setMessage(
+          `Recorded: ${data.record.actualLaborHours}h vs ${data.record.estimatedLaborHours}h estimated, ` +
+          `${data.record.actualWeightGrams}g vs ${data.record.estimatedWeightGrams}g`
+        );
+        setForm({ orderId: "", itemId: "", hours: "", weight: "", notes: "" });
+        await fetchCalibration();
+      } else {
+        setError(data.error || "Failed to record production actuals");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Record production error:", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const factors = [...(calibration?.factors || [])].sort(
+    (a, b) => a.jewelryType.localeCompare(b.jewelryType) || (a.complexity || "").localeCompare(b.complexity || "")
+  );
+  const canRecord = form.orderId && form.itemId && parseFloat(form.hours) > 0 && parseFloat(form.weight) > 0;
+
+  return (
+    <div className="admin-section">
+      <div className="admin-section-header">
+        <span className="admin-section-title">Labor Calibration</span>
+        {calibration && (
+          <span className="admin-badge" style={{ background: 'var(--admin-gold-muted)', color: 'var(--admin-gold)' }}>
+            {calibration.samples} pieces recorded
+          </span>
+        )}
+      </div>
+      <div className="admin-section-content" style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+        {/* Record Actuals */}
+        <div>
+          <span className="admin-label">Record actual production (per piece)</span>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '0.75rem', marginTop: '0.5rem' }}>
+            <input
+              type="text"
+              value={form.orderId}
+              placeholder="Order ID"
+              onChange={(e) => setForm({ ...form, orderId: e.target.value })}
+              style={inputStyle}
+            />
+            <input
+              type="text"
+              value={form.itemId}
+              placeholder="Order item ID"
+              onChange={(e) => setForm({ ...form, itemId: e.target.value })}
+              style={inputStyle}
+            />
+            <input
+              type="number"
+              min={0}
+              step={0.25}
+              value={form.hours}
+              placeholder="Bench hours"
+              onChange={(e) => setForm({ ...form, hours: e.target.value })}
+              style={{ ...inputStyle, fontFamily: 'monospace' }}
+            />
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={form.weight}
+              placeholder="Finished grams"
+              onChange={(e) => setForm({ ...form, weight: e.target.value })}
+              style={{ ...inputStyle, fontFamily: 'monospace' }}
+            />
+          </div>
+          <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', marginTop: '0.75rem' }}>
+            <input
+              type="text"
+              value={form.notes}
+              placeholder="Notes (optional)"
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <button
+              onClick={handleRecord}
+              disabled={isSaving || !canRecord}
+              className="admin-btn admin-btn-primary"
+            >
+              {isSaving ? "Saving..." : "Record"}
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <p style={{ fontSize: '0.875rem', color: '#B91C1C' }}>{error}</p>
+        )}
+        {message && (
+          <p style={{ fontSize: '0.875rem', color: 'var(--admin-gold)' }}>{message}</p>
+        )}
+
+        {/* Correction Factors */}
+        {factors.length > 0 && (
+          <div style={{ overflowX: 'auto' }}>
+            <span className="admin-label">Correction factors (applied from {minSamples} pieces)</span>
+            <table style={{ width: '100%', fontSize: '0.8125rem', borderCollapse: 'collapse', marginTop: '0.5rem' }}>
+              <thead>
+                <tr style={{ textAlign: 'left', color: 'var(--admin-text-tertiary)' }}>
+                  <th style={{ padding: '0.5rem' }}>Type</th>
+                  <th style={{ padding: '0.5rem' }}>Complexity</th>
+                  <th style={{ padding: '0.5rem' }}>Pieces</th>
+                  <th style={{ padding: '0.5rem' }}>Hours ×</th>
+                  <th style={{ padding: '0.5rem' }}>Weight ×</th>
+                </tr>
+              </thead>
+              <tbody>
+                {factors.map((factor) => (
+                  <tr
+                    key={`${factor.jewelryType}-${factor.complexity ?? "all"}`}
+                    style={{
+                      borderTop: '1px solid var(--admin-border-light)',
+                      color: factor.samples >= minSamples ? 'var(--admin-text-primary)' : 'var(--admin-text-tertiary)',
+                    }}
+                  >
+                    <td style={{ padding: '0.5rem', textTransform: 'capitalize' }}>{factor.jewelryType}</td>
+                    <td style={{ padding: '0.5rem', textTransform: 'capitalize' }}>{factor.complexity ?? "All"}</td>
+                    <td style={{ padding: '0.5rem' }}>{factor.samples}</td>
+                    <td style={{ padding: '0.5rem', fontFamily: 'monospace' }}>{factor.laborFactor.toFixed(2)}</td>
+                    <td style={{ padding: '0.5rem', fontFamily: 'monospace' }}>{factor.weightFactor.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Estimator Bias Over Time */}
+        {bias.length > 0 && (
+          <div style={{ overflowX: 'auto' }}>
+            <span className="admin-label">Estimator bias by month (+ = estimate too low)</span>
+            <table style={{ width: '100%', fontSize: '0.8125rem', borderCollapse: 'collapse', marginTop: '0.5rem' }}>
+              <thead>
+                <tr style={{ textAlign: 'left', color: 'var(--admin-text-tertiary)' }}>
+                  <th style={{ padding: '0.5rem' }}>Month</th>
+                  <th style={{ padding: '0.5rem' }}>Pieces</th>
+                  <th style={{ padding: '0.5rem' }}>Hours</th>
+                  <th style={{ padding: '0.5rem' }}>Weight</th>
+                  <th style={{ padding: '0.5rem' }}>Hours by estimator</th>
+                </tr>
+              </thead>
+              <tbody>
+                {bias.map((period) => (
+                  <tr key={period.period} style={{ borderTop: '1px solid var(--admin-border-light)' }}>
+                    <td style={{ padding: '0.5rem', color: 'var(--admin-text-primary)' }}>{period.period}</td>
+                    <td style={{ padding: '0.5rem' }}>{period.samples}</td>
+                    <td style={{ padding: '0.5rem', fontFamily: 'monospace', color: biasColor(period.laborBiasPercent) }}>
+                      {formatBias(period.laborBiasPercent)}
+                    </td>
+                    <td style={{ padding: '0.5rem', fontFamily: 'monospace', color: biasColor(period.weightBiasPercent) }}>
+                      {formatBias(period.weightBiasPercent)}
+                    </td>
+                    <td style={{ padding: '0.5rem', fontSize: '0.75rem', color: 'var(--admin-text-secondary)' }}>
+                      {Object.entries(period.bySource)
+                        .map(([source, value]) => `${source} ${formatBias(value.laborBiasPercent)} (${value.samples})`)
+                        .join(" · ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Recent Records */}
+        {records.length > 0 && (
+          <p style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)' }}>
+            Last recorded {formatDate(records[0].recordedAt)}: {records[0].jewelryType}, {records[0].actualLaborHours}h
+            (est. {records[0].estimatedLaborHours}h), {records[0].actualWeightGrams}g (est. {records[0].estimatedWeightGrams}g)
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.5rem 0.75rem',
+  borderRadius: 'var(--admin-radius-md)',
+  border: '1px solid var(--admin-border)',
+  background: 'var(--admin-bg)',
+  color: 'var(--admin-text-primary)',
+  fontSize: '0.875rem',
+};
@@ -37,6 +37,22 @@ const STONE_TYPES = [
   { value: "sapphire", label: "Sapphire" },
   { value: "ruby", label: "Ruby" },
   { value: "emerald", label: "Emerald" },
+  { value: "opal", label: "Opal" },
+  { value: "pearl", label: "Pearl" },
+  { value: "amethyst", label: "Amethyst" },
+  { value: "topaz", label: "Topaz" },
+  { value: "other", label: "Other gemstone" },
+] as const;
+
+const STONE_TREATMENTS = [
+  { value: "", label: "Typical for species" },
+  { value: "untreated", label: "Untreated" },
+  { value: "heated", label: "Heated" },
+  { value: "oiled", label: "Oiled" },
+  { value: "filled", label: "Filled" },
+  { value: "diffused", label: "Diffused" },
+  { value: "irradiated", label: "Irradiated" },
+  { value: "dyed", label: "Dyed" },
 ] as const;
 
 const STONE_SIZES = [
@@ -61,10 +77,10 @@ export function LiveCalculator({
   isCalculating,
 }: LiveCalculatorProps) {
   const [showStoneForm, setShowStoneForm] = useState(false);
-  const [newStone, setNewStone] = useState({
-    type: "diamond" as const,
-    size: "small" as const,
-    quality: "standard" as const,
+  const [newStone, setNewStone] = useState<CalculatorInput["stones"][number]>({
+    type: "diamond",
+    size: "small",
+    quality: "standard",
     quantity: 1,
   });
 
@@ -239,7 +255,7 @@ export function LiveCalculator({
                   <div className="text-sm">
                     <span className="text-white font-medium capitalize">{stone.type}</span>
                     <span className="text-dark-400 ml-2">
-                      {stone.quantity}x {stone.size} ({stone.quality})
+                      {stone.quantity}x {stone.size} ({stone.quality}{stone.treatment ? `, ${stone.treatment}` : ""}{stone.origin === "lab_grown" ? ", lab-grown" : ""})
                     </span>
                   </div>
                   <button
@@ -267,7 +283,7 @@ export function LiveCalculator({
                   <label className="block text-xs text-dark-400 mb-1">Type</label>
                   <select
                     value={newStone.type}
-                    onChange={(e) => setNewStone({ ...newStone, type: e.target.value as typeof newStone.type })}
+                    onChange={(e) => setNewStone({ ...newStone, type: e.target.value as typeof newStone.type, treatment: undefined, origin: undefined })}
                     className="w-full px-3 py-2 rounded-lg bg-dark-600 border border-dark-500 text-white text-sm focus:outline-none focus:border-gold-500"
                   >
                     {STONE_TYPES.map((t) => (
@@ -299,6 +315,44 @@ export function LiveCalculator({
                     ))}
                   </select>
                 </div>
+                {newStone.type === "diamond" && (
+                  <div>
+                    <label className="block text-xs text-dark-400 mb-1">Origin</label>
+                    <div className="grid grid-cols-2 gap-1">
+                      {(["natural", "lab_grown"] as const).map((origin) => (
+                        <button
+                          key={origin}
+                          onClick={() => setNewStone({ ...newStone, origin })}
+                          className={cn(
+                            "px-2 py-2 rounded-lg border text-xs font-medium transition-all",
+                            (newStone.origin ?? "natural") === origin
+                              ? "border-gold-500 bg-gold-500/10 text-gold-400"
+                              : "border-dark-500 bg-dark-600 text-dark-300 hover:border-dark-400"
+                          )}
+                        >
+                          {origin === "natural" ? "Natural" : "Lab-grown"}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {newStone.type !== "diamond" && (
+                  <div>
+                    <label className="block text-xs text-dark-400 mb-1">Treatment</label>
+                    <select
+                      value={newStone.treatment ?? ""}
+                      onChange={(e) => setNewStone({
+                        ...newStone,
+                        treatment: (e.target.value || undefined) as typeof newStone.treatment,
+                      })}
+                      className="w-full px-3 py-2 rounded-lg bg-dark-600 border border-dark-500 text-white text-sm focus:outline-none focus:border-gold-500"
+                    >
+                      {STONE_TREATMENTS.map((t) => (
+                        <option key={t.value} value={t.value}>{t.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
                 <div>
                   <label className="block text-xs text-dark-400 mb-1">Quantity</label>
                   <input
@@ -15,12 +15,33 @@ interface MarketData {
   prices: MetalPrices;
   metadata: {
     source: "live" | "cached" | "fallback";
+    provider: string;
     timestamp: string;
     isFresh: boolean;
     remainingTtlSeconds: number;
   };
 }
 
+interface HistoryPoint {
+  timestamp: string;
+  average: number;
+  close: number;
+}
+
+interface HistorySeries {
+  metal: keyof MetalPrices;
+  points: HistoryPoint[];
+  changePercent: number | null;
+}
+
+type HistoryRange = "7d" | "30d" | "365d";
+
+const RANGES: { key: HistoryRange; label: string }[] = [
+  { key: "7d", label: "7D" },
+  { key: "30d", label: "30D" },
+  { key: "365d", label: "1Y" },
+];
+
 const METALS = [
   { key: "gold_24k", label: "Gold 24K", color: "from-yellow-300 to-yellow-500" },
   { key: "gold_18k", label: "Gold 18K", color: "from-yellow-400 to-yellow-600" },
@@ -34,6 +55,10 @@ export function MarketDataCard() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [timeSinceUpdate, setTimeSinceUpdate] = useState<string>("");
+  const [range, setRange] = useState<HistoryRange>("30d");
+  const [selectedMetal, setSelectedMetal] = useState<keyof MetalPrices>("gold_24k");
+  const [history, setHistory] = useState<HistorySeries[] | null>(null);
+  const [showManualForm, setShowManualForm] = useState(false);
 
   const fetchMarketData = async () => {
     try {
@@ -61,6 +86,28 @@ export function MarketDataCard() {
     return () => clearInterval(interval);
   }, []);
 
+  // Load the price history for the selected range
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch(`/api/pricing/metals/history?range=${range}`);
+        const data = await response.json();
+        if (!cancelled) {
+          setHistory(data.success ? data.history.series : null);
+        }
+      } catch {
+        if (!cancelled) setHistory(null);
+      }
+    };
+
+    fetchHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [range]);
+
   // Update time since last update
   useEffect(() => {
     if (!marketData?.metadata.timestamp) return;
@@ -154,6 +201,7 @@ export function MarketDataCard() {
   }
 
   const status = getStatusConfig(marketData.metadata.source, marketData.metadata.isFresh);
+  const selectedSeries = history?.find((series) => series.metal === selectedMetal);
 
   return (
     <div className="bg-dark-800 rounded-2xl border border-dark-700 p-6">
@@ -176,10 +224,15 @@ export function MarketDataCard() {
       <div className="space-y-3">
         {METALS.map((metal) => {
           const price = marketData.prices[metal.key as keyof MetalPrices];
+          const change = history?.find((series) => series.metal === metal.key)?.changePercent ?? null;
           return (
-            <div
+            <button
               key={metal.key}
-              className="flex items-center justify-between p-3 rounded-lg bg-dark-700/50 hover:bg-dark-700 transition-colors"
+              onClick={() => setSelectedMetal(metal.key)}
+              className={cn(
+                "w-full flex items-center justify-between p-3 rounded-lg bg-dark-700/50 hover:bg-dark-700 transition-colors",
+                selectedMetal === metal.key && "ring-1 ring-gold-500/50"
+              )}
             >
               <div className="flex items-center gap-3">
                 <span className={cn(
@@ -188,28 +241,83 @@ export function MarketDataCard() {
                 )} />
                 <span className="text-dark-300 text-sm font-medium">{metal.label}</span>
               </div>
-              <span className="text-white font-mono text-sm">
-                {formatPrice(price)}/g
-              </span>
-            </div>
+              <div className="flex items-center gap-3">
+                {change !== null && <ChangeBadge change={change} />}
+                <span className="text-white font-mono text-sm">
+                  {formatPrice(price)}/g
+                </span>
+              </div>
+            </button>
           );
         })}
       </div>
 
+      {/* Trend Chart */}
+      <div className="mt-6">
+        <div className="flex items-center justify-between mb-3">
+          <span className="text-sm text-dark-300">
+            {METALS.find((metal) => metal.key === selectedMetal)?.label} trend
+          </span>
+          <div className="flex gap-1">
+            {RANGES.map((option) => (
+              <button
+                key={option.key}
+                onClick={() => setRange(option.key)}
+                className={cn(
+                  "px-2 py-0.5 rounded text-xs transition-colors",
+                  range === option.key
+                    ? "bg-gold-500 text-dark-900"
+                    : "text-dark-400 hover:text-white"
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {selectedSeries && selectedSeries.points.length > 1 ? (
+          <TrendChart points={selectedSeries.points} change={selectedSeries.changePercent ?? 0} />
+        ) : (
+          <div className="h-24 flex items-center justify-center rounded-lg bg-dark-700/30 text-xs text-dark-500">
+            Not enough price history for this range yet
+          </div>
+        )}
+      </div>
+
       {/* Footer */}
       <div className="mt-4 pt-4 border-t border-dark-700 flex items-center justify-between text-xs text-dark-500">
-        <span>Updated {timeSinceUpdate}</span>
-        <button
-          onClick={fetchMarketData}
-          className="flex items-center gap-1 text-gold-500 hover:text-gold-400 transition-colors"
-        >
-          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-          </svg>
-          Refresh
-        </button>
+        <span>
+          Updated {timeSinceUpdate} via {marketData.metadata.provider}
+        </span>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShowManualForm((open) => !open)}
+            className="text-dark-400 hover:text-white transition-colors"
+          >
+            Manual price
+          </button>
+          <button
+            onClick={fetchMarketData}
+            className="flex items-center gap-1 text-gold-500 hover:text-gold-400 transition-colors"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+            Refresh
+          </button>
+        </div>
       </div>
 
+      {showManualForm && (
+        <ManualPriceForm
+          onSaved={() => {
+            setShowManualForm(false);
+            fetchMarketData();
+          }}
+        />
+      )}
+
       {/* TTL indicator */}
       {marketData.metadata.remainingTtlSeconds > 0 && (
         <div className="mt-3">
@@ -230,3 +338,143 @@ export function MarketDataCard() {
     </div>
   );
 }
+
+/**
+ * Admin-entered fallback prices, used when the market data providers fail
+ */
+function ManualPriceForm({ onSaved }: { onSaved: () => void }) {
+  const [prices, setPrices] = useState({ gold_24k: "", silver: "", platinum: "" });
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/admin/pricing/metals")
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success && data.manual) {
+          setPrices({
+            gold_24k: String(data.manual.prices.gold_24k),
+            silver: String(data.manual.prices.silver),
+            platinum: String(data.manual.prices.platinum),
+          });
+        }
+      })
+      .catch(() => {});
+  }, []);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/pricing/metals", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          prices: {
+            gold_24k: parseFloat(prices.gold_24k),
+            silver: parseFloat(prices.silver),
+            platinum: parseFloat(prices.platinum),
+          },
+          note: note || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        onSaved();
+      } else {
+        setError(data.error || "Failed to save prices");
+      }
+    } catch {
+      setError("Network error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 p-3 rounded-lg bg-dark-700/50 space-y-2">
+      <p className="text-xs text-dark-400">
+        Pure metal prices in ₪ per gram. Used when the market data providers are unavailable.
+      </p>
+      {(["gold_24k", "silver", "platinum"] as const).map((metal) => (
+        <label key={metal} className="flex items-center justify-between gap-3 text-sm text-dark-300">
+          {METALS.find((m) => m.key === metal)?.label}
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={prices[metal]}
+            onChange={(e) => setPrices((current) => ({ ...current, [metal]: e.target.value }))}
+            className="w-28 px-2 py-1 rounded bg-dark-800 border border-dark-600 text-white font-mono text-sm"
+          />
+        </label>
+      ))}
+      <input
+        type="text"
+        placeholder="Note (optional)"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        className="w-full px-2 py-1 rounded bg-dark-800 border border-dark-600 text-white text-sm"
+      />
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="w-full py-1.5 rounded bg-gold-500 text-dark-900 text-sm font-medium hover:bg-gold-400 disabled:opacity-50"
+      >
+        {isSaving ? "Saving..." : "Save manual prices"}
+      </button>
+    </div>
+  );
+}
+
+function ChangeBadge({ change }: { change: number }) {
+  return (
+    <span
+      className={cn(
+        "text-xs font-mono",
+        change > 0 ? "text-green-400" : change < 0 ? "text-red-400" : "text-dark-400"
+      )}
+    >
+      {change > 0 ? "+" : ""}
+      {change.toFixed(2)}%
+    </span>
+  );
+}
+
+function TrendChart({ points, change }: { points: HistoryPoint[]; change: number }) {
+  const width = 300;
+  const height = 96;
+  const values = points.map((point) => point.average);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const spread = max - min || 1;
+
+  const path = values
+    .map((value, index) => {
+      const x = (index / (values.length - 1)) * width;
+      const y = height - ((value - min) / spread) * (height - 8) - 4;
+      return `${index === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  const stroke = change < 0 ? "#f87171" : "#4ade80";
+
+  return (
+    <div className="rounded-lg bg-dark-700/30 p-2">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-24" preserveAspectRatio="none">
+        <path d={path} fill="none" stroke={stroke} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-xs text-dark-500 mt-1">
+        <span>{new Date(points[0].timestamp).toLocaleDateString("he-IL")}</span>
+        <span>
+          {min.toFixed(2)} - {max.toFixed(2)} ₪/g
+        </span>
+        <span>{new Date(points[points.length - 1].timestamp).toLocaleDateString("he-IL")}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import { useState } from "react";
+import type { RefundSummary } from "@/lib/orders/refunds";
+
+const formatILS = (amount: number) => `₪${amount.toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function OrderRefundsPanel() {
+  const [orderId, setOrderId] = useState("");
+  const [summary, setSummary] = useState<RefundSummary | null>(null);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchSummary = async (id: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/orders/${encodeURIComponent(id)}/refund`);
+      const data = await response.json();
+
+      if (data.success) {
+        setSummary(data.summary);
+        setAmount(String(data.summary.refundable));
+      } else {
+        setSummary(null);
+        setError(data.error || "Failed to load refunds");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Fetch refunds error:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRefund = async () => {
+    if (!summary) return;
+    const refundAmount = parseFloat(amount);
+    if (!confirm(`Refund ${formatILS(refundAmount)} to the customer's card?`)) return;
+
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/admin/orders/${encodeURIComponent(summary.orderId)}/refund`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ amount: refundAmount, reason: reason || undefined }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setMessage(`Refunded ${formatILS(data.refunded)}`);
+        setReason("");
+      } else {
+        setError(data.details?.[0]?.message || data.error || "Failed to refund order");
+      }
+      // A failed refund may still have refunded part of the amount
+      await fetchSummary(summary.orderId);
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Refund order error:", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const refundAmount = parseFloat(amount);
+  const canRefund = summary && refundAmount > 0 && refundAmount <= summary.refundable;
+
+  return (
+    <div className="admin-section">
+      <div className="admin-section-header">
+        <span className="admin-section-title">Refunds</span>
+        {summary && (
+          <span className="admin-badge" style={{ background: 'var(--admin-gold-muted)', color: 'var(--admin-gold)' }}>
+            {formatILS(summary.refundable)} refundable
+          </span>
+        )}
+      </div>
+      <div className="admin-section-content" style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+        {/* Order Lookup */}
+        <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+          <input
+            type="text"
+            value={orderId}
+            placeholder="Order ID"
+            onChange={(e) => setOrderId(e.target.value)}
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <button
+            onClick={() => fetchSummary(orderId.trim())}
+            disabled={isLoading || !orderId.trim()}
+            className="admin-btn admin-btn-ghost"
+          >
+            {isLoading ? "Loading..." : "Load"}
+          </button>
+        </div>
+
+        {summary && (
+          <>
+            <p style={{ fontSize: '0.8125rem', color: 'var(--admin-text-secondary)' }}>
+              Order {summary.orderNumber} ({summary.status}) · Charged {formatILS(summary.charged)}
+              {" · "}Refunded {formatILS(summary.refunded)}
+              {" · "}Remaining {formatILS(summary.refundable)}
+            </p>
+
+            {/* History */}
+            {summary.refunds.length > 0 ? (
+              <div style={{ overflowX: 'auto' }}>
+                <table style={{ width: '100%', fontSize: '0.8125rem', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr style={{ textAlign: 'left', color: 'var(--admin-text-tertiary)' }}>
+                      <th style={{ padding: '0.5rem' }}>Date</th>
+                      <th style={{ padding: '0.5rem' }}>Amount</th>
+                      <th style={{ padding: '0.5rem' }}>Reason</th>
+                      <th style={{ padding: '0.5rem' }}>Gateway refund</th>
+                      <th style={{ padding: '0.5rem' }}>Credit note</th>
+                      <th style={{ padding: '0.5rem' }}>By</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.refunds.map((refund) => (
+                      <tr key={refund.id} style={{ borderTop: '1px solid var(--admin-border-light)' }}>
+                        <td style={{ padding: '0.5rem' }}>{formatDate(refund.createdAt)}</td>
+                        <td style={{ padding: '0.5rem', fontFamily: 'monospace' }}>{formatILS(refund.amount)}</td>
+                        <td style={{ padding: '0.5rem', color: 'var(--admin-text-primary)' }}>{refund.reason ?? "—"}</td>
+                        <td style={{ padding: '0.5rem', fontFamily: 'monospace', fontSize: '0.75rem' }}>
+                          {refund.gateway} {refund.gatewayRefundId ?? ""}
+                        </td>
+                        <td style={{ padding: '0.5rem' }}>{refund.creditNoteNumber ?? "—"}</td>
+                        <td style={{ padding: '0.5rem' }}>{refund.actor}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)' }}>No refunds yet.</p>
+            )}
+
+            {/* Refund */}
+            {summary.refundable > 0 && (
+              <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+                <input
+                  type="number"
+                  min={0}
+                  max={summary.refundable}
+                  step={1}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  style={{ ...inputStyle, width: '140px', fontFamily: 'monospace' }}
+                />
+                <input
+                  type="text"
+                  value={reason}
+                  placeholder="Reason"
+                  onChange={(e) => setReason(e.target.value)}
+                  style={{ ...inputStyle, flex: 1 }}
+                />
+                <button
+                  onClick={handleRefund}
+                  disabled={isSaving || !canRefund}
+                  className="admin-btn admin-btn-primary"
+                >
+                  {isSaving ? "Refunding..." : "Refund"}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+
+        {error && (
+          <p style={{ fontSize: '0.875rem', color: '#B91C1C' }}>{error}</p>
+        )}
+        {message && (
+          <p style={{ fontSize: '0.875rem', color: 'var(--admin-gold)' }}>{message}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.5rem 0.75rem',
+  borderRadius: 'var(--admin-radius-md)',
+  border: '1px solid var(--admin-border)',
+  background: 'var(--admin-bg)',
+  color: 'var(--admin-text-primary)',
+  fontSize: '0.875rem',
+};
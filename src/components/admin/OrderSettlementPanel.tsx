@@ -0,0 +1,228 @@
+"use client";
+
+import { useState } from "react";
+import type { SettlementQuote } from "@/lib/orders/settlement";
+
+const formatILS = (amount: number) => `₪${amount.toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+
+const formatGrams = (grams: number | null) => (grams === null ? "—" : `${grams}g`);
+
+const MODE_LABELS: Record<SettlementQuote["mode"], string> = {
+  full: "Paid in full",
+  authorize: "Authorized",
+  deposit: "Deposit",
+};
+
+export function OrderSettlementPanel() {
+  const [orderId, setOrderId] = useState("");
+  const [quote, setQuote] = useState<SettlementQuote | null>(null);
+  const [amount, setAmount] = useState("");
+  const [locale, setLocale] = useState<"he" | "en">("he");
+  const [note, setNote] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchQuote = async (id: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/orders/${encodeURIComponent(id)}/settlement`);
+      const data = await response.json();
+
+      if (data.success) {
+        setQuote(data.quote);
+        setAmount(String(data.quote.finalAmount ?? data.quote.suggestedAmount));
+      } else {
+        setQuote(null);
+        setError(data.error || "Failed to load settlement");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Fetch settlement error:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSettle = async () => {
+    if (!quote) return;
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/admin/orders/${encodeURIComponent(quote.orderId)}/settlement`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ amount: parseFloat(amount), locale, note: note || undefined }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setMessage(
+          data.mode === "authorize"
+            ? `Captured ${formatILS(data.finalAmount)}`
+            : data.paymentUrl
+              ? `Balance of ${formatILS(data.balanceDue)} requested - payment link: ${data.paymentUrl}`
+              : `Settled at ${formatILS(data.finalAmount)} - nothing left to pay`
+        );
+        setNote("");
+        await fetchQuote(quote.orderId);
+      } else {
+        setError(data.details?.[0]?.message || data.error || "Failed to settle order");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Settle order error:", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSettle = quote && quote.mode !== "full" && !quote.settledAt && parseFloat(amount) > 0;
+
+  return (
+    <div className="admin-section">
+      <div className="admin-section-header">
+        <span className="admin-section-title">Order Settlement</span>
+        {quote && (
+          <span className="admin-badge" style={{ background: 'var(--admin-gold-muted)', color: 'var(--admin-gold)' }}>
+            {MODE_LABELS[quote.mode]}{quote.settledAt ? " · settled" : ""}
+          </span>
+        )}
+      </div>
+      <div className="admin-section-content" style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+        {/* Order Lookup */}
+        <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+          <input
+            type="text"
+            value={orderId}
+            placeholder="Order ID"
+            onChange={(e) => setOrderId(e.target.value)}
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <button
+            onClick={() => fetchQuote(orderId.trim())}
+            disabled={isLoading || !orderId.trim()}
+            className="admin-btn admin-btn-ghost"
+          >
+            {isLoading ? "Loading..." : "Load"}
+          </button>
+        </div>
+
+        {quote && (
+          <>
+            <p style={{ fontSize: '0.8125rem', color: 'var(--admin-text-secondary)' }}>
+              Order {quote.orderNumber} ({quote.status}) · Checkout total {formatILS(quote.total)}
+              {quote.depositAmount !== null && ` · Deposit paid ${formatILS(quote.depositAmount)}`}
+              {quote.authorizedAmount !== null && ` · Held ${formatILS(quote.authorizedAmount)}`}
+              {quote.balanceDue > 0 && ` · Balance due ${formatILS(quote.balanceDue)}`}
+            </p>
+
+            {/* Weight Adjustment */}
+            <div style={{ overflowX: 'auto' }}>
+              <span className="admin-label">Measured weight (record it under Labor Calibration)</span>
+              <table style={{ width: '100%', fontSize: '0.8125rem', borderCollapse: 'collapse', marginTop: '0.5rem' }}>
+                <thead>
+                  <tr style={{ textAlign: 'left', color: 'var(--admin-text-tertiary)' }}>
+                    <th style={{ padding: '0.5rem' }}>Item</th>
+                    <th style={{ padding: '0.5rem' }}>Qty</th>
+                    <th style={{ padding: '0.5rem' }}>Priced at</th>
+                    <th style={{ padding: '0.5rem' }}>Measured</th>
+                    <th style={{ padding: '0.5rem' }}>Adjustment</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {quote.lines.map((line) => (
+                    <tr key={line.itemId} style={{ borderTop: '1px solid var(--admin-border-light)' }}>
+                      <td style={{ padding: '0.5rem', color: 'var(--admin-text-primary)' }}>
+                        {line.name ?? line.itemId}
+                        <span style={{ display: 'block', fontSize: '0.6875rem', color: 'var(--admin-text-tertiary)', fontFamily: 'monospace' }}>
+                          {line.itemId}
+                        </span>
+                      </td>
+                      <td style={{ padding: '0.5rem' }}>{line.quantity}</td>
+                      <td style={{ padding: '0.5rem', fontFamily: 'monospace' }}>{formatGrams(line.pricedWeightGrams)}</td>
+                      <td style={{ padding: '0.5rem', fontFamily: 'monospace' }}>{formatGrams(line.measuredWeightGrams)}</td>
+                      <td style={{ padding: '0.5rem', fontFamily: 'monospace' }}>
+                        {line.adjustment > 0 ? "+" : ""}{formatILS(line.adjustment)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <p style={{ fontSize: '0.8125rem', color: 'var(--admin-text-secondary)' }}>
+              Suggested final amount: {formatILS(quote.suggestedAmount)}
+              {quote.maxAmount !== null && ` (at most ${formatILS(quote.maxAmount)} can be captured)`}
+            </p>
+
+            {/* Settle */}
+            {quote.mode !== "full" && !quote.settledAt && (
+              <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  style={{ ...inputStyle, width: '140px', fontFamily: 'monospace' }}
+                />
+                {quote.mode === "deposit" && (
+                  <select
+                    value={locale}
+                    onChange={(e) => setLocale(e.target.value as "he" | "en")}
+                    style={inputStyle}
+                  >
+                    <option value="he">Hebrew payment page</option>
+                    <option value="en">English payment page</option>
+                  </select>
+                )}
+                <input
+                  type="text"
+                  value={note}
+                  placeholder="Note (optional)"
+                  onChange={(e) => setNote(e.target.value)}
+                  style={{ ...inputStyle, flex: 1 }}
+                />
+                <button
+                  onClick={handleSettle}
+                  disabled={isSaving || !canSettle}
+                  className="admin-btn admin-btn-primary"
+                >
+                  {isSaving ? "Saving..." : quote.mode === "authorize" ? "Capture" : "Request Balance"}
+                </button>
+              </div>
+            )}
+
+            {quote.balancePaymentUrl && (
+              <p style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)', wordBreak: 'break-all' }}>
+                Balance payment link: {quote.balancePaymentUrl}
+              </p>
+            )}
+          </>
+        )}
+
+        {error && (
+          <p style={{ fontSize: '0.875rem', color: '#B91C1C' }}>{error}</p>
+        )}
+        {message && (
+          <p style={{ fontSize: '0.875rem', color: 'var(--admin-gold)', wordBreak: 'break-all' }}>{message}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.5rem 0.75rem',
+  borderRadius: 'var(--admin-radius-md)',
+  border: '1px solid var(--admin-border)',
+  background: 'var(--admin-bg)',
+  color: 'var(--admin-text-primary)',
+  fontSize: '0.875rem',
+};
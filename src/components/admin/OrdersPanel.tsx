@@ -0,0 +1,929 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { OrderDetail, OrderListItem } from "@/lib/orders/admin-orders";
+import type { OrderStatus } from "@/lib/orders/lifecycle";
+import type { CarrierId, ShipmentStatus } from "@/lib/shipping/carriers";
+import type { ImportRowResult } from "@/lib/shipping/shipments";
+
+const PAGE_SIZE = 25;
+
+const statusLabels: Record<OrderStatus, string> = {
+  pending: "Pending",
+  paid: "Paid",
+  in_production: "In production",
+  quality_check: "Quality check",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+};
+
+const statusColors: Record<OrderStatus, { background: string; color: string }> = {
+  pending: { background: 'var(--admin-bg)', color: 'var(--admin-text-secondary)' },
+  paid: { background: 'var(--admin-gold-muted)', color: 'var(--admin-gold)' },
+  in_production: { background: 'var(--admin-info-bg)', color: 'var(--admin-info)' },
+  quality_check: { background: 'var(--admin-info-bg)', color: 'var(--admin-info)' },
+  shipped: { background: 'var(--admin-info-bg)', color: 'var(--admin-info)' },
+  delivered: { background: 'rgba(22, 163, 74, 0.08)', color: '#15803D' },
+  cancelled: { background: 'rgba(220, 38, 38, 0.06)', color: '#B91C1C' },
+  refunded: { background: 'rgba(220, 38, 38, 0.06)', color: '#B91C1C' },
+};
+
+const gatewayLabels: Record<string, string> = {
+  zcredit: "Z-Credit",
+  tranzila: "Tranzila",
+  meshulam: "Meshulam",
+};
+
+const modeLabels: Record<string, string> = {
+  full: "Paid in full",
+  authorize: "Authorize, capture on weighing",
+  deposit: "Deposit + balance",
+};
+
+const carrierLabels: Record<CarrierId, string> = {
+  israel_post: "Israel Post",
+};
+
+const shipmentStatusLabels: Record<ShipmentStatus, string> = {
+  label_created: "Handed to carrier",
+  in_transit: "In transit",
+  out_for_delivery: "Out for delivery",
+  delivered: "Delivered",
+  exception: "Delivery issue",
+};
+
+// Orders that can take a parcel
+const shippableStatuses: OrderStatus[] = ["quality_check", "shipped"];
+
+const emptyShipmentForm = { carrier: "israel_post" as CarrierId, trackingNumber: "", insuredValue: "", shippedAt: "" };
+
+// Order JSON arrives with dates as strings
+type OrderRow = Omit<OrderListItem, "createdAt"> & { createdAt: string };
+
+interface Filters {
+  status: OrderStatus | null;
+  gateway: string;
+  customer: string;
+  q: string;
+  from: string;
+  to: string;
+}
+
+const emptyFilters: Filters = { status: null, gateway: "", customer: "", q: "", from: "", to: "" };
+
+const formatILS = (amount: number) => `₪${amount.toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+function filterParams(filters: Filters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.status) params.set("status", filters.status);
+  if (filters.gateway) params.set("gateway", filters.gateway);
+  if (filters.customer.trim()) params.set("customer", filters.customer.trim());
+  if (filters.q.trim()) params.set("q", filters.q.trim());
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  return params;
+}
+
+export function OrdersPanel() {
+  const [orders, setOrders] = useState<OrderRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  // Text fields apply on submit, not on every keystroke
+  const [search, setSearch] = useState({ q: "", customer: "" });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+
+  const fetchOrders = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = filterParams(filters);
+      params.set("limit", String(PAGE_SIZE));
+      params.set("offset", String(offset));
+
+      const response = await fetch(`/api/admin/orders?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setOrders(data.orders);
+        setTotal(data.pagination.total);
+      } else if (data.error && !data.error.includes("Admin authentication")) {
+        setError(data.details?.[0]?.message || data.error);
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Fetch orders error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, offset]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const updateFilters = (update: Partial<Filters>) => {
+    setFilters((prev) => ({ ...prev, ...update }));
+    setOffset(0);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters(search);
+  };
+
+  const handleReset = () => {
+    setSearch({ q: "", customer: "" });
+    setFilters(emptyFilters);
+    setOffset(0);
+  };
+
+  const exportParams = filterParams(filters);
+  exportParams.set("format", "csv");
+
+  return (
+    <div className="space-y-6">
+      {/* Filter Bar */}
+      <div className="flex flex-wrap items-center gap-2" style={{ borderBottom: '1px solid var(--admin-border-light)', paddingBottom: '1rem' }}>
+        {[null, ...Object.keys(statusLabels) as OrderStatus[]].map((status) => (
+          <button
+            key={status ?? "all"}
+            onClick={() => updateFilters({ status })}
+            className={`admin-filter-pill ${filters.status === status ? 'active' : ''}`}
+          >
+            {status ? statusLabels[status] : "All"}
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={handleSearch} className="flex flex-wrap items-center gap-3">
+        <input
+          type="search"
+          value={search.q}
+          placeholder="Order number or email"
+          onChange={(e) => setSearch((prev) => ({ ...prev, q: e.target.value }))}
+          style={{ ...inputStyle, minWidth: '220px', flex: 1 }}
+        />
+        <input
+          type="text"
+          value={search.customer}
+          placeholder="Customer email or user ID"
+          onChange={(e) => setSearch((prev) => ({ ...prev, customer: e.target.value }))}
+          style={{ ...inputStyle, minWidth: '200px' }}
+        />
+        <select
+          value={filters.gateway}
+          onChange={(e) => updateFilters({ gateway: e.target.value })}
+          style={inputStyle}
+        >
+          <option value="">All gateways</option>
+          {Object.entries(gatewayLabels).map(([id, label]) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+        </select>
+        <label className="admin-label" style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+          From
+          <input type="date" value={filters.from} onChange={(e) => updateFilters({ from: e.target.value })} style={inputStyle} />
+        </label>
+        <label className="admin-label" style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+          To
+          <input type="date" value={filters.to} onChange={(e) => updateFilters({ to: e.target.value })} style={inputStyle} />
+        </label>
+        <button type="submit" className="admin-btn admin-btn-primary">Search</button>
+        <button type="button" onClick={handleReset} className="admin-btn admin-btn-ghost">Reset</button>
+        <div className="flex-1" />
+        <button type="button" onClick={() => setShowImport(!showImport)} className="admin-btn admin-btn-secondary">
+          Import tracking
+        </button>
+        <a href={`/api/admin/orders?${exportParams}`} className="admin-btn admin-btn-secondary" download>
+          Export CSV
+        </a>
+      </form>
+
+      {showImport && <TrackingImport onImported={fetchOrders} />}
+
+      {error && (
+        <p style={{ fontSize: '0.875rem', color: '#B91C1C' }}>{error}</p>
+      )}
+
+      {/* Orders Table */}
+      <div className="admin-section">
+        <div className="admin-section-header">
+          <span className="admin-section-title">Orders</span>
+          <span style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)' }}>
+            {loading ? "Loading..." : `${total} ${total === 1 ? "order" : "orders"}`}
+          </span>
+        </div>
+        <div className="admin-section-content">
+          {orders.length > 0 ? (
+            <div style={{ overflowX: 'auto' }}>
+              <table style={{ width: '100%', fontSize: '0.8125rem', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ textAlign: 'left', color: 'var(--admin-text-tertiary)' }}>
+                    <th style={{ padding: '0.5rem' }}>Order</th>
+                    <th style={{ padding: '0.5rem' }}>Placed</th>
+                    <th style={{ padding: '0.5rem' }}>Customer</th>
+                    <th style={{ padding: '0.5rem' }}>Items</th>
+                    <th style={{ padding: '0.5rem' }}>Total</th>
+                    <th style={{ padding: '0.5rem' }}>Gateway</th>
+                    <th style={{ padding: '0.5rem' }}>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {orders.map((order) => (
+                    <tr
+                      key={order.id}
+                      onClick={() => setSelectedId(order.id)}
+                      style={{ borderTop: '1px solid var(--admin-border-light)', cursor: 'pointer' }}
+                    >
+                      <td style={{ padding: '0.5rem', fontFamily: 'monospace', fontSize: '0.75rem' }}>{order.orderNumber}</td>
+                      <td style={{ padding: '0.5rem' }}>{formatDate(order.createdAt)}</td>
+                      <td style={{ padding: '0.5rem', color: 'var(--admin-text-primary)' }}>
+                        {order.customerName ?? "—"}
+                        <div style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)' }}>{order.customerEmail}</div>
+                      </td>
+                      <td style={{ padding: '0.5rem' }}>{order.itemCount}</td>
+                      <td style={{ padding: '0.5rem', fontFamily: 'monospace' }}>
+                        {formatILS(order.total)}
+                        {order.refundedAmount > 0 && (
+                          <div style={{ fontSize: '0.75rem', color: '#B91C1C' }}>−{formatILS(order.refundedAmount)}</div>
+                        )}
+                      </td>
+                      <td style={{ padding: '0.5rem' }}>{order.paymentGateway ? gatewayLabels[order.paymentGateway] ?? order.paymentGateway : "—"}</td>
+                      <td style={{ padding: '0.5rem' }}><OrderStatusBadge status={order.status} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            !loading && (
+              <p style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)' }}>No orders match these filters.</p>
+            )
+          )}
+
+          {/* Pagination */}
+          {total > PAGE_SIZE && (
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '1rem' }}>
+              <span style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)' }}>
+                {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+              </span>
+              <div style={{ display: 'flex', gap: '0.5rem' }}>
+                <button
+                  onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                  disabled={loading || offset === 0}
+                  className="admin-btn admin-btn-ghost"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                  disabled={loading || offset + PAGE_SIZE >= total}
+                  className="admin-btn admin-btn-ghost"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {selectedId && (
+        <OrderDetailModal
+          orderId={selectedId}
+          onClose={() => setSelectedId(null)}
+          onChanged={fetchOrders}
+        />
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// Order Detail Modal
+// ============================================
+function OrderDetailModal({
+  orderId,
+  onClose,
+  onChanged,
+}: {
+  orderId: string;
+  onClose: () => void;
+  onChanged: () => void;
+}) {
+  const [order, setOrder] = useState<OrderDetail | null>(null);
+  const [notes, setNotes] = useState("");
+  const [transitionNote, setTransitionNote] = useState("");
+  const [shipmentForm, setShipmentForm] = useState(emptyShipmentForm);
+  const [scanDraft, setScanDraft] = useState<{ shipmentId: string; status: ShipmentStatus; description: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchOrder = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/orders/${encodeURIComponent(orderId)}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setOrder(data.order);
+        setNotes(data.order.notes ?? "");
+      } else {
+        setError(data.error || "Failed to load order");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Fetch order error:", err);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    fetchOrder();
+  }, [fetchOrder]);
+
+  const handleTransition = async (status: OrderStatus) => {
+    if (!confirm(`Move order to ${statusLabels[status]}?`)) return;
+
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/admin/orders/${encodeURIComponent(orderId)}/status`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status, note: transitionNote || undefined }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setMessage(`Moved to ${statusLabels[status]}`);
+        setTransitionNote("");
+        await fetchOrder();
+        onChanged();
+      } else {
+        setError(data.details?.[0]?.message || data.error || "Failed to update status");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Order status error:", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreateShipment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/admin/orders/${encodeURIComponent(orderId)}/shipments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          carrier: shipmentForm.carrier,
+          trackingNumber: shipmentForm.trackingNumber,
+          insuredValue: shipmentForm.insuredValue ? Number(shipmentForm.insuredValue) : undefined,
+          shippedAt: shipmentForm.shippedAt || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setMessage(`Shipment ${data.shipment.trackingNumber} recorded`);
+        setShipmentForm(emptyShipmentForm);
+        await fetchOrder();
+        onChanged();
+      } else {
+        setError(data.details?.[0]?.message || data.error || "Failed to record shipment");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Create shipment error:", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!scanDraft) return;
+
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(
+        `/api/admin/orders/${encodeURIComponent(orderId)}/shipments/${encodeURIComponent(scanDraft.shipmentId)}/events`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ status: scanDraft.status, description: scanDraft.description || undefined }),
+        }
+      );
+      const data = await response.json();
+
+      if (data.success) {
+        setMessage(`Scan added: ${shipmentStatusLabels[scanDraft.status]}`);
+        setScanDraft(null);
+        await fetchOrder();
+        onChanged();
+      } else {
+        setError(data.details?.[0]?.message || data.error || "Failed to add scan");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Add scan error:", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveNotes = async () => {
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/admin/orders/${encodeURIComponent(orderId)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ notes: notes || null }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setOrder((prev) => prev ? { ...prev, notes: data.notes } : prev);
+        setMessage("Notes saved");
+      } else {
+        setError(data.details?.[0]?.message || data.error || "Failed to save notes");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Order notes error:", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="admin-modal-overlay" onClick={onClose}>
+      <div
+        className="admin-modal"
+        style={{ maxWidth: '900px' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="admin-modal-header">
+          <div>
+            <h2 className="admin-modal-title">Order {order?.orderNumber ?? ""}</h2>
+            <p style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)', marginTop: '0.25rem' }}>
+              {orderId}
+            </p>
+          </div>
+          <button className="admin-modal-close" onClick={onClose}>
+            <CloseIcon />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="admin-modal-body" style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+          {!order ? (
+            <p style={{ fontSize: '0.875rem', color: 'var(--admin-text-secondary)' }}>
+              {error ?? "Loading..."}
+            </p>
+          ) : (
+            <>
+              {/* Status */}
+              <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.75rem' }}>
+                <OrderStatusBadge status={order.status} />
+                <span style={{ fontSize: '0.8125rem', color: 'var(--admin-text-secondary)' }}>
+                  Placed {formatDate(order.createdAt)}
+                </span>
+              </div>
+              {order.transitions.length > 0 && (
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', alignItems: 'center' }}>
+                  <input
+                    type="text"
+                    value={transitionNote}
+                    placeholder="Note for the status history"
+                    onChange={(e) => setTransitionNote(e.target.value)}
+                    style={{ ...inputStyle, flex: 1, minWidth: '200px' }}
+                  />
+                  {order.transitions.map((status) => (
+                    <button
+                      key={status}
+                      onClick={() => handleTransition(status)}
+                      disabled={isSaving}
+                      className={`admin-btn ${status === "cancelled" ? 'admin-btn-ghost' : 'admin-btn-primary'}`}
+                    >
+                      {statusLabels[status]}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* Items */}
+              <DetailSection title="Items">
+                <table style={{ width: '100%', fontSize: '0.8125rem', borderCollapse: 'collapse' }}>
+                  <tbody>
+                    {order.items.map((item) => (
+                      <tr key={item.id} style={{ borderTop: '1px solid var(--admin-border-light)' }}>
+                        <td style={{ padding: '0.5rem', width: '48px' }}>
+                          {item.thumbnailUrl && (
+                            // eslint-disable-next-line @next/next/no-img-element
+                            <img src={item.thumbnailUrl} alt="" style={{ width: '40px', height: '40px', objectFit: 'cover', borderRadius: 'var(--admin-radius-md)' }} />
+                          )}
+                        </td>
+                        <td style={{ padding: '0.5rem', color: 'var(--admin-text-primary)' }}>
+                          {item.name ?? item.jewelryType}
+                          <div style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)' }}>
+                            {[item.material, item.sizeDetails ?? item.size].filter(Boolean).join(" · ")}
+                          </div>
+                        </td>
+                        <td style={{ padding: '0.5rem' }}>× {item.quantity}</td>
+                        <td style={{ padding: '0.5rem', fontFamily: 'monospace', textAlign: 'right' }}>
+                          {formatILS(item.totalPrice)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <DetailRows
+                  rows={[
+                    ["Subtotal", formatILS(order.subtotal)],
+                    order.discount > 0 ? [`Discount${order.discountCode ? ` (${order.discountCode})` : ""}`, `−${formatILS(order.discount)}`] : null,
+                    [`Shipping${order.shippingMethod ? ` (${order.shippingMethod})` : ""}`, formatILS(order.shipping)],
+                    [`VAT${order.taxRate !== null ? ` ${Math.round(order.taxRate * 100)}%` : ""}`, formatILS(order.tax)],
+                    ["Total", formatILS(order.total)],
+                  ]}
+                />
+              </DetailSection>
+
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1.25rem' }}>
+                {/* Customer & Shipping */}
+                <DetailSection title="Customer">
+                  <DetailRows
+                    rows={[
+                      ["Name", order.customerName ?? "—"],
+                      ["Email", order.customerEmail ?? "—"],
+                      ["Phone", order.customerPhone ?? "—"],
+                      ["Account", order.userId ?? "Guest"],
+                      ["Ship to", formatAddress(order.shippingAddress)],
+                      order.billingAddress ? ["Bill to", formatAddress(order.billingAddress)] : null,
+                    ]}
+                  />
+                </DetailSection>
+
+                {/* Payment */}
+                <DetailSection title="Payment">
+                  <DetailRows
+                    rows={[
+                      ["Gateway", order.payment.gateway ? gatewayLabels[order.payment.gateway] ?? order.payment.gateway : "—"],
+                      ["Terms", modeLabels[order.payment.mode] ?? order.payment.mode],
+                      ["Approval", order.payment.approval ?? "—"],
+                      ["Transaction", order.payment.transactionId ?? order.payment.reference ?? "—"],
+                      order.payment.depositAmount !== null ? ["Deposit", formatILS(order.payment.depositAmount)] : null,
+                      order.payment.authorizedAmount !== null ? ["Authorized", formatILS(order.payment.authorizedAmount)] : null,
+                      order.payment.finalAmount !== null ? ["Final amount", formatILS(order.payment.finalAmount)] : null,
+                      order.payment.balanceDue > 0 ? ["Balance due", formatILS(order.payment.balanceDue)] : null,
+                      order.payment.settledAt ? ["Settled", formatDate(order.payment.settledAt)] : null,
+                      order.refunds ? ["Refunded", `${formatILS(order.refunds.refunded)} of ${formatILS(order.refunds.charged)}`] : null,
+                    ]}
+                  />
+                  {order.invoices.length > 0 && (
+                    <div style={{ marginTop: '0.75rem', display: 'flex', flexDirection: 'column', gap: '0.25rem', fontSize: '0.75rem' }}>
+                      {order.invoices.map((invoice) => (
+                        <span key={invoice.id}>
+                          {invoice.type === "credit_note" ? "Credit note" : "Invoice"} {invoice.number} · {formatILS(invoice.total)}
+                          {" · "}
+                          <a href={`/api/user/orders/${order.id}/invoices/${invoice.id}?locale=he`} style={{ color: 'var(--admin-gold)' }}>HE</a>
+                          {" / "}
+                          <a href={`/api/user/orders/${order.id}/invoices/${invoice.id}?locale=en`} style={{ color: 'var(--admin-gold)' }}>EN</a>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </DetailSection>
+              </div>
+
+              {/* Shipments */}
+              {(order.shipments.length > 0 || shippableStatuses.includes(order.status)) && (
+                <DetailSection title="Shipments">
+                  {order.shipments.map((shipment) => (
+                    <div key={shipment.id} style={{ borderBottom: '1px solid var(--admin-border-light)', paddingBottom: '0.75rem', marginBottom: '0.75rem' }}>
+                      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.75rem', fontSize: '0.8125rem' }}>
+                        <span style={{ color: 'var(--admin-text-primary)' }}>{carrierLabels[shipment.carrier] ?? shipment.carrier}</span>
+                        <a href={shipment.trackingUrl} target="_blank" rel="noopener noreferrer" style={{ fontFamily: 'monospace', color: 'var(--admin-gold)' }}>
+                          {shipment.trackingNumber}
+                        </a>
+                        <span className="admin-badge" style={shipment.deliveredAt ? statusColors.delivered : statusColors.shipped}>
+                          {shipmentStatusLabels[shipment.status]}
+                        </span>
+                        <span style={{ color: 'var(--admin-text-tertiary)' }}>
+                          Shipped {formatDate(shipment.shippedAt)}
+                          {shipment.insuredValue !== null && ` · insured ${formatILS(shipment.insuredValue)}`}
+                        </span>
+                        <div className="flex-1" />
+                        {!shipment.deliveredAt && scanDraft?.shipmentId !== shipment.id && (
+                          <button
+                            onClick={() => setScanDraft({ shipmentId: shipment.id, status: "delivered", description: "" })}
+                            disabled={isSaving}
+                            className="admin-btn admin-btn-ghost"
+                          >
+                            Add scan
+                          </button>
+                        )}
+                      </div>
+                      {shipment.events.map((event) => (
+                        <div key={event.id} style={{ display: 'flex', gap: '0.75rem', fontSize: '0.75rem', padding: '0.25rem 0 0 0.5rem' }}>
+                          <span style={{ color: 'var(--admin-text-tertiary)', minWidth: '150px' }}>{formatDate(event.occurredAt)}</span>
+                          <span style={{ color: 'var(--admin-text-primary)' }}>{shipmentStatusLabels[event.status]}</span>
+                          <span style={{ color: 'var(--admin-text-tertiary)' }}>
+                            {[event.description, event.location].filter(Boolean).join(" · ")}
+                            {event.source === "admin" ? " (entered by admin)" : ""}
+                          </span>
+                        </div>
+                      ))}
+                      {scanDraft?.shipmentId === shipment.id && (
+                        <form onSubmit={handleAddScan} style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginTop: '0.5rem' }}>
+                          <select
+                            value={scanDraft.status}
+                            onChange={(e) => setScanDraft({ ...scanDraft, status: e.target.value as ShipmentStatus })}
+                            style={inputStyle}
+                          >
+                            {Object.entries(shipmentStatusLabels).map(([status, label]) => (
+                              <option key={status} value={status}>{label}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="text"
+                            value={scanDraft.description}
+                            placeholder="Description (optional)"
+                            onChange={(e) => setScanDraft({ ...scanDraft, description: e.target.value })}
+                            style={{ ...inputStyle, flex: 1, minWidth: '180px' }}
+                          />
+                          <button type="submit" disabled={isSaving} className="admin-btn admin-btn-primary">Add</button>
+                          <button type="button" onClick={() => setScanDraft(null)} className="admin-btn admin-btn-ghost">Cancel</button>
+                        </form>
+                      )}
+                    </div>
+                  ))}
+                  {shippableStatuses.includes(order.status) && (
+                    <form onSubmit={handleCreateShipment} style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', alignItems: 'center' }}>
+                      <select
+                        value={shipmentForm.carrier}
+                        onChange={(e) => setShipmentForm({ ...shipmentForm, carrier: e.target.value as CarrierId })}
+                        style={inputStyle}
+                      >
+                        {Object.entries(carrierLabels).map(([id, label]) => (
+                          <option key={id} value={id}>{label}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={shipmentForm.trackingNumber}
+                        placeholder="Tracking number"
+                        onChange={(e) => setShipmentForm({ ...shipmentForm, trackingNumber: e.target.value })}
+                        style={{ ...inputStyle, flex: 1, minWidth: '160px', fontFamily: 'monospace' }}
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={shipmentForm.insuredValue}
+                        placeholder={`Insured (${formatILS(order.payment.finalAmount ?? order.total)})`}
+                        onChange={(e) => setShipmentForm({ ...shipmentForm, insuredValue: e.target.value })}
+                        style={{ ...inputStyle, width: '160px' }}
+                      />
+                      <input
+                        type="date"
+                        value={shipmentForm.shippedAt}
+                        onChange={(e) => setShipmentForm({ ...shipmentForm, shippedAt: e.target.value })}
+                        style={inputStyle}
+                      />
+                      <button
+                        type="submit"
+                        disabled={isSaving || !shipmentForm.trackingNumber.trim()}
+                        className="admin-btn admin-btn-primary"
+                      >
+                        {order.status === "quality_check" ? "Ship order" : "Add parcel"}
+                      </button>
+                    </form>
+                  )}
+                </DetailSection>
+              )}
+
+              {/* Notes */}
+              <DetailSection title="Internal notes">
+                <textarea
+                  value={notes}
+                  rows={3}
+                  onChange={(e) => setNotes(e.target.value)}
+                  style={{ ...inputStyle, width: '100%', resize: 'vertical' }}
+                />
+                <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '0.5rem' }}>
+                  <button
+                    onClick={handleSaveNotes}
+                    disabled={isSaving || notes === (order.notes ?? "")}
+                    className="admin-btn admin-btn-secondary"
+                  >
+                    Save notes
+                  </button>
+                </div>
+              </DetailSection>
+
+              {/* History */}
+              <DetailSection title="History">
+                {order.timeline.map((event) => (
+                  <div key={event.id} style={{ display: 'flex', gap: '0.75rem', fontSize: '0.8125rem', padding: '0.25rem 0' }}>
+                    <span style={{ color: 'var(--admin-text-tertiary)', minWidth: '150px' }}>{formatDate(event.createdAt)}</span>
+                    <span style={{ color: 'var(--admin-text-primary)' }}>{statusLabels[event.toStatus]}</span>
+                    <span style={{ color: 'var(--admin-text-tertiary)' }}>
+                      {event.actor}{event.note ? ` - ${event.note}` : ""}
+                    </span>
+                  </div>
+                ))}
+              </DetailSection>
+
+              {error && (
+                <p style={{ fontSize: '0.875rem', color: '#B91C1C' }}>{error}</p>
+              )}
+              {message && (
+                <p style={{ fontSize: '0.875rem', color: 'var(--admin-gold)' }}>{message}</p>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="admin-modal-footer">
+          <button onClick={onClose} className="admin-btn admin-btn-secondary">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Tracking Import
+// ============================================
+function TrackingImport({ onImported }: { onImported: () => void }) {
+  const [csv, setCsv] = useState("");
+  const [results, setResults] = useState<ImportRowResult[] | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsImporting(true);
+    setError(null);
+    setResults(null);
+
+    try {
+      const response = await fetch("/api/admin/shipments/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setResults(data.results);
+        if (data.results.some((row: ImportRowResult) => row.success)) {
+          onImported();
+        }
+      } else {
+        setError(data.details?.[0]?.message || data.error || "Failed to import tracking");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Tracking import error:", err);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const imported = results?.filter((row) => row.success).length ?? 0;
+
+  return (
+    <div className="admin-section">
+      <div className="admin-section-header">
+        <span className="admin-section-title">Import tracking</span>
+      </div>
+      <div className="admin-section-content">
+        <form onSubmit={handleImport}>
+          <p style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)', marginBottom: '0.5rem' }}>
+            One parcel per line: order_number, tracking_number, carrier, insured_value, shipped_at (YYYY-MM-DD).
+            Only the first two are required. Orders that passed their quality check are marked shipped.
+          </p>
+          <textarea
+            value={csv}
+            rows={5}
+            placeholder="order_number,tracking_number"
+            onChange={(e) => setCsv(e.target.value)}
+            style={{ ...inputStyle, width: '100%', resize: 'vertical', fontFamily: 'monospace' }}
+          />
+          <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '0.5rem' }}>
+            <button type="submit" disabled={isImporting || !csv.trim()} className="admin-btn admin-btn-primary">
+              {isImporting ? "Importing..." : "Import"}
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <p style={{ fontSize: '0.875rem', color: '#B91C1C' }}>{error}</p>
+        )}
+        {results && (
+          <div style={{ marginTop: '0.75rem', fontSize: '0.8125rem' }}>
+            <p style={{ color: 'var(--admin-text-primary)', marginBottom: '0.375rem' }}>
+              Imported {imported} of {results.length} lines
+            </p>
+            {results.filter((row) => !row.success).map((row) => (
+              <div key={row.line} style={{ fontSize: '0.75rem', color: '#B91C1C' }}>
+                Line {row.line} ({row.orderNumber || "—"} {row.trackingNumber}): {row.error}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function formatAddress(address: unknown): string {
+  if (!address || typeof address !== "object") return "—";
+  const parts = Object.values(address).filter((part) => typeof part === "string" && part.trim());
+  return parts.length > 0 ? parts.join(", ") : "—";
+}
+
+function OrderStatusBadge({ status }: { status: OrderStatus }) {
+  return (
+    <span className="admin-badge" style={statusColors[status]}>
+      {statusLabels[status]}
+    </span>
+  );
+}
+
+function DetailSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="admin-section">
+      <div className="admin-section-header">
+        <span className="admin-section-title">{title}</span>
+      </div>
+      <div className="admin-section-content">{children}</div>
+    </div>
+  );
+}
+
+function DetailRows({ rows }: { rows: Array<[string, string] | null> }) {
+  return (
+    <dl style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '0.375rem 1rem', fontSize: '0.8125rem', marginTop: '0.5rem' }}>
+      {rows.filter((row): row is [string, string] => row !== null).map(([label, value]) => (
+        <div key={label} style={{ display: 'contents' }}>
+          <dt style={{ color: 'var(--admin-text-tertiary)' }}>{label}</dt>
+          <dd style={{ color: 'var(--admin-text-primary)', wordBreak: 'break-word' }}>{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function CloseIcon() {
+  return (
+    <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <line x1="18" y1="6" x2="6" y2="18"/>
+      <line x1="6" y1="6" x2="18" y2="18"/>
+    </svg>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.5rem 0.75rem',
+  borderRadius: 'var(--admin-radius-md)',
+  border: '1px solid var(--admin-border)',
+  background: 'var(--admin-bg)',
+  color: 'var(--admin-text-primary)',
+  fontSize: '0.875rem',
+};
@@ -0,0 +1,206 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { PaymentMode, PaymentTerms, PaymentTermsVersion } from "@/lib/payments/payment-terms";
+
+const PAYMENT_MODES: { mode: PaymentMode; label: string; description: string }[] = [
+  { mode: "full", label: "Full payment", description: "The whole total is charged at checkout." },
+  {
+    mode: "authorize",
+    label: "Authorize",
+    description: "The total is held on the card and the final amount captured once the piece is weighed.",
+  },
+  {
+    mode: "deposit",
+    label: "Deposit",
+    description: "A deposit is charged at checkout; the customer pays the balance once the piece is weighed.",
+  },
+];
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const toPercent = (rate: number) => Math.round(rate * 1000) / 10;
+
+export function PaymentTermsPanel() {
+  const [active, setActive] = useState<PaymentTermsVersion | null>(null);
+  const [versions, setVersions] = useState<PaymentTermsVersion[]>([]);
+  const [draft, setDraft] = useState<PaymentTerms | null>(null);
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchTerms = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/pricing/payment-terms");
+      const data = await response.json();
+
+      if (data.success) {
+        setActive(data.active);
+        setVersions(data.versions);
+        setDraft(data.active.terms);
+        setError(null);
+      } else {
+        setError(data.error || "Failed to load payment terms");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Fetch payment terms error:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTerms();
+  }, [fetchTerms]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/pricing/payment-terms", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ terms: draft, note: note || undefined }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setMessage(`Payment terms v${data.version.version} saved`);
+        setNote("");
+        await fetchTerms();
+      } else {
+        setError(data.details?.[0]?.message || data.error || "Failed to save payment terms");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Save payment terms error:", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!draft) {
+    return error ? (
+      <div className="admin-empty-state">
+        <h3 className="admin-empty-title">Payment terms unavailable</h3>
+        <p className="admin-empty-text">{error}</p>
+      </div>
+    ) : null;
+  }
+
+  return (
+    <div className="admin-section">
+      <div className="admin-section-header">
+        <span className="admin-section-title">Payment Terms</span>
+        {active && (
+          <span className="admin-badge" style={{ background: 'var(--admin-gold-muted)', color: 'var(--admin-gold)' }}>
+            Active: v{active.version}{active.source === "default" ? " (defaults)" : ""}
+          </span>
+        )}
+      </div>
+      <div className="admin-section-content" style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+        {/* Checkout Mode */}
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+          {PAYMENT_MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => setDraft({ ...draft, mode })}
+              className={`admin-btn ${draft.mode === mode ? "admin-btn-primary" : "admin-btn-ghost"}`}
+              style={{ padding: '0.375rem 0.75rem', fontSize: '0.8125rem' }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <p style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)' }}>
+          {PAYMENT_MODES.find((option) => option.mode === draft.mode)?.description}
+        </p>
+
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '0.75rem' }}>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+            <span className="admin-label">Deposit (% of total)</span>
+            <input
+              type="number"
+              min={5}
+              max={95}
+              step={5}
+              value={toPercent(draft.depositRate)}
+              disabled={draft.mode !== "deposit"}
+              onChange={(e) => setDraft({ ...draft, depositRate: (parseFloat(e.target.value) || 0) / 100 })}
+              style={{ ...inputStyle, fontFamily: 'monospace' }}
+            />
+          </label>
+          <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+            <span className="admin-label">Extra held for a heavier piece (%)</span>
+            <input
+              type="number"
+              min={0}
+              max={50}
+              step={1}
+              value={toPercent(draft.authorizationMargin)}
+              disabled={draft.mode !== "authorize"}
+              onChange={(e) => setDraft({ ...draft, authorizationMargin: (parseFloat(e.target.value) || 0) / 100 })}
+              style={{ ...inputStyle, fontFamily: 'monospace' }}
+            />
+          </label>
+        </div>
+
+        {/* Save */}
+        <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+          <input
+            type="text"
+            value={note}
+            placeholder="Why is this changing?"
+            onChange={(e) => setNote(e.target.value)}
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <button
+            onClick={() => { setDraft(active?.terms ?? draft); setMessage(null); }}
+            className="admin-btn admin-btn-ghost"
+          >
+            Reset
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="admin-btn admin-btn-primary"
+          >
+            {isSaving ? "Saving..." : "Save Terms"}
+          </button>
+        </div>
+
+        {error && (
+          <p style={{ fontSize: '0.875rem', color: '#B91C1C' }}>{error}</p>
+        )}
+        {message && (
+          <p style={{ fontSize: '0.875rem', color: 'var(--admin-gold)' }}>{message}</p>
+        )}
+
+        {versions.length > 0 && (
+          <p style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)' }}>
+            Last saved {formatDate(versions[0].createdAt)}
+            {versions[0].note ? ` — ${versions[0].note}` : ""}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.5rem 0.75rem',
+  borderRadius: 'var(--admin-radius-md)',
+  border: '1px solid var(--admin-border)',
+  background: 'var(--admin-bg)',
+  color: 'var(--admin-text-primary)',
+  fontSize: '0.875rem',
+};
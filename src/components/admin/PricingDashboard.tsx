@@ -7,7 +7,20 @@ import { PricingPipeline } from "./PricingPipeline";
 import { MarketDataCard } from "./MarketDataCard";
 import { StageDetails } from "./StageDetails";
 import { ProductsPanel } from "./ProductsPanel";
+import { OrdersPanel } from "./OrdersPanel";
+import { PricingRulesPanel } from "./PricingRulesPanel";
+import { GemstonePricesPanel } from "./GemstonePricesPanel";
+import { RepriceRunsPanel } from "./RepriceRunsPanel";
+import { LaborCalibrationPanel } from "./LaborCalibrationPanel";
+import { DiscountCodesPanel } from "./DiscountCodesPanel";
+import { ShippingRulesPanel } from "./ShippingRulesPanel";
+import { PaymentTermsPanel } from "./PaymentTermsPanel";
+import { OrderSettlementPanel } from "./OrderSettlementPanel";
+import { OrderRefundsPanel } from "./OrderRefundsPanel";
 import type { PricingBreakdown } from "@/lib/pricing/calculator";
+import type { StoneType, GemstoneTreatment } from "@/lib/pricing/gemstones";
+import type { DiamondOrigin } from "@/lib/pricing/stone-origin";
+import type { MetalPrices } from "@/lib/pricing/metals-api";
 
 interface User {
   name: string;
@@ -34,14 +47,34 @@ export interface CalculatorInput {
   size: "small" | "medium" | "large";
   description: string;
   stones: Array<{
-    type: "diamond" | "sapphire" | "ruby" | "emerald";
+    type: StoneType;
     size: "tiny" | "small" | "medium" | "large" | "statement";
     quality: "economy" | "standard" | "premium" | "luxury";
+    treatment?: GemstoneTreatment;
+    origin?: DiamondOrigin;
     quantity: number;
   }>;
 }
 
-type DashboardTab = "products" | "calculator";
+// Stored pricing snapshot metadata (see /api/admin/designs)
+export interface HistoricalSnapshot {
+  id: string;
+  source: string;
+  total: number;
+  configVersion: number | null;
+  metalPrices: MetalPrices;
+  createdAt: string;
+}
+
+// A stored snapshot opened in the pipeline view instead of a live calculation
+export interface SnapshotView {
+  title: string;
+  input: CalculatorInput;
+  breakdown: PricingBreakdown;
+  snapshot: HistoricalSnapshot;
+}
+
+type DashboardTab = "products" | "orders" | "calculator" | "rules";
 
 export function PricingDashboard({ locale, user }: PricingDashboardProps) {
   const [activeTab, setActiveTab] = useState<DashboardTab>("products");
@@ -54,6 +87,7 @@ export function PricingDashboard({ locale, user }: PricingDashboardProps) {
   });
   
   const [breakdown, setBreakdown] = useState<PricingBreakdown | null>(null);
+  const [snapshotView, setSnapshotView] = useState<SnapshotView | null>(null);
   const [isCalculating, setIsCalculating] = useState(false);
   const [activeStage, setActiveStage] = useState<PipelineStage | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -76,6 +110,7 @@ export function PricingDashboard({ locale, user }: PricingDashboardProps) {
       
       if (data.success) {
         setBreakdown(data.breakdown);
+        setSnapshotView(null);
         setActiveStage("total");
       } else {
         setError(data.error || "Failed to calculate price");
@@ -92,6 +127,16 @@ export function PricingDashboard({ locale, user }: PricingDashboardProps) {
     setInput(prev => ({ ...prev, ...newInput }));
   }, []);
 
+  // Show a stored snapshot in the pipeline exactly as it was priced
+  const handleOpenSnapshot = useCallback((view: SnapshotView) => {
+    setInput(view.input);
+    setBreakdown(view.breakdown);
+    setSnapshotView(view);
+    setError(null);
+    setActiveStage("total");
+    setActiveTab("calculator");
+  }, []);
+
   return (
     <div className="admin-dashboard" style={{ minHeight: '100vh' }}>
       {/* Header */}
@@ -196,6 +241,19 @@ export function PricingDashboard({ locale, user }: PricingDashboardProps) {
             >
               User Products
             </TabButton>
+            <TabButton
+              active={activeTab === "orders"}
+              onClick={() => setActiveTab("orders")}
+              icon={
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+                  <path d="M6 2L3 6v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2V6l-3-4z"/>
+                  <line x1="3" y1="6" x2="21" y2="6"/>
+                  <path d="M16 10a4 4 0 0 1-8 0"/>
+                </svg>
+              }
+            >
+              Orders
+            </TabButton>
             <TabButton
               active={activeTab === "calculator"}
               onClick={() => setActiveTab("calculator")}
@@ -214,6 +272,25 @@ export function PricingDashboard({ locale, user }: PricingDashboardProps) {
             >
               Pricing Calculator
             </TabButton>
+            <TabButton
+              active={activeTab === "rules"}
+              onClick={() => setActiveTab("rules")}
+              icon={
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+                  <line x1="4" y1="21" x2="4" y2="14"/>
+                  <line x1="4" y1="10" x2="4" y2="3"/>
+                  <line x1="12" y1="21" x2="12" y2="12"/>
+                  <line x1="12" y1="8" x2="12" y2="3"/>
+                  <line x1="20" y1="21" x2="20" y2="16"/>
+                  <line x1="20" y1="12" x2="20" y2="3"/>
+                  <line x1="1" y1="14" x2="7" y2="14"/>
+                  <line x1="9" y1="8" x2="15" y2="8"/>
+                  <line x1="17" y1="16" x2="23" y2="16"/>
+                </svg>
+              }
+            >
+              Pricing Rules
+            </TabButton>
           </nav>
         </div>
       </div>
@@ -221,7 +298,21 @@ export function PricingDashboard({ locale, user }: PricingDashboardProps) {
       {/* Main Content */}
       <main style={{ maxWidth: '1400px', margin: '0 auto', padding: '2rem 1.5rem' }}>
         {activeTab === "products" ? (
-          <ProductsPanel />
+          <ProductsPanel onOpenSnapshot={handleOpenSnapshot} />
+        ) : activeTab === "orders" ? (
+          <OrdersPanel />
+        ) : activeTab === "rules" ? (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+            <PricingRulesPanel />
+            <GemstonePricesPanel />
+            <RepriceRunsPanel />
+            <LaborCalibrationPanel />
+            <OrderSettlementPanel />
+            <OrderRefundsPanel />
+            <ShippingRulesPanel />
+            <PaymentTermsPanel />
+            <DiscountCodesPanel />
+          </div>
         ) : (
           <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: '1.5rem' }}>
             {/* Left Sidebar - Calculator & Market Data */}
@@ -270,6 +361,7 @@ export function PricingDashboard({ locale, user }: PricingDashboardProps) {
               <StageDetails
                 breakdown={breakdown}
                 input={input}
+                snapshot={snapshotView}
                 activeStage={activeStage}
                 onStageChange={setActiveStage}
               />
@@ -0,0 +1,440 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { PricingRules, PricingConfigVersion } from "@/lib/pricing/config";
+import type { PricingPreview } from "@/lib/pricing/config-preview";
+
+type RuleTable = "hourlyRates" | "baseHours" | "baseVolumes" | "sizeMultipliers";
+
+const RULE_TABLES: Array<{ key: RuleTable; title: string; unit: string; step: number }> = [
+  { key: "hourlyRates", title: "Hourly Rates", unit: "₪/hr", step: 10 },
+  { key: "baseHours", title: "Base Labor Hours", unit: "hrs", step: 0.5 },
+  { key: "baseVolumes", title: "Base Volumes", unit: "cm³", step: 0.1 },
+  { key: "sizeMultipliers", title: "Size Multipliers", unit: "×", step: 0.1 },
+];
+
+const formatILS = (amount: number) =>
+  new Intl.NumberFormat("en-IL", {
+    style: "currency",
+    currency: "ILS",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function PricingRulesPanel() {
+  const [active, setActive] = useState<PricingConfigVersion | null>(null);
+  const [versions, setVersions] = useState<PricingConfigVersion[]>([]);
+  const [draft, setDraft] = useState<PricingRules | null>(null);
+  const [effectiveAt, setEffectiveAt] = useState("");
+  const [note, setNote] = useState("");
+  const [preview, setPreview] = useState<PricingPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchConfig = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/admin/pricing/config");
+      const data = await response.json();
+
+      if (data.success) {
+        setActive(data.active);
+        setVersions(data.versions);
+        setDraft(data.active.rules);
+        setError(null);
+      } else {
+        setError(data.error || "Failed to load pricing rules");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Fetch pricing rules error:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConfig();
+  }, [fetchConfig]);
+
+  const updateScalar = (key: "wasteFactor" | "overheadPercentage" | "marginMultiplier", value: number) => {
+    setDraft(prev => prev ? { ...prev, [key]: value } : prev);
+    setPreview(null);
+  };
+
+  const updateTable = (table: RuleTable, key: string, value: number) => {
+    setDraft(prev => prev ? { ...prev, [table]: { ...prev[table], [key]: value } } : prev);
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    if (!draft) return;
+    setIsPreviewing(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/pricing/config/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rules: draft }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setPreview(data.preview);
+      } else {
+        setError(data.error || "Failed to preview changes");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Preview pricing rules error:", err);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!draft) return;
+    setIsPublishing(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/pricing/config", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rules: draft,
+          effectiveAt: effectiveAt ? new Date(effectiveAt).toISOString() : undefined,
+          note: note || undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setMessage(`Version ${data.version.version} published (effective ${formatDate(data.version.effectiveAt)})`);
+        setNote("");
+        setEffectiveAt("");
+        setPreview(null);
+        await fetchConfig();
+      } else {
+        setError(data.error || "Failed to publish rules");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Publish pricing rules error:", err);
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  if (isLoading && !draft) {
+    return (
+      <div className="admin-empty-state" style={{ padding: '5rem 2rem' }}>
+        <p style={{ color: 'var(--admin-text-secondary)', fontSize: '0.9375rem' }}>
+          Loading pricing rules...
+        </p>
+      </div>
+    );
+  }
+
+  if (!draft) {
+    return (
+      <div className="admin-empty-state">
+        <h3 className="admin-empty-title">Pricing rules unavailable</h3>
+        <p className="admin-empty-text">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '1.5rem', alignItems: 'start' }}>
+      {/* Draft Editor */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+        <div className="admin-section">
+          <div className="admin-section-header">
+            <span className="admin-section-title">Cost & Margin</span>
+            {active && (
+              <span className="admin-badge" style={{ background: 'var(--admin-gold-muted)', color: 'var(--admin-gold)' }}>
+                Active: v{active.version}{active.source === "default" ? " (defaults)" : ""}
+              </span>
+            )}
+          </div>
+          <div className="admin-section-content" style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '1rem' }}>
+            <RuleInput
+              label="Waste Factor"
+              unit="×"
+              step={0.01}
+              value={draft.wasteFactor}
+              onChange={(value) => updateScalar("wasteFactor", value)}
+            />
+            <RuleInput
+              label="Overhead"
+              unit="%"
+              step={1}
+              value={Math.round(draft.overheadPercentage * 100)}
+              onChange={(value) => updateScalar("overheadPercentage", value / 100)}
+            />
+            <RuleInput
+              label="Margin Multiplier"
+              unit="×"
+              step={0.05}
+              value={draft.marginMultiplier}
+              onChange={(value) => updateScalar("marginMultiplier", value)}
+            />
+          </div>
+        </div>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1.5rem' }}>
+          {RULE_TABLES.map((table) => (
+            <div key={table.key} className="admin-section">
+              <div className="admin-section-header">
+                <span className="admin-section-title">{table.title}</span>
+                <span className="admin-label">{table.unit}</span>
+              </div>
+              <div className="admin-section-content" style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                {Object.entries(draft[table.key]).map(([key, value]) => (
+                  <RuleInput
+                    key={key}
+                    label={key}
+                    step={table.step}
+                    value={value}
+                    inline
+                    onChange={(newValue) => updateTable(table.key, key, newValue)}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Publish */}
+        <div className="admin-section">
+          <div className="admin-section-header">
+            <span className="admin-section-title">Publish New Version</span>
+          </div>
+          <div className="admin-section-content" style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: '1rem' }}>
+              <label style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+                <span className="admin-label">Effective from</span>
+                <input
+                  type="datetime-local"
+                  value={effectiveAt}
+                  onChange={(e) => setEffectiveAt(e.target.value)}
+                  style={inputStyle}
+                />
+              </label>
+              <label style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+                <span className="admin-label">Note</span>
+                <input
+                  type="text"
+                  value={note}
+                  placeholder="Why is this changing?"
+                  onChange={(e) => setNote(e.target.value)}
+                  style={inputStyle}
+                />
+              </label>
+            </div>
+
+            {error && (
+              <p style={{ fontSize: '0.875rem', color: '#B91C1C' }}>{error}</p>
+            )}
+            {message && (
+              <p style={{ fontSize: '0.875rem', color: 'var(--admin-gold)' }}>{message}</p>
+            )}
+
+            <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end' }}>
+              <button
+                onClick={() => { setDraft(active?.rules ?? draft); setPreview(null); }}
+                className="admin-btn admin-btn-ghost"
+              >
+                Reset
+              </button>
+              <button
+                onClick={handlePreview}
+                disabled={isPreviewing}
+                className="admin-btn admin-btn-secondary"
+              >
+                {isPreviewing ? "Previewing..." : "Preview Impact"}
+              </button>
+              <button
+                onClick={handlePublish}
+                disabled={isPublishing}
+                className="admin-btn admin-btn-primary"
+              >
+                {isPublishing ? "Publishing..." : "Publish Version"}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {preview && <PreviewTable preview={preview} />}
+      </div>
+
+      {/* Version History */}
+      <div className="admin-section">
+        <div className="admin-section-header">
+          <span className="admin-section-title">Version History</span>
+        </div>
+        <div className="admin-section-content" style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+          {versions.length === 0 && (
+            <p style={{ fontSize: '0.875rem', color: 'var(--admin-text-tertiary)' }}>
+              No versions published yet. The built-in defaults are in effect.
+            </p>
+          )}
+          {versions.map((version) => {
+            const isActive = active?.version === version.version;
+            const isScheduled = new Date(version.effectiveAt) > new Date();
+            return (
+              <div
+                key={version.version}
+                style={{
+                  padding: '0.75rem',
+                  borderRadius: 'var(--admin-radius-md)',
+                  border: `1px solid ${isActive ? 'var(--admin-gold-border)' : 'var(--admin-border-light)'}`,
+                }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                  <span style={{ fontWeight: 600, color: 'var(--admin-text-primary)' }}>
+                    v{version.version}
+                    {isActive && <span style={{ color: 'var(--admin-gold)', marginLeft: '0.5rem', fontSize: '0.75rem' }}>active</span>}
+                    {isScheduled && <span style={{ color: 'var(--admin-text-tertiary)', marginLeft: '0.5rem', fontSize: '0.75rem' }}>scheduled</span>}
+                  </span>
+                  <button
+                    onClick={() => { setDraft(version.rules); setPreview(null); }}
+                    className="admin-btn admin-btn-ghost"
+                    style={{ padding: '0.25rem 0.5rem', fontSize: '0.75rem' }}
+                  >
+                    Load
+                  </button>
+                </div>
+                <p style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)', marginTop: '0.25rem' }}>
+                  Effective {formatDate(version.effectiveAt)}
+                </p>
+                {version.note && (
+                  <p style={{ fontSize: '0.8125rem', color: 'var(--admin-text-secondary)', marginTop: '0.25rem' }}>
+                    {version.note}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.5rem 0.75rem',
+  borderRadius: 'var(--admin-radius-md)',
+  border: '1px solid var(--admin-border)',
+  background: 'var(--admin-bg)',
+  color: 'var(--admin-text-primary)',
+  fontSize: '0.875rem',
+};
+
+// ============================================
+// Rule Input Component
+// ============================================
+function RuleInput({
+  label,
+  unit,
+  step,
+  value,
+  inline,
+  onChange,
+}: {
+  label: string;
+  unit?: string;
+  step: number;
+  value: number;
+  inline?: boolean;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label style={{
+      display: 'flex',
+      flexDirection: inline ? 'row' : 'column',
+      alignItems: inline ? 'center' : 'stretch',
+      justifyContent: 'space-between',
+      gap: '0.375rem',
+    }}>
+      <span className="admin-label" style={{ textTransform: 'capitalize' }}>
+        {label}{unit ? ` (${unit})` : ""}
+      </span>
+      <input
+        type="number"
+        step={step}
+        min={0}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        style={{ ...inputStyle, width: inline ? '110px' : '100%', fontFamily: 'monospace' }}
+      />
+    </label>
+  );
+}
+
+// ============================================
+// Preview Table Component
+// ============================================
+function PreviewTable({ preview }: { preview: PricingPreview }) {
+  return (
+    <div className="admin-section">
+      <div className="admin-section-header">
+        <span className="admin-section-title">Impact on {preview.summary.designs} Recent Designs</span>
+        <span className="admin-label">
+          Avg change {preview.summary.averageDeltaPercent > 0 ? "+" : ""}{preview.summary.averageDeltaPercent}%
+        </span>
+      </div>
+      <div className="admin-section-content" style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', fontSize: '0.8125rem', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ textAlign: 'left', color: 'var(--admin-text-tertiary)' }}>
+              <th style={{ padding: '0.5rem' }}>Design</th>
+              <th style={{ padding: '0.5rem' }}>Stored</th>
+              <th style={{ padding: '0.5rem' }}>Active v{preview.activeVersion}</th>
+              <th style={{ padding: '0.5rem' }}>Draft</th>
+              <th style={{ padding: '0.5rem' }}>Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {preview.items.map((item) => (
+              <tr key={item.designId} style={{ borderTop: '1px solid var(--admin-border-light)' }}>
+                <td style={{ padding: '0.5rem', color: 'var(--admin-text-primary)' }}>
+                  {item.name || item.jewelryType}
+                  <span style={{ color: 'var(--admin-text-tertiary)', marginLeft: '0.375rem' }}>
+                    {item.material.replace("_", " ")}
+                  </span>
+                </td>
+                <td style={{ padding: '0.5rem' }}>{item.storedPrice !== null ? formatILS(item.storedPrice) : "—"}</td>
+                <td style={{ padding: '0.5rem' }}>{formatILS(item.activePrice)}</td>
+                <td style={{ padding: '0.5rem', fontWeight: 600 }}>{formatILS(item.draftPrice)}</td>
+                <td style={{
+                  padding: '0.5rem',
+                  color: item.delta > 0 ? '#15803D' : item.delta < 0 ? '#B91C1C' : 'var(--admin-text-tertiary)',
+                }}>
+                  {item.delta > 0 ? "+" : ""}{formatILS(item.delta)} ({item.deltaPercent > 0 ? "+" : ""}{item.deltaPercent}%)
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)', marginTop: '0.75rem' }}>
+          Prices recalculated with rule-based labor (no AI) at today&apos;s metal prices.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import type { PricingBreakdown } from "@/lib/pricing/calculator";
+import type { CalculatorInput, HistoricalSnapshot, SnapshotView } from "./PricingDashboard";
 
 interface Design {
   id: string;
@@ -25,6 +26,8 @@ interface Design {
     image: string | null;
   } | null;
   pricingBreakdown?: PricingBreakdown | null;
+  pricingSnapshot?: HistoricalSnapshot | null;
+  pricingHistory?: Array<HistoricalSnapshot & { breakdown: PricingBreakdown }>;
   _count: {
     orderItems: number;
   };
@@ -49,6 +52,7 @@ interface Stats {
 
 interface ProductsPanelProps {
   onSelectDesign?: (design: Design) => void;
+  onOpenSnapshot?: (view: SnapshotView) => void;
 }
 
 const materialLabels: Record<string, string> = {
@@ -66,7 +70,14 @@ const typeLabels: Record<string, string> = {
   earrings: "Earrings",
 };
 
-export function ProductsPanel({ onSelectDesign }: ProductsPanelProps) {
+const snapshotSourceLabels: Record<string, string> = {
+  design_save: "Customer save",
+  admin_recalculate: "Recalculated",
+  bulk_reprice: "Metal price update",
+  checkout: "Checkout",
+};
+
+export function ProductsPanel({ onSelectDesign, onOpenSnapshot }: ProductsPanelProps) {
   const [designs, setDesigns] = useState<Design[]>([]);
   const [stats, setStats] = useState<Stats | null>(null);
   const [loading, setLoading] = useState(true);
@@ -140,13 +151,22 @@ export function ProductsPanel({ onSelectDesign }: ProductsPanelProps) {
       
       const data = await response.json();
       if (data.success) {
+        const priced = {
+          estimatedPrice: data.design.estimatedPrice,
+          pricingBreakdown: data.breakdown,
+          pricingSnapshot: data.snapshot,
+        };
         setDesigns(prev => prev.map(d => 
           d.id === designId 
-            ? { ...d, estimatedPrice: data.design.estimatedPrice, pricingBreakdown: data.breakdown }
+            ? { ...d, ...priced }
             : d
         ));
         if (selectedDesign?.id === designId) {
-          setSelectedDesign(prev => prev ? { ...prev, estimatedPrice: data.design.estimatedPrice, pricingBreakdown: data.breakdown } : null);
+          setSelectedDesign(prev => prev ? {
+            ...prev,
+            ...priced,
+            pricingHistory: [{ ...data.snapshot, breakdown: data.breakdown }, ...(prev.pricingHistory || [])],
+          } : null);
         }
       }
     } catch (err) {
@@ -177,6 +197,23 @@ export function ProductsPanel({ onSelectDesign }: ProductsPanelProps) {
     });
   };
 
+  const openSnapshot = (design: Design, snapshot: HistoricalSnapshot, breakdown: PricingBreakdown) => {
+    if (!onOpenSnapshot) return;
+    setSelectedDesign(null);
+    onOpenSnapshot({
+      title: design.name || `${typeLabels[design.jewelryType] || design.jewelryType} Design`,
+      input: {
+        jewelryType: design.jewelryType as CalculatorInput["jewelryType"],
+        material: design.material as CalculatorInput["material"],
+        size: "medium",
+        description: design.prompt,
+        stones: design.stones as unknown as CalculatorInput["stones"],
+      },
+      breakdown,
+      snapshot,
+    });
+  };
+
   const handleSelectDesign = (design: Design) => {
     setSelectedDesign(design);
     fetchBreakdown(design.id);
@@ -348,6 +385,7 @@ export function ProductsPanel({ onSelectDesign }: ProductsPanelProps) {
           onRecalculate={() => handleRecalculate(selectedDesign.id)}
           isRecalculating={recalculating === selectedDesign.id}
           isLoadingBreakdown={loadingBreakdown}
+          onOpenSnapshot={onOpenSnapshot ? (snapshot, breakdown) => openSnapshot(selectedDesign, snapshot, breakdown) : undefined}
           formatPrice={formatPrice}
           formatDate={formatDate}
         />
@@ -636,6 +674,7 @@ function DesignDetailModal({
   onRecalculate,
   isRecalculating,
   isLoadingBreakdown,
+  onOpenSnapshot,
   formatPrice,
   formatDate,
 }: {
@@ -644,10 +683,12 @@ function DesignDetailModal({
   onRecalculate: () => void;
   isRecalculating: boolean;
   isLoadingBreakdown: boolean;
+  onOpenSnapshot?: (snapshot: HistoricalSnapshot, breakdown: PricingBreakdown) => void;
   formatPrice: (price: number | null) => string;
   formatDate: (date: string) => string;
 }) {
   const breakdown = design.pricingBreakdown;
+  const snapshot = design.pricingSnapshot;
   const displayName = design.name || `${typeLabels[design.jewelryType] || design.jewelryType} Design`;
   
   return (
@@ -817,6 +858,11 @@ function DesignDetailModal({
               <div className="admin-section">
                 <div className="admin-section-header">
                   <span className="admin-section-title">Price Breakdown</span>
+                  {snapshot && (
+                    <span style={{ fontSize: '0.6875rem', color: 'var(--admin-text-tertiary)' }}>
+                      Priced {formatDate(snapshot.createdAt)} · Rules v{snapshot.configVersion ?? 0} · Gold {formatPrice(snapshot.metalPrices.gold_24k)}/g
+                    </span>
+                  )}
                 </div>
                 <div className="admin-section-content">
                   {isLoadingBreakdown ? (
@@ -879,12 +925,52 @@ function DesignDetailModal({
                     </div>
                   ) : (
                     <p style={{ fontSize: '0.875rem', color: 'var(--admin-text-tertiary)', textAlign: 'center', padding: '1rem' }}>
-                      No breakdown available
+                      No pricing snapshot yet. Recalculate to price this design.
                     </p>
                   )}
                 </div>
               </div>
 
+              {/* Pricing History */}
+              {design.pricingHistory && design.pricingHistory.length > 0 && (
+                <div className="admin-section">
+                  <div className="admin-section-header">
+                    <span className="admin-section-title">Pricing History</span>
+                  </div>
+                  <div className="admin-section-content">
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                      {design.pricingHistory.map((entry) => (
+                        <div key={entry.id} style={{
+                          display: 'flex',
+                          justifyContent: 'space-between',
+                          alignItems: 'center',
+                          gap: '0.75rem',
+                          fontSize: '0.8125rem',
+                        }}>
+                          <span style={{ color: 'var(--admin-text-secondary)' }}>
+                            {formatDate(entry.createdAt)} · {snapshotSourceLabels[entry.source] || entry.source}
+                          </span>
+                          <span style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                            <span style={{ color: 'var(--admin-text-primary)', fontWeight: 500, direction: 'ltr', unicodeBidi: 'embed' }}>
+                              {formatPrice(entry.total)}
+                            </span>
+                            {onOpenSnapshot && (
+                              <button
+                                onClick={() => onOpenSnapshot(entry, entry.breakdown)}
+                                className="admin-btn admin-btn-ghost"
+                                style={{ padding: '0.25rem 0.5rem', fontSize: '0.75rem' }}
+                              >
+                                View
+                              </button>
+                            )}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* AI Image Analysis */}
               {breakdown?.aiEstimate && (
                 <div className="admin-section" style={{ background: 'linear-gradient(135deg, #FFFBF0 0%, #FFF9E6 100%)', borderLeft: '3px solid var(--admin-gold)' }}>
@@ -0,0 +1,234 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { RepriceEntry, RepriceRunStatus } from "@/lib/pricing/bulk-reprice";
+
+interface RepriceRunSummary {
+  id: string;
+  trigger: string;
+  status: RepriceRunStatus;
+  thresholdPercent: number;
+  scanned: number;
+  repriced: number;
+  failed: number;
+  entries: RepriceEntry[];
+  error: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const formatPrice = (price: number | null) =>
+  price === null
+    ? "—"
+    : new Intl.NumberFormat("en-IL", {
+        style: "currency",
+        currency: "ILS",
+        minimumFractionDigits: 0,
+        maximumFractionDigits: 0,
+      }).format(price);
+
+const formatPercent = (percent: number | null) =>
+  percent === null ? "—" : `${percent > 0 ? "+" : ""}${percent.toFixed(1)}%`;
+
+const statusColors: Record<RepriceRunStatus, string> = {
+  running: 'var(--admin-gold)',
+  completed: 'var(--admin-success)',
+  failed: '#B91C1C',
+};
+
+export function RepriceRunsPanel() {
+  const [runs, setRuns] = useState<RepriceRunSummary[]>([]);
+  const [defaultThreshold, setDefaultThreshold] = useState<number | null>(null);
+  const [threshold, setThreshold] = useState("");
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/pricing/reprice");
+      const data = await response.json();
+
+      if (data.success) {
+        setRuns(data.runs);
+        setDefaultThreshold(data.thresholdPercent);
+        setError(null);
+      } else {
+        setError(data.error || "Failed to load repricing runs");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Fetch reprice runs error:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      const thresholdPercent = parseFloat(threshold);
+      const response = await fetch("/api/admin/pricing/reprice", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(Number.isFinite(thresholdPercent) ? { thresholdPercent } : {}),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setSelectedRunId(data.run.id);
+        await fetchRuns();
+      } else {
+        setError(data.error || "Failed to reprice designs");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Bulk reprice error:", err);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const selectedRun = runs.find((run) => run.id === selectedRunId) ?? runs[0];
+
+  return (
+    <div className="admin-section">
+      <div className="admin-section-header">
+        <span className="admin-section-title">Metal Price Repricing</span>
+        {defaultThreshold !== null && (
+          <span className="admin-badge" style={{ background: 'var(--admin-gold-muted)', color: 'var(--admin-gold)' }}>
+            Threshold: {defaultThreshold}%
+          </span>
+        )}
+      </div>
+      <div className="admin-section-content" style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+        <p style={{ fontSize: '0.8125rem', color: 'var(--admin-text-secondary)' }}>
+          Draft, saved and in-cart designs are repriced (without AI) when the price of their metal
+          has moved past the threshold since they were last priced.
+        </p>
+
+        {/* Run Now */}
+        <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+          <input
+            type="number"
+            min={0.1}
+            step={0.5}
+            value={threshold}
+            placeholder={defaultThreshold !== null ? `${defaultThreshold}` : "Threshold %"}
+            onChange={(e) => setThreshold(e.target.value)}
+            style={{ ...inputStyle, width: '140px', fontFamily: 'monospace' }}
+          />
+          <button
+            onClick={handleRun}
+            disabled={isRunning}
+            className="admin-btn admin-btn-primary"
+          >
+            {isRunning ? "Repricing..." : "Reprice Now"}
+          </button>
+        </div>
+
+        {error && (
+          <p style={{ fontSize: '0.875rem', color: '#B91C1C' }}>{error}</p>
+        )}
+
+        {/* Recent Runs */}
+        {runs.length > 0 && (
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+            {runs.map((run) => (
+              <button
+                key={run.id}
+                onClick={() => setSelectedRunId(run.id)}
+                className={`admin-btn ${selectedRun?.id === run.id ? "admin-btn-primary" : "admin-btn-ghost"}`}
+                style={{ padding: '0.375rem 0.75rem', fontSize: '0.75rem' }}
+              >
+                {formatDate(run.startedAt)} · {run.repriced} repriced
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Run Report */}
+        {selectedRun && (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+            <p style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)' }}>
+              <span style={{ color: statusColors[selectedRun.status], fontWeight: 500, textTransform: 'capitalize' }}>
+                {selectedRun.status}
+              </span>
+              {" · "}{selectedRun.trigger} · threshold {selectedRun.thresholdPercent}%
+              {" · "}{selectedRun.scanned} scanned, {selectedRun.repriced} repriced, {selectedRun.failed} failed
+              {selectedRun.error ? ` — ${selectedRun.error}` : ""}
+            </p>
+
+            {selectedRun.entries.length > 0 ? (
+              <div style={{ overflowX: 'auto' }}>
+                <table style={{ width: '100%', fontSize: '0.8125rem', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr style={{ textAlign: 'left', color: 'var(--admin-text-tertiary)' }}>
+                      <th style={{ padding: '0.5rem' }}>Design</th>
+                      <th style={{ padding: '0.5rem' }}>Metal</th>
+                      <th style={{ padding: '0.5rem' }}>Old Price</th>
+                      <th style={{ padding: '0.5rem' }}>New Price</th>
+                      <th style={{ padding: '0.5rem' }}>Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selectedRun.entries.map((entry) => (
+                      <tr key={entry.designId} style={{ borderTop: '1px solid var(--admin-border-light)' }}>
+                        <td style={{ padding: '0.5rem', color: 'var(--admin-text-primary)' }}>
+                          {entry.name || `${entry.jewelryType} ${entry.designId.slice(-6)}`}
+                          <span style={{ display: 'block', fontSize: '0.6875rem', color: 'var(--admin-text-tertiary)' }}>
+                            {entry.material.replace("_", " ")} · {entry.status}{entry.inCart ? " · in cart" : ""}{entry.quotesExpired ? ` · ${entry.quotesExpired} ${entry.quotesExpired === 1 ? "quote" : "quotes"} expired` : ""}
+                          </span>
+                        </td>
+                        <td style={{ padding: '0.5rem', fontFamily: 'monospace' }}>
+                          {entry.metalChangePercent === null ? "not priced" : formatPercent(entry.metalChangePercent)}
+                        </td>
+                        <td style={{ padding: '0.5rem', direction: 'ltr' }}>{formatPrice(entry.oldPrice)}</td>
+                        <td style={{ padding: '0.5rem', direction: 'ltr' }}>
+                          {entry.error ? (
+                            <span style={{ color: '#B91C1C' }}>{entry.error}</span>
+                          ) : (
+                            formatPrice(entry.newPrice)
+                          )}
+                        </td>
+                        <td style={{ padding: '0.5rem', fontFamily: 'monospace' }}>
+                          {formatPercent(entry.priceChangePercent)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p style={{ fontSize: '0.8125rem', color: 'var(--admin-text-tertiary)' }}>
+                No designs needed repricing in this run.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.5rem 0.75rem',
+  borderRadius: 'var(--admin-radius-md)',
+  border: '1px solid var(--admin-border)',
+  background: 'var(--admin-bg)',
+  color: 'var(--admin-text-primary)',
+  fontSize: '0.875rem',
+};
@@ -0,0 +1,283 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type {
+  ShippingMethod,
+  ShippingTaxRules,
+  ShippingTaxRulesVersion,
+} from "@/lib/pricing/shipping-tax";
+
+const SHIPPING_METHODS: ShippingMethod[] = ["standard", "express"];
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function ShippingRulesPanel() {
+  const [active, setActive] = useState<ShippingTaxRulesVersion | null>(null);
+  const [versions, setVersions] = useState<ShippingTaxRulesVersion[]>([]);
+  const [draft, setDraft] = useState<ShippingTaxRules | null>(null);
+  const [zoneId, setZoneId] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/pricing/shipping");
+      const data = await response.json();
+
+      if (data.success) {
+        setActive(data.active);
+        setVersions(data.versions);
+        setDraft(data.active.rules);
+        setError(null);
+      } else {
+        setError(data.error || "Failed to load shipping and tax rules");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Fetch shipping rules error:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const selectedZoneId = zoneId ?? draft?.zones[0]?.id;
+
+  const updateTier = (
+    method: ShippingMethod,
+    index: number,
+    field: "maxInsuredValue" | "price",
+    value: number | null
+  ) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        zones: prev.zones.map((zone) => {
+          const rules = zone.methods[method];
+          if (zone.id !== selectedZoneId || !rules) return zone;
+          const tiers = rules.tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier));
+          return { ...zone, methods: { ...zone.methods, [method]: { ...rules, tiers } } };
+        }),
+      };
+    });
+  };
+
+  const updateVatRate = (country: string, percent: number | null) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const vatRates = { ...prev.vatRates };
+      if (percent === null) {
+        delete vatRates[country];
+      } else {
+        vatRates[country] = percent / 100;
+      }
+      return { ...prev, vatRates };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/pricing/shipping", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rules: draft, note: note || undefined }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setMessage(`Shipping & tax rules v${data.version.version} saved`);
+        setNote("");
+        await fetchRules();
+      } else {
+        setError(data.details?.[0]?.message || data.error || "Failed to save shipping and tax rules");
+      }
+    } catch (err) {
+      setError("Network error. Please try again.");
+      console.error("Save shipping rules error:", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!draft) {
+    return error ? (
+      <div className="admin-empty-state">
+        <h3 className="admin-empty-title">Shipping & tax rules unavailable</h3>
+        <p className="admin-empty-text">{error}</p>
+      </div>
+    ) : null;
+  }
+
+  const zone = draft.zones.find((z) => z.id === selectedZoneId);
+
+  return (
+    <div className="admin-section">
+      <div className="admin-section-header">
+        <span className="admin-section-title">Shipping & VAT</span>
+        {active && (
+          <span className="admin-badge" style={{ background: 'var(--admin-gold-muted)', color: 'var(--admin-gold)' }}>
+            Active: v{active.version}{active.source === "default" ? " (defaults)" : ""}
+          </span>
+        )}
+      </div>
+      <div className="admin-section-content" style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+        {/* Zone Tabs */}
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+          {draft.zones.map((value) => (
+            <button
+              key={value.id}
+              onClick={() => setZoneId(value.id)}
+              className={`admin-btn ${selectedZoneId === value.id ? "admin-btn-primary" : "admin-btn-ghost"}`}
+              style={{ padding: '0.375rem 0.75rem', fontSize: '0.8125rem' }}
+            >
+              {value.name}
+            </button>
+          ))}
+        </div>
+
+        {zone && (
+          <p style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)' }}>
+            {zone.countries.length ? zone.countries.join(", ") : "All other countries"}
+            {zone.cities.length ? ` · ${zone.cities.join(", ")}` : ""}
+            {zone.vatRate !== undefined ? ` · VAT ${Math.round(zone.vatRate * 1000) / 10}%` : ""}
+          </p>
+        )}
+
+        {/* Tiers by Insured Value */}
+        {zone && SHIPPING_METHODS.map((method) => {
+          const rules = zone.methods[method];
+          if (!rules) return null;
+
+          return (
+            <div key={method}>
+              <span className="admin-label" style={{ textTransform: 'capitalize' }}>
+                {method} · {rules.minDays}–{rules.maxDays} days
+              </span>
+              <table style={{ width: '100%', fontSize: '0.8125rem', borderCollapse: 'collapse', marginTop: '0.5rem' }}>
+                <thead>
+                  <tr style={{ textAlign: 'left', color: 'var(--admin-text-tertiary)' }}>
+                    <th style={{ padding: '0.5rem' }}>Insured value up to (₪)</th>
+                    <th style={{ padding: '0.5rem' }}>Price (₪, 0 = free)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rules.tiers.map((tier, index) => (
+                    <tr key={index} style={{ borderTop: '1px solid var(--admin-border-light)' }}>
+                      <td style={{ padding: '0.25rem' }}>
+                        {tier.maxInsuredValue === null ? (
+                          <span style={{ padding: '0.5rem', color: 'var(--admin-text-tertiary)' }}>No limit</span>
+                        ) : (
+                          <input
+                            type="number"
+                            min={1}
+                            step={100}
+                            value={tier.maxInsuredValue}
+                            onChange={(e) => updateTier(method, index, "maxInsuredValue", parseFloat(e.target.value) || 1)}
+                            style={{ ...inputStyle, width: '120px', fontFamily: 'monospace' }}
+                          />
+                        )}
+                      </td>
+                      <td style={{ padding: '0.25rem' }}>
+                        <input
+                          type="number"
+                          min={0}
+                          step={5}
+                          value={tier.price}
+                          onChange={(e) => updateTier(method, index, "price", parseFloat(e.target.value) || 0)}
+                          style={{ ...inputStyle, width: '100px', fontFamily: 'monospace' }}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        })}
+
+        {/* VAT by Country */}
+        <div>
+          <span className="admin-label">VAT % by destination (blank = zero-rated export)</span>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '0.75rem', marginTop: '0.5rem' }}>
+            {draft.shipsTo.map((country) => (
+              <label key={country} style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                <span className="admin-label">{country}</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={0.5}
+                  value={draft.vatRates[country] !== undefined ? Math.round(draft.vatRates[country] * 1000) / 10 : ""}
+                  onChange={(e) => updateVatRate(country, e.target.value === "" ? null : parseFloat(e.target.value) || 0)}
+                  style={{ ...inputStyle, fontFamily: 'monospace' }}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Save */}
+        <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+          <input
+            type="text"
+            value={note}
+            placeholder="Why is this changing?"
+            onChange={(e) => setNote(e.target.value)}
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <button
+            onClick={() => { setDraft(active?.rules ?? draft); setMessage(null); }}
+            className="admin-btn admin-btn-ghost"
+          >
+            Reset
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="admin-btn admin-btn-primary"
+          >
+            {isSaving ? "Saving..." : "Save Rules"}
+          </button>
+        </div>
+
+        {error && (
+          <p style={{ fontSize: '0.875rem', color: '#B91C1C' }}>{error}</p>
+        )}
+        {message && (
+          <p style={{ fontSize: '0.875rem', color: 'var(--admin-gold)' }}>{message}</p>
+        )}
+
+        {versions.length > 0 && (
+          <p style={{ fontSize: '0.75rem', color: 'var(--admin-text-tertiary)' }}>
+            Last saved {formatDate(versions[0].createdAt)}
+            {versions[0].note ? ` — ${versions[0].note}` : ""}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.5rem 0.75rem',
+  borderRadius: 'var(--admin-radius-md)',
+  border: '1px solid var(--admin-border)',
+  background: 'var(--admin-bg)',
+  color: 'var(--admin-text-primary)',
+  fontSize: '0.875rem',
+};
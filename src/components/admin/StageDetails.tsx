@@ -2,17 +2,25 @@
 
 import { cn } from "@/lib/utils/cn";
 import type { PricingBreakdown } from "@/lib/pricing/calculator";
-import type { PipelineStage, CalculatorInput } from "./PricingDashboard";
+import type { PipelineStage, CalculatorInput, SnapshotView } from "./PricingDashboard";
 
 interface StageDetailsProps {
   breakdown: PricingBreakdown | null;
   input: CalculatorInput;
+  snapshot?: SnapshotView | null; // Stored snapshot being viewed instead of a live calculation
   activeStage: PipelineStage | null;
   onStageChange: (stage: PipelineStage) => void;
 }
 
 const formatILS = (amount: number) => `₪${amount.toLocaleString()}`;
 
+const SNAPSHOT_SOURCE_LABELS: Record<string, string> = {
+  design_save: "Saved by customer",
+  admin_recalculate: "Admin recalculation",
+  bulk_reprice: "Bulk repricing",
+  checkout: "Checkout",
+};
+
 // Material densities for display
 const MATERIAL_DENSITIES: Record<string, number> = {
   gold_14k: 13.2,
@@ -39,6 +47,7 @@ const SIZE_MULTIPLIERS: Record<string, number> = {
 export function StageDetails({
   breakdown,
   input,
+  snapshot,
   activeStage,
   onStageChange,
 }: StageDetailsProps) {
@@ -91,7 +100,7 @@ export function StageDetails({
     {
       id: "total",
       title: "Final Price Breakdown",
-      content: <TotalStageContent breakdown={breakdown} />,
+      content: <TotalStageContent breakdown={breakdown} snapshot={snapshot} />,
     },
   ];
 
@@ -101,6 +110,18 @@ export function StageDetails({
         <h2 className="text-lg font-semibold text-white">Stage Details</h2>
         <p className="text-sm text-dark-400">Click on stages above or expand sections below</p>
       </div>
+
+      {snapshot && (
+        <div className="px-4 py-3 border-b border-dark-700 bg-gold-500/10">
+          <p className="text-sm font-medium text-gold-400">Historical snapshot: {snapshot.title}</p>
+          <p className="text-xs text-dark-400 mt-1">
+            Priced {new Date(snapshot.snapshot.createdAt).toLocaleString()}
+            {" · "}{SNAPSHOT_SOURCE_LABELS[snapshot.snapshot.source] || snapshot.snapshot.source}
+            {" · "}Rules v{snapshot.snapshot.configVersion ?? 0}
+            {" · "}Gold 24K {formatILS(snapshot.snapshot.metalPrices.gold_24k)}/g
+          </p>
+        </div>
+      )}
       
       <div className="divide-y divide-dark-700">
         {stages.map((stage) => (
@@ -197,7 +218,11 @@ function MaterialStageContent({
   return (
     <div className="space-y-4">
       <FormulaDisplay
-        title="Weight Calculation"
+        title={
+          breakdown.materials.volumeSource === "model"
+            ? "Weight Calculation (measured 3D model)"
+            : "Weight Calculation"
+        }
         formula="Volume × Density = Weight"
         calculation={`${(breakdown.materials.weightGrams / density).toFixed(2)} cm³ × ${density} g/cm³ = ${breakdown.materials.weightGrams}g`}
       />
@@ -243,7 +268,11 @@ function StoneStageContent({ breakdown }: { breakdown: PricingBreakdown }) {
           <tbody className="divide-y divide-dark-700">
             {breakdown.stones.items.map((stone, i) => (
               <tr key={i} className="bg-dark-700/30">
-                <td className="px-4 py-3 text-dark-200 capitalize">{stone.type}</td>
+                <td className="px-4 py-3 text-dark-200 capitalize">
+                  {stone.type}
+                  {stone.treatment && <span className="text-dark-500 ml-1.5 text-xs">({stone.treatment})</span>}
+                  {stone.origin === "lab_grown" && <span className="text-dark-500 ml-1.5 text-xs">(lab-grown)</span>}
+                </td>
                 <td className="px-4 py-3 text-right text-dark-300">{stone.quantity}</td>
                 <td className="px-4 py-3 text-right text-dark-300 font-mono">
                   {formatILS(stone.unitPrice)}
@@ -296,6 +325,14 @@ function LaborStageContent({ breakdown }: { breakdown: PricingBreakdown }) {
         <InfoCard label="Hourly Rate" value={`${formatILS(breakdown.labor.hourlyRate)}/h`} />
       </div>
 
+      {breakdown.calibration && (
+        <div className="p-3 rounded-lg bg-dark-700/50 text-xs text-dark-400">
+          Calibrated from {breakdown.calibration.samples} recorded pieces
+          ({breakdown.calibration.scope === "type" ? "all complexities" : "same complexity"}):
+          hours ×{breakdown.calibration.laborFactor}, weight ×{breakdown.calibration.weightFactor}
+        </div>
+      )}
+
       {/* Confidence Meter */}
       <div className="p-4 rounded-lg bg-dark-700/50">
         <div className="flex justify-between text-sm mb-2">
@@ -366,7 +403,7 @@ function OverheadStageContent({ breakdown }: { breakdown: PricingBreakdown }) {
   );
 }
 
-function TotalStageContent({ breakdown }: { breakdown: PricingBreakdown }) {
+function TotalStageContent({ breakdown, snapshot }: { breakdown: PricingBreakdown; snapshot?: SnapshotView | null }) {
   return (
     <div className="space-y-4">
       <FormulaDisplay
@@ -404,9 +441,14 @@ function TotalStageContent({ breakdown }: { breakdown: PricingBreakdown }) {
 
       {/* Metadata */}
       <div className="flex flex-wrap gap-4 text-xs text-dark-500">
-        <span>Source: {breakdown.metadata.metalPricesSource}</span>
+        <span>
+          Source: {breakdown.metadata.metalPricesSource}
+          {breakdown.metadata.metalPricesProvider && ` (${breakdown.metadata.metalPricesProvider})`}
+        </span>
         <span>Labor: {breakdown.metadata.laborSource}</span>
+        <span>Rules: v{breakdown.metadata.configVersion}</span>
         <span>Calculated: {new Date(breakdown.metadata.calculatedAt).toLocaleString()}</span>
+        {snapshot && <span>Snapshot: {snapshot.snapshot.id}</span>}
       </div>
     </div>
   );
@@ -10,5 +10,15 @@ export { LiveCalculator } from "./LiveCalculator";
 export { MarketDataCard } from "./MarketDataCard";
 export { StageDetails } from "./StageDetails";
 export { ProductsPanel } from "./ProductsPanel";
+export { OrdersPanel } from "./OrdersPanel";
+export { PricingRulesPanel } from "./PricingRulesPanel";
+export { GemstonePricesPanel } from "./GemstonePricesPanel";
+export { RepriceRunsPanel } from "./RepriceRunsPanel";
+export { LaborCalibrationPanel } from "./LaborCalibrationPanel";
+export { DiscountCodesPanel } from "./DiscountCodesPanel";
+export { ShippingRulesPanel } from "./ShippingRulesPanel";
+export { PaymentTermsPanel } from "./PaymentTermsPanel";
+export { OrderSettlementPanel } from "./OrderSettlementPanel";
+export { OrderRefundsPanel } from "./OrderRefundsPanel";
 
 export type { PipelineStage, CalculatorInput } from "./PricingDashboard";
@@ -0,0 +1,85 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { cn } from "@/lib/utils/cn";
+import {
+  RING_SIZE_OPTIONS,
+  CHAIN_LENGTH_OPTIONS,
+  WRIST_SIZE_OPTIONS,
+  ringSizeConversions,
+} from "@/lib/pricing/sizes";
+
+interface SizeSelectorProps {
+  jewelryType: string;
+  value: string | null; // Canonical label, e.g. "US 7" or "45cm"
+  onChange: (size: string) => void;
+  className?: string;
+}
+
+export function SizeSelector({
+  jewelryType,
+  value,
+  onChange,
+  className,
+}: SizeSelectorProps) {
+  const t = useTranslations("design.studio.sizes");
+
+  if (jewelryType === "ring") {
+    return (
+      <div className={cn("space-y-3", className)}>
+        <h3 className="font-medium text-sm text-dark-100">{t("ringTitle")}</h3>
+        <select
+          value={value ?? ""}
+          onChange={(e) => onChange(e.target.value)}
+          className={cn(
+            "w-full px-3 py-2 rounded-lg border bg-dark-700 text-sm transition-all",
+            value ? "border-gold-500 text-gold-400" : "border-dark-600 text-dark-300"
+          )}
+        >
+          <option value="" disabled>
+            {t("selectRingSize")}
+          </option>
+          {RING_SIZE_OPTIONS.map((us) => {
+            const conversions = ringSizeConversions(us);
+            return (
+              <option key={us} value={`US ${us}`}>
+                {t("ringOption", { us, eu: conversions.euIso, uk: conversions.uk })}
+              </option>
+            );
+          })}
+        </select>
+      </div>
+    );
+  }
+
+  const options =
+    jewelryType === "necklace" ? CHAIN_LENGTH_OPTIONS : jewelryType === "bracelet" ? WRIST_SIZE_OPTIONS : null;
+
+  if (!options) {
+    return null;
+  }
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <h3 className="font-medium text-sm text-dark-100">
+        {jewelryType === "necklace" ? t("chainTitle") : t("wristTitle")}
+      </h3>
+      <div className="flex flex-wrap gap-2">
+        {options.map((cm) => (
+          <button
+            key={cm}
+            onClick={() => onChange(`${cm}cm`)}
+            className={cn(
+              "px-3 py-2 rounded-lg border transition-all text-sm",
+              value === `${cm}cm`
+                ? "border-gold-500 bg-gold-500/10 text-gold-400"
+                : "border-dark-600 bg-dark-700 text-dark-300 hover:border-gold-500/50 hover:text-dark-100"
+            )}
+          >
+            {cm} cm
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
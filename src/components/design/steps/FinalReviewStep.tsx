@@ -20,6 +20,8 @@ import { useDesignWizard } from "@/contexts/DesignWizardContext";
 import { useCart } from "@/contexts/CartContext";
 import { ModelViewer } from "@/components/design/ModelViewer";
 import { MaterialSelector } from "@/components/design/MaterialSelector";
+import { SizeSelector } from "@/components/design/SizeSelector";
+import { DEFAULT_SIZES, formatJewelrySize } from "@/lib/pricing/sizes";
 import { PriceDisplay } from "@/components/design/PriceDisplay";
 import { Button } from "@/components/ui/Button";
 import { cn } from "@/lib/utils/cn";
@@ -29,6 +31,7 @@ type ConversionStep = "idle" | "enhancing" | "converting" | "complete" | "error"
 export function FinalReviewStep() {
   const t = useTranslations("design.wizard.review");
   const tActions = useTranslations("design.actions");
+  const tSizes = useTranslations("design.studio.sizes");
   const locale = useLocale();
   const router = useRouter();
   const { addItem } = useCart();
@@ -57,6 +60,12 @@ export function FinalReviewStep() {
   const [conversionStep, setConversionStep] = useState<ConversionStep>("idle");
   const [enhancedImageUrl, setEnhancedImageUrl] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isAddingToCart, setIsAddingToCart] = useState(false);
+  const [jewelrySize, setJewelrySize] = useState<string | null>(() => {
+    const defaultSize = DEFAULT_SIZES[jewelryType || "ring"];
+    return defaultSize ? formatJewelrySize(defaultSize) : null;
+  });
+  const needsRingSize = (jewelryType || "ring") === "ring" && !jewelrySize;
 
   // Poll for 3D conversion status
   useEffect(() => {
@@ -191,20 +200,62 @@ export function FinalReviewStep() {
     }
   };
 
-  const handleProceedToCheckout = () => {
-    if (!modelUrl || !priceBreakdown) return;
+  const handleProceedToCheckout = async () => {
+    if (!modelUrl || !priceBreakdown || needsRingSize) return;
 
-    addItem({
-      designId: `design-${Date.now()}`,
-      name: `Custom ${jewelryType} for ${gender}`,
-      thumbnailUrl: selectedImageUrl || "",
-      modelUrl,
-      jewelryType: jewelryType || "ring",
-      material,
-      price: priceBreakdown.total,
-    });
+    setIsAddingToCart(true);
 
-    router.push(`/${locale}/checkout`);
+    try {
+      // Persist the design first - checkout prices cart items from the database
+      const response = await fetch("/api/designs/save", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          prompt: description,
+          jewelryType: jewelryType || "ring",
+          targetGender: gender || "unisex",
+          material,
+          thumbnailUrl: enhancedImageUrl || selectedImageUrl || undefined,
+          modelUrl,
+          jewelrySize: jewelrySize || undefined,
+          tripoTaskId: taskId || undefined,
+          status: "saved",
+        }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to save design");
+      }
+
+      // Lock the price with a signed quote that checkout will honour
+      const quoteResponse = await fetch("/api/pricing/estimate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ designId: data.design.id, material, size: jewelrySize || undefined }),
+      });
+      const quoteData = await quoteResponse.json();
+
+      addItem({
+        designId: data.design.id,
+        name: `Custom ${jewelryType} for ${gender}`,
+        thumbnailUrl: selectedImageUrl || "",
+        modelUrl,
+        jewelryType: jewelryType || "ring",
+        material,
+        size: data.design.jewelrySize || undefined,
+        price: quoteData.quote?.total ?? data.pricing?.estimatedPrice ?? priceBreakdown.total,
+        quoteId: quoteData.quote?.id,
+        quoteExpiresAt: quoteData.quote?.expiresAt,
+      });
+
+      router.push(`/${locale}/checkout`);
+    } catch (error) {
+      console.error("Add to cart error:", error);
+      alert(t("addToCartError"));
+    } finally {
+      setIsAddingToCart(false);
+    }
   };
 
   const handleStartOver = () => {
@@ -414,6 +465,12 @@ export function FinalReviewStep() {
         {/* Material Selector */}
         <div className="glass-card rounded-2xl p-5">
           <MaterialSelector value={material} onChange={handleMaterialChange} />
+          <SizeSelector
+            jewelryType={jewelryType || "ring"}
+            value={jewelrySize}
+            onChange={setJewelrySize}
+            className="mt-5"
+          />
         </div>
 
         {/* Price Display */}
@@ -427,12 +484,15 @@ export function FinalReviewStep() {
             variant="gradient"
             className="w-full gap-2"
             onClick={handleProceedToCheckout}
-            disabled={!modelUrl}
+            disabled={!modelUrl || isAddingToCart || needsRingSize}
           >
-            <ShoppingCart className="w-4 h-4" />
+            {isAddingToCart ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShoppingCart className="w-4 h-4" />}
             {t("proceedToCheckout")}
             <ArrowRight className="w-4 h-4" />
           </Button>
+          {needsRingSize && modelUrl && (
+            <p className="text-xs text-dark-400 text-center">{tSizes("required")}</p>
+          )}
 
           <Button variant="outline" className="w-full gap-2" disabled={!modelUrl}>
             <Save className="w-4 h-4" />
@@ -34,6 +34,7 @@ export function ChatPanel({ className, compact = false }: ChatPanelProps) {
     jewelryType,
     gender,
     material,
+    diamondOrigin,
     description,
     currentDesignId,
     setPriceEstimate,
@@ -111,6 +112,7 @@ export function ChatPanel({ className, compact = false }: ChatPanelProps) {
               jewelryType,
               targetGender: gender,
               material: material || "gold_18k",
+              diamondOrigin,
               thumbnailUrl: refinedImageUrl, // The NEW refined image
               status: "draft",
             }),
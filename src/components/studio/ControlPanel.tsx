@@ -26,6 +26,8 @@ export function ControlPanel({ className, compact = false }: ControlPanelProps)
     jewelryType,
     setJewelryType,
     material,
+    diamondOrigin,
+    setDiamondOrigin,
     setMaterial,
     description,
     setDescription,
@@ -65,12 +67,17 @@ export function ControlPanel({ className, compact = false }: ControlPanelProps)
     { value: "platinum" as const, label: "Pt" },
   ];
 
-  // Clear price estimate when material or jewelry type changes
+  const diamondOrigins = [
+    { value: "natural" as const, label: t("controls.natural") },
+    { value: "lab_grown" as const, label: t("controls.labGrown") },
+  ];
+
+  // Clear price estimate when material, diamond origin or jewelry type changes
   // Price will be calculated accurately AFTER image generation via Claude Vision analysis
   useEffect(() => {
     // Reset price when design parameters change - accurate price comes after image generation
     setPriceEstimate(null);
-  }, [jewelryType, material, setPriceEstimate]);
+  }, [jewelryType, material, diamondOrigin, setPriceEstimate]);
 
   // Check if there are existing images
   const hasExistingImages = variations[0] || variations[1];
@@ -130,6 +137,7 @@ export function ControlPanel({ className, compact = false }: ControlPanelProps)
               jewelryType,
               targetGender: gender,
               material,
+              diamondOrigin,
               thumbnailUrl: images[0],
               status: "draft",
             }),
@@ -279,6 +287,47 @@ export function ControlPanel({ className, compact = false }: ControlPanelProps)
           </div>
         </div>
 
+        {/* Diamond Origin */}
+        <div className={cn("space-y-2", isApple && "space-y-3")}>
+          <label className={cn(
+            "font-medium",
+            isApple ? "text-xs text-[#6E6E73] uppercase tracking-wide" : "text-sm text-text-secondary"
+          )}>
+            {t("controls.diamondOrigin")}
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {diamondOrigins.map((origin) => (
+              <button
+                key={origin.value}
+                onClick={() => setDiamondOrigin(origin.value)}
+                className={cn(
+                  "font-medium transition-all",
+                  isApple 
+                    ? cn(
+                        "py-2 px-4 rounded-full text-[13px] tracking-[-0.01em]",
+                        diamondOrigin === origin.value
+                          ? "bg-[#1D1D1F] text-white"
+                          : "bg-[#F5F5F7] text-[#1D1D1F] hover:bg-[#EFEFEF] active:scale-[0.98]"
+                      )
+                    : cn(
+                        "py-2 px-4 rounded-xl text-sm duration-200",
+                        diamondOrigin === origin.value
+                          ? "bg-gradient-to-r from-accent-primary to-accent-secondary text-white shadow-glow"
+                          : "bg-bg-tertiary text-text-secondary hover:bg-bg-accent hover:text-text-primary border border-border"
+                      )
+                )}
+              >
+                {origin.label}
+              </button>
+            ))}
+          </div>
+          {diamondOrigin === "lab_grown" && (
+            <p className={cn("text-xs", isApple ? "text-[#86868B]" : "text-text-tertiary")}>
+              {t("controls.labGrownNote")}
+            </p>
+          )}
+        </div>
+
         {/* Divider */}
         <div className={cn(
           "border-t",
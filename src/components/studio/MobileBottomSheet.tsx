@@ -26,6 +26,7 @@ export function MobileBottomSheet() {
     jewelryType,
     setJewelryType,
     material,
+    diamondOrigin,
     setMaterial,
     description,
     setDescription,
@@ -103,6 +104,7 @@ export function MobileBottomSheet() {
               jewelryType,
               targetGender: gender,
               material,
+              diamondOrigin,
               thumbnailUrl: images[0],
               status: "draft",
             }),
@@ -417,6 +419,7 @@ function MobileChatContent() {
     jewelryType,
     gender,
     material,
+    diamondOrigin,
     currentDesignId,
     setPriceEstimate,
   } = useStudio();
@@ -484,6 +487,7 @@ function MobileChatContent() {
               jewelryType,
               targetGender: gender,
               material: material || "gold_18k",
+              diamondOrigin,
               thumbnailUrl: refinedImageUrl,
               status: "draft",
             }),
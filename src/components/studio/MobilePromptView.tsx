@@ -20,6 +20,7 @@ export function MobilePromptView() {
     jewelryType,
     setJewelryType,
     material,
+    diamondOrigin,
     setMaterial,
     description,
     setDescription,
@@ -95,6 +96,7 @@ export function MobilePromptView() {
               jewelryType,
               targetGender: gender,
               material,
+              diamondOrigin,
               thumbnailUrl: images[0],
               status: "draft",
             }),
@@ -22,6 +22,7 @@ import { useStudio } from "@/contexts/StudioContext";
 import { useCart } from "@/contexts/CartContext";
 import { useTheme } from "@/contexts/ThemeContext";
 import { ModelViewer } from "@/components/design/ModelViewer";
+import { SizeSelector } from "@/components/design/SizeSelector";
 import { HistoryStrip } from "./HistoryStrip";
 import { Button } from "@/components/ui/Button";
 import { cn } from "@/lib/utils/cn";
@@ -69,6 +70,9 @@ export function PreviewPanel({ isMobile = false }: PreviewPanelProps) {
     jewelryType,
     gender,
     material,
+    diamondOrigin,
+    jewelrySize,
+    setJewelrySize,
     description,
     getSelectedImage,
     priceEstimate,
@@ -81,6 +85,7 @@ export function PreviewPanel({ isMobile = false }: PreviewPanelProps) {
   } = useStudio();
 
   const [taskId, setTaskId] = useState<string | null>(null);
+  const needsRingSize = jewelryType === "ring" && !jewelrySize;
   // Track if user has confirmed their selection (moved from selecting to working)
   const [hasConfirmedSelection, setHasConfirmedSelection] = useState(false);
 
@@ -181,6 +186,7 @@ export function PreviewPanel({ isMobile = false }: PreviewPanelProps) {
                   jewelryType,
                   targetGender: gender,
                   material: material || "gold_18k",
+                  diamondOrigin,
                   thumbnailUrl: selectedImage,
                   modelUrl: data.modelUrl,
                   tripoTaskId: taskId,
@@ -234,6 +240,7 @@ export function PreviewPanel({ isMobile = false }: PreviewPanelProps) {
               jewelryType,
               targetGender: gender,
               material: material || "gold_18k",
+              diamondOrigin,
               thumbnailUrl: url, // The SELECTED image
               status: "draft",
             }),
@@ -346,17 +353,36 @@ export function PreviewPanel({ isMobile = false }: PreviewPanelProps) {
     }
   };
 
-  const handleAddToCart = () => {
-    if (!modelUrl) return;
+  const handleAddToCart = async () => {
+    if (!modelUrl || needsRingSize) return;
+
+    // Lock the price with a signed quote when the design is saved
+    let quote: { id: string; total: number; expiresAt: string } | undefined;
+    if (currentDesignId) {
+      try {
+        const quoteResponse = await fetch("/api/pricing/estimate", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ designId: currentDesignId, material, size: jewelrySize || undefined }),
+        });
+        const quoteData = await quoteResponse.json();
+        quote = quoteData.quote;
+      } catch (error) {
+        console.error("Quote error:", error);
+      }
+    }
 
     addItem({
-      designId: `design-${Date.now()}`,
+      designId: currentDesignId || `design-${Date.now()}`,
       name: `Custom ${jewelryType} for ${gender}`,
       thumbnailUrl: getSelectedImage() || "",
       modelUrl,
       jewelryType: jewelryType || "ring",
       material,
-      price: priceEstimate || 0,
+      size: jewelrySize || undefined,
+      price: quote?.total ?? (priceEstimate || 0),
+      quoteId: quote?.id,
+      quoteExpiresAt: quote?.expiresAt,
     });
 
     router.push(`/${locale}/checkout`);
@@ -414,11 +440,18 @@ export function PreviewPanel({ isMobile = false }: PreviewPanelProps) {
                 className="w-full h-full"
               />
             </div>
+            <SizeSelector
+              jewelryType={jewelryType || "ring"}
+              value={jewelrySize}
+              onChange={setJewelrySize}
+              className="mt-3"
+            />
             <Button
               variant="gradient"
               size="lg"
               className="mt-3 gap-2"
               onClick={handleAddToCart}
+              disabled={needsRingSize}
             >
               <ShoppingCart className="w-5 h-5" />
               {t("addToCart")}
@@ -13,6 +13,15 @@ export interface CartItem {
   size?: string;
   price: number;
   quantity: number;
+  quoteId?: string; // Signed price quote honoured at checkout
+  quoteExpiresAt?: string;
+}
+
+export interface CartPriceUpdate {
+  id: string;
+  price: number;
+  quoteId?: string;
+  quoteExpiresAt?: string;
 }
 
 interface CartState {
@@ -25,6 +34,7 @@ type CartAction =
   | { type: "REMOVE_ITEM"; payload: string }
   | { type: "UPDATE_QUANTITY"; payload: { id: string; quantity: number } }
   | { type: "UPDATE_SIZE"; payload: { id: string; size: string } }
+  | { type: "UPDATE_PRICES"; payload: CartPriceUpdate[] }
   | { type: "CLEAR_CART" }
   | { type: "TOGGLE_CART" }
   | { type: "SET_CART_OPEN"; payload: boolean }
@@ -35,6 +45,7 @@ interface CartContextType extends CartState {
   removeItem: (id: string) => void;
   updateQuantity: (id: string, quantity: number) => void;
   updateSize: (id: string, size: string) => void;
+  updatePrices: (prices: CartPriceUpdate[]) => void;
   clearCart: () => void;
   toggleCart: () => void;
   setCartOpen: (open: boolean) => void;
@@ -90,11 +101,30 @@ function cartReducer(state: CartState, action: CartAction): CartState {
         ...state,
         items: state.items.map((item) =>
           item.id === action.payload.id
-            ? { ...item, size: action.payload.size }
+            ? // A quote is only valid for the size it was issued for
+              { ...item, size: action.payload.size, quoteId: undefined, quoteExpiresAt: undefined }
             : item
         ),
       };
 
+    case "UPDATE_PRICES": {
+      const updates = new Map(action.payload.map((p) => [p.id, p]));
+      return {
+        ...state,
+        items: state.items.map((item) => {
+          const update = updates.get(item.id);
+          return update
+            ? {
+                ...item,
+                price: update.price,
+                quoteId: update.quoteId,
+                quoteExpiresAt: update.quoteExpiresAt,
+              }
+            : item;
+        }),
+      };
+    }
+
     case "CLEAR_CART":
       return { ...state, items: [] };
 
@@ -158,6 +188,10 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     dispatch({ type: "UPDATE_SIZE", payload: { id, size } });
   };
 
+  const updatePrices = (prices: CartPriceUpdate[]) => {
+    dispatch({ type: "UPDATE_PRICES", payload: prices });
+  };
+
   const clearCart = () => {
     dispatch({ type: "CLEAR_CART" });
   };
@@ -184,6 +218,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         removeItem,
         updateQuantity,
         updateSize,
+        updatePrices,
         clearCart,
         toggleCart,
         setCartOpen,
@@ -1,6 +1,8 @@
 "use client";
 
 import { createContext, useContext, useState, useCallback, ReactNode } from "react";
+import { DEFAULT_SIZES, formatJewelrySize } from "@/lib/pricing/sizes";
+import type { DiamondOrigin } from "@/lib/pricing/stone-origin";
 
 export type Gender = "man" | "woman" | "unisex";
 export type JewelryType = "ring" | "necklace" | "bracelet" | "earrings";
@@ -20,6 +22,8 @@ export interface StudioState {
   gender: Gender | null;
   jewelryType: JewelryType | null;
   material: Material;
+  jewelrySize: string | null; // Canonical size label, e.g. "US 7" or "45cm"
+  diamondOrigin: DiamondOrigin; // Natural or lab-grown diamonds
   description: string;
 
   // Generated images (2 variations)
@@ -56,6 +60,8 @@ interface StudioContextType extends StudioState {
   setGender: (gender: Gender | null) => void;
   setJewelryType: (type: JewelryType | null) => void;
   setMaterial: (material: Material) => void;
+  setJewelrySize: (size: string | null) => void;
+  setDiamondOrigin: (origin: DiamondOrigin) => void;
   setDescription: (description: string) => void;
 
   // Variation management
@@ -107,6 +113,8 @@ const initialState: StudioState = {
   gender: null,
   jewelryType: null,
   material: "gold_18k",
+  jewelrySize: null,
+  diamondOrigin: "natural",
   description: "",
   variations: [null, null],
   selectedIndex: null,
@@ -137,13 +145,25 @@ export function StudioProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const setJewelryType = useCallback((jewelryType: JewelryType | null) => {
-    setState((prev) => ({ ...prev, jewelryType }));
+    setState((prev) => {
+      // Sizes are per type - fall back to the new type's default
+      const defaultSize = jewelryType ? DEFAULT_SIZES[jewelryType] : null;
+      return { ...prev, jewelryType, jewelrySize: defaultSize ? formatJewelrySize(defaultSize) : null };
+    });
   }, []);
 
   const setMaterial = useCallback((material: Material) => {
     setState((prev) => ({ ...prev, material }));
   }, []);
 
+  const setJewelrySize = useCallback((jewelrySize: string | null) => {
+    setState((prev) => ({ ...prev, jewelrySize }));
+  }, []);
+
+  const setDiamondOrigin = useCallback((diamondOrigin: DiamondOrigin) => {
+    setState((prev) => ({ ...prev, diamondOrigin }));
+  }, []);
+
   const setDescription = useCallback((description: string) => {
     setState((prev) => ({ ...prev, description }));
   }, []);
@@ -384,6 +404,8 @@ export function StudioProvider({ children }: { children: ReactNode }) {
     setGender,
     setJewelryType,
     setMaterial,
+    setJewelrySize,
+    setDiamondOrigin,
     setDescription,
     setVariations,
     selectVariation,
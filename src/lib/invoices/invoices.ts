@@ -0,0 +1,574 @@
+/**
+ * Tax Invoices
+ *
+ * Israeli tax documents for paid orders. A tax invoice/receipt (חשבונית
+ * מס/קבלה) is issued for money received: the order total when it is paid
+ * in full, the deposit and later the balance under deposit terms, and the
+ * captured amount under authorize terms (nothing is received while the
+ * amount is only held). A refund issues a credit note (חשבונית זיכוי)
+ * against the order's invoices.
+ *
+ * Each type is numbered sequentially without gaps - the number is taken
+ * in the transaction that creates the document. A document is a frozen
+ * copy of the order, the issuing business and the payment; its Hebrew and
+ * English PDFs are rendered from the row, stored once, and re-rendered
+ * from it if the stored copy is unavailable.
+ *
+ * The issuing business is configured with INVOICE_BUSINESS_NAME,
+ * INVOICE_BUSINESS_ID (עוסק מורשה / ח.פ.) and INVOICE_BUSINESS_ADDRESS.
+ * INVOICE_FIRST_NUMBER continues an existing sequence (default 1).
+ */
+
+import { Prisma, type Invoice, type Order, type OrderItem } from "@prisma/client";
+import { prisma } from "@/lib/db/prisma";
+import { toOrderStatus } from "@/lib/orders/lifecycle";
+import type { OrderItemSpec } from "@/lib/orders/order-items";
+import { toPaymentMode } from "@/lib/payments/payment-terms";
+import { diamondOriginDisclosure, summarizeDiamondOrigins } from "@/lib/pricing/stone-origin";
+import { downloadDocument, uploadDocument } from "@/lib/storage/supabase";
+import { renderInvoicePdf } from "./pdf";
+
+export const INVOICE_TYPES = ["invoice_receipt", "credit_note"] as const;
+
+export type InvoiceType = (typeof INVOICE_TYPES)[number];
+
+export type InvoicePurpose = "order" | "deposit" | "balance" | "refund";
+
+export type InvoiceLocale = "he" | "en";
+
+// Sums are compared to the agora (ILS cents)
+const SUM_TOLERANCE = 0.01;
+
+/**
+ * Text printed on both the Hebrew and English document
+ */
+export interface InvoiceText {
+  he: string;
+  en: string;
+}
+
+export interface InvoiceLine {
+  description: InvoiceText;
+  quantity: number;
+  unitPrice: number; // ILS before VAT
+  total: number; // ILS before VAT - negative for a discount
+}
+
+export interface InvoiceIssuer {
+  name: string;
+  businessId: string; // עוסק מורשה / ח.פ.
+  address: string | null;
+}
+
+export interface InvoiceCustomer {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+}
+
+export interface InvoicePayment {
+  method: "card";
+  cardBrand?: string | null;
+  last4?: string | null;
+  installments?: number | null;
+  approvalNumber?: string | null;
+  transactionId?: string | null;
+}
+
+/**
+ * Everything printed on a document
+ */
+export interface InvoiceDocument {
+  id: string;
+  type: InvoiceType;
+  number: number;
+  purpose: InvoicePurpose;
+  orderNumber: string;
+  creditedNumber: number | null; // Credit notes: the invoice they credit
+  issuer: InvoiceIssuer;
+  customer: InvoiceCustomer;
+  lines: InvoiceLine[];
+  subtotal: number;
+  vatRate: number;
+  vat: number;
+  total: number;
+  currency: string;
+  payment: InvoicePayment | null;
+  issuedAt: Date;
+}
+
+/**
+ * A document as listed on an order
+ */
+export interface InvoiceSummary {
+  id: string;
+  type: InvoiceType;
+  number: number;
+  purpose: InvoicePurpose;
+  total: number;
+  currency: string;
+  issuedAt: Date;
+}
+
+export type IssueInvoicesResult =
+  | { success: true; invoices: InvoiceSummary[] }
+  | { success: false; error: string; notFound?: boolean };
+
+export type IssueCreditNoteResult =
+  | { success: true; invoice: InvoiceSummary }
+  | { success: false; error: string; notFound?: boolean };
+
+export type InvoicePdfResult =
+  | { success: true; pdf: Uint8Array; filename: string }
+  | { success: false; error: string; notFound?: boolean };
+
+type OrderWithItems = Order & { items: OrderItem[] };
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * The business the documents are issued by, or null if not configured
+ */
+export function getInvoiceIssuer(): InvoiceIssuer | null {
+  const name = process.env.INVOICE_BUSINESS_NAME?.trim();
+  const businessId = process.env.INVOICE_BUSINESS_ID?.trim();
+  if (!name || !businessId) {
+    return null;
+  }
+
+  return { name, businessId, address: process.env.INVOICE_BUSINESS_ADDRESS?.trim() || null };
+}
+
+function firstInvoiceNumber(): number {
+  const configured = parseInt(process.env.INVOICE_FIRST_NUMBER ?? "", 10);
+  return configured > 0 ? configured : 1;
+}
+
+/**
+ * Take the next number of a type
+ *
+ * The sequence row stays locked until the transaction commits, so
+ * concurrent documents wait for each other and a failed one returns its
+ * number.
+ */
+async function nextInvoiceNumber(tx: Prisma.TransactionClient, type: InvoiceType): Promise<number> {
+  const sequence = await tx.invoiceSequence.upsert({
+    where: { type },
+    create: { type, lastNumber: firstInvoiceNumber() },
+    update: { lastNumber: { increment: 1 } },
+  });
+  return sequence.lastNumber;
+}
+
+function toInvoiceSummary(invoice: Invoice): InvoiceSummary {
+  return {
+    id: invoice.id,
+    type: invoice.type as InvoiceType,
+    number: invoice.number,
+    purpose: invoice.purpose as InvoicePurpose,
+    total: invoice.total,
+    currency: invoice.currency,
+    issuedAt: invoice.issuedAt,
+  };
+}
+
+function orderCustomer(order: Order): InvoiceCustomer {
+  const address = (order.billingAddress ?? order.shippingAddress) as
+    | { street?: string; city?: string; postalCode?: string; country?: string }
+    | null;
+
+  return {
+    name: order.customerName,
+    email: order.customerEmail,
+    phone: order.customerPhone,
+    address: address
+      ? [address.street, address.city, address.postalCode, address.country].filter(Boolean).join(", ")
+      : null,
+  };
+}
+
+function orderPayment(order: Order): InvoicePayment {
+  const details = (order.paymentDetails ?? {}) as {
+    last4Digits?: string;
+    cardBrand?: string;
+    installments?: number;
+  };
+
+  return {
+    method: "card",
+    cardBrand: details.cardBrand ?? null,
+    last4: details.last4Digits ?? null,
+    installments: details.installments ?? null,
+    approvalNumber: order.paymentApproval,
+    transactionId: order.paymentTransactionId,
+  };
+}
+
+// The rate printed on the document - orders from before it was recorded derive it
+function orderVatRate(order: Order): number {
+  if (order.taxRate !== null) return order.taxRate;
+  const net = order.total - order.tax;
+  return net > 0 ? Math.round((order.tax / net) * 10000) / 10000 : 0;
+}
+
+// The VAT in part of the order total
+function vatShare(order: Order, amount: number): number {
+  return order.total > 0 ? roundMoney((amount * order.tax) / order.total) : 0;
+}
+
+function itemDescription(item: OrderItem, locale: InvoiceLocale): string {
+  const origin = summarizeDiamondOrigins((item.spec as unknown as OrderItemSpec).stones);
+  const name = item.name ?? (locale === "he" ? "עיצוב אישי" : "Custom design");
+  const size = item.size ? ` - ${locale === "he" ? "מידה" : "size"} ${item.size}` : "";
+
+  // Diamond origin must be disclosed on every order document
+  return `${name}${size}${origin ? ` (${diamondOriginDisclosure(origin, locale)})` : ""}`;
+}
+
+/**
+ * The order's items, discount and shipping, moved to the amount charged
+ */
+function orderLines(order: OrderWithItems, amount: number): { lines: InvoiceLine[]; vat: number } {
+  const lines: InvoiceLine[] = order.items.map((item) => ({
+    description: { he: itemDescription(item, "he"), en: itemDescription(item, "en") },
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    total: roundMoney(item.unitPrice * item.quantity),
+  }));
+
+  if (order.discount > 0) {
+    const code = (order.discountDetails as { code?: string } | null)?.code;
+    lines.push({
+      description: { he: code ? `הנחה (${code})` : "הנחה", en: code ? `Discount (${code})` : "Discount" },
+      quantity: 1,
+      unitPrice: -order.discount,
+      total: -order.discount,
+    });
+  }
+
+  if (order.shipping > 0) {
+    lines.push({
+      description: { he: "משלוח", en: "Shipping" },
+      quantity: 1,
+      unitPrice: order.shipping,
+      total: order.shipping,
+    });
+  }
+
+  // Settled for another amount once the piece was weighed
+  const adjustment = roundMoney(amount - order.total);
+  let vat = order.tax;
+  if (Math.abs(adjustment) >= SUM_TOLERANCE) {
+    const adjustmentVat = vatShare(order, adjustment);
+    const net = roundMoney(adjustment - adjustmentVat);
+    lines.push({
+      description: { he: "התאמה למשקל הסופי", en: "Final weight adjustment" },
+      quantity: 1,
+      unitPrice: net,
+      total: net,
+    });
+    vat = roundMoney(vat + adjustmentVat);
+  }
+
+  return { lines, vat };
+}
+
+// One line for part of the order
+function partLines(order: Order, amount: number, description: InvoiceText): { lines: InvoiceLine[]; vat: number } {
+  const vat = vatShare(order, amount);
+  const net = roundMoney(amount - vat);
+  return { lines: [{ description, quantity: 1, unitPrice: net, total: net }], vat };
+}
+
+/**
+ * Invoices an order should have by now, with the amount each one is for
+ */
+function dueInvoices(order: Order): Array<{ purpose: InvoicePurpose; amount: number; payment: InvoicePayment }> {
+  const status = toOrderStatus(order.status);
+  if (status === "pending" || status === "cancelled") return [];
+
+  const mode = toPaymentMode(order.paymentMode);
+  const finalAmount = order.finalAmount ?? order.total;
+  const payment = orderPayment(order);
+
+  if (mode === "full") {
+    return [{ purpose: "order", amount: order.total, payment }];
+  }
+  if (mode === "authorize") {
+    return order.settledAt ? [{ purpose: "order", amount: finalAmount, payment }] : [];
+  }
+
+  const deposit = order.depositAmount ?? 0;
+  return [
+    { purpose: "deposit", amount: deposit, payment },
+    ...(order.settledAt && order.balanceTransactionId
+      ? [{
+          purpose: "balance" as const,
+          amount: roundMoney(finalAmount - deposit),
+          payment: { method: "card" as const, transactionId: order.balanceTransactionId },
+        }]
+      : []),
+  ];
+}
+
+/**
+ * Issue the tax invoice/receipts an order is missing
+ *
+ * Safe to call after every payment event: documents already issued are
+ * skipped, and failures are logged rather than thrown so they never fail
+ * the payment - the admin can issue them later. Returns the documents
+ * issued by this call.
+ */
+export async function issueDueInvoices(orderId: string): Promise<IssueInvoicesResult> {
+  try {
+    const result = await issueMissingInvoices(orderId);
+    if (!result.success) {
+      console.error(`[Invoices] Invoices for order ${orderId} not issued: ${result.error}`);
+    }
+    return result;
+  } catch (error) {
+    console.error(`[Invoices] Failed to issue invoices for order ${orderId}:`, error);
+    return { success: false, error: "Failed to issue invoices" };
+  }
+}
+
+async function issueMissingInvoices(orderId: string): Promise<IssueInvoicesResult> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { items: true, invoices: { where: { type: "invoice_receipt" } } },
+  });
+  if (!order) {
+    return { success: false, error: "Order not found", notFound: true };
+  }
+
+  const missing = dueInvoices(order).filter(
+    (due) => due.amount >= SUM_TOLERANCE && !order.invoices.some((invoice) => invoice.purpose === due.purpose)
+  );
+  if (missing.length === 0) {
+    return { success: true, invoices: [] };
+  }
+
+  const issuer = getInvoiceIssuer();
+  if (!issuer) {
+    return { success: false, error: "Invoicing is not configured - set INVOICE_BUSINESS_NAME and INVOICE_BUSINESS_ID" };
+  }
+
+  const issued: Invoice[] = [];
+  for (const due of missing) {
+    const { lines, vat } =
+      due.purpose === "order"
+        ? orderLines(order, due.amount)
+        : partLines(order, due.amount, due.purpose === "deposit"
+            ? { he: `מקדמה עבור הזמנה ${order.orderNumber}`, en: `Deposit for order ${order.orderNumber}` }
+            : { he: `יתרה עבור הזמנה ${order.orderNumber}`, en: `Balance for order ${order.orderNumber}` });
+
+    const invoice = await prisma.$transaction(async (tx) =>
+      tx.invoice.create({
+        data: {
+          orderId,
+          type: "invoice_receipt",
+          number: await nextInvoiceNumber(tx, "invoice_receipt"),
+          purpose: due.purpose,
+          issuer: { ...issuer },
+          customer: { ...orderCustomer(order) },
+          lines: JSON.parse(JSON.stringify(lines)),
+          subtotal: roundMoney(due.amount - vat),
+          vatRate: orderVatRate(order),
+          vat,
+          total: due.amount,
+          currency: order.currency,
+          payment: { ...due.payment },
+        },
+      })
+    );
+    issued.push(await storeInvoicePdfs(invoice, order.orderNumber, null));
+    console.log(`[Invoices] Issued invoice ${invoice.number} (${due.purpose}) for order ${orderId}`);
+  }
+
+  return { success: true, invoices: issued.map(toInvoiceSummary) };
+}
+
+/**
+ * Issue a credit note for a refund
+ *
+ * Credits `amount`, or everything invoiced and not yet credited. Nothing
+ * is issued for an order without invoices. Like issueDueInvoices, a
+ * failure is logged rather than thrown - the money has already moved.
+ */
+export async function issueCreditNote(
+  orderId: string,
+  options: { amount?: number; refundReference?: string }
+): Promise<IssueCreditNoteResult> {
+  try {
+    const result = await issueOrderCreditNote(orderId, options);
+    if (!result.success) {
+      console.error(`[Invoices] Credit note for order ${orderId} not issued: ${result.error}`);
+    }
+    return result;
+  } catch (error) {
+    console.error(`[Invoices] Failed to issue a credit note for order ${orderId}:`, error);
+    return { success: false, error: "Failed to issue credit note" };
+  }
+}
+
+async function issueOrderCreditNote(
+  orderId: string,
+  options: { amount?: number; refundReference?: string }
+): Promise<IssueCreditNoteResult> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { invoices: { orderBy: { issuedAt: "asc" } } },
+  });
+  if (!order) {
+    return { success: false, error: "Order not found", notFound: true };
+  }
+
+  const invoices = order.invoices.filter((invoice) => invoice.type === "invoice_receipt");
+  const invoiced = invoices.reduce((sum, invoice) => sum + invoice.total, 0);
+  const credited = order.invoices
+    .filter((invoice) => invoice.type === "credit_note")
+    .reduce((sum, invoice) => sum + invoice.total, 0);
+  const creditable = roundMoney(invoiced - credited);
+
+  if (creditable < SUM_TOLERANCE) {
+    return { success: false, error: "Nothing has been invoiced for this order that is not already credited" };
+  }
+  const amount = roundMoney(Math.min(options.amount ?? creditable, creditable));
+
+  const issuer = getInvoiceIssuer();
+  if (!issuer) {
+    return { success: false, error: "Invoicing is not configured - set INVOICE_BUSINESS_NAME and INVOICE_BUSINESS_ID" };
+  }
+
+  const creditedInvoice = invoices[invoices.length - 1];
+  const { lines, vat } = partLines(order, amount, {
+    he: `זיכוי עבור הזמנה ${order.orderNumber}`,
+    en: `Refund for order ${order.orderNumber}`,
+  });
+
+  const invoice = await prisma.$transaction(async (tx) =>
+    tx.invoice.create({
+      data: {
+        orderId,
+        type: "credit_note",
+        number: await nextInvoiceNumber(tx, "credit_note"),
+        purpose: "refund",
+        creditedInvoiceId: creditedInvoice.id,
+        issuer: { ...issuer },
+        customer: { ...orderCustomer(order) },
+        lines: JSON.parse(JSON.stringify(lines)),
+        subtotal: roundMoney(amount - vat),
+        vatRate: orderVatRate(order),
+        vat,
+        total: amount,
+        currency: order.currency,
+        payment: { method: "card", transactionId: options.refundReference ?? null },
+      },
+    })
+  );
+  console.log(`[Invoices] Issued credit note ${invoice.number} for order ${orderId}`);
+
+  return {
+    success: true,
+    invoice: toInvoiceSummary(await storeInvoicePdfs(invoice, order.orderNumber, creditedInvoice.number)),
+  };
+}
+
+/**
+ * An order's documents, oldest first
+ */
+export async function listOrderInvoices(orderId: string): Promise<InvoiceSummary[]> {
+  const invoices = await prisma.invoice.findMany({
+    where: { orderId },
+    orderBy: { issuedAt: "asc" },
+  });
+  return invoices.map(toInvoiceSummary);
+}
+
+function toInvoiceDocument(invoice: Invoice, orderNumber: string, creditedNumber: number | null): InvoiceDocument {
+  return {
+    id: invoice.id,
+    type: invoice.type as InvoiceType,
+    number: invoice.number,
+    purpose: invoice.purpose as InvoicePurpose,
+    orderNumber,
+    creditedNumber,
+    issuer: invoice.issuer as unknown as InvoiceIssuer,
+    customer: invoice.customer as unknown as InvoiceCustomer,
+    lines: invoice.lines as unknown as InvoiceLine[],
+    subtotal: invoice.subtotal,
+    vatRate: invoice.vatRate,
+    vat: invoice.vat,
+    total: invoice.total,
+    currency: invoice.currency,
+    payment: invoice.payment as unknown as InvoicePayment | null,
+    issuedAt: invoice.issuedAt,
+  };
+}
+
+function invoiceFilename(invoice: Invoice, locale: InvoiceLocale): string {
+  const kind = invoice.type === "credit_note" ? "credit-note" : "invoice";
+  return `${kind}-${invoice.number}-${locale}.pdf`;
+}
+
+// Render and keep the originals - the row is the record if storage fails
+async function storeInvoicePdfs(invoice: Invoice, orderNumber: string, creditedNumber: number | null): Promise<Invoice> {
+  try {
+    const document = toInvoiceDocument(invoice, orderNumber, creditedNumber);
+    const [pdfPathHe, pdfPathEn] = await Promise.all(
+      (["he", "en"] as const).map(async (locale) =>
+        uploadDocument(await renderInvoicePdf(document, locale), {
+          path: `invoices/${invoice.orderId}/${invoiceFilename(invoice, locale)}`,
+          contentType: "application/pdf",
+        })
+      )
+    );
+    if (!pdfPathHe && !pdfPathEn) {
+      return invoice;
+    }
+
+    return await prisma.invoice.update({
+      where: { id: invoice.id },
+      data: { pdfPathHe, pdfPathEn },
+    });
+  } catch (error) {
+    console.error(`[Invoices] Failed to store PDFs for invoice ${invoice.id}:`, error);
+    return invoice;
+  }
+}
+
+/**
+ * A document's PDF - the stored original, or rendered from the record
+ */
+export async function getInvoicePdf(
+  orderId: string,
+  invoiceId: string,
+  locale: InvoiceLocale
+): Promise<InvoicePdfResult> {
+  const invoice = await prisma.invoice.findFirst({
+    where: { id: invoiceId, orderId },
+    include: { order: { select: { orderNumber: true } } },
+  });
+  if (!invoice) {
+    return { success: false, error: "Invoice not found", notFound: true };
+  }
+
+  const filename = invoiceFilename(invoice, locale);
+  const storedPath = locale === "he" ? invoice.pdfPathHe : invoice.pdfPathEn;
+  const stored = storedPath ? await downloadDocument(storedPath) : null;
+  if (stored) {
+    return { success: true, pdf: stored, filename };
+  }
+
+  const credited = invoice.creditedInvoiceId
+    ? await prisma.invoice.findUnique({ where: { id: invoice.creditedInvoiceId }, select: { number: true } })
+    : null;
+  const pdf = await renderInvoicePdf(
+    toInvoiceDocument(invoice, invoice.order.orderNumber, credited?.number ?? null),
+    locale
+  );
+  return { success: true, pdf, filename };
+}
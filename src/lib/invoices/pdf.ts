@@ -0,0 +1,344 @@
+/**
+ * Invoice PDFs
+ *
+ * Renders a tax document in Hebrew (right to left) or English with
+ * pdf-lib. Text is set in Heebo, the site's Hebrew face (fonts/, SIL Open
+ * Font License). Mixed Hebrew and Latin text is drawn one direction run
+ * at a time; on a Hebrew page the runs and the layout start from the
+ * right.
+ */
+
+import { readFile } from "fs/promises";
+import path from "path";
+import fontkit from "@pdf-lib/fontkit";
+import { PDFDocument, rgb, type PDFFont, type PDFPage, type RGB } from "pdf-lib";
+import type { InvoiceDocument, InvoiceLocale, InvoicePayment } from "./invoices";
+
+const FONTS_DIR = path.join(process.cwd(), "src/lib/invoices/fonts");
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const TEXT_COLOR = rgb(0.13, 0.13, 0.13);
+const MUTED_COLOR = rgb(0.42, 0.42, 0.42);
+const ACCENT_COLOR = rgb(0.69, 0.53, 0.2);
+const RULE_COLOR = rgb(0.85, 0.85, 0.85);
+
+const LABELS: Record<InvoiceLocale, {
+  invoice_receipt: string;
+  credit_note: string;
+  number: string;
+  date: string;
+  order: string;
+  businessId: string;
+  billTo: string;
+  credits: string;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  total: string;
+  subtotal: string;
+  vat: string;
+  grandTotal: string;
+  paidBy: string;
+  refundedTo: string;
+  installments: string;
+  approval: string;
+  transaction: string;
+  computerized: string;
+}> = {
+  he: {
+    invoice_receipt: "חשבונית מס/קבלה",
+    credit_note: "חשבונית מס זיכוי",
+    number: "מספר",
+    date: "תאריך",
+    order: "הזמנה",
+    businessId: "עוסק מורשה",
+    billTo: "לכבוד",
+    credits: "זיכוי לחשבונית מס/קבלה מספר",
+    description: "תיאור",
+    quantity: "כמות",
+    unitPrice: "מחיר ליחידה",
+    total: "סכום",
+    subtotal: "סה״כ לפני מע״מ",
+    vat: "מע״מ",
+    grandTotal: "סה״כ לתשלום",
+    paidBy: "שולם בכרטיס אשראי",
+    refundedTo: "הוחזר לכרטיס האשראי",
+    installments: "תשלומים",
+    approval: "אישור",
+    transaction: "עסקה",
+    computerized: "מסמך ממוחשב",
+  },
+  en: {
+    invoice_receipt: "Tax Invoice / Receipt",
+    credit_note: "Tax Credit Note",
+    number: "No.",
+    date: "Date",
+    order: "Order",
+    businessId: "VAT reg. no.",
+    billTo: "Bill to",
+    credits: "Credits tax invoice / receipt no.",
+    description: "Description",
+    quantity: "Qty",
+    unitPrice: "Unit price",
+    total: "Amount",
+    subtotal: "Total before VAT",
+    vat: "VAT",
+    grandTotal: "Total",
+    paidBy: "Paid by credit card",
+    refundedTo: "Refunded to credit card",
+    installments: "installments",
+    approval: "approval",
+    transaction: "transaction",
+    computerized: "Computer-generated document",
+  },
+};
+
+// Line table columns, from the start edge of the page
+const COLUMNS = {
+  description: { x: 0, width: 275 },
+  quantity: { x: 285, width: 40 },
+  unitPrice: { x: 335, width: 80 },
+  total: { x: 425, width: CONTENT_WIDTH - 425 },
+};
+
+const RTL_CHAR = /[\u0590-\u05FF\uFB1D-\uFB4F]/;
+const LTR_CHAR = /[A-Za-z0-9%\u00C0-\u024F]/; // "18%" stays one left-to-right run
+const MIRRORED: Record<string, string> = { "(": ")", ")": "(", "[": "]", "]": "[", "<": ">", ">": "<" };
+
+/**
+ * Split text into runs of one direction, in the left-to-right order they
+ * are drawn in
+ *
+ * A simplified bidi pass: neutrals between two runs of one direction join
+ * them, other neutrals follow the page direction. fontkit reverses runs
+ * with Hebrew in them when it lays them out (but does not mirror
+ * brackets), so only brackets and Hebrew-less right-to-left runs are
+ * turned here.
+ */
+function toVisualRuns(text: string, rtl: boolean): string[] {
+  if (!RTL_CHAR.test(text)) return [text];
+
+  const chars = [...text];
+  const strong = chars.map((char) => (RTL_CHAR.test(char) ? "R" : LTR_CHAR.test(char) ? "L" : null));
+  const resolved = strong.map((direction, index) => {
+    if (direction) return direction;
+    const before = strong.slice(0, index).reverse().find(Boolean);
+    const after = strong.slice(index + 1).find(Boolean);
+    return before && before === after ? before : rtl ? "R" : "L";
+  });
+
+  const runs: { direction: string; text: string }[] = [];
+  chars.forEach((char, index) => {
+    const last = runs[runs.length - 1];
+    if (last && last.direction === resolved[index]) {
+      last.text += char;
+    } else {
+      runs.push({ direction: resolved[index], text: char });
+    }
+  });
+
+  const visual = runs.map((run) => {
+    if (run.direction === "L") return run.text;
+    const mirrored = [...run.text].map((char) => MIRRORED[char] ?? char);
+    return RTL_CHAR.test(run.text) ? mirrored.join("") : mirrored.reverse().join("");
+  });
+  return rtl ? visual.reverse() : visual;
+}
+
+function formatMoney(amount: number, currency: string): string {
+  const value = Math.abs(amount).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${amount < 0 ? "-" : ""}${currency === "ILS" ? "₪" : `${currency} `}${value}`;
+}
+
+function formatDate(date: Date, locale: InvoiceLocale): string {
+  return date.toLocaleDateString(locale === "he" ? "he-IL" : "en-GB", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    timeZone: "Asia/Jerusalem",
+  });
+}
+
+function paymentText(payment: InvoicePayment, isCredit: boolean, labels: (typeof LABELS)[InvoiceLocale]): string {
+  const card = [payment.cardBrand, payment.last4 && `****${payment.last4}`].filter(Boolean).join(" ");
+  return [
+    [isCredit ? labels.refundedTo : labels.paidBy, card].filter(Boolean).join(" "),
+    payment.installments && payment.installments > 1 && `${payment.installments} ${labels.installments}`,
+    payment.approvalNumber && `${labels.approval} ${payment.approvalNumber}`,
+    !payment.approvalNumber && payment.transactionId && `${labels.transaction} ${payment.transactionId}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+// Break text into lines that fit the width
+function wrapText(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.widthOfTextAtSize(candidate, size) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Render one document as a PDF
+ */
+export async function renderInvoicePdf(document: InvoiceDocument, locale: InvoiceLocale): Promise<Uint8Array> {
+  const labels = LABELS[locale];
+  const rtl = locale === "he";
+  const isCredit = document.type === "credit_note";
+  const title = labels[document.type];
+
+  const pdf = await PDFDocument.create();
+  pdf.registerFontkit(fontkit);
+  const [regularBytes, boldBytes] = await Promise.all([
+    readFile(path.join(FONTS_DIR, "Heebo-Regular.ttf")),
+    readFile(path.join(FONTS_DIR, "Heebo-Bold.ttf")),
+  ]);
+  const regular = await pdf.embedFont(regularBytes, { subset: true });
+  const bold = await pdf.embedFont(boldBytes, { subset: true });
+
+  pdf.setTitle(`${title} ${document.number}`);
+  pdf.setAuthor(document.issuer.name);
+  pdf.setLanguage(rtl ? "he-IL" : "en-US");
+  pdf.setCreationDate(document.issuedAt);
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  /**
+   * Draw text in a box measured from the start edge of the page (the
+   * right edge on a Hebrew page)
+   */
+  const draw = (
+    text: string,
+    options: { x?: number; width?: number; align?: "start" | "end"; font?: PDFFont; size?: number; color?: RGB; at?: number }
+  ) => {
+    const { x = 0, width = CONTENT_WIDTH, align = "start", font = regular, size = 10, color = TEXT_COLOR } = options;
+    const runs = toVisualRuns(text, rtl);
+    const textWidth = runs.reduce((sum, run) => sum + font.widthOfTextAtSize(run, size), 0);
+    const boxLeft = rtl ? PAGE_WIDTH - MARGIN - x - width : MARGIN + x;
+    let left = (align === "start") !== rtl ? boxLeft : boxLeft + width - textWidth;
+    for (const run of runs) {
+      page.drawText(run, { x: left, y: options.at ?? y, size, font, color });
+      left += font.widthOfTextAtSize(run, size);
+    }
+  };
+
+  const rule = (thickness = 0.75, color = RULE_COLOR) => {
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness,
+      color,
+    });
+  };
+
+  // Issuer
+  draw(document.issuer.name, { font: bold, size: 16, width: CONTENT_WIDTH / 2 });
+  draw(title, { font: bold, size: 16, align: "end", color: isCredit ? TEXT_COLOR : ACCENT_COLOR });
+  y -= 18;
+  draw(`${labels.businessId} ${document.issuer.businessId}`, { size: 9, color: MUTED_COLOR, width: CONTENT_WIDTH / 2 });
+  draw(`${labels.number} ${document.number}`, { font: bold, size: 11, align: "end" });
+  y -= 13;
+  if (document.issuer.address) {
+    draw(document.issuer.address, { size: 9, color: MUTED_COLOR, width: CONTENT_WIDTH / 2 });
+  }
+  draw(`${labels.date} ${formatDate(document.issuedAt, locale)}`, { size: 9, color: MUTED_COLOR, align: "end" });
+  y -= 13;
+  draw(`${labels.order} ${document.orderNumber}`, { size: 9, color: MUTED_COLOR, align: "end" });
+  y -= 22;
+  rule();
+  y -= 20;
+
+  // Customer
+  draw(labels.billTo, { font: bold, size: 10 });
+  y -= 14;
+  const { customer } = document;
+  for (const line of [customer.name, customer.address, [customer.phone, customer.email].filter(Boolean).join(" | ")]) {
+    if (!line) continue;
+    draw(line, { size: 9.5 });
+    y -= 13;
+  }
+  if (isCredit && document.creditedNumber !== null) {
+    y -= 4;
+    draw(`${labels.credits} ${document.creditedNumber}`, { font: bold, size: 9.5 });
+    y -= 13;
+  }
+  y -= 16;
+
+  // Lines
+  const tableHeader = () => {
+    draw(labels.description, { ...COLUMNS.description, font: bold, size: 9, color: MUTED_COLOR });
+    draw(labels.quantity, { ...COLUMNS.quantity, align: "end", font: bold, size: 9, color: MUTED_COLOR });
+    draw(labels.unitPrice, { ...COLUMNS.unitPrice, align: "end", font: bold, size: 9, color: MUTED_COLOR });
+    draw(labels.total, { ...COLUMNS.total, align: "end", font: bold, size: 9, color: MUTED_COLOR });
+    y -= 8;
+    rule();
+    y -= 16;
+  };
+  tableHeader();
+
+  for (const line of document.lines) {
+    const descriptionLines = wrapText(line.description[locale], regular, 9.5, COLUMNS.description.width);
+    if (y - descriptionLines.length * 13 < MARGIN + 40) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+      tableHeader();
+    }
+
+    draw(String(line.quantity), { ...COLUMNS.quantity, align: "end", size: 9.5 });
+    draw(formatMoney(line.unitPrice, document.currency), { ...COLUMNS.unitPrice, align: "end", size: 9.5 });
+    draw(formatMoney(line.total, document.currency), { ...COLUMNS.total, align: "end", size: 9.5 });
+    for (const text of descriptionLines) {
+      draw(text, { ...COLUMNS.description, size: 9.5 });
+      y -= 13;
+    }
+    y -= 5;
+  }
+
+  if (y < MARGIN + 120) {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  }
+
+  // Totals
+  rule();
+  y -= 18;
+  const totalsLabel = { x: COLUMNS.quantity.x, width: COLUMNS.unitPrice.x + COLUMNS.unitPrice.width - COLUMNS.quantity.x };
+  const vatPercent = Math.round(document.vatRate * 10000) / 100;
+  for (const [label, amount] of [
+    [labels.subtotal, document.subtotal],
+    [`${labels.vat} ${vatPercent}%`, document.vat],
+  ] as const) {
+    draw(label, { ...totalsLabel, align: "end", size: 9.5, color: MUTED_COLOR });
+    draw(formatMoney(amount, document.currency), { ...COLUMNS.total, align: "end", size: 9.5 });
+    y -= 15;
+  }
+  draw(labels.grandTotal, { ...totalsLabel, align: "end", font: bold, size: 11 });
+  draw(formatMoney(document.total, document.currency), { ...COLUMNS.total, align: "end", font: bold, size: 11 });
+  y -= 30;
+
+  // Receipt
+  if (document.payment) {
+    draw(paymentText(document.payment, isCredit, labels), { size: 9.5 });
+    y -= 14;
+  }
+
+  draw(labels.computerized, { size: 8, color: MUTED_COLOR, at: MARGIN / 2 });
+
+  return pdf.save();
+}
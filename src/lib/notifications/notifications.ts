@@ -0,0 +1,181 @@
+/**
+ * Customer Notifications
+ *
+ * Decides which emails an event sends, and to whom. Order emails go to
+ * the address given at checkout, in the language the customer checked
+ * out in (Order.locale). An order's status changes are emailed by
+ * lib/orders/lifecycle as they are recorded:
+ *
+ * - paid: order confirmation
+ * - cancelled by the payment gateway: payment failure
+ * - shipped: shipping notice, with the latest parcel's tracking number
+ * - in production (from paid), delivered, cancelled, refunded: status update
+ *
+ * Quality checks and returns to the bench stay internal. A finished 3D
+ * model emails the owner of each saved design made from it.
+ *
+ * Links in emails use APP_URL (the site origin) and are left out
+ * without it.
+ */
+
+import { prisma } from "@/lib/db/prisma";
+import { defaultLocale, locales, type Locale } from "@/lib/i18n/config";
+import type { OrderStatusEvent } from "@/lib/orders/lifecycle";
+import { PAYMENT_GATEWAYS } from "@/lib/payments/gateway";
+import { getCarrier } from "@/lib/shipping/carriers";
+import { queueEmail } from "./queue";
+import {
+  isOrderUpdateStatus,
+  type EmailContent,
+  type OrderEmailDetails,
+  type ShipmentTracking,
+} from "./templates";
+
+function toLocale(value: string | null | undefined): Locale {
+  return locales.includes(value as Locale) ? (value as Locale) : defaultLocale;
+}
+
+function siteUrl(path: string): string | null {
+  const origin = process.env.APP_URL?.trim().replace(/\/+$/, "");
+  return origin ? `${origin}${path}` : null;
+}
+
+function isGatewayActor(actor: string): boolean {
+  return (PAYMENT_GATEWAYS as readonly string[]).includes(actor);
+}
+
+// The email a status change sends, if any
+function statusEmail(
+  event: OrderStatusEvent,
+  order: OrderEmailDetails,
+  locale: Locale,
+  tracking: ShipmentTracking | null
+): EmailContent | null {
+  switch (event.toStatus) {
+    case "paid":
+      return { template: "order_confirmation", order };
+    case "shipped":
+      return { template: "order_shipped", order, tracking };
+    case "cancelled":
+      if (event.fromStatus === "pending" && isGatewayActor(event.actor)) {
+        return {
+          template: "payment_failed",
+          order,
+          reason: event.note,
+          retryUrl: siteUrl(`/${locale}/checkout`),
+        };
+      }
+      return { template: "order_status", order, status: "cancelled" };
+    case "in_production":
+      // Back from a failed quality check is not news to the customer
+      return event.fromStatus === "paid" ? { template: "order_status", order, status: "in_production" } : null;
+    default:
+      return isOrderUpdateStatus(event.toStatus)
+        ? { template: "order_status", order, status: event.toStatus }
+        : null;
+  }
+}
+
+/**
+ * Email the customer about a recorded status change
+ *
+ * Never throws - the change is already recorded.
+ */
+export async function notifyOrderStatusChange(event: OrderStatusEvent): Promise<void> {
+  try {
+    const order = await prisma.order.findUnique({
+      where: { id: event.orderId },
+      select: {
+        id: true,
+        orderNumber: true,
+        customerName: true,
+        customerEmail: true,
+        total: true,
+        currency: true,
+        locale: true,
+        items: { select: { name: true, jewelryType: true, quantity: true } },
+        user: { select: { email: true } },
+        shipments: {
+          select: { carrier: true, trackingNumber: true },
+          orderBy: { createdAt: "desc" },
+          take: 1,
+        },
+      },
+    });
+    const to = order?.customerEmail ?? order?.user?.email;
+    if (!order || !to) return;
+
+    const locale = toLocale(order.locale);
+    const [shipment] = order.shipments;
+    const content = statusEmail(
+      event,
+      {
+        orderNumber: order.orderNumber,
+        customerName: order.customerName,
+        total: order.total,
+        currency: order.currency,
+        items: order.items.map((item) => ({ name: item.name || item.jewelryType, quantity: item.quantity })),
+        orderUrl: siteUrl(`/${locale}/account/orders`),
+      },
+      locale,
+      shipment
+        ? {
+            carrier: shipment.carrier,
+            trackingNumber: shipment.trackingNumber,
+            url: getCarrier(shipment.carrier).trackingUrl(shipment.trackingNumber),
+          }
+        : null
+    );
+    if (!content) return;
+
+    await queueEmail({
+      to,
+      locale,
+      content,
+      dedupeKey: `order-status:${event.id}`,
+      orderId: order.id,
+    });
+  } catch (error) {
+    console.error(`[Notifications] Failed to notify order ${event.orderId} of ${event.toStatus}:`, error);
+  }
+}
+
+/**
+ * Email the owners of saved designs whose 3D model has finished
+ *
+ * `locale` is the language the owner is using the site in. Never throws.
+ */
+export async function notifyDesignReady(tripoTaskId: string, locale: string | null | undefined): Promise<void> {
+  try {
+    const designs = await prisma.design.findMany({
+      where: { tripoTaskId, userId: { not: null } },
+      select: {
+        id: true,
+        name: true,
+        thumbnailUrl: true,
+        user: { select: { email: true, name: true } },
+      },
+    });
+
+    const emailLocale = toLocale(locale);
+    for (const design of designs) {
+      if (!design.user?.email) continue;
+
+      await queueEmail({
+        to: design.user.email,
+        locale: emailLocale,
+        content: {
+          template: "design_ready",
+          recipientName: design.user.name,
+          designName: design.name,
+          thumbnailUrl: design.thumbnailUrl,
+          designUrl: siteUrl(`/${emailLocale}/account/designs`),
+        },
+        dedupeKey: `design-ready:${design.id}`,
+        designId: design.id,
+      });
+    }
+  } catch (error) {
+    console.error(`[Notifications] Failed to notify design owners of task ${tripoTaskId}:`, error);
+  }
+}
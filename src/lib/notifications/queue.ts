@@ -0,0 +1,289 @@
+/**
+ * Email Queue
+ *
+ * Every email is rendered and stored as an EmailMessage before it is
+ * sent, so the table is both the queue and the log of what customers
+ * were sent. A message is sent straight away; if the transport fails it
+ * is retried with a growing delay by the email cron (/api/cron/emails)
+ * and marked failed after MAX_ATTEMPTS.
+ *
+ * A send first claims the message by moving its next attempt past the
+ * claim window, so the cron and an immediate send never deliver the same
+ * message twice. A dedupe key keeps one email per event (a status change,
+ * a finished design) however often the event is reported.
+ */
+
+import { Prisma, type EmailMessage } from "@prisma/client";
+import { prisma } from "@/lib/db/prisma";
+import type { Locale } from "@/lib/i18n/config";
+import { renderEmail, type EmailContent, type EmailTemplate } from "./templates";
+import { getEmailTransport } from "./transports";
+
+export const EMAIL_STATUSES = ["queued", "sent", "failed"] as const;
+
+export type EmailStatus = (typeof EMAIL_STATUSES)[number];
+
+const MAX_ATTEMPTS = 5;
+
+// Delay before each retry: 1 minute, 5 minutes, 30 minutes, 2 hours
+const RETRY_DELAYS_MS = [60_000, 300_000, 1_800_000, 7_200_000];
+
+// A claimed message is free again after this if the send never finished
+const CLAIM_WINDOW_MS = 300_000;
+
+const QUEUE_BATCH_SIZE = 50;
+
+export interface EmailRecord {
+  id: string;
+  template: EmailTemplate;
+  locale: string;
+  to: string;
+  subject: string;
+  status: EmailStatus;
+  attempts: number;
+  lastError: string | null;
+  transport: string | null;
+  orderId: string | null;
+  designId: string | null;
+  nextAttemptAt: Date;
+  sentAt: Date | null;
+  createdAt: Date;
+}
+
+export type QueueEmailResult =
+  | { success: true; email: EmailRecord; duplicate?: boolean }
+  | { success: false; error: string };
+
+export type RetryEmailResult =
+  | { success: true; email: EmailRecord }
+  | { success: false; error: string; notFound?: boolean; conflict?: boolean };
+
+export interface QueueRunSummary {
+  attempted: number;
+  sent: number;
+  failed: number; // Given up on
+  retrying: number;
+}
+
+function toEmailRecord(message: EmailMessage): EmailRecord {
+  return {
+    id: message.id,
+    template: message.template as EmailTemplate,
+    locale: message.locale,
+    to: message.to,
+    subject: message.subject,
+    status: message.status as EmailStatus,
+    attempts: message.attempts,
+    lastError: message.lastError,
+    transport: message.transport,
+    orderId: message.orderId,
+    designId: message.designId,
+    nextAttemptAt: message.nextAttemptAt,
+    sentAt: message.sentAt,
+    createdAt: message.createdAt,
+  };
+}
+
+/**
+ * Send one queued message if it is due and nobody else is sending it
+ */
+export async function deliverEmail(id: string): Promise<EmailStatus | null> {
+  const message = await prisma.emailMessage.findUnique({ where: { id } });
+  if (!message || message.status !== "queued" || message.nextAttemptAt > new Date()) {
+    return null;
+  }
+
+  const claimed = await prisma.emailMessage.updateMany({
+    where: { id, status: "queued", attempts: message.attempts },
+    data: {
+      attempts: { increment: 1 },
+      nextAttemptAt: new Date(Date.now() + CLAIM_WINDOW_MS),
+    },
+  });
+  if (claimed.count === 0) {
+    return null;
+  }
+  const attempt = message.attempts + 1;
+
+  let result;
+  let transportId: string | null = null;
+  try {
+    const transport = getEmailTransport();
+    transportId = transport.id;
+    result = await transport.send({
+      id: message.id,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    });
+  } catch (error) {
+    result = { success: false as const, error: error instanceof Error ? error.message : "Email transport failed" };
+  }
+
+  if (result.success) {
+    await prisma.emailMessage.update({
+      where: { id },
+      data: {
+        status: "sent",
+        transport: transportId,
+        providerMessageId: result.providerMessageId,
+        sentAt: new Date(),
+        lastError: null,
+      },
+    });
+    return "sent";
+  }
+
+  const givingUp = attempt >= MAX_ATTEMPTS;
+  await prisma.emailMessage.update({
+    where: { id },
+    data: {
+      status: givingUp ? "failed" : "queued",
+      transport: transportId,
+      lastError: result.error,
+      nextAttemptAt: givingUp
+        ? new Date()
+        : new Date(Date.now() + RETRY_DELAYS_MS[Math.min(attempt - 1, RETRY_DELAYS_MS.length - 1)]),
+    },
+  });
+  console.error(`[Email] Attempt ${attempt} of ${MAX_ATTEMPTS} for ${message.template} email ${id} failed: ${result.error}`);
+  return givingUp ? "failed" : "queued";
+}
+
+/**
+ * Render, store and send an email
+ *
+ * Never throws - the caller's own work (a payment, a status change) must
+ * not fail because an email could not be sent.
+ */
+export async function queueEmail(input: {
+  to: string;
+  locale: Locale;
+  content: EmailContent;
+  dedupeKey?: string;
+  orderId?: string | null;
+  designId?: string | null;
+}): Promise<QueueEmailResult> {
+  try {
+    if (input.dedupeKey) {
+      const existing = await prisma.emailMessage.findUnique({ where: { dedupeKey: input.dedupeKey } });
+      if (existing) {
+        return { success: true, email: toEmailRecord(existing), duplicate: true };
+      }
+    }
+
+    const rendered = await renderEmail(input.content, input.locale);
+
+    let message;
+    try {
+      message = await prisma.emailMessage.create({
+        data: {
+          template: input.content.template,
+          locale: input.locale,
+          to: input.to,
+          subject: rendered.subject,
+          html: rendered.html,
+          text: rendered.text,
+          dedupeKey: input.dedupeKey ?? null,
+          orderId: input.orderId ?? null,
+          designId: input.designId ?? null,
+        },
+      });
+    } catch (error) {
+      // Queued for this event in the meantime
+      if (input.dedupeKey && error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        const existing = await prisma.emailMessage.findUnique({ where: { dedupeKey: input.dedupeKey } });
+        if (existing) {
+          return { success: true, email: toEmailRecord(existing), duplicate: true };
+        }
+      }
+      throw error;
+    }
+
+    await deliverEmail(message.id);
+
+    const updated = await prisma.emailMessage.findUnique({ where: { id: message.id } });
+    return { success: true, email: toEmailRecord(updated ?? message) };
+  } catch (error) {
+    console.error(`[Email] Failed to queue ${input.content.template} email:`, error);
+    return { success: false, error: error instanceof Error ? error.message : "Failed to queue email" };
+  }
+}
+
+/**
+ * Retry the messages that are due, oldest first
+ */
+export async function processEmailQueue(limit = QUEUE_BATCH_SIZE): Promise<QueueRunSummary> {
+  const due = await prisma.emailMessage.findMany({
+    where: { status: "queued", nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+    select: { id: true },
+  });
+
+  const summary: QueueRunSummary = { attempted: 0, sent: 0, failed: 0, retrying: 0 };
+  for (const { id } of due) {
+    const status = await deliverEmail(id);
+    if (status === null) continue;
+
+    summary.attempted++;
+    if (status === "sent") summary.sent++;
+    else if (status === "failed") summary.failed++;
+    else summary.retrying++;
+  }
+
+  if (summary.attempted > 0) {
+    console.log(`[Email] Queue run: ${summary.sent} sent, ${summary.retrying} retrying, ${summary.failed} failed`);
+  }
+  return summary;
+}
+
+/**
+ * The outbound log, newest first
+ */
+export async function listEmails(filter: {
+  status?: EmailStatus;
+  orderId?: string;
+  to?: string;
+  limit: number;
+  offset: number;
+}): Promise<{ emails: EmailRecord[]; total: number }> {
+  const where: Prisma.EmailMessageWhereInput = {
+    ...(filter.status ? { status: filter.status } : {}),
+    ...(filter.orderId ? { orderId: filter.orderId } : {}),
+    ...(filter.to ? { to: { equals: filter.to, mode: "insensitive" } } : {}),
+  };
+
+  const [emails, total] = await Promise.all([
+    prisma.emailMessage.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      take: filter.limit,
+      skip: filter.offset,
+    }),
+    prisma.emailMessage.count({ where }),
+  ]);
+
+  return { emails: emails.map(toEmailRecord), total };
+}
+
+/**
+ * Send a failed message again, from a fresh set of attempts
+ */
+export async function retryEmail(id: string): Promise<RetryEmailResult> {
+  const reset = await prisma.emailMessage.updateMany({
+    where: { id, status: "failed" },
+    data: { status: "queued", attempts: 0, nextAttemptAt: new Date() },
+  });
+  if (reset.count === 0) {
+    const exists = await prisma.emailMessage.findUnique({ where: { id }, select: { status: true } });
+    return exists
+      ? { success: false, error: `Email is ${exists.status}, not failed`, conflict: true }
+      : { success: false, error: "Email not found", notFound: true };
+  }
+
+  await deliverEmail(id);
+  const message = await prisma.emailMessage.findUnique({ where: { id } });
+  return { success: true, email: toEmailRecord(message!) };
+}
@@ -0,0 +1,270 @@
+/**
+ * Email Templates
+ *
+ * Customer emails in Hebrew and English. The wording lives in the
+ * "emails" section of messages/*.json, next to the site's own strings,
+ * so both languages are edited in one place; this module only lays it
+ * out. Each email has an HTML part (right-to-left for Hebrew) and a
+ * plain-text part.
+ */
+
+import { createTranslator } from "next-intl";
+import { localeDirections, type Locale } from "@/lib/i18n/config";
+import type { OrderStatus } from "@/lib/orders/lifecycle";
+
+export const EMAIL_TEMPLATES = [
+  "order_confirmation",
+  "payment_failed",
+  "order_status",
+  "order_shipped",
+  "design_ready",
+] as const;
+
+export type EmailTemplate = (typeof EMAIL_TEMPLATES)[number];
+
+// Statuses with their own wording in the order_status email
+export type OrderUpdateStatus = "in_production" | "delivered" | "cancelled" | "refunded";
+
+export interface OrderEmailDetails {
+  orderNumber: string;
+  customerName: string | null;
+  total: number;
+  currency: string;
+  items: { name: string; quantity: number }[];
+  orderUrl: string | null;
+}
+
+export type EmailContent =
+  | { template: "order_confirmation"; order: OrderEmailDetails }
+  | { template: "payment_failed"; order: OrderEmailDetails; reason: string | null; retryUrl: string | null }
+  | { template: "order_status"; order: OrderEmailDetails; status: OrderUpdateStatus }
+  | { template: "order_shipped"; order: OrderEmailDetails; tracking: ShipmentTracking | null }
+  | {
+      template: "design_ready";
+      recipientName: string | null;
+      designName: string | null;
+      thumbnailUrl: string | null;
+      designUrl: string | null;
+    };
+
+// The parcel a shipping notice is about
+export interface ShipmentTracking {
+  carrier: string;
+  trackingNumber: string;
+  url: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// The parts every email is laid out from
+interface EmailLayout {
+  greeting: string;
+  heading: string;
+  paragraphs: string[];
+  image?: string | null;
+  details?: [string, string][];
+  action?: { label: string; url: string } | null;
+}
+
+type EmailTranslator = (key: string, values?: Record<string, string | number>) => string;
+
+async function getEmailTranslator(locale: Locale): Promise<EmailTranslator> {
+  const messages = (await import(`../../../messages/${locale}.json`)).default;
+  const t = createTranslator({ locale, messages });
+  return (key, values) => t(key as never, values as never);
+}
+
+function formatMoney(amount: number, currency: string): string {
+  const symbol = currency === "ILS" ? "₪" : `${currency} `;
+  return `${symbol}${amount.toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function orderDetails(t: EmailTranslator, order: OrderEmailDetails): [string, string][] {
+  return [
+    [t("emails.common.orderNumber"), order.orderNumber],
+    ...order.items.map((item): [string, string] => [item.name, `× ${item.quantity}`]),
+    [t("emails.common.total"), formatMoney(order.total, order.currency)],
+  ];
+}
+
+function greeting(t: EmailTranslator, name: string | null): string {
+  return name ? t("emails.common.greeting", { name }) : t("emails.common.greetingAnonymous");
+}
+
+function buildLayout(t: EmailTranslator, content: EmailContent): { subject: string; layout: EmailLayout } {
+  switch (content.template) {
+    case "order_confirmation": {
+      const { order } = content;
+      return {
+        subject: t("emails.orderConfirmation.subject", { orderNumber: order.orderNumber }),
+        layout: {
+          greeting: greeting(t, order.customerName),
+          heading: t("emails.orderConfirmation.heading"),
+          paragraphs: [t("emails.orderConfirmation.body")],
+          details: orderDetails(t, order),
+          action: order.orderUrl ? { label: t("emails.common.viewOrder"), url: order.orderUrl } : null,
+        },
+      };
+    }
+    case "payment_failed": {
+      const { order } = content;
+      return {
+        subject: t("emails.paymentFailed.subject", { orderNumber: order.orderNumber }),
+        layout: {
+          greeting: greeting(t, order.customerName),
+          heading: t("emails.paymentFailed.heading"),
+          paragraphs: [
+            t("emails.paymentFailed.body", { orderNumber: order.orderNumber }),
+            ...(content.reason ? [t("emails.paymentFailed.reason", { reason: content.reason })] : []),
+          ],
+          action: content.retryUrl ? { label: t("emails.paymentFailed.action"), url: content.retryUrl } : null,
+        },
+      };
+    }
+    case "order_status": {
+      const { order } = content;
+      const status = t(`account.orders.status.${content.status}`);
+      return {
+        subject: t("emails.orderStatus.subject", { orderNumber: order.orderNumber, status }),
+        layout: {
+          greeting: greeting(t, order.customerName),
+          heading: t("emails.orderStatus.heading", { status }),
+          paragraphs: [t(`emails.orderStatus.body.${content.status}`)],
+          details: orderDetails(t, order),
+          action: order.orderUrl ? { label: t("emails.common.viewOrder"), url: order.orderUrl } : null,
+        },
+      };
+    }
+    case "order_shipped": {
+      const { order, tracking } = content;
+      return {
+        subject: t("emails.orderShipped.subject", { orderNumber: order.orderNumber }),
+        layout: {
+          greeting: greeting(t, order.customerName),
+          heading: t("emails.orderShipped.heading"),
+          paragraphs: [t("emails.orderShipped.body")],
+          details: [
+            ...orderDetails(t, order),
+            ...(tracking
+              ? [[
+                  t("emails.orderShipped.tracking"),
+                  `${t(`account.orders.shipments.carriers.${tracking.carrier}`)} ${tracking.trackingNumber}`,
+                ] as [string, string]]
+              : []),
+          ],
+          action: tracking
+            ? { label: t("emails.orderShipped.track"), url: tracking.url }
+            : order.orderUrl ? { label: t("emails.common.viewOrder"), url: order.orderUrl } : null,
+        },
+      };
+    }
+    case "design_ready": {
+      const designName = content.designName || t("emails.designReady.untitled");
+      return {
+        subject: t("emails.designReady.subject"),
+        layout: {
+          greeting: greeting(t, content.recipientName),
+          heading: t("emails.designReady.heading"),
+          paragraphs: [t("emails.designReady.body", { designName })],
+          image: content.thumbnailUrl,
+          action: content.designUrl ? { label: t("emails.designReady.action"), url: content.designUrl } : null,
+        },
+      };
+    }
+  }
+}
+
+function renderHtml(layout: EmailLayout, locale: Locale, t: EmailTranslator): string {
+  const dir = localeDirections[locale];
+  const align = dir === "rtl" ? "right" : "left";
+  const farAlign = dir === "rtl" ? "left" : "right";
+  const font = "Arial, Helvetica, sans-serif";
+
+  const paragraphs = layout.paragraphs
+    .map((paragraph) => `<p style="margin:0 0 16px;font-size:15px;line-height:1.6;color:#374151;">${escapeHtml(paragraph)}</p>`)
+    .join("");
+
+  const image = layout.image
+    ? `<img src="${escapeHtml(layout.image)}" alt="" width="240" style="display:block;margin:0 auto 20px;border-radius:8px;max-width:100%;">`
+    : "";
+
+  const details = layout.details?.length
+    ? `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin:8px 0 24px;border-top:1px solid #E5E7EB;">${layout.details
+        .map(([label, value]) =>
+          `<tr><td style="padding:8px 0;font-size:14px;color:#6B7280;text-align:${align};">${escapeHtml(label)}</td>` +
+          `<td style="padding:8px 0;font-size:14px;color:#111827;text-align:${farAlign};" dir="ltr">${escapeHtml(value)}</td></tr>`
+        )
+        .join("")}</table>`
+    : "";
+
+  const action = layout.action
+    ? `<p style="margin:0 0 24px;"><a href="${escapeHtml(layout.action.url)}" style="display:inline-block;padding:12px 24px;background:#B45309;color:#FFFFFF;text-decoration:none;border-radius:6px;font-size:15px;">${escapeHtml(layout.action.label)}</a></p>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="${locale}" dir="${dir}">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"></head>
+<body style="margin:0;padding:0;background:#F9FAFB;font-family:${font};">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#F9FAFB;padding:24px 0;">
+<tr><td align="center">
+<table role="presentation" width="560" cellpadding="0" cellspacing="0" dir="${dir}" style="max-width:560px;width:100%;background:#FFFFFF;border-radius:8px;text-align:${align};">
+<tr><td style="padding:24px 32px;border-bottom:1px solid #F3F4F6;font-size:20px;font-weight:bold;color:#B45309;">${escapeHtml(t("common.appName"))}</td></tr>
+<tr><td style="padding:32px;">
+<p style="margin:0 0 8px;font-size:15px;color:#374151;">${escapeHtml(layout.greeting)}</p>
+<h1 style="margin:0 0 16px;font-size:22px;color:#111827;">${escapeHtml(layout.heading)}</h1>
+${image}${paragraphs}${details}${action}
+<p style="margin:0;font-size:15px;color:#374151;">${escapeHtml(t("emails.common.signature"))}</p>
+</td></tr>
+<tr><td style="padding:16px 32px;border-top:1px solid #F3F4F6;font-size:12px;color:#9CA3AF;">${escapeHtml(t("emails.common.footer"))}</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+function renderText(layout: EmailLayout, t: EmailTranslator): string {
+  return [
+    layout.greeting,
+    "",
+    layout.heading,
+    "",
+    ...layout.paragraphs.flatMap((paragraph) => [paragraph, ""]),
+    ...(layout.details?.length ? [...layout.details.map(([label, value]) => `${label}: ${value}`), ""] : []),
+    ...(layout.action ? [`${layout.action.label}: ${layout.action.url}`, ""] : []),
+    t("emails.common.signature"),
+    "",
+    "--",
+    t("emails.common.footer"),
+  ].join("\n");
+}
+
+/**
+ * Subject, HTML and text of an email in the recipient's language
+ */
+export async function renderEmail(content: EmailContent, locale: Locale): Promise<RenderedEmail> {
+  const t = await getEmailTranslator(locale);
+  const { subject, layout } = buildLayout(t, content);
+
+  return {
+    subject,
+    html: renderHtml(layout, locale, t),
+    text: renderText(layout, t),
+  };
+}
+
+export function isOrderUpdateStatus(status: OrderStatus): status is OrderUpdateStatus {
+  return ["in_production", "delivered", "cancelled", "refunded"].includes(status);
+}
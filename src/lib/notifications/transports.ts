@@ -0,0 +1,158 @@
+/**
+ * Email Transports
+ *
+ * How a rendered email leaves the app, chosen by EMAIL_TRANSPORT:
+ *
+ * - smtp: SMTP_HOST, SMTP_PORT (587), SMTP_USER, SMTP_PASSWORD,
+ *   SMTP_SECURE ("true" for implicit TLS, usually port 465)
+ * - file: writes each email as an .eml file under EMAIL_FILE_DIR
+ *   (.emails) - open it in any mail client to check the layout
+ * - console: logs the recipient, subject and text body
+ *
+ * Without EMAIL_TRANSPORT, SMTP is used when SMTP_HOST is set and the
+ * console otherwise, so local development never sends real mail.
+ * Everything is sent from EMAIL_FROM.
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import nodemailer from "nodemailer";
+
+export const EMAIL_TRANSPORTS = ["smtp", "file", "console"] as const;
+
+export type EmailTransportId = (typeof EMAIL_TRANSPORTS)[number];
+
+export interface OutgoingEmail {
+  id: string; // EmailMessage ID - also the Message-ID's local part
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export type SendResult =
+  | { success: true; providerMessageId: string | null }
+  | { success: false; error: string };
+
+export interface EmailTransport {
+  id: EmailTransportId;
+  send(email: OutgoingEmail): Promise<SendResult>;
+}
+
+const DEFAULT_FROM = "Gold AI <no-reply@localhost>";
+
+function isEmailTransportId(value: string): value is EmailTransportId {
+  return (EMAIL_TRANSPORTS as readonly string[]).includes(value);
+}
+
+function emailFrom(): string {
+  return process.env.EMAIL_FROM?.trim() || DEFAULT_FROM;
+}
+
+// Domain of the sender, for Message-IDs that mail servers accept
+function messageIdDomain(): string {
+  const address = emailFrom().match(/<([^>]+)>/)?.[1] ?? emailFrom();
+  return address.split("@")[1] ?? "localhost";
+}
+
+let smtpTransporter: nodemailer.Transporter | null = null;
+
+function getSmtpTransport(): EmailTransport {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP transport requires SMTP_HOST");
+  }
+
+  if (!smtpTransporter) {
+    smtpTransporter = nodemailer.createTransport({
+      host,
+      port: parseInt(process.env.SMTP_PORT || "587", 10),
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+  const transporter = smtpTransporter;
+
+  return {
+    id: "smtp",
+    async send(email) {
+      try {
+        const info = await transporter.sendMail({
+          from: emailFrom(),
+          to: email.to,
+          subject: email.subject,
+          html: email.html,
+          text: email.text,
+          messageId: `<${email.id}@${messageIdDomain()}>`,
+        });
+        return { success: true, providerMessageId: info.messageId ?? null };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : "SMTP send failed" };
+      }
+    },
+  };
+}
+
+function getFileTransport(): EmailTransport {
+  const directory = path.resolve(process.cwd(), process.env.EMAIL_FILE_DIR || ".emails");
+  // Builds the MIME message without sending it
+  const builder = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    id: "file",
+    async send(email) {
+      try {
+        const info = await builder.sendMail({
+          from: emailFrom(),
+          to: email.to,
+          subject: email.subject,
+          html: email.html,
+          text: email.text,
+          messageId: `<${email.id}@${messageIdDomain()}>`,
+        });
+        await mkdir(directory, { recursive: true });
+        const file = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, "-")}-${email.id}.eml`);
+        await writeFile(file, info.message as Buffer);
+        console.log(`[Email] Wrote "${email.subject}" for ${email.to} to ${file}`);
+        return { success: true, providerMessageId: file };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : "Failed to write email file" };
+      }
+    },
+  };
+}
+
+function getConsoleTransport(): EmailTransport {
+  return {
+    id: "console",
+    async send(email) {
+      console.log(`[Email] To: ${email.to}\n[Email] Subject: ${email.subject}\n${email.text}`);
+      return { success: true, providerMessageId: null };
+    },
+  };
+}
+
+/**
+ * The configured transport (EMAIL_TRANSPORT)
+ */
+export function getEmailTransport(): EmailTransport {
+  const configured = process.env.EMAIL_TRANSPORT?.trim().toLowerCase();
+  if (configured && !isEmailTransportId(configured)) {
+    console.error(`[Email] Unknown EMAIL_TRANSPORT "${configured}", using the default`);
+  }
+
+  const id: EmailTransportId = configured && isEmailTransportId(configured)
+    ? configured
+    : process.env.SMTP_HOST ? "smtp" : "console";
+
+  switch (id) {
+    case "smtp":
+      return getSmtpTransport();
+    case "file":
+      return getFileTransport();
+    case "console":
+      return getConsoleTransport();
+  }
+}
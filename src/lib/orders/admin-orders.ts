@@ -0,0 +1,446 @@
+/**
+ * Admin Order Management
+ *
+ * Searching, reading and exporting orders for the admin panel. Status
+ * changes still go through lib/orders/lifecycle, refunds through
+ * lib/orders/refunds and tracking through lib/shipping/shipments - this
+ * module only reads, apart from the admin notes.
+ *
+ * Dates in filters are calendar days in Israel time, `to` inclusive.
+ */
+
+import { Prisma, type OrderItem } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/db/prisma";
+import { listOrderInvoices, type InvoiceSummary } from "@/lib/invoices/invoices";
+import { PAYMENT_GATEWAYS } from "@/lib/payments/gateway";
+import { toPaymentMode, type PaymentMode } from "@/lib/payments/payment-terms";
+import { getOrderShipments, type ShipmentRecord } from "@/lib/shipping/shipments";
+import {
+  ORDER_STATUSES,
+  ORDER_TRANSITIONS,
+  getOrderTimeline,
+  isAdminOrderStatus,
+  toOrderStatus,
+  withLegacyStatuses,
+  type AdminOrderStatus,
+  type OrderStatus,
+  type OrderStatusEvent,
+} from "./lifecycle";
+import { getRefundSummary, type RefundSummary } from "./refunds";
+
+const MAX_PAGE_SIZE = 200;
+
+// Keeps an export to a size the route can build in memory
+export const MAX_EXPORT_ROWS = 10000;
+
+const ISRAEL_TIME_ZONE = "Asia/Jerusalem";
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+export const orderFilterSchema = z.object({
+  status: z.enum(ORDER_STATUSES).optional(),
+  gateway: z.enum(PAYMENT_GATEWAYS).optional(),
+  customer: z.string().trim().min(1).max(200).optional(), // Customer email or user ID
+  q: z.string().trim().min(1).max(200).optional(), // Order number or email, partial
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+});
+
+export const orderListQuerySchema = orderFilterSchema.extend({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type OrderFilter = z.infer<typeof orderFilterSchema>;
+export type OrderListQuery = z.infer<typeof orderListQuerySchema>;
+
+/**
+ * An order as a row of the admin list
+ */
+export interface OrderListItem {
+  id: string;
+  orderNumber: string;
+  status: OrderStatus;
+  customerName: string | null;
+  customerEmail: string | null;
+  userId: string | null;
+  itemCount: number;
+  total: number;
+  currency: string;
+  paymentGateway: string | null;
+  paymentMode: PaymentMode;
+  balanceDue: number;
+  refundedAmount: number;
+  createdAt: Date;
+}
+
+export interface OrderDetailItem {
+  id: string;
+  designId: string | null;
+  name: string | null;
+  jewelryType: string;
+  material: string;
+  thumbnailUrl: string | null;
+  size: string | null;
+  sizeDetails: string | null;
+  quantity: number;
+  unitPrice: number;
+  unitDiscount: number;
+  totalPrice: number;
+}
+
+export interface OrderDetail extends OrderListItem {
+  customerPhone: string | null;
+  items: OrderDetailItem[];
+  subtotal: number;
+  discount: number;
+  discountCode: string | null;
+  shipping: number;
+  shippingMethod: string | null;
+  tax: number;
+  taxRate: number | null;
+  shippingAddress: unknown;
+  billingAddress: unknown;
+  payment: {
+    gateway: string | null;
+    mode: PaymentMode;
+    reference: string | null;
+    transactionId: string | null;
+    approval: string | null;
+    details: unknown;
+    depositAmount: number | null;
+    authorizedAmount: number | null;
+    finalAmount: number | null;
+    balanceDue: number;
+    balanceTransactionId: string | null;
+    settledAt: Date | null;
+  };
+  notes: string | null;
+  transitions: AdminOrderStatus[]; // Statuses an admin can move it to
+  timeline: OrderStatusEvent[];
+  refunds: RefundSummary | null;
+  invoices: InvoiceSummary[];
+  shipments: ShipmentRecord[];
+  updatedAt: Date;
+}
+
+export type OrderDetailResult =
+  | { success: true; order: OrderDetail }
+  | { success: false; error: string; notFound?: boolean };
+
+export type UpdateOrderNotesResult =
+  | { success: true; notes: string | null }
+  | { success: false; error: string; notFound?: boolean };
+
+// Milliseconds Israel is ahead of UTC at that instant (2 or 3 hours)
+function israelOffset(date: Date): number {
+  const local = new Date(date.toLocaleString("en-US", { timeZone: ISRAEL_TIME_ZONE }));
+  const utc = new Date(date.toLocaleString("en-US", { timeZone: "UTC" }));
+  return local.getTime() - utc.getTime();
+}
+
+// Midnight in Israel at the start of a YYYY-MM-DD day
+function startOfIsraelDay(day: string, addDays = 0): Date {
+  const midnightUtc = new Date(`${day}T00:00:00Z`);
+  midnightUtc.setUTCDate(midnightUtc.getUTCDate() + addDays);
+  return new Date(midnightUtc.getTime() - israelOffset(midnightUtc));
+}
+
+function buildOrderWhere(filter: OrderFilter): Prisma.OrderWhereInput {
+  const conditions: Prisma.OrderWhereInput[] = [];
+
+  if (filter.status) {
+    conditions.push({ status: { in: withLegacyStatuses([filter.status]) } });
+  }
+  if (filter.gateway) {
+    // Orders from before gateways were recorded went through Z-Credit
+    conditions.push(
+      filter.gateway === "zcredit"
+        ? { OR: [{ paymentGateway: "zcredit" }, { paymentGateway: null, paymentReference: { not: null } }] }
+        : { paymentGateway: filter.gateway }
+    );
+  }
+  if (filter.customer) {
+    conditions.push({
+      OR: [
+        { userId: filter.customer },
+        { customerEmail: { equals: filter.customer, mode: "insensitive" } },
+        { user: { email: { equals: filter.customer, mode: "insensitive" } } },
+      ],
+    });
+  }
+  if (filter.q) {
+    conditions.push({
+      OR: [
+        { orderNumber: { contains: filter.q, mode: "insensitive" } },
+        { customerEmail: { contains: filter.q, mode: "insensitive" } },
+      ],
+    });
+  }
+  if (filter.from || filter.to) {
+    conditions.push({
+      createdAt: {
+        ...(filter.from ? { gte: startOfIsraelDay(filter.from) } : {}),
+        ...(filter.to ? { lt: startOfIsraelDay(filter.to, 1) } : {}),
+      },
+    });
+  }
+
+  return conditions.length > 0 ? { AND: conditions } : {};
+}
+
+const listSelect = {
+  id: true,
+  orderNumber: true,
+  status: true,
+  customerName: true,
+  customerEmail: true,
+  userId: true,
+  itemsJson: true,
+  total: true,
+  currency: true,
+  paymentGateway: true,
+  paymentReference: true,
+  paymentMode: true,
+  balanceDue: true,
+  refundedAmount: true,
+  createdAt: true,
+  user: { select: { email: true } },
+  _count: { select: { items: true } },
+} satisfies Prisma.OrderSelect;
+
+type ListedOrder = Prisma.OrderGetPayload<{ select: typeof listSelect }>;
+
+// The cart JSON also lists test products, which have no order item
+function cartLineCount(order: ListedOrder): number {
+  return Array.isArray(order.itemsJson) ? order.itemsJson.length : order._count.items;
+}
+
+function paymentGatewayOf(order: { paymentGateway: string | null; paymentReference: string | null }): string | null {
+  return order.paymentGateway ?? (order.paymentReference ? "zcredit" : null);
+}
+
+function toListItem(order: ListedOrder): OrderListItem {
+  return {
+    id: order.id,
+    orderNumber: order.orderNumber,
+    status: toOrderStatus(order.status),
+    customerName: order.customerName,
+    customerEmail: order.customerEmail ?? order.user?.email ?? null,
+    userId: order.userId,
+    itemCount: cartLineCount(order),
+    total: order.total,
+    currency: order.currency,
+    paymentGateway: paymentGatewayOf(order),
+    paymentMode: toPaymentMode(order.paymentMode),
+    balanceDue: order.balanceDue,
+    refundedAmount: order.refundedAmount,
+    createdAt: order.createdAt,
+  };
+}
+
+/**
+ * A page of matching orders, newest first
+ */
+export async function listOrders(query: OrderListQuery): Promise<{ orders: OrderListItem[]; total: number }> {
+  const where = buildOrderWhere(query);
+  const [orders, total] = await Promise.all([
+    prisma.order.findMany({
+      where,
+      select: listSelect,
+      orderBy: { createdAt: "desc" },
+      take: query.limit,
+      skip: query.offset,
+    }),
+    prisma.order.count({ where }),
+  ]);
+
+  return { orders: orders.map(toListItem), total };
+}
+
+/**
+ * Everything the admin order view shows
+ */
+export async function getOrderDetail(orderId: string): Promise<OrderDetailResult> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      items: { orderBy: { id: "asc" } },
+      user: { select: { email: true } },
+      discountCode: { select: { code: true } },
+      _count: { select: { items: true } },
+    },
+  });
+  if (!order) {
+    return { success: false, error: "Order not found", notFound: true };
+  }
+
+  const [timeline, refunds, invoices, shipments] = await Promise.all([
+    getOrderTimeline(orderId),
+    getRefundSummary(orderId),
+    listOrderInvoices(orderId),
+    getOrderShipments(orderId),
+  ]);
+  const status = toOrderStatus(order.status);
+
+  return {
+    success: true,
+    order: {
+      ...toListItem(order),
+      customerPhone: order.customerPhone,
+      items: order.items.length > 0 ? order.items.map(toDetailItem) : cartItems(order.itemsJson),
+      subtotal: order.subtotal,
+      discount: order.discount,
+      discountCode: order.discountCode?.code ?? null,
+      shipping: order.shipping,
+      shippingMethod: order.shippingMethod,
+      tax: order.tax,
+      taxRate: order.taxRate,
+      shippingAddress: order.shippingAddress,
+      billingAddress: order.billingAddress,
+      payment: {
+        gateway: paymentGatewayOf(order),
+        mode: toPaymentMode(order.paymentMode),
+        reference: order.paymentReference,
+        transactionId: order.paymentTransactionId,
+        approval: order.paymentApproval,
+        details: order.paymentDetails,
+        depositAmount: order.depositAmount,
+        authorizedAmount: order.authorizedAmount,
+        finalAmount: order.finalAmount,
+        balanceDue: order.balanceDue,
+        balanceTransactionId: order.balanceTransactionId,
+        settledAt: order.settledAt,
+      },
+      notes: order.notes,
+      transitions: ORDER_TRANSITIONS[status].filter(isAdminOrderStatus),
+      timeline,
+      refunds: refunds.success ? refunds.summary : null,
+      invoices,
+      shipments,
+      updatedAt: order.updatedAt,
+    },
+  };
+}
+
+function toDetailItem(item: OrderItem): OrderDetailItem {
+  return {
+    id: item.id,
+    designId: item.designId,
+    name: item.name,
+    jewelryType: item.jewelryType,
+    material: item.material,
+    thumbnailUrl: item.thumbnailUrl,
+    size: item.size,
+    sizeDetails: item.sizeDetails,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    unitDiscount: item.unitDiscount,
+    totalPrice: item.totalPrice,
+  };
+}
+
+// Best effort over the cart JSON, for test orders and orders placed before order items
+function cartItems(itemsJson: Prisma.JsonValue): OrderDetailItem[] {
+  if (!Array.isArray(itemsJson)) return [];
+
+  return itemsJson.map((raw, index) => {
+    const item = (raw ?? {}) as Record<string, unknown>;
+    const quantity = typeof item.quantity === "number" ? item.quantity : 1;
+    const unitPrice = typeof item.price === "number" ? item.price : 0;
+    const unitDiscount = typeof item.unitDiscount === "number" ? item.unitDiscount : 0;
+    return {
+      id: `legacy-${index}`,
+      designId: typeof item.designId === "string" ? item.designId : null,
+      name: typeof item.name === "string" ? item.name : null,
+      jewelryType: typeof item.jewelryType === "string" ? item.jewelryType : "",
+      material: typeof item.material === "string" ? item.material : "",
+      thumbnailUrl: typeof item.thumbnailUrl === "string" ? item.thumbnailUrl : null,
+      size: typeof item.size === "string" ? item.size : null,
+      sizeDetails: typeof item.sizeDetails === "string" ? item.sizeDetails : null,
+      quantity,
+      unitPrice,
+      unitDiscount,
+      totalPrice: (unitPrice - unitDiscount) * quantity,
+    };
+  });
+}
+
+/**
+ * Replace the internal notes on an order (null clears them)
+ */
+export async function updateOrderNotes(orderId: string, notes: string | null): Promise<UpdateOrderNotesResult> {
+  const updated = await prisma.order.updateMany({
+    where: { id: orderId },
+    data: { notes },
+  });
+  if (updated.count === 0) {
+    return { success: false, error: "Order not found", notFound: true };
+  }
+  return { success: true, notes };
+}
+
+const CSV_COLUMNS = [
+  "order_number",
+  "created_at",
+  "status",
+  "customer_name",
+  "customer_email",
+  "items",
+  "total",
+  "currency",
+  "gateway",
+  "payment_mode",
+  "balance_due",
+  "refunded",
+] as const;
+
+// Quotes a field when needed, and defuses spreadsheet formulas
+function csvField(value: string | number | null): string {
+  if (value === null) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Matching orders as CSV, newest first and at most MAX_EXPORT_ROWS
+ */
+export async function exportOrdersCsv(filter: OrderFilter): Promise<{ csv: string; rows: number; truncated: boolean }> {
+  const orders = await prisma.order.findMany({
+    where: buildOrderWhere(filter),
+    select: listSelect,
+    orderBy: { createdAt: "desc" },
+    take: MAX_EXPORT_ROWS + 1,
+  });
+  const truncated = orders.length > MAX_EXPORT_ROWS;
+  const rows = orders.slice(0, MAX_EXPORT_ROWS).map(toListItem);
+
+  const lines = [
+    CSV_COLUMNS.join(","),
+    ...rows.map((order) =>
+      [
+        order.orderNumber,
+        order.createdAt.toISOString(),
+        order.status,
+        order.customerName,
+        order.customerEmail,
+        order.itemCount,
+        order.total,
+        order.currency,
+        order.paymentGateway,
+        order.paymentMode,
+        order.balanceDue,
+        order.refundedAmount,
+      ]
+        .map(csvField)
+        .join(",")
+    ),
+  ];
+
+  // BOM so Excel opens Hebrew names as UTF-8
+  return { csv: `\uFEFF${lines.join("\r\n")}\r\n`, rows: rows.length, truncated };
+}
@@ -0,0 +1,214 @@
+/**
+ * Order Lifecycle
+ *
+ * The statuses an order moves through and the transitions allowed
+ * between them. Every status change goes through transitionOrder, which
+ * checks the transition and records it in the OrderStatusEvent history.
+ *
+ * An order whose payment fails is cancelled; a paid order is refunded
+ * rather than cancelled. The customer is emailed about the changes that
+ * concern them (lib/notifications) once they are recorded.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db/prisma";
+import { isPaymentGatewayId, type PaymentGatewayId } from "@/lib/payments/gateway";
+import { notifyOrderStatusChange } from "@/lib/notifications/notifications";
+
+export const ORDER_STATUSES = [
+  "pending",
+  "paid",
+  "in_production",
+  "quality_check",
+  "shipped",
+  "delivered",
+  "cancelled",
+  "refunded",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+/**
+ * Who changed the status (payment gateway callbacks use the gateway's ID)
+ */
+export type OrderActor = "customer" | "admin" | "system" | PaymentGatewayId;
+
+export function isOrderActor(value: string): value is OrderActor {
+  return value === "customer" || value === "admin" || value === "system" || isPaymentGatewayId(value);
+}
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["paid", "cancelled"],
+  paid: ["in_production", "refunded"],
+  in_production: ["quality_check", "refunded"],
+  quality_check: ["in_production", "shipped", "refunded"], // Back to the bench on a failed check
+  shipped: ["delivered", "refunded"],
+  delivered: ["refunded"],
+  cancelled: [],
+  refunded: [],
+};
+
+/**
+ * Statuses admins may set by hand: the fulfilment steps and cancelling.
+ * Only a verified payment marks an order paid (lib/payments/payment-callbacks)
+ * and only a refund marks it refunded (lib/orders/refunds).
+ */
+export const ADMIN_ORDER_STATUSES = [
+  "in_production",
+  "quality_check",
+  "shipped",
+  "delivered",
+  "cancelled",
+] as const satisfies readonly OrderStatus[];
+
+export type AdminOrderStatus = (typeof ADMIN_ORDER_STATUSES)[number];
+
+export function isAdminOrderStatus(value: OrderStatus): value is AdminOrderStatus {
+  return (ADMIN_ORDER_STATUSES as readonly OrderStatus[]).includes(value);
+}
+
+// Orders the customer has paid for and not been refunded
+export const PURCHASED_ORDER_STATUSES: OrderStatus[] = [
+  "paid",
+  "in_production",
+  "quality_check",
+  "shipped",
+  "delivered",
+];
+
+// Statuses written before the lifecycle existed
+const LEGACY_STATUSES: Record<string, OrderStatus> = {
+  manufacturing: "in_production",
+  failed: "cancelled",
+  partial_refund: "paid",
+};
+
+export interface OrderStatusEvent {
+  id: string;
+  orderId: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  actor: string;
+  note: string | null;
+  createdAt: Date;
+}
+
+export type TransitionResult =
+  | { success: true; status: OrderStatus; event: OrderStatusEvent }
+  | { success: false; error: string; notFound?: boolean; conflict?: boolean };
+
+export function isOrderStatus(value: string): value is OrderStatus {
+  return (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Read a stored status, mapping legacy values
+ */
+export function toOrderStatus(value: string): OrderStatus {
+  if (isOrderStatus(value)) return value;
+  return LEGACY_STATUSES[value] ?? "pending";
+}
+
+/**
+ * Statuses to match in a query, including legacy values stored for them
+ */
+export function withLegacyStatuses(statuses: OrderStatus[]): string[] {
+  const legacy = Object.entries(LEGACY_STATUSES)
+    .filter(([, status]) => statuses.includes(status))
+    .map(([value]) => value);
+  return [...statuses, ...legacy];
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+function toStatusEvent(record: {
+  id: string;
+  orderId: string;
+  fromStatus: string | null;
+  toStatus: string;
+  actor: string;
+  note: string | null;
+  createdAt: Date;
+}): OrderStatusEvent {
+  return {
+    ...record,
+    fromStatus: record.fromStatus === null ? null : toOrderStatus(record.fromStatus),
+    toStatus: toOrderStatus(record.toStatus),
+  };
+}
+
+/**
+ * Move an order to a new status
+ *
+ * `data` is written in the same update (e.g. payment details). The update
+ * only applies if the status is unchanged since it was read, so two
+ * concurrent transitions cannot both succeed - the loser gets `conflict`.
+ */
+export async function transitionOrder(
+  orderId: string,
+  to: OrderStatus,
+  options: {
+    actor: OrderActor;
+    note?: string | null;
+    data?: Omit<Prisma.OrderUpdateManyMutationInput, "status">;
+  }
+): Promise<TransitionResult> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: { status: true },
+  });
+  if (!order) {
+    return { success: false, error: "Order not found", notFound: true };
+  }
+
+  const from = toOrderStatus(order.status);
+  if (!canTransition(from, to)) {
+    return { success: false, error: `Cannot move an order from ${from} to ${to}`, conflict: true };
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    const updated = await tx.order.updateMany({
+      where: { id: orderId, status: order.status },
+      data: { ...options.data, status: to },
+    });
+    if (updated.count === 0) {
+      return { success: false as const, error: "Order status changed in the meantime", conflict: true };
+    }
+
+    const event = await tx.orderStatusEvent.create({
+      data: {
+        orderId,
+        fromStatus: from,
+        toStatus: to,
+        actor: options.actor,
+        note: options.note ?? null,
+      },
+    });
+    return { success: true as const, status: to, event: toStatusEvent(event) };
+  });
+
+  if (result.success) {
+    await notifyOrderStatusChange(result.event);
+  }
+  return result;
+}
+
+/**
+ * History entry for a newly placed order (nested in order.create)
+ */
+export function placedStatusEvent(actor: OrderActor = "customer") {
+  return { create: { fromStatus: null, toStatus: "pending", actor } };
+}
+
+/**
+ * Status history, oldest first
+ */
+export async function getOrderTimeline(orderId: string): Promise<OrderStatusEvent[]> {
+  const events = await prisma.orderStatusEvent.findMany({
+    where: { orderId },
+    orderBy: { createdAt: "asc" },
+  });
+  return events.map(toStatusEvent);
+}
@@ -0,0 +1,179 @@
+/**
+ * Order Items
+ *
+ * Checkout turns every cart line into an OrderItem linked to its Design.
+ * The item keeps its own copy of what was bought - name, material,
+ * stones, thumbnail and model - so later edits to the design cannot
+ * change an existing order. The thumbnail and model files are copied to
+ * order storage once the order is paid, since generated model URLs
+ * expire. The price each item was sold at is recorded with it as a
+ * checkout pricing snapshot.
+ *
+ * Test products have no Design and stay in itemsJson only.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db/prisma";
+import type { PricingBreakdown } from "@/lib/pricing/calculator";
+import type { MetalPrices } from "@/lib/pricing/metals-api";
+import { resolveModelUrl } from "@/lib/pricing/mesh-volume";
+import { pricingSnapshotData } from "@/lib/pricing/snapshots";
+import { copyFileFromUrl, isStorageConfigured } from "@/lib/storage/supabase";
+
+/**
+ * The design as it was bought (OrderItem.spec)
+ */
+export interface OrderItemSpec {
+  prompt: string;
+  targetGender: string;
+  complexity: string;
+  stones: unknown;
+  volumeCm3: number | null;
+  weightGrams: number | null;
+  pricingConfigVersion: number | null;
+  designUpdatedAt: string; // Which revision of the design was ordered
+}
+
+/**
+ * A server-priced cart line
+ */
+export interface OrderItemLine {
+  designId: string;
+  material: string;
+  size?: string;
+  sizeDetails?: string;
+  quantity: number;
+  unitPrice: number;
+  unitDiscount: number;
+  isTestProduct: boolean;
+  pricing?: { breakdown: PricingBreakdown; metalPrices: MetalPrices }; // Recorded as the checkout snapshot
+}
+
+/**
+ * OrderItem rows for a new order (nested in order.create)
+ */
+export async function buildOrderItems(
+  lines: OrderItemLine[]
+): Promise<Prisma.OrderItemCreateWithoutOrderInput[]> {
+  const orderable = lines.filter((line) => !line.isTestProduct);
+  if (orderable.length === 0) return [];
+
+  const designs = await prisma.design.findMany({
+    where: { id: { in: [...new Set(orderable.map((line) => line.designId))] } },
+  });
+  const designsById = new Map(designs.map((design) => [design.id, design]));
+
+  return orderable.map((line) => {
+    const design = designsById.get(line.designId);
+    if (!design) {
+      throw new Error(`Design not found: ${line.designId}`);
+    }
+
+    const spec: OrderItemSpec = {
+      prompt: design.prompt,
+      targetGender: design.targetGender,
+      complexity: design.complexity,
+      stones: design.stones,
+      volumeCm3: design.volumeCm3,
+      weightGrams: design.weightGrams,
+      pricingConfigVersion: design.pricingConfigVersion,
+      designUpdatedAt: design.updatedAt.toISOString(),
+    };
+
+    return {
+      design: { connect: { id: design.id } },
+      name: design.name,
+      jewelryType: design.jewelryType,
+      material: line.material,
+      thumbnailUrl: design.thumbnailUrl,
+      modelUrl: design.modelUrl,
+      spec: JSON.parse(JSON.stringify(spec)),
+      size: line.size,
+      sizeDetails: line.sizeDetails,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      unitDiscount: line.unitDiscount,
+      totalPrice: (line.unitPrice - line.unitDiscount) * line.quantity,
+      ...(line.pricing && {
+        pricingSnapshots: {
+          create: pricingSnapshotData({ source: "checkout", designId: design.id, ...line.pricing }),
+        },
+      }),
+    };
+  });
+}
+
+/**
+ * Mark the designs in an order as ordered - once it is paid, so an
+ * abandoned checkout leaves its designs as they were
+ */
+export async function markDesignsOrdered(orderId: string): Promise<void> {
+  const items = await prisma.orderItem.findMany({
+    where: { orderId },
+    select: { designId: true },
+  });
+  if (items.length === 0) return;
+
+  await prisma.design.updateMany({
+    where: { id: { in: items.map((item) => item.designId) } },
+    data: { status: "ordered" },
+  });
+}
+
+// The generator's URL behind a (possibly proxied) asset URL - null unless it is one we may fetch
+function trustedAssetSource(url: string | null): string | null {
+  if (!url) return null;
+  try {
+    return resolveModelUrl(url);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Copy each item's thumbnail and model into order storage, once the
+ * order is paid
+ *
+ * Only files on the 3D generators' hosts are copied. Items keep the
+ * design's URLs when storage is not configured, the source is not
+ * trusted or a copy fails.
+ */
+export async function archiveOrderItemAssets(orderId: string): Promise<void> {
+  if (!isStorageConfigured()) return;
+
+  const items = await prisma.orderItem.findMany({
+    where: { orderId },
+    select: { id: true, thumbnailUrl: true, modelUrl: true },
+  });
+
+  const folder = `orders/${orderId}`;
+
+  for (const item of items) {
+    const thumbnailSource = trustedAssetSource(item.thumbnailUrl);
+    const modelSource = trustedAssetSource(item.modelUrl);
+
+    const thumbnailUrl = thumbnailSource
+      ? await copyFileFromUrl(thumbnailSource, { folder, filename: `${item.id}-thumbnail` })
+      : null;
+    const modelUrl = modelSource
+      ? await copyFileFromUrl(modelSource, {
+          folder,
+          filename: `${item.id}.glb`,
+          contentType: "model/gltf-binary",
+        })
+      : null;
+
+    if (!thumbnailUrl && !modelUrl) {
+      console.error(`[OrderItems] Could not archive assets for item ${item.id}`);
+      continue;
+    }
+
+    await prisma.orderItem.update({
+      where: { id: item.id },
+      data: {
+        ...(thumbnailUrl ? { thumbnailUrl } : {}),
+        ...(modelUrl ? { modelUrl } : {}),
+      },
+    });
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * Order Refunds
+ *
+ * Refunds are recorded one row per gateway refund, so an order can be
+ * refunded in several parts. Together they may not exceed what the
+ * customer was charged: Order.total for an order paid in full, the
+ * captured amount under authorize terms, and the deposit plus any paid
+ * balance under deposit terms (lib/payments/payment-terms). A refund
+ * larger than the balance payment continues on the deposit, as a second
+ * gateway refund.
+ *
+ * Order.refundedAmount is reserved before the gateway is called, so two
+ * admins refunding at once cannot exceed the charged amount, and given
+ * back for any part the gateway declines. Each refund issues a credit
+ * note; once everything charged is refunded the order moves to refunded.
+ *
+ * Nothing is charged while an authorization is only held - it lapses if
+ * it is never captured.
+ */
+
+import { prisma } from "@/lib/db/prisma";
+import { issueCreditNote } from "@/lib/invoices/invoices";
+import { getPaymentGateway } from "@/lib/payments/gateway";
+import { toPaymentMode } from "@/lib/payments/payment-terms";
+import { PURCHASED_ORDER_STATUSES, isOrderActor, toOrderStatus, transitionOrder, type OrderStatus } from "./lifecycle";
+
+// Sums are compared to the agora (ILS cents)
+const SUM_TOLERANCE = 0.01;
+
+/**
+ * A card transaction that took money for the order
+ */
+export interface OrderCharge {
+  kind: "payment" | "balance";
+  transactionId: string;
+  amount: number;
+  refunded: number;
+}
+
+export interface RefundRecord {
+  id: string;
+  amount: number;
+  reason: string | null;
+  gateway: string;
+  transactionId: string;
+  gatewayRefundId: string | null;
+  creditNoteNumber: number | null;
+  actor: string;
+  createdAt: Date;
+}
+
+export interface RefundSummary {
+  orderId: string;
+  orderNumber: string;
+  status: OrderStatus;
+  currency: string;
+  charged: number;
+  refunded: number;
+  refundable: number;
+  charges: OrderCharge[];
+  refunds: RefundRecord[]; // Newest first
+}
+
+export type RefundSummaryResult =
+  | { success: true; summary: RefundSummary }
+  | { success: false; error: string; notFound?: boolean };
+
+export type RefundOrderResult =
+  | { success: true; refunded: number; refunds: RefundRecord[]; summary: RefundSummary }
+  | { success: false; error: string; notFound?: boolean; conflict?: boolean };
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+async function loadOrder(orderId: string) {
+  return prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      refunds: { orderBy: { createdAt: "desc" } },
+      invoices: { where: { type: "credit_note" }, select: { id: true, number: true } },
+    },
+  });
+}
+
+type OrderWithRefunds = NonNullable<Awaited<ReturnType<typeof loadOrder>>>;
+
+// The transactions that took money, the latest (refunded first) last
+function orderCharges(order: OrderWithRefunds): OrderCharge[] {
+  const status = toOrderStatus(order.status);
+  if (status === "pending" || status === "cancelled") return [];
+
+  const mode = toPaymentMode(order.paymentMode);
+  // Orders paid before transaction IDs were recorded are Z-Credit, where both are the GUID
+  const paymentTransactionId = order.paymentTransactionId ?? order.paymentReference;
+  const finalAmount = order.finalAmount ?? order.total;
+
+  const charges: Omit<OrderCharge, "refunded">[] = [];
+  if (paymentTransactionId) {
+    if (mode === "full") {
+      charges.push({ kind: "payment", transactionId: paymentTransactionId, amount: order.total });
+    } else if (mode === "authorize" && order.settledAt) {
+      charges.push({ kind: "payment", transactionId: paymentTransactionId, amount: finalAmount });
+    } else if (mode === "deposit") {
+      charges.push({ kind: "payment", transactionId: paymentTransactionId, amount: order.depositAmount ?? order.total });
+    }
+  }
+  if (mode === "deposit" && order.balanceTransactionId) {
+    charges.push({
+      kind: "balance",
+      transactionId: order.balanceTransactionId,
+      amount: roundMoney(finalAmount - (order.depositAmount ?? 0)),
+    });
+  }
+
+  return charges.map((charge) => ({
+    ...charge,
+    refunded: roundMoney(
+      order.refunds
+        .filter((refund) => refund.transactionId === charge.transactionId)
+        .reduce((sum, refund) => sum + refund.amount, 0)
+    ),
+  }));
+}
+
+function toRefundSummary(order: OrderWithRefunds): RefundSummary {
+  const charges = orderCharges(order);
+  const charged = roundMoney(charges.reduce((sum, charge) => sum + charge.amount, 0));
+  const creditNotes = new Map(order.invoices.map((invoice) => [invoice.id, invoice.number]));
+
+  return {
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    status: toOrderStatus(order.status),
+    currency: order.currency,
+    charged,
+    refunded: order.refundedAmount,
+    refundable: Math.max(0, roundMoney(charged - order.refundedAmount)),
+    charges,
+    refunds: order.refunds.map((refund) => ({
+      id: refund.id,
+      amount: refund.amount,
+      reason: refund.reason,
+      gateway: refund.gateway,
+      transactionId: refund.transactionId,
+      gatewayRefundId: refund.gatewayRefundId,
+      creditNoteNumber: refund.creditNoteId ? creditNotes.get(refund.creditNoteId) ?? null : null,
+      actor: refund.actor,
+      createdAt: refund.createdAt,
+    })),
+  };
+}
+
+/**
+ * What was charged and refunded so far
+ */
+export async function getRefundSummary(orderId: string): Promise<RefundSummaryResult> {
+  const order = await loadOrder(orderId);
+  if (!order) {
+    return { success: false, error: "Order not found", notFound: true };
+  }
+
+  return { success: true, summary: toRefundSummary(order) };
+}
+
+/**
+ * Refund part or (without `amount`) all of what is still refundable
+ */
+export async function refundOrder(
+  orderId: string,
+  input: { amount?: number; reason?: string; actor: string }
+): Promise<RefundOrderResult> {
+  const order = await loadOrder(orderId);
+  if (!order) {
+    return { success: false, error: "Order not found", notFound: true };
+  }
+
+  const status = toOrderStatus(order.status);
+  if (!PURCHASED_ORDER_STATUSES.includes(status)) {
+    return { success: false, error: `Order cannot be refunded - it is ${status}` };
+  }
+
+  const summary = toRefundSummary(order);
+  if (summary.charged === 0) {
+    return {
+      success: false,
+      error: toPaymentMode(order.paymentMode) === "authorize"
+        ? "Nothing has been charged - the authorization lapses if it is not captured"
+        : "No payment found for this order",
+    };
+  }
+
+  const amount = roundMoney(input.amount ?? summary.refundable);
+  if (amount <= 0) {
+    return { success: false, error: "Order has already been fully refunded", conflict: true };
+  }
+  if (amount > summary.refundable + SUM_TOLERANCE) {
+    return { success: false, error: `Refund exceeds the ₪${summary.refundable} still refundable` };
+  }
+
+  // Throws if the gateway has no credentials - before anything is reserved
+  const gateway = getPaymentGateway(order.paymentGateway);
+
+  // Reserve the amount - a concurrent refund may have taken it
+  const reserved = await prisma.order.updateMany({
+    where: { id: orderId, refundedAmount: { lte: roundMoney(summary.charged - amount) + SUM_TOLERANCE } },
+    data: { refundedAmount: { increment: amount } },
+  });
+  if (reserved.count === 0) {
+    return { success: false, error: "Another refund changed the refundable balance - reload and try again", conflict: true };
+  }
+
+  const created: { id: string; amount: number; gatewayRefundId: string | null }[] = [];
+  let remaining = amount;
+  let failure: string | null = null;
+
+  try {
+    // The balance payment is refunded before the deposit
+    for (const charge of [...summary.charges].reverse()) {
+      const part = roundMoney(Math.min(remaining, charge.amount - charge.refunded));
+      if (part < SUM_TOLERANCE) continue;
+
+      let result;
+      try {
+        result = await gateway.refund(charge.transactionId, part);
+      } catch (error) {
+        // Not refunded - its reservation is given back
+        result = { success: false as const, error: error instanceof Error ? error.message : "Gateway refund failed" };
+      }
+      if (!result.success) {
+        failure = result.error;
+        break;
+      }
+      remaining = roundMoney(remaining - part);
+
+      const refund = await prisma.refund.create({
+        data: {
+          orderId,
+          amount: part,
+          reason: input.reason ?? null,
+          gateway: gateway.id,
+          transactionId: charge.transactionId,
+          gatewayRefundId: result.refundReference ?? null,
+          actor: input.actor,
+        },
+      });
+      created.push({ id: refund.id, amount: part, gatewayRefundId: refund.gatewayRefundId });
+      if (remaining < SUM_TOLERANCE) break;
+    }
+  } finally {
+    // Give back what the gateway did not refund
+    if (remaining >= SUM_TOLERANCE) {
+      await prisma.order.update({
+        where: { id: orderId },
+        data: { refundedAmount: { decrement: remaining } },
+      });
+    }
+  }
+
+  const refunded = roundMoney(amount - remaining);
+  if (created.length === 0) {
+    return { success: false, error: failure ?? "Nothing was refunded" };
+  }
+
+  const creditNote = await issueCreditNote(orderId, {
+    amount: refunded,
+    refundReference: created.map((refund) => refund.gatewayRefundId).filter(Boolean).join(", ") || undefined,
+  });
+  if (creditNote.success) {
+    await prisma.refund.updateMany({
+      where: { id: { in: created.map((refund) => refund.id) } },
+      data: { creditNoteId: creditNote.invoice.id },
+    });
+  }
+
+  // Everything charged has been given back
+  if (summary.refunded + refunded >= summary.charged - SUM_TOLERANCE) {
+    await transitionOrder(orderId, "refunded", {
+      // Admins signed in with their own account are recorded by email on the refund
+      actor: isOrderActor(input.actor) ? input.actor : "admin",
+      note: input.reason ? `Refunded ₪${summary.charged} - ${input.reason}` : `Refunded ₪${summary.charged}`,
+    });
+  }
+
+  console.log(`[Refunds] Refunded ₪${refunded} of order ${orderId} through ${gateway.id}`);
+
+  if (failure) {
+    // Part went through and is recorded - report it with the error
+    return { success: false, error: `${failure} - ₪${refunded} of ₪${amount} was refunded` };
+  }
+
+  const updated = toRefundSummary((await loadOrder(orderId))!);
+  return {
+    success: true,
+    refunded,
+    refunds: updated.refunds.filter((refund) => created.some((row) => row.id === refund.id)),
+    summary: updated,
+  };
+}
@@ -0,0 +1,275 @@
+/**
+ * Order Settlement
+ *
+ * Orders placed under authorize or deposit terms (lib/payments/payment-terms)
+ * are settled once the piece is finished and weighed. The suggested final
+ * amount is the checkout total moved by the metal: each piece's measured
+ * weight (its production record) against the weight it was priced at, at
+ * the metal rate it was sold at, through the same waste, overhead, margin
+ * and VAT. Discounts are not re-applied to the difference. Admins may
+ * settle for another amount.
+ *
+ * - authorize: the final amount is captured from the authorization and
+ *   invoiced; it cannot exceed what was held. Uncaptured authorizations
+ *   lapse at the card issuer after a few days to weeks.
+ * - deposit: a payment for the rest is opened with the order's gateway;
+ *   the customer pays it from their order and its callback settles the
+ *   order (lib/payments/payment-callbacks).
+ */
+
+import { prisma } from "@/lib/db/prisma";
+import { issueDueInvoices } from "@/lib/invoices/invoices";
+import { getPaymentGateway } from "@/lib/payments/gateway";
+import { toPaymentMode, type PaymentMode } from "@/lib/payments/payment-terms";
+import type { PricingBreakdown } from "@/lib/pricing/calculator";
+import { getOrderItemSnapshot } from "@/lib/pricing/snapshots";
+import { toOrderStatus, type OrderStatus } from "./lifecycle";
+
+// Sums are compared to the agora (ILS cents)
+const SUM_TOLERANCE = 0.01;
+
+// An order is only settled once it has been paid for and not given back
+const UNSETTLEABLE_STATUSES: OrderStatus[] = ["pending", "cancelled", "refunded"];
+
+/**
+ * One order item's weight difference
+ */
+export interface SettlementLine {
+  itemId: string;
+  name: string | null;
+  quantity: number;
+  pricedWeightGrams: number | null; // Per piece, as sold
+  measuredWeightGrams: number | null; // Per piece, from the production record
+  adjustment: number; // ILS incl. VAT, all pieces
+}
+
+export interface SettlementQuote {
+  orderId: string;
+  orderNumber: string;
+  status: OrderStatus;
+  mode: PaymentMode;
+  total: number; // Checkout total
+  depositAmount: number | null;
+  authorizedAmount: number | null;
+  finalAmount: number | null;
+  balanceDue: number;
+  balancePaymentUrl: string | null;
+  settledAt: Date | null;
+  lines: SettlementLine[];
+  weightAdjustment: number;
+  suggestedAmount: number; // total + weightAdjustment
+  maxAmount: number | null; // What can be captured (authorize mode)
+}
+
+export type SettlementQuoteResult =
+  | { success: true; quote: SettlementQuote }
+  | { success: false; error: string; notFound?: boolean };
+
+export type SettleOrderResult =
+  | { success: true; mode: "authorize"; finalAmount: number; transactionId: string }
+  | { success: true; mode: "deposit"; finalAmount: number; balanceDue: number; paymentUrl: string | null }
+  | { success: false; error: string; notFound?: boolean; conflict?: boolean };
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Price of a weight difference per piece, before VAT
+ */
+function weightDifferencePrice(breakdown: PricingBreakdown, grams: number): number {
+  const { pricePerGram, wasteFactor } = breakdown.materials;
+  return grams * pricePerGram * wasteFactor * (1 + breakdown.overhead.percentage / 100) * breakdown.marginMultiplier;
+}
+
+/**
+ * What an order would settle for given the weights recorded so far
+ */
+export async function getSettlementQuote(orderId: string): Promise<SettlementQuoteResult> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      items: {
+        select: { id: true, designId: true, name: true, quantity: true, production: { select: { actualWeightGrams: true } } },
+      },
+    },
+  });
+  if (!order) {
+    return { success: false, error: "Order not found", notFound: true };
+  }
+
+  const vatFactor = 1 + (order.taxRate ?? 0);
+  const lines: SettlementLine[] = [];
+
+  for (const item of order.items) {
+    // The estimate the item was sold from
+    const breakdown = (await getOrderItemSnapshot(item.id))?.breakdown ?? null;
+    const pricedWeightGrams = breakdown?.materials.weightGrams ?? null;
+    const measuredWeightGrams = item.production?.actualWeightGrams ?? null;
+
+    const adjustment =
+      breakdown && pricedWeightGrams !== null && measuredWeightGrams !== null
+        ? roundMoney(weightDifferencePrice(breakdown, measuredWeightGrams - pricedWeightGrams) * vatFactor * item.quantity)
+        : 0;
+
+    lines.push({
+      itemId: item.id,
+      name: item.name,
+      quantity: item.quantity,
+      pricedWeightGrams,
+      measuredWeightGrams,
+      adjustment,
+    });
+  }
+
+  const weightAdjustment = roundMoney(lines.reduce((sum, line) => sum + line.adjustment, 0));
+  const mode = toPaymentMode(order.paymentMode);
+
+  return {
+    success: true,
+    quote: {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      status: toOrderStatus(order.status),
+      mode,
+      total: order.total,
+      depositAmount: order.depositAmount,
+      authorizedAmount: order.authorizedAmount,
+      finalAmount: order.finalAmount,
+      balanceDue: order.balanceDue,
+      balancePaymentUrl: order.balancePaymentUrl,
+      settledAt: order.settledAt,
+      lines,
+      weightAdjustment,
+      suggestedAmount: Math.max(0, roundMoney(order.total + weightAdjustment)),
+      maxAmount: mode === "authorize" ? order.authorizedAmount : null,
+    },
+  };
+}
+
+/**
+ * Settle an order for its final amount
+ *
+ * `baseUrl` is the site origin the balance payment returns to.
+ */
+export async function settleOrder(
+  orderId: string,
+  input: { amount: number; locale: "he" | "en"; baseUrl: string; note?: string }
+): Promise<SettleOrderResult> {
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+  if (!order) {
+    return { success: false, error: "Order not found", notFound: true };
+  }
+
+  const mode = toPaymentMode(order.paymentMode);
+  const status = toOrderStatus(order.status);
+  const amount = roundMoney(input.amount);
+
+  if (mode === "full") {
+    return { success: false, error: "Order was paid in full at checkout" };
+  }
+  if (order.settledAt) {
+    return { success: false, error: "Order is already settled", conflict: true };
+  }
+  if (UNSETTLEABLE_STATUSES.includes(status)) {
+    return { success: false, error: `Order cannot be settled - it is ${status}` };
+  }
+
+  const noteLine = (text: string) =>
+    `${order.notes || ""}\n${text}${input.note ? ` - ${input.note}` : ""}`.trim();
+
+  const gateway = getPaymentGateway(order.paymentGateway);
+
+  if (mode === "authorize") {
+    const held = order.authorizedAmount ?? order.total;
+    if (amount <= 0 || amount > held + SUM_TOLERANCE) {
+      return { success: false, error: `Final amount must be between 0 and the ₪${held} authorized` };
+    }
+
+    const transactionId = order.paymentTransactionId ?? order.paymentReference;
+    if (!transactionId) {
+      return { success: false, error: "No authorization found for this order" };
+    }
+
+    const captured = await gateway.capture(transactionId, amount);
+    if (!captured.success) {
+      return { success: false, error: captured.error };
+    }
+
+    await prisma.order.update({
+      where: { id: orderId },
+      data: {
+        finalAmount: amount,
+        balanceDue: 0,
+        paymentTransactionId: captured.transactionId,
+        settledAt: new Date(),
+        notes: noteLine(`Captured ₪${amount}`),
+      },
+    });
+    await issueDueInvoices(orderId);
+
+    return { success: true, mode, finalAmount: amount, transactionId: captured.transactionId };
+  }
+
+  const deposit = order.depositAmount ?? 0;
+  if (amount < deposit - SUM_TOLERANCE) {
+    return { success: false, error: `Final amount is below the ₪${deposit} deposit - refund the difference instead` };
+  }
+
+  const balance = roundMoney(amount - deposit);
+  if (balance < SUM_TOLERANCE) {
+    await prisma.order.update({
+      where: { id: orderId },
+      data: {
+        finalAmount: amount,
+        balanceDue: 0,
+        balanceReference: null,
+        balancePaymentUrl: null,
+        settledAt: new Date(),
+        notes: noteLine(`Settled at the ₪${deposit} deposit`),
+      },
+    });
+    return { success: true, mode, finalAmount: amount, balanceDue: 0, paymentUrl: null };
+  }
+
+  // A new balance payment replaces any earlier one - its callback no longer matches
+  const payment = await gateway.createPayment({
+    orderId,
+    amount: balance,
+    installments: 1,
+    locale: input.locale,
+    description: input.locale === "he" ? `יתרה להזמנה ${order.orderNumber}` : `Balance for order ${order.orderNumber}`,
+    items: [
+      {
+        name: input.locale === "he" ? "יתרת תשלום" : "Balance payment",
+        quantity: 1,
+        unitPrice: balance,
+      },
+    ],
+    customer: {
+      name: order.customerName ?? "",
+      email: order.customerEmail ?? "",
+      phone: order.customerPhone ?? "",
+    },
+    redirectUrl: `${input.baseUrl}/${input.locale}/checkout/complete?orderId=${orderId}`,
+    notifyUrl: `${input.baseUrl}/api/payments/${gateway.id}/webhook`,
+    cancelUrl: `${input.baseUrl}/${input.locale}/account/orders`,
+  });
+
+  if (!payment.success) {
+    return { success: false, error: payment.error };
+  }
+
+  await prisma.order.update({
+    where: { id: orderId },
+    data: {
+      finalAmount: amount,
+      balanceDue: balance,
+      balanceReference: payment.reference,
+      balancePaymentUrl: payment.paymentUrl,
+      notes: noteLine(`Balance of ₪${balance} requested`),
+    },
+  });
+
+  return { success: true, mode, finalAmount: amount, balanceDue: balance, paymentUrl: payment.paymentUrl };
+}
@@ -0,0 +1,117 @@
+/**
+ * Fake Meshulam
+ *
+ * Serves the light server API and a payment page (page/<processId>)
+ * under /api/payments/fake/meshulam.
+ */
+
+import { randomInt, randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  openFakePayment,
+  getFakePayment,
+  findFakePaymentByTransaction,
+  completeFakePayment,
+  captureFakePayment,
+  refundFakePayment,
+  sendFakeCallback,
+  fakePaymentPage,
+  fakeNotFound,
+} from "./shared";
+
+// Transaction tokens handed out with each transaction
+const FAKE_TRANSACTION_TOKEN = "fake-token";
+
+function ok(data: Record<string, unknown> = {}): NextResponse {
+  return NextResponse.json({ status: 1, err: "", data });
+}
+
+function fail(message: string): NextResponse {
+  return NextResponse.json({ status: 0, err: { message } });
+}
+
+export async function handleFakeMeshulam(request: NextRequest, path: string, baseUrl: string): Promise<NextResponse> {
+  if (path.startsWith("page/")) {
+    const payment = getFakePayment(path.slice("page/".length));
+    if (!payment) return fakeNotFound("Payment");
+
+    if (request.method === "GET") {
+      return fakePaymentPage("Meshulam", payment, `${baseUrl}/${path}`);
+    }
+
+    const approve = (await request.formData()).get("decision") === "approve";
+    completeFakePayment(payment, approve, randomInt(10000000, 99999999).toString());
+    await sendFakeCallback(payment.notifyUrl, {
+      status: approve ? "1" : "0",
+      err: approve ? "" : "Declined (fake gateway)",
+      "data[processId]": payment.id,
+      "data[processToken]": payment.id,
+      "data[sum]": payment.amount.toFixed(2),
+      "data[paymentsNum]": payment.installments.toString(),
+      "data[customFields][cField1]": payment.orderId,
+      ...(approve && {
+        "data[transactionId]": payment.transactionId!,
+        "data[transactionToken]": FAKE_TRANSACTION_TOKEN,
+        "data[asmachta]": payment.approvalNumber!,
+        "data[cardSuffix]": "4580",
+        "data[cardBrand]": "Visa",
+      }),
+    });
+    return NextResponse.redirect(approve ? payment.redirectUrl : payment.cancelUrl, 303);
+  }
+
+  const form = new URLSearchParams(await request.text());
+
+  switch (path) {
+    case "createPaymentProcess": {
+      const payment = openFakePayment({
+        orderId: form.get("cField1") || "",
+        amount: Number(form.get("sum")),
+        installments: Number(form.get("paymentNum")) || 1,
+        authorizeOnly: form.get("chargeType") === "2",
+        notifyUrl: form.get("notifyUrl") || "",
+        redirectUrl: form.get("successUrl") || "",
+        cancelUrl: form.get("cancelUrl") || "",
+      });
+      return ok({ url: `${baseUrl}/page/${payment.id}`, processId: payment.id, processToken: payment.id });
+    }
+
+    case "approveTransaction": {
+      const payment = findFakePaymentByTransaction(form.get("transactionId") || "");
+      return payment ? ok() : fail("Transaction not found");
+    }
+
+    case "getTransactionInfo": {
+      const payment = findFakePaymentByTransaction(form.get("transactionId") || "");
+      if (!payment) return fail("Transaction not found");
+
+      return ok({
+        transactionId: payment.transactionId,
+        processId: payment.id,
+        customFields: { cField1: payment.orderId },
+        sum: payment.captured || payment.amount, // Held amount until captured
+        asmachta: payment.approvalNumber,
+        statusCode: payment.status === "authorized" || payment.status === "approved" ? "2" : "0",
+        refundedSum: payment.refunded,
+      });
+    }
+
+    case "refundTransaction": {
+      const payment = findFakePaymentByTransaction(form.get("transactionId") || "");
+      if (!payment) return fail("Transaction not found");
+
+      const error = refundFakePayment(payment, Number(form.get("refundSum")));
+      return error ? fail(error) : ok({ refundTransactionId: randomUUID() });
+    }
+
+    case "settleSuspendedTransaction": {
+      const payment = findFakePaymentByTransaction(form.get("transactionId") || "");
+      if (!payment) return fail("Transaction not found");
+
+      const error = captureFakePayment(payment, Number(form.get("sum")));
+      return error ? fail(error) : ok({ transactionId: payment.transactionId });
+    }
+  }
+
+  return fakeNotFound("Endpoint");
+}
@@ -0,0 +1,161 @@
+/**
+ * Fake Payment Gateways
+ *
+ * Local stand-ins for Z-Credit, Tranzila and Meshulam, served from
+ * /api/payments/fake/<gateway>/... in development or when
+ * PAYMENT_FAKE_GATEWAYS=true. Each fake answers the requests its adapter
+ * makes and keeps payments in memory. Point an adapter at its fake with
+ * the adapter's base URL variable:
+ *
+ *   ZCREDIT_BASE_URL=http://localhost:3000/api/payments/fake/zcredit
+ *   TRANZILA_PAYMENT_URL=http://localhost:3000/api/payments/fake/tranzila
+ *   TRANZILA_API_URL=http://localhost:3000/api/payments/fake/tranzila/api
+ *   MESHULAM_API_URL=http://localhost:3000/api/payments/fake/meshulam
+ *
+ * The hosted payment page has Approve and Decline buttons. Both post the
+ * gateway's callback to the notify URL before sending the customer on,
+ * so the whole checkout runs end to end without a real terminal.
+ */
+
+import { randomInt, randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+
+export type FakePaymentStatus = "open" | "approved" | "authorized" | "declined";
+
+export interface FakePayment {
+  id: string; // Session reference handed to the adapter
+  orderId: string;
+  amount: number;
+  installments: number;
+  authorizeOnly: boolean;
+  notifyUrl: string;
+  redirectUrl: string;
+  cancelUrl: string;
+  status: FakePaymentStatus;
+  transactionId?: string;
+  approvalNumber?: string;
+  captured: number; // Charged so far (authorizations start at 0)
+  refunded: number;
+}
+
+const globalForFakes = globalThis as unknown as {
+  fakePayments: Map<string, FakePayment> | undefined;
+};
+
+// Survives hot reloads in development
+const payments = globalForFakes.fakePayments ?? new Map<string, FakePayment>();
+globalForFakes.fakePayments = payments;
+
+export function isFakeGatewayEnabled(): boolean {
+  return process.env.NODE_ENV === "development" || process.env.PAYMENT_FAKE_GATEWAYS === "true";
+}
+
+export function openFakePayment(
+  payment: Omit<FakePayment, "id" | "status" | "captured" | "refunded"> & { id?: string }
+): FakePayment {
+  const record: FakePayment = {
+    ...payment,
+    id: payment.id ?? randomUUID(),
+    status: "open",
+    captured: 0,
+    refunded: 0,
+  };
+  payments.set(record.id, record);
+  return record;
+}
+
+export function getFakePayment(id: string): FakePayment | undefined {
+  return payments.get(id);
+}
+
+export function findFakePaymentByTransaction(transactionId: string): FakePayment | undefined {
+  return [...payments.values()].find((payment) => payment.transactionId === transactionId);
+}
+
+/**
+ * Settle a payment as the customer chose on the fake page
+ */
+export function completeFakePayment(payment: FakePayment, approve: boolean, transactionId: string): FakePayment {
+  if (approve) {
+    payment.status = payment.authorizeOnly ? "authorized" : "approved";
+    payment.transactionId = transactionId;
+    payment.approvalNumber = randomInt(1000000, 9999999).toString();
+    payment.captured = payment.authorizeOnly ? 0 : payment.amount;
+  } else {
+    payment.status = "declined";
+  }
+  return payment;
+}
+
+/**
+ * Charge an authorization (at most the authorized amount, once)
+ */
+export function captureFakePayment(payment: FakePayment, amount: number): string | null {
+  if (payment.status !== "authorized") return "Transaction is not an open authorization";
+  if (amount <= 0 || amount > payment.amount + 0.001) return "Capture exceeds the authorized amount";
+
+  payment.status = "approved";
+  payment.captured = amount;
+  return null;
+}
+
+/**
+ * Refund part or all of what was charged
+ */
+export function refundFakePayment(payment: FakePayment, amount?: number): string | null {
+  const remaining = payment.captured - payment.refunded;
+  const refund = amount ?? remaining;
+  if (payment.status !== "approved") return "Transaction was not charged";
+  if (refund <= 0 || refund > remaining + 0.001) return "Refund exceeds the charged amount";
+
+  payment.refunded += refund;
+  return null;
+}
+
+/**
+ * Post a gateway callback the way the gateway would (form encoded)
+ */
+export async function sendFakeCallback(notifyUrl: string, fields: Record<string, string>): Promise<void> {
+  try {
+    const response = await fetch(notifyUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams(fields).toString(),
+    });
+    if (!response.ok) {
+      console.error(`[FakeGateway] Callback to ${notifyUrl} returned ${response.status}`);
+    }
+  } catch (error) {
+    console.error("[FakeGateway] Callback failed:", error);
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * The hosted payment page - Approve and Decline post back to `action`
+ */
+export function fakePaymentPage(gatewayName: string, payment: FakePayment, action: string): NextResponse {
+  const html = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(gatewayName)} (fake)</title></head>
+<body style="font-family: system-ui, sans-serif; max-width: 28rem; margin: 4rem auto; text-align: center;">
+  <h1>${escapeHtml(gatewayName)} test payment</h1>
+  <p>Order ${escapeHtml(payment.orderId)}</p>
+  <p style="font-size: 2rem; font-weight: bold;">₪${payment.amount.toFixed(2)}</p>
+  <p>${payment.installments > 1 ? `${payment.installments} installments` : "Single payment"}${payment.authorizeOnly ? " · authorization only" : ""}</p>
+  <form method="post" action="${escapeHtml(action)}">
+    <button name="decision" value="approve" style="padding: 0.75rem 1.5rem;">Approve</button>
+    <button name="decision" value="decline" style="padding: 0.75rem 1.5rem;">Decline</button>
+  </form>
+</body>
+</html>`;
+
+  return new NextResponse(html, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+}
+
+export function fakeNotFound(what: string): NextResponse {
+  return NextResponse.json({ error: `${what} not found` }, { status: 404 });
+}
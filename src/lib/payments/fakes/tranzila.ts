@@ -0,0 +1,122 @@
+/**
+ * Fake Tranzila
+ *
+ * Serves the hosted page (<terminal>/iframenew.php) and the v1 REST API
+ * (api/...) under /api/payments/fake/tranzila. Request signatures are not
+ * checked.
+ */
+
+import { randomInt } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  openFakePayment,
+  getFakePayment,
+  findFakePaymentByTransaction,
+  completeFakePayment,
+  captureFakePayment,
+  refundFakePayment,
+  sendFakeCallback,
+  fakePaymentPage,
+  fakeNotFound,
+} from "./shared";
+
+function apiError(message: string): NextResponse {
+  return NextResponse.json({ error_code: 1, message });
+}
+
+export async function handleFakeTranzila(request: NextRequest, path: string, baseUrl: string): Promise<NextResponse> {
+  if (path.endsWith("/iframenew.php")) {
+    const params = request.nextUrl.searchParams;
+
+    // The hosted page is a plain link - the payment opens on first visit
+    if (request.method === "GET") {
+      const sessionToken = params.get("sessionToken") || "";
+      const payment =
+        getFakePayment(sessionToken) ??
+        openFakePayment({
+          id: sessionToken,
+          orderId: params.get("orderId") || "",
+          amount: Number(params.get("sum")),
+          installments: Number(params.get("maxpay")) || 1,
+          authorizeOnly: params.get("tranmode") === "V",
+          notifyUrl: params.get("notify_url_address") || "",
+          redirectUrl: params.get("success_url_address") || "",
+          cancelUrl: params.get("fail_url_address") || "",
+        });
+      return fakePaymentPage("Tranzila", payment, `${baseUrl}/${path}?sessionToken=${payment.id}`);
+    }
+
+    const payment = getFakePayment(params.get("sessionToken") || "");
+    if (!payment) return fakeNotFound("Payment");
+
+    const approve = (await request.formData()).get("decision") === "approve";
+    completeFakePayment(payment, approve, randomInt(100000, 999999).toString());
+    await sendFakeCallback(payment.notifyUrl, {
+      Response: approve ? "000" : "004",
+      orderId: payment.orderId,
+      sessionToken: payment.id,
+      sum: payment.amount.toFixed(2),
+      ...(approve && {
+        index: payment.transactionId!,
+        ConfirmationCode: payment.approvalNumber!,
+        npay: (payment.installments - 1).toString(),
+        ccno: "4580",
+        cardtype: "2",
+      }),
+    });
+    return NextResponse.redirect(approve ? payment.redirectUrl : payment.cancelUrl, 303);
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const payment = findFakePaymentByTransaction(String(body.transaction_index ?? body.reference_txn_id));
+
+  switch (path) {
+    case "api/transactions": {
+      if (!payment) return NextResponse.json({ error_code: 0, transactions: [] });
+
+      return NextResponse.json({
+        error_code: 0,
+        transactions: [
+          {
+            index: Number(payment.transactionId),
+            orderId: payment.orderId,
+            sessionToken: payment.id,
+            amount: payment.captured || payment.amount, // Held amount until captured
+            processor_response_code: payment.status === "declined" ? "004" : "000",
+            auth_number: payment.approvalNumber,
+            refunded_amount: payment.refunded,
+          },
+        ],
+      });
+    }
+
+    case "api/transaction/credit_card/refund": {
+      if (!payment) return apiError("Transaction not found");
+
+      const error = refundFakePayment(payment, body.amount);
+      if (error) return apiError(error);
+      return NextResponse.json({
+        error_code: 0,
+        transaction_result: { processor_response_code: "000", transaction_id: randomInt(100000, 999999) },
+      });
+    }
+
+    case "api/transaction/credit_card/create": {
+      if (!payment || body.txn_type !== "force") return apiError("Transaction not found");
+
+      const error = captureFakePayment(payment, Number(body.amount));
+      if (error) return apiError(error);
+      return NextResponse.json({
+        error_code: 0,
+        transaction_result: {
+          processor_response_code: "000",
+          transaction_id: Number(payment.transactionId),
+          amount: payment.captured,
+          auth_number: payment.approvalNumber,
+        },
+      });
+    }
+  }
+
+  return fakeNotFound("Endpoint");
+}
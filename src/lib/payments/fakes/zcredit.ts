@@ -0,0 +1,105 @@
+/**
+ * Fake Z-Credit
+ *
+ * Serves the WebControl token and payment pages and the ZCreditWS
+ * transaction API under /api/payments/fake/zcredit.
+ */
+
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  openFakePayment,
+  getFakePayment,
+  completeFakePayment,
+  captureFakePayment,
+  refundFakePayment,
+  sendFakeCallback,
+  fakePaymentPage,
+  fakeNotFound,
+} from "./shared";
+
+export async function handleFakeZCredit(request: NextRequest, path: string, baseUrl: string): Promise<NextResponse> {
+  switch (path) {
+    // Answers like the real endpoint: GUID, newline, data package
+    case "WebControl/RequestToken.aspx": {
+      const form = new URLSearchParams(await request.text());
+      const payment = openFakePayment({
+        orderId: form.get("UniqueID") || "",
+        amount: Number(form.get("PaymentSum")),
+        installments: Number(form.get("PaymentsNumber")) || 1,
+        authorizeOnly: form.get("AuthorizeOnly") === "1",
+        // The client encodes the links once more before posting them
+        notifyUrl: decodeURIComponent(form.get("NotifyLink") || ""),
+        redirectUrl: decodeURIComponent(form.get("RedirectLink") || ""),
+        cancelUrl: decodeURIComponent(form.get("CancelLink") || ""),
+      });
+      return new NextResponse(`${payment.id}\nfake`, { headers: { "Content-Type": "text/plain" } });
+    }
+
+    case "WebControl/Transaction.aspx": {
+      const guid = request.nextUrl.searchParams.get("GUID") || "";
+      const payment = getFakePayment(guid);
+      if (!payment) return fakeNotFound("Payment");
+
+      if (request.method === "GET") {
+        return fakePaymentPage("Z-Credit", payment, `${baseUrl}/WebControl/Transaction.aspx?GUID=${guid}`);
+      }
+
+      const approve = (await request.formData()).get("decision") === "approve";
+      completeFakePayment(payment, approve, payment.id);
+      await sendFakeCallback(payment.notifyUrl, {
+        UniqueID: payment.orderId,
+        GUID: payment.id,
+        ...(approve
+          ? {
+              ApprovalNumber: payment.approvalNumber!,
+              ReferenceNumber: payment.id,
+              Last4Digits: "4580",
+              CardBrand: "Visa",
+              TransactionSum: payment.amount.toFixed(2),
+              Installments: payment.installments.toString(),
+              ErrorCode: "0",
+            }
+          : { ErrorCode: "1", ErrorMessage: "Declined (fake gateway)" }),
+      });
+      return NextResponse.redirect(approve ? payment.redirectUrl : payment.cancelUrl, 303);
+    }
+
+    case "ZCreditWS/api/Transaction/GetTransaction": {
+      const body = await request.json();
+      const payment = getFakePayment(String(body.GUID));
+      if (!payment) return fakeNotFound("Transaction");
+
+      const charged = payment.status === "approved" || payment.status === "authorized";
+      return NextResponse.json({
+        HasError: !charged,
+        ReturnCode: charged ? 0 : 1,
+        GUID: payment.id,
+        TransactionSum: payment.captured || payment.amount, // Held amount until captured
+        ApprovalNumber: charged ? payment.approvalNumber : "",
+        Installments: payment.installments,
+        RefundedSum: payment.refunded,
+      });
+    }
+
+    case "ZCreditWS/api/Transaction/Refund": {
+      const body = await request.json();
+      const payment = getFakePayment(String(body.OriginalGUID));
+      if (!payment) return fakeNotFound("Transaction");
+
+      const error = refundFakePayment(payment, body.RefundAmount);
+      return NextResponse.json(error ? { Success: false, ErrorMessage: error } : { Success: true, RefundGUID: randomUUID() });
+    }
+
+    case "ZCreditWS/api/Transaction/CommitFullTransaction": {
+      const body = await request.json();
+      const payment = getFakePayment(String(body.OriginalGUID));
+      if (!payment) return fakeNotFound("Transaction");
+
+      const error = captureFakePayment(payment, Number(body.TransactionSum));
+      return NextResponse.json(error ? { HasError: true, ReturnMessage: error } : { HasError: false, GUID: payment.id });
+    }
+  }
+
+  return fakeNotFound("Endpoint");
+}
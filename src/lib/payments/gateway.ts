@@ -0,0 +1,166 @@
+/**
+ * Payment Gateways
+ *
+ * One interface over the Israeli card gateways we support. Checkout
+ * creates payments with the gateway chosen by PAYMENT_GATEWAY; callbacks,
+ * refunds and captures go to the gateway the order was paid with
+ * (Order.paymentGateway), so switching gateways never strands open orders.
+ *
+ * A payment has two references: the session the customer is sent to pay
+ * in (stored as Order.paymentReference when the payment is created) and
+ * the card transaction it produced (Order.paymentTransactionId, set when
+ * the payment is verified). Z-Credit uses its GUID for both.
+ */
+
+import { getZCreditGateway } from "./zcredit";
+import { getTranzilaGateway } from "./tranzila";
+import { getMeshulamGateway } from "./meshulam";
+
+export const PAYMENT_GATEWAYS = ["zcredit", "tranzila", "meshulam"] as const;
+
+export type PaymentGatewayId = (typeof PAYMENT_GATEWAYS)[number];
+
+const DEFAULT_GATEWAY: PaymentGatewayId = "zcredit";
+
+/**
+ * A line shown on the gateway's payment page
+ */
+export interface PaymentLineItem {
+  name: string;
+  imageUrl?: string;
+  sku?: string;
+  quantity: number;
+  unitPrice: number; // ILS, after discounts
+}
+
+export interface CreatePaymentInput {
+  orderId: string;
+  amount: number; // ILS
+  installments: number;
+  locale: "he" | "en";
+  description: string;
+  items: PaymentLineItem[];
+  customer: { name: string; email: string; phone: string };
+  redirectUrl: string; // Customer returns here after paying
+  cancelUrl: string;
+  notifyUrl: string; // Server-to-server callback
+  authorizeOnly?: boolean; // Hold the amount; capture() charges it later
+}
+
+export type CreatePaymentResult =
+  | { success: true; paymentUrl: string; reference: string }
+  | { success: false; error: string };
+
+/**
+ * A gateway callback in gateway-neutral form
+ *
+ * Nothing in it is trusted until verifyCallback confirms it.
+ */
+export interface PaymentCallback {
+  orderId: string;
+  reference?: string; // Payment session - must match Order.paymentReference
+  transactionId?: string; // Card transaction the session produced
+  succeeded: boolean;
+  approvalNumber?: string;
+  amount?: number;
+  installments?: number;
+  card?: { last4?: string; brand?: string };
+  error?: string;
+  raw: Record<string, string>; // As posted
+}
+
+/**
+ * A transaction as reported by the gateway's own API
+ */
+export interface GatewayTransaction {
+  transactionId: string;
+  reference: string | null; // Payment session the gateway files it under (CreatePaymentResult.reference)
+  orderId: string | null; // Our order ID, for gateways that echo it back
+  approved: boolean;
+  amount: number | null; // ILS charged (or held, for an authorization)
+  approvalNumber: string | null;
+  raw: Record<string, unknown>; // Kept in the payment event log
+}
+
+export type TransactionResult =
+  | { success: true; transaction: GatewayTransaction }
+  | { success: false; error: string };
+
+export type RefundResult =
+  | { success: true; refundReference?: string }
+  | { success: false; error: string };
+
+export type CaptureResult =
+  | { success: true; transactionId: string; amount: number }
+  | { success: false; error: string };
+
+export interface PaymentGateway {
+  readonly id: PaymentGatewayId;
+
+  /**
+   * Open a payment session and return the page to send the customer to
+   */
+  createPayment(input: CreatePaymentInput): Promise<CreatePaymentResult>;
+
+  /**
+   * Read a callback exactly as the gateway posted it
+   */
+  parseCallback(raw: Record<string, string>): PaymentCallback;
+
+  /**
+   * Confirm a successful callback with the gateway's API
+   */
+  verifyCallback(callback: PaymentCallback): Promise<TransactionResult>;
+
+  getTransaction(transactionId: string): Promise<TransactionResult>;
+
+  /**
+   * Refund a charged transaction - the full amount when `amount` is omitted
+   */
+  refund(transactionId: string, amount?: number): Promise<RefundResult>;
+
+  /**
+   * Charge an authorization - up to the authorized amount
+   */
+  capture(transactionId: string, amount: number): Promise<CaptureResult>;
+}
+
+export function isPaymentGatewayId(value: string): value is PaymentGatewayId {
+  return (PAYMENT_GATEWAYS as readonly string[]).includes(value);
+}
+
+/**
+ * The gateway an order was paid with (orders from before the gateway
+ * was recorded were all Z-Credit)
+ */
+export function getPaymentGateway(id: string | null | undefined): PaymentGateway {
+  const gatewayId = id ?? DEFAULT_GATEWAY;
+  if (!isPaymentGatewayId(gatewayId)) {
+    throw new Error(`Unknown payment gateway: ${gatewayId}`);
+  }
+
+  // Credentials are only read for the gateway asked for
+  switch (gatewayId) {
+    case "zcredit":
+      return getZCreditGateway();
+    case "tranzila":
+      return getTranzilaGateway();
+    case "meshulam":
+      return getMeshulamGateway();
+  }
+}
+
+/**
+ * The gateway new payments are created with (PAYMENT_GATEWAY)
+ */
+export function getActiveGatewayId(): PaymentGatewayId {
+  const configured = process.env.PAYMENT_GATEWAY?.trim().toLowerCase();
+  if (configured && !isPaymentGatewayId(configured)) {
+    console.error(`[Payments] Unknown PAYMENT_GATEWAY "${configured}", using ${DEFAULT_GATEWAY}`);
+  }
+  return configured && isPaymentGatewayId(configured) ? configured : DEFAULT_GATEWAY;
+}
+
+export function getActivePaymentGateway(): PaymentGateway {
+  return getPaymentGateway(getActiveGatewayId());
+}
@@ -0,0 +1,320 @@
+/**
+ * Meshulam (Grow) Payment Gateway Client
+ * Israeli payment gateway - "light server" API with a hosted payment page
+ *
+ * API Documentation: https://grow-il.readme.io
+ *
+ * A payment process is opened with createPaymentProcess and the customer
+ * pays on the page it returns. Meshulam posts the result to the notify
+ * URL and expects approveTransaction in reply; refunds and captures need
+ * the transaction token from that callback, so it travels inside the
+ * transaction ID this adapter hands out ("<transactionId>:<token>").
+ *
+ * Credentials:
+ * - Page code: The payment page configured for the business
+ * - User ID: The business account
+ * - API key: Required for some accounts, sent when set
+ *
+ * MESHULAM_API_URL points the client at another host (the sandbox, or the
+ * local fake gateway in development).
+ */
+
+import type {
+  PaymentGateway,
+  CreatePaymentInput,
+  CreatePaymentResult,
+  PaymentCallback,
+  TransactionResult,
+  RefundResult,
+  CaptureResult,
+} from "./gateway";
+
+const MESHULAM_API_URL =
+  process.env.MESHULAM_API_URL?.replace(/\/$/, "") || "https://secure.meshulam.co.il/api/light/server/1.0";
+
+export interface MeshulamCallbackData {
+  status: string; // "1" = paid
+  err?: string;
+  transactionId?: string;
+  transactionToken?: string;
+  processId?: string;
+  processToken?: string;
+  asmachta?: string; // Approval number
+  sum?: string;
+  paymentsNum?: string;
+  cardSuffix?: string;
+  cardBrand?: string;
+  orderId?: string; // cField1
+}
+
+interface MeshulamResponse {
+  status: number; // 1 = success
+  err?: string | { message?: string };
+  data?: Record<string, unknown>;
+}
+
+function errorMessage(response: MeshulamResponse): string {
+  if (typeof response.err === "string" && response.err) return response.err;
+  if (typeof response.err === "object" && response.err?.message) return response.err.message;
+  return "Meshulam request failed";
+}
+
+/**
+ * Meshulam client class for payment processing
+ */
+export class MeshulamClient {
+  private pageCode: string;
+  private userId: string;
+  private apiKey?: string;
+
+  constructor(pageCode: string, userId: string, apiKey?: string) {
+    this.pageCode = pageCode;
+    this.userId = userId;
+    this.apiKey = apiKey;
+  }
+
+  // The light server API takes form posts
+  private async request(action: string, fields: Record<string, string>): Promise<{
+    success: boolean;
+    data?: Record<string, unknown>;
+    error?: string;
+  }> {
+    try {
+      const body = new URLSearchParams({
+        pageCode: this.pageCode,
+        userId: this.userId,
+        ...(this.apiKey && { apiKey: this.apiKey }),
+        ...fields,
+      });
+
+      const response = await fetch(`${MESHULAM_API_URL}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: body.toString(),
+      });
+
+      if (!response.ok) {
+        return { success: false, error: `API error: ${response.status}` };
+      }
+
+      const data: MeshulamResponse = await response.json();
+      if (data.status !== 1) {
+        return { success: false, error: errorMessage(data) };
+      }
+      return { success: true, data: data.data ?? {} };
+    } catch (error) {
+      console.error(`Meshulam ${action} error:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async createPaymentProcess(input: CreatePaymentInput) {
+    return this.request("createPaymentProcess", {
+      sum: input.amount.toFixed(2),
+      paymentNum: input.installments.toString(),
+      maxPaymentNum: input.installments.toString(),
+      description: input.description.slice(0, 100),
+      successUrl: input.redirectUrl,
+      cancelUrl: input.cancelUrl,
+      notifyUrl: input.notifyUrl,
+      chargeType: input.authorizeOnly ? "2" : "1", // 2 = J5 authorization
+      "pageField[fullName]": input.customer.name,
+      "pageField[phone]": input.customer.phone,
+      "pageField[email]": input.customer.email,
+      cField1: input.orderId,
+    });
+  }
+
+  /**
+   * Parse webhook callback data (fields are posted as data[...])
+   */
+  static parseCallback(raw: Record<string, string>): MeshulamCallbackData {
+    const field = (key: string) => raw[`data[${key}]`] ?? raw[key];
+
+    return {
+      status: raw.status || "",
+      err: raw.err,
+      transactionId: field("transactionId"),
+      transactionToken: field("transactionToken"),
+      processId: field("processId"),
+      processToken: field("processToken"),
+      asmachta: field("asmachta"),
+      sum: field("sum"),
+      paymentsNum: field("paymentsNum"),
+      cardSuffix: field("cardSuffix"),
+      cardBrand: field("cardBrand"),
+      orderId: raw["data[customFields][cField1]"] ?? field("cField1"),
+    };
+  }
+
+  /**
+   * Acknowledge a notify callback - Meshulam keeps retrying until this is called
+   */
+  async approveTransaction(data: MeshulamCallbackData) {
+    return this.request("approveTransaction", {
+      transactionId: data.transactionId ?? "",
+      transactionToken: data.transactionToken ?? "",
+      processId: data.processId ?? "",
+      processToken: data.processToken ?? "",
+      sum: data.sum ?? "",
+    });
+  }
+
+  async getTransactionInfo(transactionId: string) {
+    return this.request("getTransactionInfo", { transactionId });
+  }
+
+  async refundTransaction(transactionId: string, transactionToken: string, amount: number) {
+    return this.request("refundTransaction", {
+      transactionId,
+      transactionToken,
+      refundSum: amount.toFixed(2),
+      stopDirectDebit: "0",
+    });
+  }
+
+  /**
+   * Charge a J5 authorization
+   */
+  async settleSuspendedTransaction(transactionId: string, transactionToken: string, amount: number) {
+    return this.request("settleSuspendedTransaction", {
+      transactionId,
+      transactionToken,
+      sum: amount.toFixed(2),
+    });
+  }
+}
+
+function splitTransactionId(transactionId: string): { id: string; token: string } {
+  const [id, token = ""] = transactionId.split(":");
+  return { id, token };
+}
+
+/**
+ * Meshulam as a PaymentGateway
+ *
+ * The payment process ID identifies the session.
+ */
+export class MeshulamGateway implements PaymentGateway {
+  readonly id = "meshulam" as const;
+
+  constructor(private client: MeshulamClient) {}
+
+  async createPayment(input: CreatePaymentInput): Promise<CreatePaymentResult> {
+    const result = await this.client.createPaymentProcess(input);
+    const url = result.data?.url;
+    const processId = result.data?.processId;
+
+    if (!result.success || typeof url !== "string" || processId === undefined) {
+      return { success: false, error: result.error || "Failed to create payment" };
+    }
+    return { success: true, paymentUrl: url, reference: String(processId) };
+  }
+
+  parseCallback(raw: Record<string, string>): PaymentCallback {
+    const data = MeshulamClient.parseCallback(raw);
+    const amount = Number(data.sum);
+    const installments = Number(data.paymentsNum);
+    const transactionId = data.transactionId
+      ? `${data.transactionId}:${data.transactionToken ?? ""}`
+      : undefined;
+
+    return {
+      orderId: data.orderId || "",
+      reference: data.processId,
+      transactionId,
+      succeeded: data.status === "1" && !!data.transactionId && !!data.asmachta,
+      approvalNumber: data.asmachta,
+      amount: Number.isFinite(amount) ? amount : undefined,
+      installments: Number.isInteger(installments) && installments > 0 ? installments : undefined,
+      card: { last4: data.cardSuffix, brand: data.cardBrand },
+      error: data.status !== "1" ? data.err || "Payment failed" : undefined,
+      raw,
+    };
+  }
+
+  async verifyCallback(callback: PaymentCallback): Promise<TransactionResult> {
+    if (!callback.transactionId) {
+      return { success: false, error: "Callback has no transaction" };
+    }
+
+    // approveTransaction echoes the tokens from the callback
+    const approval = await this.client.approveTransaction(MeshulamClient.parseCallback(callback.raw));
+    if (!approval.success) {
+      return { success: false, error: approval.error || "approveTransaction failed" };
+    }
+    return this.getTransaction(callback.transactionId);
+  }
+
+  async getTransaction(transactionId: string): Promise<TransactionResult> {
+    const result = await this.client.getTransactionInfo(splitTransactionId(transactionId).id);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || "Transaction lookup failed" };
+    }
+
+    const { processId, cField1, customFields } = result.data as {
+      processId?: string | number;
+      cField1?: string;
+      customFields?: { cField1?: string };
+    };
+    const orderId = customFields?.cField1 ?? cField1;
+    const amount = Number(result.data.sum);
+    const asmachta = result.data.asmachta;
+    return {
+      success: true,
+      transaction: {
+        transactionId,
+        reference: processId !== undefined ? String(processId) : null,
+        orderId: typeof orderId === "string" ? orderId : null,
+        approved: !!asmachta && String(result.data.statusCode) === "2", // 2 = paid; no status is not paid
+        amount: Number.isFinite(amount) ? amount : null,
+        approvalNumber: asmachta ? String(asmachta) : null,
+        raw: result.data,
+      },
+    };
+  }
+
+  async refund(transactionId: string, amount?: number): Promise<RefundResult> {
+    const { id, token } = splitTransactionId(transactionId);
+
+    let refundSum = amount;
+    if (refundSum === undefined) {
+      const transaction = await this.getTransaction(transactionId);
+      if (!transaction.success || transaction.transaction.amount === null) {
+        return { success: false, error: "Could not read the amount to refund" };
+      }
+      refundSum = transaction.transaction.amount;
+    }
+
+    const result = await this.client.refundTransaction(id, token, refundSum);
+    const refundId = result.data?.refundTransactionId ?? result.data?.transactionId;
+    return result.success
+      ? { success: true, refundReference: refundId !== undefined ? String(refundId) : undefined }
+      : { success: false, error: result.error || "Refund failed" };
+  }
+
+  async capture(transactionId: string, amount: number): Promise<CaptureResult> {
+    const { id, token } = splitTransactionId(transactionId);
+    const result = await this.client.settleSuspendedTransaction(id, token, amount);
+    return result.success
+      ? { success: true, transactionId, amount }
+      : { success: false, error: result.error || "Capture failed" };
+  }
+}
+
+/**
+ * Get the Meshulam gateway from environment variables
+ */
+export function getMeshulamGateway(): MeshulamGateway {
+  const pageCode = process.env.MESHULAM_PAGE_CODE;
+  const userId = process.env.MESHULAM_USER_ID;
+
+  if (!pageCode || !userId) {
+    throw new Error("Meshulam credentials not configured. Set MESHULAM_PAGE_CODE and MESHULAM_USER_ID.");
+  }
+
+  return new MeshulamGateway(new MeshulamClient(pageCode, userId, process.env.MESHULAM_API_KEY));
+}
@@ -0,0 +1,364 @@
+/**
+ * Payment Callback Processing
+ *
+ * A callback only reports what the caller claims happened. Before an
+ * order is marked paid the transaction is confirmed with the gateway's
+ * own API: the callback must come from the gateway the order was created
+ * with, its payment reference must be the one issued for the order and
+ * the charged sum must equal what the payment was created for (the
+ * total, or the deposit or authorization under the order's payment
+ * terms). Balance payments for deposit orders settle the order instead.
+ *
+ * Once paid, the order's designs are marked ordered and the money
+ * received is invoiced (lib/invoices).
+ *
+ * A declined card does not end the checkout: the payment page lets the
+ * customer try again, so the order stays pending. Orders still pending
+ * once their payment session has expired are cancelled by
+ * cancelExpiredCheckouts (the checkouts cron), as failed payments when
+ * their last attempt was declined.
+ *
+ * Every callback is written to the PaymentEvent log as received, then
+ * updated with the outcome. Repeated callbacks for a settled order are
+ * acknowledged without changing it.
+ */
+
+import { prisma } from "@/lib/db/prisma";
+import {
+  getPaymentGateway,
+  isPaymentGatewayId,
+  type PaymentGateway,
+  type PaymentGatewayId,
+  type PaymentCallback,
+  type GatewayTransaction,
+} from "./gateway";
+import { checkoutChargeAmount } from "./payment-terms";
+import { releaseDiscountCode } from "@/lib/pricing/discounts";
+import { toOrderStatus, transitionOrder, withLegacyStatuses, type OrderActor } from "@/lib/orders/lifecycle";
+import { markDesignsOrdered } from "@/lib/orders/order-items";
+import { issueDueInvoices } from "@/lib/invoices/invoices";
+
+// Sums are compared to the agora (ILS cents)
+const SUM_TOLERANCE = 0.01;
+
+// Payment pages are paid, abandoned or out of retries well within this
+const CHECKOUT_SESSION_TTL_MS = 2 * 60 * 60_000;
+
+const EXPIRY_BATCH_SIZE = 100;
+
+export type CallbackOutcome = "paid" | "failed" | "duplicate" | "rejected" | "not_found" | "error";
+
+export interface CallbackResult {
+  outcome: CallbackOutcome;
+  orderId?: string;
+  detail?: string;
+}
+
+type VerifiedCharge =
+  | { verified: true; transaction: GatewayTransaction }
+  | { verified: false; outcome: "rejected" | "error"; detail: string; raw?: Record<string, unknown> };
+
+/**
+ * Confirm with the gateway - never trust the callback's own sum or approval
+ *
+ * The transaction must belong to the expected payment session (and order,
+ * where the gateway reports it) and must not have paid for anything else.
+ */
+async function verifyCharge(
+  gateway: PaymentGateway,
+  callback: PaymentCallback,
+  expected: { orderId: string; reference: string; amount: number }
+): Promise<VerifiedCharge> {
+  const verification = await gateway.verifyCallback(callback);
+  if (!verification.success) {
+    return { verified: false, outcome: "error", detail: `Transaction lookup failed: ${verification.error}` };
+  }
+
+  const { transaction } = verification;
+  if (transaction.reference !== expected.reference) {
+    return {
+      verified: false,
+      outcome: "rejected",
+      detail: `Transaction belongs to payment ${transaction.reference}, not ${expected.reference}`,
+      raw: transaction.raw,
+    };
+  }
+  if (transaction.orderId !== null && transaction.orderId !== expected.orderId) {
+    return {
+      verified: false,
+      outcome: "rejected",
+      detail: `Transaction belongs to order ${transaction.orderId}`,
+      raw: transaction.raw,
+    };
+  }
+
+  const claimed = await prisma.order.findFirst({
+    where: {
+      OR: [
+        { paymentTransactionId: transaction.transactionId },
+        { balanceTransactionId: transaction.transactionId },
+      ],
+    },
+    select: { id: true },
+  });
+  if (claimed) {
+    return {
+      verified: false,
+      outcome: "rejected",
+      detail: `Transaction ${transaction.transactionId} already paid for order ${claimed.id}`,
+      raw: transaction.raw,
+    };
+  }
+
+  if (!transaction.approved) {
+    return {
+      verified: false,
+      outcome: "rejected",
+      detail: "Gateway does not report the transaction as approved",
+      raw: transaction.raw,
+    };
+  }
+  if (transaction.amount === null || Math.abs(transaction.amount - expected.amount) > SUM_TOLERANCE) {
+    return {
+      verified: false,
+      outcome: "rejected",
+      detail: `Charged sum ${transaction.amount} does not match the expected ${expected.amount}`,
+      raw: transaction.raw,
+    };
+  }
+
+  return { verified: true, transaction };
+}
+
+/**
+ * Verify and apply one callback
+ *
+ * `raw` is the callback exactly as received.
+ */
+export async function processPaymentCallback(
+  gatewayId: PaymentGatewayId,
+  raw: Record<string, string>,
+  options: { source: "webhook_post" | "webhook_get" }
+): Promise<CallbackResult> {
+  const gateway = getPaymentGateway(gatewayId);
+  const callback = gateway.parseCallback(raw);
+
+  const event = await prisma.paymentEvent.create({
+    data: {
+      gateway: gatewayId,
+      source: options.source,
+      guid: callback.reference || null,
+      payload: raw,
+    },
+  });
+
+  const finish = async (result: CallbackResult, verification?: Record<string, unknown>) => {
+    await prisma.paymentEvent.update({
+      where: { id: event.id },
+      data: {
+        orderId: result.orderId,
+        outcome: result.outcome,
+        detail: result.detail,
+        verification: verification ? JSON.parse(JSON.stringify(verification)) : undefined,
+      },
+    });
+    if (result.outcome !== "paid" && result.outcome !== "duplicate") {
+      console.error(`[Payments] ${gatewayId} callback ${event.id} ${result.outcome}: ${result.detail ?? ""}`);
+    }
+    return result;
+  };
+
+  if (!callback.orderId) {
+    return finish({ outcome: "rejected", detail: "Missing order ID" });
+  }
+
+  const order = await prisma.order.findUnique({ where: { id: callback.orderId } });
+  if (!order) {
+    return finish({ outcome: "not_found", detail: `Order not found: ${callback.orderId}` });
+  }
+  const orderId = order.id;
+
+  // Orders from before the gateway was recorded were all Z-Credit
+  if ((order.paymentGateway ?? "zcredit") !== gatewayId) {
+    return finish({ orderId, outcome: "rejected", detail: `Order was created with ${order.paymentGateway}` });
+  }
+
+  // The balance of a deposit order, paid once the piece is finished
+  if (callback.reference && callback.reference === order.balanceReference) {
+    if (order.settledAt) {
+      return finish({ orderId, outcome: "duplicate", detail: "Balance is already paid" });
+    }
+    if (!callback.succeeded) {
+      return finish({ orderId, outcome: "failed", detail: callback.error || "Balance payment failed" });
+    }
+
+    const charge = await verifyCharge(gateway, callback, {
+      orderId,
+      reference: callback.reference,
+      amount: order.balanceDue,
+    });
+    if (!charge.verified) {
+      return finish({ orderId, outcome: charge.outcome, detail: charge.detail }, charge.raw);
+    }
+
+    const settled = await prisma.order.updateMany({
+      where: { id: orderId, balanceReference: callback.reference, settledAt: null },
+      data: {
+        balanceDue: 0,
+        balanceTransactionId: charge.transaction.transactionId,
+        balancePaymentUrl: null,
+        settledAt: new Date(),
+      },
+    });
+    if (settled.count === 0) {
+      return finish({ orderId, outcome: "duplicate", detail: "Balance is already paid" }, charge.transaction.raw);
+    }
+
+    console.log(`[Payments] Balance for order ${orderId} verified with ${gatewayId}`);
+    await issueDueInvoices(orderId);
+    return finish({ orderId, outcome: "paid", detail: "Balance paid" }, charge.transaction.raw);
+  }
+
+  const status = toOrderStatus(order.status);
+  if (status === "cancelled" && callback.succeeded) {
+    return finish({ orderId, outcome: "rejected", detail: "Payment reported for a cancelled order - refund it manually" });
+  }
+  if (status !== "pending") {
+    return finish({ orderId, outcome: "duplicate", detail: `Order is already ${status}` });
+  }
+
+  // Only the payment created for this order can settle it
+  if (!callback.reference || callback.reference !== order.paymentReference) {
+    return finish({ orderId, outcome: "rejected", detail: "Reference does not match the order's payment reference" });
+  }
+
+  // One declined attempt - the customer may still pay on a retry
+  if (!callback.succeeded) {
+    return finish({ orderId, outcome: "failed", detail: callback.error || "Payment failed" });
+  }
+
+  const charge = await verifyCharge(gateway, callback, {
+    orderId,
+    reference: callback.reference,
+    amount: checkoutChargeAmount(order),
+  });
+  if (!charge.verified) {
+    return finish({ orderId, outcome: charge.outcome, detail: charge.detail }, charge.raw);
+  }
+  const { transaction } = charge;
+
+  // A concurrent duplicate callback loses the transition
+  const paid = await transitionOrder(orderId, "paid", {
+    actor: gatewayId,
+    data: {
+      paymentTransactionId: transaction.transactionId,
+      paymentApproval: transaction.approvalNumber ?? callback.approvalNumber,
+      paymentDetails: {
+        last4Digits: callback.card?.last4,
+        cardBrand: callback.card?.brand,
+        installments: callback.installments,
+        transactionSum: transaction.amount,
+        paidAt: new Date().toISOString(),
+      },
+    },
+  });
+
+  if (!paid.success) {
+    return finish({ orderId, outcome: "duplicate", detail: paid.error }, transaction.raw);
+  }
+
+  console.log(`[Payments] Order ${orderId} verified with ${gatewayId} and marked as paid`);
+  await markDesignsOrdered(orderId).catch((error) =>
+    console.error(`[Payments] Failed to mark the designs of order ${orderId} as ordered:`, error)
+  );
+  await issueDueInvoices(orderId);
+  return finish({ orderId, outcome: "paid" }, transaction.raw);
+}
+
+// Cancel an unpaid order and give back its discount code use
+async function cancelUnpaidOrder(
+  order: { id: string; discountCodeId: string | null },
+  actor: OrderActor,
+  reason: string
+): Promise<boolean> {
+  const result = await transitionOrder(order.id, "cancelled", {
+    actor,
+    note: reason,
+    data: { notes: reason },
+  });
+  if (!result.success) return false;
+
+  if (order.discountCodeId) {
+    await releaseDiscountCode(order.discountCodeId);
+  }
+  return true;
+}
+
+/**
+ * Cancel orders still unpaid after their payment session expired, and
+ * give back their discount code uses
+ *
+ * An order whose last attempt was declined is cancelled by its gateway,
+ * which emails the customer that the payment failed.
+ */
+export async function cancelExpiredCheckouts(): Promise<{ cancelled: number }> {
+  const orders = await prisma.order.findMany({
+    where: {
+      status: { in: withLegacyStatuses(["pending"]) },
+      createdAt: { lt: new Date(Date.now() - CHECKOUT_SESSION_TTL_MS) },
+    },
+    orderBy: { createdAt: "asc" },
+    take: EXPIRY_BATCH_SIZE,
+    select: { id: true, discountCodeId: true },
+  });
+
+  let cancelled = 0;
+  for (const order of orders) {
+    const declined = await prisma.paymentEvent.findFirst({
+      where: { orderId: order.id, outcome: "failed" },
+      orderBy: { createdAt: "desc" },
+      select: { gateway: true, detail: true },
+    });
+
+    const reason = declined ? declined.detail || "Payment failed" : "Payment session expired";
+    const actor = declined && isPaymentGatewayId(declined.gateway) ? declined.gateway : "system";
+    if (await cancelUnpaidOrder(order, actor, reason)) cancelled++;
+  }
+
+  if (cancelled > 0) {
+    console.log(`[Payments] Cancelled ${cancelled} unpaid orders with expired payment sessions`);
+  }
+  return { cancelled };
+}
+
+/**
+ * Cancel a customer's declined checkouts as they start a new one, so the
+ * old orders stop holding discount code uses (and counting towards the
+ * per-customer limit)
+ *
+ * Guests are matched by email against guest orders only. Orders without
+ * a declined attempt are left alone - their payment page may still be
+ * open - and expire with cancelExpiredCheckouts.
+ */
+export async function cancelDeclinedCheckouts(customer: {
+  userId?: string;
+  email: string;
+}): Promise<{ cancelled: number }> {
+  const orders = await prisma.order.findMany({
+    where: {
+      ...(customer.userId
+        ? { userId: customer.userId }
+        : { userId: null, customerEmail: { equals: customer.email, mode: "insensitive" } }),
+      status: { in: withLegacyStatuses(["pending"]) },
+      paymentEvents: { some: { outcome: "failed" } },
+    },
+    take: EXPIRY_BATCH_SIZE,
+    select: { id: true, discountCodeId: true },
+  });
+
+  let cancelled = 0;
+  for (const order of orders) {
+    if (await cancelUnpaidOrder(order, "customer", "Replaced by a new checkout")) cancelled++;
+  }
+  return { cancelled };
+}
@@ -0,0 +1,220 @@
+/**
+ * Payment Terms
+ *
+ * How much of an order is charged at checkout. Pieces are cast after
+ * purchase, so the final price is only known once the piece is weighed:
+ *
+ * - full:      the whole total is charged at checkout
+ * - authorize: the total (plus an optional margin for a heavier piece) is
+ *              held on the card and captured once the piece is finished
+ * - deposit:   a share of the total is charged at checkout and the
+ *              balance is paid once the piece is finished
+ *
+ * Terms are admin-editable and versioned in the PricingConfig table.
+ * Falls back to the built-in defaults when the database is unavailable.
+ */
+
+import { z } from "zod";
+import { prisma } from "@/lib/db/prisma";
+import { priceCache, CACHE_KEYS, TTL } from "@/lib/pricing/cache";
+import { createNextConfigVersion } from "@/lib/pricing/config";
+
+// PricingConfig key holding the terms
+export const PAYMENT_TERMS_KEY = "payment_terms";
+
+export const PAYMENT_MODES = ["full", "authorize", "deposit"] as const;
+
+export type PaymentMode = (typeof PAYMENT_MODES)[number];
+
+export interface PaymentTerms {
+  mode: PaymentMode;
+  depositRate: number; // Share of the total charged at checkout (deposit mode)
+  authorizationMargin: number; // Held above the total (authorize mode), e.g. 0.1 = 10%
+}
+
+/**
+ * A stored version of the terms
+ */
+export interface PaymentTermsVersion {
+  version: number; // 0 = built-in defaults
+  terms: PaymentTerms;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  source: "database" | "default";
+}
+
+/**
+ * What checkout asks the gateway for
+ */
+export interface CheckoutPaymentPlan {
+  mode: PaymentMode;
+  chargeNow: number; // ILS collected (or held, when authorizeOnly) on the payment page
+  authorizeOnly: boolean;
+  balanceDue: number; // ILS still to be charged once the piece is finished
+}
+
+export const DEFAULT_PAYMENT_TERMS: PaymentTerms = {
+  mode: "full",
+  depositRate: 0.3,
+  authorizationMargin: 0,
+};
+
+const DEFAULT_TERMS_VERSION: PaymentTermsVersion = {
+  version: 0,
+  terms: DEFAULT_PAYMENT_TERMS,
+  note: "Built-in defaults",
+  createdBy: null,
+  createdAt: new Date(0),
+  source: "default",
+};
+
+// Validation schema for admin-submitted terms
+export const paymentTermsSchema = z.object({
+  mode: z.enum(PAYMENT_MODES),
+  depositRate: z.number().min(0.05).max(0.95),
+  authorizationMargin: z.number().min(0).max(0.5),
+});
+
+/**
+ * Parse a stored JSON value, falling back to the defaults
+ */
+export function parsePaymentTerms(value: unknown): PaymentTerms {
+  const parsed = paymentTermsSchema.safeParse(value);
+  if (!parsed.success) {
+    console.error("[PaymentTerms] Invalid stored payment terms, using defaults");
+    return DEFAULT_PAYMENT_TERMS;
+  }
+  return parsed.data;
+}
+
+function toTermsVersion(record: {
+  version: number;
+  value: unknown;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+}): PaymentTermsVersion {
+  return {
+    version: record.version,
+    terms: parsePaymentTerms(record.value),
+    note: record.note,
+    createdBy: record.createdBy,
+    createdAt: record.createdAt,
+    source: "database",
+  };
+}
+
+/**
+ * Get the terms currently in effect
+ *
+ * Never throws - returns the built-in defaults if the lookup fails.
+ */
+export async function getPaymentTerms(): Promise<PaymentTermsVersion> {
+  const cached = await priceCache.get<PaymentTermsVersion>(CACHE_KEYS.PAYMENT_TERMS);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const record = await prisma.pricingConfig.findFirst({
+      where: { key: PAYMENT_TERMS_KEY, effectiveAt: { lte: new Date() } },
+      orderBy: [{ effectiveAt: "desc" }, { version: "desc" }],
+    });
+
+    const terms = record ? toTermsVersion(record) : DEFAULT_TERMS_VERSION;
+    await priceCache.set(CACHE_KEYS.PAYMENT_TERMS, terms, { ttlMs: TTL.PAYMENT_TERMS });
+    return terms;
+  } catch (error) {
+    console.error("[PaymentTerms] Failed to load payment terms, using defaults:", error);
+    return (await priceCache.getFallback<PaymentTermsVersion>(CACHE_KEYS.PAYMENT_TERMS)) ?? DEFAULT_TERMS_VERSION;
+  }
+}
+
+/**
+ * List all stored versions, newest first
+ */
+export async function listPaymentTermsVersions(): Promise<PaymentTermsVersion[]> {
+  const records = await prisma.pricingConfig.findMany({
+    where: { key: PAYMENT_TERMS_KEY },
+    orderBy: { version: "desc" },
+  });
+
+  return records.map(toTermsVersion);
+}
+
+/**
+ * Store a new version of the terms
+ *
+ * Orders already placed keep the terms they were placed with.
+ */
+export async function setPaymentTerms(input: {
+  terms: PaymentTerms;
+  note?: string;
+  createdBy?: string;
+}): Promise<PaymentTermsVersion> {
+  const terms = paymentTermsSchema.parse(input.terms);
+
+  const record = await createNextConfigVersion(PAYMENT_TERMS_KEY, {
+    value: JSON.parse(JSON.stringify(terms)),
+    note: input.note,
+    createdBy: input.createdBy,
+  });
+
+  // Apply to the next checkout immediately
+  await priceCache.delete(CACHE_KEYS.PAYMENT_TERMS);
+
+  return toTermsVersion(record);
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Split an order total into what is charged now and what is left
+ *
+ * Test orders (development only) are always charged in full.
+ */
+export function planCheckoutPayment(
+  terms: PaymentTerms,
+  total: number,
+  options: { isTestOrder?: boolean } = {}
+): CheckoutPaymentPlan {
+  const mode = options.isTestOrder ? "full" : terms.mode;
+
+  switch (mode) {
+    case "authorize":
+      return {
+        mode,
+        chargeNow: roundMoney(total * (1 + terms.authorizationMargin)),
+        authorizeOnly: true,
+        balanceDue: total,
+      };
+    case "deposit": {
+      const deposit = roundMoney(total * terms.depositRate);
+      return { mode, chargeNow: deposit, authorizeOnly: false, balanceDue: roundMoney(total - deposit) };
+    }
+    default:
+      return { mode: "full", chargeNow: total, authorizeOnly: false, balanceDue: 0 };
+  }
+}
+
+/**
+ * Read a stored Order.paymentMode
+ */
+export function toPaymentMode(value: string): PaymentMode {
+  return value === "authorize" || value === "deposit" ? value : "full";
+}
+
+/**
+ * The amount the checkout payment was created for - what its callback
+ * must report
+ */
+export function checkoutChargeAmount(order: {
+  total: number;
+  depositAmount: number | null;
+  authorizedAmount: number | null;
+}): number {
+  return order.authorizedAmount ?? order.depositAmount ?? order.total;
+}
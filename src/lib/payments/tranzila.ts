@@ -0,0 +1,295 @@
+/**
+ * Tranzila Payment Gateway Client
+ * Israeli payment gateway - hosted payment page plus the v1 REST API
+ *
+ * API Documentation: https://docs.tranzila.com
+ *
+ * The hosted page needs no API call: the customer is sent to a URL built
+ * from the terminal name and the payment fields. Tranzila posts every
+ * field back to the notify URL, so a random session token is sent along
+ * to tie the callback to the order.
+ *
+ * Credentials:
+ * - Terminal name (שם מסוף): Appears in the hosted page URL
+ * - App key / secret: Sign the REST API requests (refunds, queries, captures)
+ *
+ * TRANZILA_PAYMENT_URL and TRANZILA_API_URL point the client at other
+ * hosts (e.g. the local fake gateway in development).
+ */
+
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import type {
+  PaymentGateway,
+  CreatePaymentInput,
+  CreatePaymentResult,
+  PaymentCallback,
+  TransactionResult,
+  RefundResult,
+  CaptureResult,
+} from "./gateway";
+
+const TRANZILA_PAYMENT_URL = process.env.TRANZILA_PAYMENT_URL?.replace(/\/$/, "") || "https://direct.tranzila.com";
+const TRANZILA_API_URL = process.env.TRANZILA_API_URL?.replace(/\/$/, "") || "https://api.tranzila.com/v1";
+
+// Processor response code for an approved transaction
+const TRANZILA_APPROVED = "000";
+
+export interface TranzilaCallbackData {
+  Response: string; // "000" = approved
+  index?: string; // Transaction index
+  ConfirmationCode?: string;
+  sum?: string;
+  npay?: string; // Installments after the first
+  ccno?: string; // Last 4 digits
+  cardtype?: string;
+  orderId?: string;
+  sessionToken?: string;
+}
+
+interface TranzilaApiResponse {
+  error_code: number;
+  message?: string;
+  transaction_result?: {
+    processor_response_code?: string;
+    transaction_id?: string | number;
+    amount?: number;
+    auth_number?: string;
+  };
+  transactions?: Array<Record<string, unknown>>;
+}
+
+/**
+ * Tranzila client class for payment processing
+ */
+export class TranzilaClient {
+  private terminal: string;
+  private appKey?: string;
+  private secret?: string;
+
+  constructor(terminal: string, appKey?: string, secret?: string) {
+    this.terminal = terminal;
+    this.appKey = appKey;
+    this.secret = secret;
+  }
+
+  /**
+   * Build the hosted payment page URL
+   */
+  createPaymentUrl(input: CreatePaymentInput & { sessionToken: string }): string {
+    const params = new URLSearchParams({
+      sum: input.amount.toFixed(2),
+      currency: "1", // ILS
+      cred_type: input.installments > 1 ? "8" : "1", // 8 = installments
+      maxpay: input.installments.toString(),
+      tranmode: input.authorizeOnly ? "V" : "A", // V = J5 authorization
+      lang: input.locale === "he" ? "il" : "us",
+      pdesc: input.description.slice(0, 100),
+      contact: input.customer.name,
+      email: input.customer.email,
+      phone: input.customer.phone,
+      orderId: input.orderId,
+      sessionToken: input.sessionToken,
+      notify_url_address: input.notifyUrl,
+      success_url_address: input.redirectUrl,
+      fail_url_address: input.cancelUrl,
+    });
+
+    return `${TRANZILA_PAYMENT_URL}/${encodeURIComponent(this.terminal)}/iframenew.php?${params.toString()}`;
+  }
+
+  /**
+   * Parse webhook callback data
+   */
+  static parseCallback(data: Record<string, string>): TranzilaCallbackData {
+    return {
+      Response: data.Response || "",
+      index: data.index,
+      ConfirmationCode: data.ConfirmationCode,
+      sum: data.sum,
+      npay: data.npay,
+      ccno: data.ccno,
+      cardtype: data.cardtype,
+      orderId: data.orderId,
+      sessionToken: data.sessionToken,
+    };
+  }
+
+  // Each request is signed with a fresh timestamp and nonce
+  private authHeaders(): Record<string, string> {
+    const requestTime = Math.floor(Date.now() / 1000).toString();
+    const nonce = randomBytes(40).toString("hex");
+    const accessToken = createHmac("sha256", `${this.secret}${requestTime}${nonce}`)
+      .update(this.appKey!)
+      .digest("hex");
+
+    return {
+      "Content-Type": "application/json",
+      "X-tranzila-api-app-key": this.appKey!,
+      "X-tranzila-api-request-time": requestTime,
+      "X-tranzila-api-nonce": nonce,
+      "X-tranzila-api-access-token": accessToken,
+    };
+  }
+
+  private async request(path: string, body: Record<string, unknown>): Promise<{
+    success: boolean;
+    data?: TranzilaApiResponse;
+    error?: string;
+  }> {
+    if (!this.appKey || !this.secret) {
+      return { success: false, error: "API key not configured" };
+    }
+
+    try {
+      const response = await fetch(`${TRANZILA_API_URL}${path}`, {
+        method: "POST",
+        headers: this.authHeaders(),
+        body: JSON.stringify({ terminal_name: this.terminal, ...body }),
+      });
+
+      if (!response.ok) {
+        return { success: false, error: `API error: ${response.status}` };
+      }
+
+      const data: TranzilaApiResponse = await response.json();
+      if (data.error_code !== 0) {
+        return { success: false, error: data.message || `Tranzila error ${data.error_code}` };
+      }
+      return { success: true, data };
+    } catch (error) {
+      console.error("Tranzila API error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async getTransaction(index: string) {
+    return this.request("/transactions", { transaction_index: Number(index) });
+  }
+
+  async refundTransaction(index: string, amount?: number) {
+    return this.request("/transaction/credit_card/refund", {
+      reference_txn_id: Number(index),
+      ...(amount !== undefined && { amount }),
+    });
+  }
+
+  /**
+   * Charge a J5 authorization ("force" transaction against it)
+   */
+  async captureTransaction(index: string, amount: number) {
+    return this.request("/transaction/credit_card/create", {
+      txn_type: "force",
+      reference_txn_id: Number(index),
+      amount,
+    });
+  }
+}
+
+/**
+ * Tranzila as a PaymentGateway
+ *
+ * The session token identifies the payment; the transaction index is
+ * only known once the customer has paid.
+ */
+export class TranzilaGateway implements PaymentGateway {
+  readonly id = "tranzila" as const;
+
+  constructor(private client: TranzilaClient) {}
+
+  async createPayment(input: CreatePaymentInput): Promise<CreatePaymentResult> {
+    const sessionToken = randomUUID();
+    return {
+      success: true,
+      paymentUrl: this.client.createPaymentUrl({ ...input, sessionToken }),
+      reference: sessionToken,
+    };
+  }
+
+  parseCallback(raw: Record<string, string>): PaymentCallback {
+    const data = TranzilaClient.parseCallback(raw);
+    const amount = Number(data.sum);
+    const extraPayments = Number(data.npay);
+
+    return {
+      orderId: data.orderId || "",
+      reference: data.sessionToken,
+      transactionId: data.index,
+      succeeded: data.Response === TRANZILA_APPROVED && !!data.index && !!data.ConfirmationCode,
+      approvalNumber: data.ConfirmationCode,
+      amount: Number.isFinite(amount) ? amount : undefined,
+      installments: Number.isInteger(extraPayments) ? extraPayments + 1 : undefined,
+      card: { last4: data.ccno, brand: data.cardtype },
+      error: data.Response && data.Response !== TRANZILA_APPROVED ? `Response code: ${data.Response}` : undefined,
+      raw,
+    };
+  }
+
+  verifyCallback(callback: PaymentCallback): Promise<TransactionResult> {
+    if (!callback.transactionId) {
+      return Promise.resolve({ success: false, error: "Callback has no transaction index" });
+    }
+    return this.getTransaction(callback.transactionId);
+  }
+
+  async getTransaction(transactionId: string): Promise<TransactionResult> {
+    const result = await this.client.getTransaction(transactionId);
+    const record = result.data?.transactions?.[0];
+    if (!result.success || !record) {
+      return { success: false, error: result.error || "Transaction not found" };
+    }
+
+    const amount = Number(record.amount);
+    return {
+      success: true,
+      transaction: {
+        transactionId,
+        // The custom fields sent to the hosted page are stored with the transaction
+        reference: typeof record.sessionToken === "string" ? record.sessionToken : null,
+        orderId: typeof record.orderId === "string" ? record.orderId : null,
+        approved: record.processor_response_code === TRANZILA_APPROVED,
+        amount: Number.isFinite(amount) ? amount : null,
+        approvalNumber: record.auth_number ? String(record.auth_number) : null,
+        raw: record,
+      },
+    };
+  }
+
+  async refund(transactionId: string, amount?: number): Promise<RefundResult> {
+    const result = await this.client.refundTransaction(transactionId, amount);
+    const refundId = result.data?.transaction_result?.transaction_id;
+    return result.success
+      ? { success: true, refundReference: refundId !== undefined ? String(refundId) : undefined }
+      : { success: false, error: result.error || "Refund failed" };
+  }
+
+  async capture(transactionId: string, amount: number): Promise<CaptureResult> {
+    const result = await this.client.captureTransaction(transactionId, amount);
+    const captured = result.data?.transaction_result;
+    if (!result.success || captured?.processor_response_code !== TRANZILA_APPROVED) {
+      return { success: false, error: result.error || "Capture declined" };
+    }
+    return {
+      success: true,
+      transactionId: captured.transaction_id !== undefined ? String(captured.transaction_id) : transactionId,
+      amount,
+    };
+  }
+}
+
+/**
+ * Get the Tranzila gateway from environment variables
+ */
+export function getTranzilaGateway(): TranzilaGateway {
+  const terminal = process.env.TRANZILA_TERMINAL;
+
+  if (!terminal) {
+    throw new Error("Tranzila credentials not configured. Set TRANZILA_TERMINAL.");
+  }
+
+  return new TranzilaGateway(
+    new TranzilaClient(terminal, process.env.TRANZILA_APP_KEY, process.env.TRANZILA_SECRET)
+  );
+}
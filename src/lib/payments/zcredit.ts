@@ -9,8 +9,21 @@
  * - API Key: Used for backend operations (refunds, queries, webhook validation)
  * - Terminal Number (מספר מסוף): Merchant terminal identifier
  * - Terminal Password (סיסמת מסוף): Authentication for payment requests
+ *
+ * ZCREDIT_BASE_URL points the client at another host (e.g. the local fake
+ * gateway in development).
  */
 
+import type {
+  PaymentGateway,
+  CreatePaymentInput,
+  CreatePaymentResult,
+  PaymentCallback,
+  TransactionResult,
+  RefundResult,
+  CaptureResult,
+} from "./gateway";
+
 export enum ZCreditCurrency {
   NIS = 1,
   USD = 2,
@@ -79,9 +92,10 @@ export interface ZCreditCallbackData {
   ErrorMessage?: string;
 }
 
-const ZCREDIT_API_URL = "https://pci.zcredit.co.il/WebControl/RequestToken.aspx";
-const ZCREDIT_TRANSACTION_URL = "https://pci.zcredit.co.il/WebControl/Transaction.aspx";
-const ZCREDIT_API_BASE = "https://pci.zcredit.co.il/ZCreditWS/api";
+const ZCREDIT_BASE_URL = process.env.ZCREDIT_BASE_URL?.replace(/\/$/, "") || "https://pci.zcredit.co.il";
+const ZCREDIT_API_URL = `${ZCREDIT_BASE_URL}/WebControl/RequestToken.aspx`;
+const ZCREDIT_TRANSACTION_URL = `${ZCREDIT_BASE_URL}/WebControl/Transaction.aspx`;
+const ZCREDIT_API_BASE = `${ZCREDIT_BASE_URL}/ZCreditWS/api`;
 
 /**
  * Z-Credit client class for payment processing
@@ -330,6 +344,189 @@ export class ZCreditClient {
       };
     }
   }
+
+  /**
+   * Charge an authorize-only (J5) transaction
+   * The amount may be lower than the one authorized
+   */
+  async commitTransaction(
+    transactionGuid: string,
+    amount: number
+  ): Promise<{
+    success: boolean;
+    guid?: string;
+    error?: string;
+  }> {
+    if (!this.apiKey) {
+      return { success: false, error: "API key not configured" };
+    }
+
+    try {
+      const response = await fetch(`${ZCREDIT_API_BASE}/Transaction/CommitFullTransaction`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-API-Key": this.apiKey,
+        },
+        body: JSON.stringify({
+          TerminalNumber: this.terminalNumber,
+          Username: this.username,
+          OriginalGUID: transactionGuid,
+          TransactionSum: amount,
+        }),
+      });
+
+      if (!response.ok) {
+        return { success: false, error: `API error: ${response.status}` };
+      }
+
+      const data = await response.json();
+
+      if (data.HasError === false || data.Success || data.success) {
+        return { success: true, guid: data.GUID || transactionGuid };
+      }
+
+      return { success: false, error: data.ReturnMessage || data.ErrorMessage || "Capture failed" };
+    } catch (error) {
+      console.error("Z-Credit capture error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error"
+      };
+    }
+  }
+}
+
+function readField(data: Record<string, unknown>, ...keys: string[]): unknown {
+  for (const key of keys) {
+    if (data[key] !== undefined && data[key] !== null && data[key] !== "") return data[key];
+  }
+  return undefined;
+}
+
+/**
+ * Read a GetTransaction response (field casing varies between API versions)
+ */
+export function parseTransactionDetails(data: Record<string, unknown>): {
+  approved: boolean;
+  amount: number | null;
+  approvalNumber: string | null;
+} {
+  const sum = Number(readField(data, "TransactionSum", "Sum", "Total", "Amount"));
+  const approvalNumber = readField(data, "ApprovalNumber", "ApprovalNum");
+  const hasError = readField(data, "HasError", "hasError");
+  const returnCode = readField(data, "ReturnCode", "ErrorCode");
+
+  return {
+    approved:
+      hasError !== true &&
+      hasError !== "true" &&
+      (returnCode === undefined || String(returnCode) === "0") &&
+      !!approvalNumber,
+    amount: Number.isFinite(sum) ? sum : null,
+    approvalNumber: approvalNumber ? String(approvalNumber) : null,
+  };
+}
+
+/**
+ * Z-Credit as a PaymentGateway
+ *
+ * The payment GUID identifies both the session and the transaction.
+ */
+export class ZCreditGateway implements PaymentGateway {
+  readonly id = "zcredit" as const;
+
+  constructor(private client: ZCreditClient) {}
+
+  async createPayment(input: CreatePaymentInput): Promise<CreatePaymentResult> {
+    const result = await this.client.createPayment({
+      paymentSum: input.amount,
+      paymentsNumber: input.installments,
+      language: input.locale === "he" ? ZCreditLanguage.Hebrew : ZCreditLanguage.English,
+      currency: ZCreditCurrency.NIS,
+      uniqueId: input.orderId,
+      itemDescription: input.description,
+      itemQuantity: input.items.reduce((sum, item) => sum + item.quantity, 0),
+      redirectUrl: input.redirectUrl,
+      notifyUrl: input.notifyUrl,
+      cancelUrl: input.cancelUrl,
+      customerName: input.customer.name,
+      customerPhone: input.customer.phone,
+      customerEmail: input.customer.email,
+      cartItems: createCartItems(
+        input.items.map((item) => ({ ...item, price: item.unitPrice }))
+      ),
+      authorizeOnly: input.authorizeOnly,
+      isResponsive: true,
+      cssType: 4, // Modern responsive style
+      numberOfFailures: 3,
+      isIframe: false, // Full page redirect
+    });
+
+    if (!result.success || !result.paymentUrl || !result.guid) {
+      return { success: false, error: result.error || "Failed to create payment" };
+    }
+    return { success: true, paymentUrl: result.paymentUrl, reference: result.guid };
+  }
+
+  parseCallback(raw: Record<string, string>): PaymentCallback {
+    const data = ZCreditClient.parseCallback(raw);
+    const amount = Number(data.TransactionSum);
+    const installments = Number(data.Installments);
+
+    return {
+      orderId: data.UniqueID,
+      reference: data.GUID,
+      transactionId: data.GUID,
+      succeeded: ZCreditClient.validateCallback(data),
+      approvalNumber: data.ApprovalNumber,
+      amount: Number.isFinite(amount) ? amount : undefined,
+      installments: Number.isInteger(installments) && installments > 0 ? installments : undefined,
+      card: { last4: data.Last4Digits, brand: data.CardBrand },
+      error: data.ErrorMessage || (data.ErrorCode ? `Error code: ${data.ErrorCode}` : undefined),
+      raw,
+    };
+  }
+
+  verifyCallback(callback: PaymentCallback): Promise<TransactionResult> {
+    if (!callback.reference) {
+      return Promise.resolve({ success: false, error: "Callback has no GUID" });
+    }
+    return this.getTransaction(callback.reference);
+  }
+
+  async getTransaction(transactionId: string): Promise<TransactionResult> {
+    const details = await this.client.getTransactionDetails(transactionId);
+    if (!details.success || !details.data) {
+      return { success: false, error: details.error || "Transaction lookup failed" };
+    }
+
+    return {
+      success: true,
+      // The GUID is the payment session itself; Z-Credit does not echo the order ID
+      transaction: {
+        transactionId,
+        reference: transactionId,
+        orderId: null,
+        ...parseTransactionDetails(details.data),
+        raw: details.data,
+      },
+    };
+  }
+
+  async refund(transactionId: string, amount?: number): Promise<RefundResult> {
+    const result = await this.client.refundTransaction(transactionId, amount);
+    return result.success
+      ? { success: true, refundReference: result.refundGuid }
+      : { success: false, error: result.error || "Refund failed" };
+  }
+
+  async capture(transactionId: string, amount: number): Promise<CaptureResult> {
+    const result = await this.client.commitTransaction(transactionId, amount);
+    return result.success
+      ? { success: true, transactionId: result.guid || transactionId, amount }
+      : { success: false, error: result.error || "Capture failed" };
+  }
 }
 
 /**
@@ -347,6 +544,10 @@ export function getZCreditClient(): ZCreditClient {
   return new ZCreditClient(terminalNumber, username, apiKey);
 }
 
+export function getZCreditGateway(): ZCreditGateway {
+  return new ZCreditGateway(getZCreditClient());
+}
+
 /**
  * Helper to create cart items from order items
  */
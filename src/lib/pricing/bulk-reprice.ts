@@ -0,0 +1,303 @@
+/**
+ * Bulk Repricing
+ *
+ * Draft and saved designs keep their estimated price until something
+ * reprices them. This job compares the current metal price for each
+ * design's material with the metal price of its latest pricing snapshot
+ * and reprices every design that moved past the threshold, using only the
+ * deterministic (non-AI) path. Designs sitting in a cart (with a live
+ * price quote) are included whatever their status, and their quotes are
+ * expired so checkout re-quotes them at the new price.
+ *
+ * Each run is stored with a per-design report of old and new prices.
+ */
+
+import type { Design } from "@prisma/client";
+import { prisma } from "@/lib/db/prisma";
+import { designToPricingInput } from "./calculator";
+import { getActivePricingConfig } from "./config";
+import { getMetalPricesSafe, getMaterialPrice, type MetalPrices } from "./metals-api";
+import { expireDesignQuotes } from "./quotes";
+import {
+  calculatePriceWithSnapshot,
+  recordPricingSnapshot,
+  getLatestDesignSnapshots,
+} from "./snapshots";
+
+const DEFAULT_THRESHOLD_PERCENT = 3;
+const DEFAULT_BATCH_SIZE = 25;
+
+// A run still "running" after this long is assumed to have crashed
+const STALE_RUN_MS = 30 * 60 * 1000;
+
+export type RepriceTrigger = "scheduled" | "manual";
+export type RepriceRunStatus = "running" | "completed" | "failed";
+
+/**
+ * One repriced (or failed) design in a run report
+ */
+export interface RepriceEntry {
+  designId: string;
+  name: string | null;
+  jewelryType: string;
+  material: string;
+  status: string;
+  inCart: boolean; // Has a live price quote
+  oldPrice: number | null;
+  newPrice: number | null;
+  priceChangePercent: number | null;
+  metalChangePercent: number | null; // null = never snapshotted, repriced unconditionally
+  quotesExpired?: number; // Live quotes ended so checkout re-quotes at the new price
+  error?: string;
+}
+
+export interface RepriceRun {
+  id: string;
+  trigger: RepriceTrigger;
+  status: RepriceRunStatus;
+  thresholdPercent: number;
+  metalPrices: MetalPrices;
+  scanned: number;
+  repriced: number;
+  failed: number;
+  entries: RepriceEntry[];
+  error: string | null;
+  startedAt: Date;
+  completedAt: Date | null;
+}
+
+export type RepriceRunResult =
+  | { success: true; run: RepriceRun }
+  | { success: false; error: string; conflict?: boolean };
+
+/**
+ * Metal price change (percent) that triggers a reprice
+ */
+export function getRepriceThresholdPercent(): number {
+  const percent = parseFloat(process.env.REPRICE_THRESHOLD_PERCENT || "");
+  return Number.isFinite(percent) && percent > 0 ? percent : DEFAULT_THRESHOLD_PERCENT;
+}
+
+function getRepriceBatchSize(): number {
+  const size = parseInt(process.env.REPRICE_BATCH_SIZE || "", 10);
+  return Number.isInteger(size) && size > 0 ? size : DEFAULT_BATCH_SIZE;
+}
+
+function percentChange(from: number, to: number): number {
+  return Math.round(((to - from) / from) * 10000) / 100;
+}
+
+function toRepriceRun(record: {
+  id: string;
+  trigger: string;
+  status: string;
+  thresholdPercent: number;
+  metalPrices: unknown;
+  scanned: number;
+  repriced: number;
+  failed: number;
+  entries: unknown;
+  error: string | null;
+  startedAt: Date;
+  completedAt: Date | null;
+}): RepriceRun {
+  return {
+    id: record.id,
+    trigger: record.trigger as RepriceTrigger,
+    status: record.status as RepriceRunStatus,
+    thresholdPercent: record.thresholdPercent,
+    metalPrices: record.metalPrices as MetalPrices,
+    scanned: record.scanned,
+    repriced: record.repriced,
+    failed: record.failed,
+    entries: (record.entries as RepriceEntry[]) || [],
+    error: record.error,
+    startedAt: record.startedAt,
+    completedAt: record.completedAt,
+  };
+}
+
+/**
+ * Reprice every design whose metal moved past the threshold
+ */
+export async function runBulkReprice(
+  options: { trigger: RepriceTrigger; thresholdPercent?: number }
+): Promise<RepriceRunResult> {
+  const thresholdPercent = options.thresholdPercent ?? getRepriceThresholdPercent();
+  const batchSize = getRepriceBatchSize();
+
+  const running = await prisma.repriceRun.findFirst({
+    where: { status: "running", startedAt: { gt: new Date(Date.now() - STALE_RUN_MS) } },
+  });
+  if (running) {
+    return { success: false, error: "A repricing run is already in progress", conflict: true };
+  }
+
+  const [metalPrices, pricingConfig] = await Promise.all([
+    getMetalPricesSafe(),
+    getActivePricingConfig(),
+  ]);
+  if (metalPrices.source.status === "fallback") {
+    // Never reprice the catalogue against hardcoded prices
+    return { success: false, error: "Live metal prices are unavailable" };
+  }
+
+  const run = await prisma.repriceRun.create({
+    data: {
+      trigger: options.trigger,
+      thresholdPercent,
+      metalPrices: JSON.parse(JSON.stringify(metalPrices)),
+    },
+  });
+
+  const entries: RepriceEntry[] = [];
+  let scanned = 0;
+  let repriced = 0;
+  let failed = 0;
+
+  try {
+    // Designs in a cart have a live quote
+    const liveQuotes = await prisma.priceQuote.findMany({
+      where: { expiresAt: { gt: new Date() }, designId: { not: null } },
+      select: { designId: true },
+      distinct: ["designId"],
+    });
+    const cartDesignIds = new Set(liveQuotes.map((quote) => quote.designId!));
+
+    let cursor: string | null = null;
+
+    while (true) {
+      const designs: Design[] = await prisma.design.findMany({
+        where: {
+          OR: [
+            { status: { in: ["draft", "saved"] } },
+            { id: { in: [...cartDesignIds] } },
+          ],
+        },
+        orderBy: { id: "asc" },
+        take: batchSize,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (designs.length === 0) break;
+      cursor = designs[designs.length - 1].id;
+      scanned += designs.length;
+
+      const snapshots = await getLatestDesignSnapshots(designs.map((design) => design.id));
+
+      const results = await Promise.all(
+        designs.map(async (design): Promise<RepriceEntry | null> => {
+          const material = design.material as Parameters<typeof getMaterialPrice>[1];
+          const snapshot = snapshots.get(design.id);
+          const metalChangePercent = snapshot
+            ? percentChange(
+                getMaterialPrice(snapshot.metalPrices, material),
+                getMaterialPrice(metalPrices, material)
+              )
+            : null;
+
+          if (metalChangePercent !== null && Math.abs(metalChangePercent) < thresholdPercent) {
+            return null;
+          }
+
+          const entry: RepriceEntry = {
+            designId: design.id,
+            name: design.name,
+            jewelryType: design.jewelryType,
+            material: design.material,
+            status: design.status,
+            inCart: cartDesignIds.has(design.id),
+            oldPrice: design.estimatedPrice,
+            newPrice: null,
+            priceChangePercent: null,
+            metalChangePercent,
+          };
+
+          try {
+            const pricing = await calculatePriceWithSnapshot(
+              designToPricingInput(design, { metalPrices, pricingConfig })
+            );
+
+            await prisma.design.update({
+              where: { id: design.id },
+              data: {
+                estimatedPrice: pricing.breakdown.total,
+                pricingConfigVersion: pricing.breakdown.metadata.configVersion,
+              },
+            });
+            await recordPricingSnapshot({ source: "bulk_reprice", designId: design.id, ...pricing });
+            if (entry.inCart) {
+              entry.quotesExpired = await expireDesignQuotes(design.id);
+            }
+
+            entry.newPrice = pricing.breakdown.total;
+            entry.priceChangePercent = design.estimatedPrice
+              ? percentChange(design.estimatedPrice, pricing.breakdown.total)
+              : null;
+          } catch (error) {
+            console.error(`[BulkReprice] Failed to reprice design ${design.id}:`, error);
+            entry.error = error instanceof Error ? error.message : "Unknown error";
+          }
+
+          return entry;
+        })
+      );
+
+      for (const entry of results) {
+        if (!entry) continue;
+        entries.push(entry);
+        if (entry.error) failed++;
+        else repriced++;
+      }
+
+      // Progress for admins watching a long run
+      await prisma.repriceRun.update({
+        where: { id: run.id },
+        data: { scanned, repriced, failed },
+      });
+    }
+
+    const completed = await prisma.repriceRun.update({
+      where: { id: run.id },
+      data: {
+        status: "completed",
+        scanned,
+        repriced,
+        failed,
+        entries: JSON.parse(JSON.stringify(entries)),
+        completedAt: new Date(),
+      },
+    });
+
+    console.log(`[BulkReprice] Run ${run.id}: ${repriced} repriced, ${failed} failed, ${scanned} scanned`);
+    return { success: true, run: toRepriceRun(completed) };
+  } catch (error) {
+    console.error("[BulkReprice] Run failed:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+
+    await prisma.repriceRun.update({
+      where: { id: run.id },
+      data: {
+        status: "failed",
+        scanned,
+        repriced,
+        failed,
+        entries: JSON.parse(JSON.stringify(entries)),
+        error: message,
+        completedAt: new Date(),
+      },
+    });
+
+    return { success: false, error: `Repricing failed: ${message}` };
+  }
+}
+
+/**
+ * Recent runs, newest first
+ */
+export async function listRepriceRuns(limit: number = 10): Promise<RepriceRun[]> {
+  const records = await prisma.repriceRun.findMany({
+    orderBy: { startedAt: "desc" },
+    take: limit,
+  });
+  return records.map(toRepriceRun);
+}
@@ -0,0 +1,139 @@
+/**
+ * Postgres Price Cache Store
+ *
+ * Keeps PriceCache entries in the PriceCacheEntry table so cached prices
+ * survive cold starts and are shared by every instance. Locks are rows in
+ * PriceCacheLock; the primary key makes acquiring one atomic.
+ *
+ * A failing database never breaks pricing: reads miss, writes are dropped
+ * and locks are granted, which degrades to fetching from upstream.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db/prisma";
+import type { CacheStore, StoredCacheEntry } from "./cache";
+
+// Dates survive the JSON column as { $date: ISO string }
+function encode(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(
+    JSON.stringify(value, function (this: Record<string, unknown>, key, item) {
+      const raw = this[key];
+      return raw instanceof Date ? { $date: raw.toISOString() } : item;
+    })
+  );
+}
+
+function decode<T>(value: Prisma.JsonValue): T {
+  return JSON.parse(JSON.stringify(value), (_key, item) =>
+    item && typeof item === "object" && typeof item.$date === "string" && Object.keys(item).length === 1
+      ? new Date(item.$date)
+      : item
+  );
+}
+
+export class PrismaCacheStore implements CacheStore {
+  async read<T>(key: string): Promise<StoredCacheEntry<T> | null> {
+    try {
+      const row = await prisma.priceCacheEntry.findUnique({ where: { key } });
+      if (!row) return null;
+
+      return {
+        data: decode<T>(row.data),
+        timestamp: row.timestamp.getTime(),
+        expiresAt: row.expiresAt.getTime(),
+      };
+    } catch (error) {
+      console.error(`[PriceCache] Failed to read ${key}:`, error);
+      return null;
+    }
+  }
+
+  async write<T>(key: string, entry: StoredCacheEntry<T>): Promise<void> {
+    const data = {
+      data: encode(entry.data),
+      timestamp: new Date(entry.timestamp),
+      expiresAt: new Date(entry.expiresAt),
+    };
+
+    try {
+      await prisma.priceCacheEntry.upsert({
+        where: { key },
+        create: { key, ...data },
+        update: data,
+      });
+    } catch (error) {
+      console.error(`[PriceCache] Failed to write ${key}:`, error);
+    }
+  }
+
+  async expire(key: string): Promise<void> {
+    try {
+      await prisma.priceCacheEntry.updateMany({
+        where: { key },
+        data: { expiresAt: new Date(0) },
+      });
+    } catch (error) {
+      console.error(`[PriceCache] Failed to expire ${key}:`, error);
+    }
+  }
+
+  async expireAll(): Promise<void> {
+    try {
+      await prisma.priceCacheEntry.updateMany({ data: { expiresAt: new Date(0) } });
+    } catch (error) {
+      console.error("[PriceCache] Failed to expire entries:", error);
+    }
+  }
+
+  async removeAll(): Promise<void> {
+    try {
+      await prisma.$transaction([
+        prisma.priceCacheEntry.deleteMany(),
+        prisma.priceCacheLock.deleteMany(),
+      ]);
+    } catch (error) {
+      console.error("[PriceCache] Failed to remove entries:", error);
+    }
+  }
+
+  async stats(): Promise<{ entries: number; fallbackEntries: number; oldestEntry: Date | null }> {
+    try {
+      const fresh = { expiresAt: { gte: new Date() } };
+      const [entries, fallbackEntries, oldest] = await Promise.all([
+        prisma.priceCacheEntry.count({ where: fresh }),
+        prisma.priceCacheEntry.count(),
+        prisma.priceCacheEntry.findFirst({ where: fresh, orderBy: { timestamp: "asc" } }),
+      ]);
+
+      return { entries, fallbackEntries, oldestEntry: oldest?.timestamp ?? null };
+    } catch (error) {
+      console.error("[PriceCache] Failed to read stats:", error);
+      return { entries: 0, fallbackEntries: 0, oldestEntry: null };
+    }
+  }
+
+  async acquireLock(key: string, ttlMs: number): Promise<boolean> {
+    const expiresAt = new Date(Date.now() + ttlMs);
+
+    try {
+      // Take over a lock whose holder died
+      await prisma.priceCacheLock.deleteMany({ where: { key, expiresAt: { lt: new Date() } } });
+      await prisma.priceCacheLock.create({ data: { key, expiresAt } });
+      return true;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        return false; // Someone else holds it
+      }
+      console.error(`[PriceCache] Failed to lock ${key}:`, error);
+      return true;
+    }
+  }
+
+  async releaseLock(key: string): Promise<void> {
+    try {
+      await prisma.priceCacheLock.deleteMany({ where: { key } });
+    } catch (error) {
+      console.error(`[PriceCache] Failed to unlock ${key}:`, error);
+    }
+  }
+}
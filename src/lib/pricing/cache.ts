@@ -1,14 +1,36 @@
 /**
  * Price Caching Layer
  *
- * In-memory cache with TTL support for pricing data.
+ * Cache with TTL support for pricing data, backed by a pluggable store:
+ * in-memory (per process) or Postgres via Prisma (survives cold starts and
+ * is shared across instances). Select with PRICE_CACHE_STORE=memory|postgres.
  * Provides fallback to last known prices if API fails.
  */
 
-interface CacheEntry<T> {
+import { PrismaCacheStore } from "./cache-prisma";
+
+/**
+ * A stored value - kept after it expires as the fallback value
+ */
+export interface StoredCacheEntry<T = unknown> {
   data: T;
-  timestamp: number;
-  expiresAt: number;
+  timestamp: number; // When the value was cached
+  expiresAt: number; // Fresh until (0 = expired, fallback only)
+}
+
+/**
+ * Storage backend for PriceCache
+ */
+export interface CacheStore {
+  read<T>(key: string): Promise<StoredCacheEntry<T> | null>; // Includes expired entries
+  write<T>(key: string, entry: StoredCacheEntry<T>): Promise<void>;
+  expire(key: string): Promise<void>; // Keep the value as fallback
+  expireAll(): Promise<void>;
+  removeAll(): Promise<void>;
+  stats(): Promise<{ entries: number; fallbackEntries: number; oldestEntry: Date | null }>;
+  // Stampede protection - only the lock holder calls upstream
+  acquireLock(key: string, ttlMs: number): Promise<boolean>;
+  releaseLock(key: string): Promise<void>;
 }
 
 interface CacheOptions {
@@ -17,93 +39,158 @@ interface CacheOptions {
 
 const DEFAULT_TTL = 60 * 60 * 1000; // 1 hour in milliseconds
 
-class PriceCache {
-  private cache: Map<string, CacheEntry<unknown>> = new Map();
-  private fallbackCache: Map<string, unknown> = new Map(); // Never expires, used when API fails
+// How long a fetch may hold the lock, and how long others wait for its result
+const LOCK_TTL_MS = 30 * 1000;
+const LOCK_WAIT_MS = 5 * 1000;
+const LOCK_POLL_MS = 250;
+
+/**
+ * Process-local store (the original behaviour)
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries: Map<string, StoredCacheEntry> = new Map();
+  private locks: Map<string, number> = new Map();
+
+  async read<T>(key: string): Promise<StoredCacheEntry<T> | null> {
+    return (this.entries.get(key) as StoredCacheEntry<T> | undefined) ?? null;
+  }
+
+  async write<T>(key: string, entry: StoredCacheEntry<T>): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async expire(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.set(key, { ...entry, expiresAt: 0 });
+    }
+  }
+
+  async expireAll(): Promise<void> {
+    for (const key of this.entries.keys()) {
+      await this.expire(key);
+    }
+  }
+
+  async removeAll(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async stats(): Promise<{ entries: number; fallbackEntries: number; oldestEntry: Date | null }> {
+    const now = Date.now();
+    let fresh = 0;
+    let oldestTimestamp: number | null = null;
+
+    for (const [, entry] of this.entries) {
+      if (entry.expiresAt < now) continue;
+      fresh++;
+      if (oldestTimestamp === null || entry.timestamp < oldestTimestamp) {
+        oldestTimestamp = entry.timestamp;
+      }
+    }
+
+    return {
+      entries: fresh,
+      fallbackEntries: this.entries.size,
+      oldestEntry: oldestTimestamp ? new Date(oldestTimestamp) : null,
+    };
+  }
+
+  async acquireLock(key: string, ttlMs: number): Promise<boolean> {
+    const lockedUntil = this.locks.get(key);
+    if (lockedUntil && lockedUntil > Date.now()) {
+      return false;
+    }
+    this.locks.set(key, Date.now() + ttlMs);
+    return true;
+  }
+
+  async releaseLock(key: string): Promise<void> {
+    this.locks.delete(key);
+  }
+}
+
+export class PriceCache {
+  constructor(private store: CacheStore) {}
 
   /**
-   * Get a cached value if it exists and hasn't expired
+   * Get a cached value with the time it was cached, if it hasn't expired
    */
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key) as CacheEntry<T> | undefined;
+  async getEntry<T>(key: string): Promise<{ data: T; timestamp: Date } | null> {
+    const entry = await this.store.read<T>(key);
 
-    if (!entry) {
+    if (!entry || Date.now() > entry.expiresAt) {
+      // Missing or expired (an expired value stays available as fallback)
       return null;
     }
 
-    if (Date.now() > entry.expiresAt) {
-      // Entry has expired, but keep it in fallback
-      this.cache.delete(key);
-      return null;
-    }
+    return { data: entry.data, timestamp: new Date(entry.timestamp) };
+  }
 
-    return entry.data;
+  /**
+   * Get a cached value if it exists and hasn't expired
+   */
+  async get<T>(key: string): Promise<T | null> {
+    const entry = await this.getEntry<T>(key);
+    return entry ? entry.data : null;
   }
 
   /**
    * Set a value in the cache with optional TTL
    */
-  set<T>(key: string, data: T, options?: CacheOptions): void {
+  async set<T>(key: string, data: T, options?: CacheOptions): Promise<void> {
     const ttlMs = options?.ttlMs ?? DEFAULT_TTL;
     const now = Date.now();
 
-    const entry: CacheEntry<T> = {
+    await this.store.write(key, {
       data,
       timestamp: now,
       expiresAt: now + ttlMs,
-    };
-
-    this.cache.set(key, entry);
-    // Also store in fallback cache
-    this.fallbackCache.set(key, data);
+    });
   }
 
   /**
    * Get fallback data (never expires, used when API fails)
    */
-  getFallback<T>(key: string): T | null {
-    return (this.fallbackCache.get(key) as T) ?? null;
+  async getFallback<T>(key: string): Promise<T | null> {
+    const entry = await this.store.read<T>(key);
+    return entry ? entry.data : null;
   }
 
   /**
    * Check if a key exists and is not expired
    */
-  has(key: string): boolean {
-    const entry = this.cache.get(key);
-    if (!entry) return false;
-    return Date.now() <= entry.expiresAt;
+  async has(key: string): Promise<boolean> {
+    return (await this.getEntry(key)) !== null;
   }
 
   /**
    * Check if a key exists in fallback (even if expired)
    */
-  hasFallback(key: string): boolean {
-    return this.fallbackCache.has(key);
+  async hasFallback(key: string): Promise<boolean> {
+    return (await this.store.read(key)) !== null;
   }
 
   /**
-   * Get the timestamp when the cache entry was set
+   * Get the timestamp when the (unexpired) cache entry was set
    */
-  getTimestamp(key: string): Date | null {
-    const entry = this.cache.get(key);
-    if (!entry) {
-      return null;
-    }
-    return new Date(entry.timestamp);
+  async getTimestamp(key: string): Promise<Date | null> {
+    const entry = await this.getEntry(key);
+    return entry ? entry.timestamp : null;
   }
 
   /**
    * Check if cached data is fresh (within TTL)
    */
-  isFresh(key: string): boolean {
+  async isFresh(key: string): Promise<boolean> {
     return this.has(key);
   }
 
   /**
    * Get remaining TTL in milliseconds
    */
-  getRemainingTtl(key: string): number {
-    const entry = this.cache.get(key);
+  async getRemainingTtl(key: string): Promise<number> {
+    const entry = await this.store.read(key);
     if (!entry) return 0;
 
     const remaining = entry.expiresAt - Date.now();
@@ -113,53 +200,58 @@ class PriceCache {
   /**
    * Clear a specific key from cache
    */
-  delete(key: string): void {
-    this.cache.delete(key);
-    // Don't delete from fallback - we want to keep last known values
+  async delete(key: string): Promise<void> {
+    // Don't delete the value - we want to keep last known values as fallback
+    await this.store.expire(key);
   }
 
   /**
    * Clear all cache entries
    */
-  clear(): void {
-    this.cache.clear();
-    // Don't clear fallback cache
+  async clear(): Promise<void> {
+    // Don't clear fallback values
+    await this.store.expireAll();
   }
 
   /**
    * Clear everything including fallback
    */
-  clearAll(): void {
-    this.cache.clear();
-    this.fallbackCache.clear();
+  async clearAll(): Promise<void> {
+    await this.store.removeAll();
   }
 
   /**
    * Get cache statistics
    */
-  getStats(): {
+  async getStats(): Promise<{
     entries: number;
     fallbackEntries: number;
     oldestEntry: Date | null;
-  } {
-    let oldestTimestamp: number | null = null;
+  }> {
+    return this.store.stats();
+  }
 
-    for (const [, entry] of this.cache) {
-      if (oldestTimestamp === null || entry.timestamp < oldestTimestamp) {
-        oldestTimestamp = entry.timestamp;
-      }
-    }
+  /**
+   * Claim the right to fetch a key from upstream
+   */
+  async lock(key: string, ttlMs: number = LOCK_TTL_MS): Promise<boolean> {
+    return this.store.acquireLock(key, ttlMs);
+  }
 
-    return {
-      entries: this.cache.size,
-      fallbackEntries: this.fallbackCache.size,
-      oldestEntry: oldestTimestamp ? new Date(oldestTimestamp) : null,
-    };
+  async unlock(key: string): Promise<void> {
+    await this.store.releaseLock(key);
+  }
+}
+
+function createCacheStore(): CacheStore {
+  if (process.env.PRICE_CACHE_STORE === "postgres") {
+    return new PrismaCacheStore();
   }
+  return new MemoryCacheStore();
 }
 
 // Singleton instance for the application
-export const priceCache = new PriceCache();
+export const priceCache = new PriceCache(createCacheStore());
 
 // Cache keys
 export const CACHE_KEYS = {
@@ -167,6 +259,12 @@ export const CACHE_KEYS = {
   DIAMOND_PRICES: (specs: string) => `diamond_prices_${specs}`,
   LABOR_ESTIMATE: (hash: string) => `labor_estimate_${hash}`,
   EXCHANGE_RATE: "exchange_rate_usd_ils",
+  PRICING_CONFIG: "pricing_config_active",
+  GEMSTONE_PRICES: "gemstone_prices_active",
+  MESH_VOLUME: (model: string) => `mesh_volume_${hashString(model)}`,
+  LABOR_CALIBRATION: "labor_calibration",
+  SHIPPING_TAX_RULES: "shipping_tax_rules_active",
+  PAYMENT_TERMS: "payment_terms_active",
 } as const;
 
 // TTL constants
@@ -175,31 +273,76 @@ export const TTL = {
   DIAMONDS: 60 * 60 * 1000, // 1 hour
   EXCHANGE_RATE: 60 * 60 * 1000, // 1 hour
   LABOR: 24 * 60 * 60 * 1000, // 24 hours (labor estimates change less frequently)
+  PRICING_CONFIG: 5 * 60 * 1000, // 5 minutes (picks up scheduled versions promptly)
+  GEMSTONES: 5 * 60 * 1000, // 5 minutes (admin edits apply quickly)
+  MESH_VOLUME: 24 * 60 * 60 * 1000, // 24 hours (a generated model never changes)
+  CALIBRATION: 60 * 60 * 1000, // 1 hour (cleared when actuals are recorded)
+  SHIPPING_TAX: 5 * 60 * 1000, // 5 minutes (admin edits apply quickly)
+  PAYMENT_TERMS: 5 * 60 * 1000, // 5 minutes (admin edits apply quickly)
 } as const;
 
+export interface CachedResult<T> {
+  data: T;
+  isCached: boolean;
+  isFallback: boolean;
+  timestamp: Date | null;
+}
+
+// Fetches in progress in this process, shared by concurrent callers
+const inflight: Map<string, Promise<CachedResult<unknown>>> = new Map();
+
 /**
  * Helper to get cached data with automatic fallback
+ *
+ * Concurrent misses for the same key share one upstream call: within a
+ * process through the in-flight map, across instances through the store's
+ * lock (callers that lose the lock wait briefly for the winner's result).
  */
 export async function getCachedOrFetch<T>(
   key: string,
   fetchFn: () => Promise<T>,
   ttlMs: number = DEFAULT_TTL
-): Promise<{ data: T; isCached: boolean; isFallback: boolean; timestamp: Date | null }> {
+): Promise<CachedResult<T>> {
   // Try to get from cache first
-  const cached = priceCache.get<T>(key);
+  const cached = await priceCache.getEntry<T>(key);
   if (cached !== null) {
     return {
-      data: cached,
+      data: cached.data,
       isCached: true,
       isFallback: false,
-      timestamp: priceCache.getTimestamp(key),
+      timestamp: cached.timestamp,
     };
   }
 
+  const pending = inflight.get(key) as Promise<CachedResult<T>> | undefined;
+  if (pending) {
+    return pending;
+  }
+
+  const request = fetchOnce(key, fetchFn, ttlMs).finally(() => inflight.delete(key));
+  inflight.set(key, request);
+  return request;
+}
+
+async function fetchOnce<T>(
+  key: string,
+  fetchFn: () => Promise<T>,
+  ttlMs: number
+): Promise<CachedResult<T>> {
+  const locked = await priceCache.lock(key);
+
+  if (!locked) {
+    // Another instance is fetching - use its result if it arrives in time
+    const waited = await waitForEntry<T>(key);
+    if (waited) {
+      return { data: waited.data, isCached: true, isFallback: false, timestamp: waited.timestamp };
+    }
+  }
+
   // Try to fetch fresh data
   try {
     const freshData = await fetchFn();
-    priceCache.set(key, freshData, { ttlMs });
+    await priceCache.set(key, freshData, { ttlMs });
     return {
       data: freshData,
       isCached: false,
@@ -208,7 +351,7 @@ export async function getCachedOrFetch<T>(
     };
   } catch (error) {
     // If fetch fails, try fallback
-    const fallback = priceCache.getFallback<T>(key);
+    const fallback = await priceCache.getFallback<T>(key);
     if (fallback !== null) {
       console.warn(`[PriceCache] Using fallback for ${key} due to fetch error:`, error);
       return {
@@ -221,9 +364,27 @@ export async function getCachedOrFetch<T>(
 
     // No fallback available, re-throw the error
     throw error;
+  } finally {
+    if (locked) {
+      await priceCache.unlock(key);
+    }
   }
 }
 
+async function waitForEntry<T>(key: string): Promise<{ data: T; timestamp: Date } | null> {
+  const deadline = Date.now() + LOCK_WAIT_MS;
+
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS));
+    const entry = await priceCache.getEntry<T>(key);
+    if (entry) {
+      return entry;
+    }
+  }
+
+  return null;
+}
+
 /**
  * Create a hash from a string (for cache keys)
  */
@@ -3,15 +3,37 @@
  *
  * Comprehensive pricing system that integrates:
  * - Real-time metal prices from MetalPriceAPI
- * - Diamond/gemstone prices from OpenFacet
- * - AI-powered labor estimation via Claude
- * - Configurable margins and overhead
+ * - Diamond prices from OpenFacet, coloured gemstones from species tables
+ * - AI-powered labor estimation via Claude, calibrated against recorded production
+ * - Configurable margins and overhead (versioned pricing rules)
  */
 
 import { getMetalPricesSafe, getMaterialPrice, type MetalPrices } from "./metals-api";
-import { calculateStonesTotal, type DiamondSizeCategory } from "./diamonds-api";
+import { calculateStonesTotal, sizeToCaratEstimate, type DiamondSizeCategory } from "./diamonds-api";
+import {
+  priceFromGemstoneTable,
+  DEFAULT_GEMSTONE_PRICES,
+  type StoneType,
+  type StoneQuality,
+  type GemstoneTreatment,
+} from "./gemstones";
+import { DEFAULT_USD_TO_ILS } from "./exchange-rate";
+import { labGrownPriceRatio, type DiamondOrigin } from "./stone-origin";
 import { estimateLabor, quickLaborEstimate, type LaborEstimate, type ComplexityLevel } from "./labor-estimator";
 import { analyzeJewelryImage, analysisToStones, getVolumeAdjustment, type ImageAnalysisResult } from "./image-analyzer";
+import {
+  getActivePricingConfig,
+  DEFAULT_PRICING_RULES,
+  type PricingRules,
+  type PricingConfigVersion,
+} from "./config";
+import { parseJewelrySize, sizeVolumeFactor, type JewelrySize } from "./sizes";
+import {
+  getLaborCalibration,
+  laborCorrection,
+  type LaborCalibration,
+  type LaborCorrection,
+} from "./labor-calibration";
 
 // Material densities in g/cm³
 export const MATERIAL_DENSITIES: Record<string, number> = {
@@ -22,28 +44,15 @@ export const MATERIAL_DENSITIES: Record<string, number> = {
   platinum: 21.45,
 };
 
-// Base volumes for jewelry types (cm³)
-const BASE_VOLUMES: Record<string, number> = {
-  ring: 0.8,
-  necklace: 3.5,
-  bracelet: 2.5,
-  earrings: 0.6, // Per pair
-};
-
-// Size multipliers
-const SIZE_MULTIPLIERS: Record<string, number> = {
-  small: 0.7,
-  medium: 1.0,
-  large: 1.4,
-};
-
 /**
  * Stone specification for pricing
  */
 export interface Stone {
-  type: "diamond" | "sapphire" | "ruby" | "emerald";
+  type: StoneType;
   size: DiamondSizeCategory | number;
-  quality?: "economy" | "standard" | "premium" | "luxury";
+  quality?: StoneQuality;
+  treatment?: GemstoneTreatment; // Coloured gemstones only - defaults to the species' typical treatment
+  origin?: DiamondOrigin; // Diamonds only - natural unless stated
   quantity: number;
 }
 
@@ -54,13 +63,18 @@ export interface PricingInput {
   material: "gold_14k" | "gold_18k" | "gold_24k" | "silver" | "platinum";
   jewelryType: "ring" | "necklace" | "bracelet" | "earrings";
   description: string;
-  volumeCm3?: number; // Optional: if known from 3D model
+  volumeCm3?: number; // Optional: if known from 3D model (preferred over estimates)
   size?: "small" | "medium" | "large";
+  jewelrySize?: JewelrySize; // Ring size, chain length or wrist size (scales the metal volume)
   stones?: Stone[];
+  diamondOrigin?: DiamondOrigin; // Applies to every diamond in the piece (studio toggle)
   complexity?: ComplexityLevel;
-  marginMultiplier?: number; // Default 1.8 for online D2C (was 2.5)
+  marginMultiplier?: number; // Default from pricing rules (1.8 for online D2C)
   includeAIEstimate?: boolean; // Use Claude for labor estimation
   imageUrl?: string; // Optional: image URL for vision-based analysis
+  pricingConfig?: PricingConfigVersion; // Optional: override the active rules (e.g. draft preview)
+  metalPrices?: MetalPrices; // Optional: price against a fixed snapshot (e.g. signed quotes)
+  laborCalibration?: LaborCalibration | null; // Optional: override the production calibration (null = uncorrected)
 }
 
 /**
@@ -69,6 +83,9 @@ export interface PricingInput {
 export interface PricingBreakdown {
   // Material costs
   materials: {
+    volumeCm3: number;
+    volumeSource: "model" | "vision" | "estimate"; // Measured mesh, vision-adjusted or per-type estimate
+    sizeFactor: number; // Volume scaling for the selected ring/chain/wrist size
     weightGrams: number;
     pricePerGram: number;
     wasteFactor: number;
@@ -79,10 +96,13 @@ export interface PricingBreakdown {
   stones: {
     items: Array<{
       type: string;
+      treatment?: GemstoneTreatment;
+      origin?: DiamondOrigin;
       quantity: number;
       unitPrice: number;
       total: number;
     }>;
+    specs: Stone[]; // Stones as priced (provided or detected), stored on the design
     subtotal: number;
   };
 
@@ -125,11 +145,16 @@ export interface PricingBreakdown {
     designFeatures: string[];
   };
 
+  // Correction from recorded production actuals (omitted when none applied)
+  calibration?: LaborCorrection;
+
   // Metadata
   metadata: {
     currency: "ILS";
     metalPricesSource: "live" | "cached" | "fallback";
+    metalPricesProvider: string; // Provider that supplied the metal prices
     laborSource: "ai" | "rules" | "vision";
+    configVersion: number; // PricingConfig version that produced this price (0 = defaults)
     calculatedAt: Date;
   };
 }
@@ -150,12 +175,60 @@ export interface LegacyPricingBreakdown {
 /**
  * Estimate volume based on jewelry type and size
  */
-export function estimateVolume(jewelryType: string, size: string = "medium"): number {
-  const baseVolume = BASE_VOLUMES[jewelryType] || BASE_VOLUMES.ring;
-  const multiplier = SIZE_MULTIPLIERS[size] || SIZE_MULTIPLIERS.medium;
+export function estimateVolume(
+  jewelryType: string,
+  size: string = "medium",
+  rules: PricingRules = DEFAULT_PRICING_RULES
+): number {
+  const baseVolume = rules.baseVolumes[jewelryType] || rules.baseVolumes.ring;
+  const multiplier = rules.sizeMultipliers[size] || rules.sizeMultipliers.medium;
   return baseVolume * multiplier;
 }
 
+/**
+ * Build a deterministic (non-AI) pricing input from a stored design
+ *
+ * Used wherever a saved design must be priced consistently:
+ * checkout repricing, signed quotes and rule previews.
+ */
+export function designToPricingInput(
+  design: {
+    material: string;
+    jewelryType: string;
+    prompt: string;
+    volumeCm3: number | null;
+    jewelrySize?: string | null;
+    stones: unknown;
+    complexity: string;
+  },
+  overrides: Partial<PricingInput> = {}
+): PricingInput {
+  const parsedSize = parseJewelrySize(design.jewelryType, design.jewelrySize);
+
+  return {
+    material: design.material as PricingInput["material"],
+    jewelryType: design.jewelryType as PricingInput["jewelryType"],
+    description: design.prompt,
+    volumeCm3: design.volumeCm3 ?? undefined,
+    size: "medium",
+    jewelrySize: parsedSize.success ? (parsedSize.size ?? undefined) : undefined,
+    stones: (design.stones as unknown as Stone[]) || [],
+    complexity: design.complexity as ComplexityLevel,
+    includeAIEstimate: false,
+    ...overrides,
+  };
+}
+
+/**
+ * Set the origin on every diamond - the piece-wide choice wins,
+ * then the stone's own origin, then natural
+ */
+export function applyDiamondOrigin(stones: Stone[], origin?: DiamondOrigin): Stone[] {
+  return stones.map((stone) =>
+    stone.type === "diamond" ? { ...stone, origin: origin ?? stone.origin ?? "natural" } : stone
+  );
+}
+
 /**
  * Calculate comprehensive price with real-time data
  * 
@@ -186,24 +259,38 @@ export async function calculatePriceAdvanced(
     }
   }
 
-  // 1. Get real-time metal prices
-  const metalPrices = await getMetalPricesSafe();
+  // 1. Get real-time metal prices and the pricing rules in effect
+  const [metalPrices, pricingConfig, calibration] = await Promise.all([
+    input.metalPrices ? Promise.resolve(input.metalPrices) : getMetalPricesSafe(),
+    input.pricingConfig ? Promise.resolve(input.pricingConfig) : getActivePricingConfig(),
+    input.laborCalibration !== undefined ? Promise.resolve(input.laborCalibration) : getLaborCalibration(),
+  ]);
+  const rules = pricingConfig.rules;
 
   // 2. Calculate material cost
-  // Use image analysis for volume if available, otherwise estimate
-  let volumeCm3 = input.volumeCm3 || estimateVolume(input.jewelryType, input.size);
+  // Prefer the volume measured from the 3D model; otherwise estimate,
+  // adjusted by image analysis if available
+  // A specific size replaces the generic small/medium/large estimate
+  let volumeCm3 =
+    input.volumeCm3 || estimateVolume(input.jewelryType, input.jewelrySize ? "medium" : input.size, rules);
+  let volumeSource: PricingBreakdown["materials"]["volumeSource"] = input.volumeCm3 ? "model" : "estimate";
   
-  if (imageAnalysis) {
+  if (imageAnalysis && !input.volumeCm3) {
     // Apply volume adjustment from image analysis
     const volumeAdjustment = getVolumeAdjustment(imageAnalysis);
     volumeCm3 = volumeCm3 * volumeAdjustment;
+    volumeSource = "vision";
   }
   
+  // Scale the reference piece to the selected size
+  const sizeFactor = input.jewelrySize ? sizeVolumeFactor(input.jewelrySize) : 1;
+  volumeCm3 = volumeCm3 * sizeFactor;
+  
   const density = MATERIAL_DENSITIES[input.material] || MATERIAL_DENSITIES.gold_18k;
-  const weightGrams = volumeCm3 * density;
+  let weightGrams = volumeCm3 * density;
   const pricePerGram = getMaterialPrice(metalPrices, input.material);
-  const wasteFactor = 1.15; // 15% waste/loss in manufacturing
-  const materialCost = weightGrams * pricePerGram * wasteFactor;
+  const wasteFactor = rules.wasteFactor; // Waste/loss in manufacturing
+  let materialCost = weightGrams * pricePerGram * wasteFactor;
 
   // 3. Calculate stone costs
   // Use stones detected from image if available, otherwise use provided stones
@@ -220,6 +307,7 @@ export async function calculatePriceAdvanced(
       stonesToCalculate = detectedStones;
     }
   }
+  stonesToCalculate = applyDiamondOrigin(stonesToCalculate, input.diamondOrigin);
 
   if (stonesToCalculate.length > 0) {
     const stonesResult = await calculateStonesTotal(
@@ -227,6 +315,8 @@ export async function calculatePriceAdvanced(
         type: s.type,
         size: s.size,
         quality: s.quality,
+        treatment: s.treatment,
+        origin: s.origin,
         quantity: s.quantity,
       }))
     );
@@ -234,6 +324,8 @@ export async function calculatePriceAdvanced(
     stoneBreakdown.push(
       ...stonesResult.breakdown.map((b) => ({
         type: b.type,
+        treatment: b.treatment,
+        origin: b.origin,
         quantity: b.quantity,
         unitPrice: b.unitPriceILS,
         total: b.totalILS,
@@ -247,13 +339,7 @@ export async function calculatePriceAdvanced(
   
   if (imageAnalysis && imageAnalysis.confidence >= 0.5) {
     // Use image-based labor estimate
-    const hourlyRates: Record<string, number> = {
-      simple: 150,
-      moderate: 200,
-      complex: 280,
-      master: 400,
-    };
-    const hourlyRate = hourlyRates[imageAnalysis.complexity] || hourlyRates.moderate;
+    const hourlyRate = rules.hourlyRates[imageAnalysis.complexity] || rules.hourlyRates.moderate;
     
     laborEstimate = {
       hours: imageAnalysis.estimatedLaborHours,
@@ -272,7 +358,7 @@ export async function calculatePriceAdvanced(
         material: input.material,
         hasStones: stonesToCalculate.length > 0,
         stoneCount: stonesToCalculate.reduce((sum, s) => sum + s.quantity, 0),
-      });
+      }, rules);
       laborSource = "ai";
     } catch {
       // Fallback to quick estimate
@@ -280,7 +366,8 @@ export async function calculatePriceAdvanced(
       const quick = quickLaborEstimate(
         input.jewelryType,
         complexity,
-        stonesToCalculate.length > 0
+        stonesToCalculate.length > 0,
+        rules
       );
       laborEstimate = {
         hours: quick.hours,
@@ -298,7 +385,8 @@ export async function calculatePriceAdvanced(
     const quick = quickLaborEstimate(
       input.jewelryType,
       complexity,
-      stonesToCalculate.length > 0
+      stonesToCalculate.length > 0,
+      rules
     );
     laborEstimate = {
       hours: quick.hours,
@@ -311,14 +399,29 @@ export async function calculatePriceAdvanced(
     };
   }
 
-  // 5. Calculate overhead (15%)
-  const overheadPercentage = 0.15;
+  // 4b. Correct weight and hours with recorded production actuals. A volume
+  // measured from the mesh is not an estimate, so its weight is left as is
+  // (and stays consistent with the volume in the breakdown).
+  const calibrated = laborCorrection(calibration, input.jewelryType, laborEstimate.complexity);
+  const correction = volumeSource === "model" ? { ...calibrated, weightFactor: 1 } : calibrated;
+  if (correction.scope !== "none") {
+    weightGrams = weightGrams * correction.weightFactor;
+    materialCost = weightGrams * pricePerGram * wasteFactor;
+    laborEstimate = {
+      ...laborEstimate,
+      hours: Math.round(laborEstimate.hours * correction.laborFactor * 100) / 100,
+      totalLaborILS: Math.round(laborEstimate.totalLaborILS * correction.laborFactor),
+    };
+  }
+
+  // 5. Calculate overhead
+  const overheadPercentage = rules.overheadPercentage;
   const subtotalBeforeOverhead = materialCost + stoneCost + laborEstimate.totalLaborILS;
   const overhead = subtotalBeforeOverhead * overheadPercentage;
 
   // 6. Calculate total cost and margin
   const costSubtotal = subtotalBeforeOverhead + overhead;
-  const marginMultiplier = input.marginMultiplier ?? 1.8; // 80% margin for online D2C
+  const marginMultiplier = input.marginMultiplier ?? rules.marginMultiplier;
   const margin = costSubtotal * (marginMultiplier - 1);
   const total = costSubtotal + margin;
 
@@ -335,6 +438,9 @@ export async function calculatePriceAdvanced(
 
   return {
     materials: {
+      volumeCm3: Math.round(volumeCm3 * 1000) / 1000,
+      volumeSource,
+      sizeFactor: Math.round(sizeFactor * 1000) / 1000,
       weightGrams: Math.round(weightGrams * 100) / 100,
       pricePerGram: Math.round(pricePerGram * 100) / 100,
       wasteFactor,
@@ -342,6 +448,7 @@ export async function calculatePriceAdvanced(
     },
     stones: {
       items: stoneBreakdown,
+      specs: stonesToCalculate,
       subtotal: Math.round(stoneCost),
     },
     labor: {
@@ -380,10 +487,13 @@ export async function calculatePriceAdvanced(
         ],
       },
     }),
+    ...(correction.scope !== "none" && { calibration: correction }),
     metadata: {
       currency: "ILS",
-      metalPricesSource: metalPrices.source,
+      metalPricesSource: metalPrices.source.status,
+      metalPricesProvider: metalPrices.source.provider,
       laborSource,
+      configVersion: pricingConfig.version,
       calculatedAt: new Date(),
     },
   };
@@ -404,7 +514,8 @@ export async function calculatePrice(input: {
 }): Promise<LegacyPricingBreakdown> {
   // If goldPricePerGram is provided, use simple calculation (for tests/mocks)
   if (input.goldPricePerGram) {
-    return calculatePriceSimple(input as PricingInputSimple);
+    const { rules } = await getActivePricingConfig();
+    return calculatePriceSimple(input as PricingInputSimple, rules);
   }
 
   // Use advanced calculation
@@ -441,7 +552,10 @@ interface PricingInputSimple {
   goldPricePerGram: number;
 }
 
-function calculatePriceSimple(input: PricingInputSimple): LegacyPricingBreakdown {
+function calculatePriceSimple(
+  input: PricingInputSimple,
+  rules: PricingRules = DEFAULT_PRICING_RULES
+): LegacyPricingBreakdown {
   // Calculate material cost
   const density = MATERIAL_DENSITIES[input.material] || MATERIAL_DENSITIES.gold_18k;
   const weightGrams = input.volumeCm3 * density;
@@ -457,7 +571,7 @@ function calculatePriceSimple(input: PricingInputSimple): LegacyPricingBreakdown
 
   const multiplier = materialPriceMultipliers[input.material] || 1.0;
   const materialCostPerGram = input.goldPricePerGram * multiplier;
-  const materialCost = weightGrams * materialCostPerGram * 1.15;
+  const materialCost = weightGrams * materialCostPerGram * rules.wasteFactor;
 
   // Calculate stone cost (simplified)
   const DIAMOND_PRICES: Record<string, number> = {
@@ -469,10 +583,23 @@ function calculatePriceSimple(input: PricingInputSimple): LegacyPricingBreakdown
   };
 
   const stoneCost = input.stones.reduce((total, stone) => {
+    if (stone.type !== "diamond") {
+      // Built-in gemstone tables at the default exchange rate (no lookups here)
+      const { totalPrice } = priceFromGemstoneTable(DEFAULT_GEMSTONE_PRICES, {
+        species: stone.type,
+        carat: typeof stone.size === "number" ? stone.size : sizeToCaratEstimate(stone.size),
+        quality: stone.quality,
+        treatment: stone.treatment,
+      });
+      return total + totalPrice * DEFAULT_USD_TO_ILS * stone.quantity;
+    }
+
     const sizeKey = typeof stone.size === "string" ? stone.size : "small";
     const basePrice = DIAMOND_PRICES[sizeKey] || DIAMOND_PRICES.small;
-    const stoneMultiplier = stone.type === "diamond" ? 1.0 : 0.6;
-    return total + basePrice * stoneMultiplier * stone.quantity;
+    const originMultiplier = stone.origin === "lab_grown"
+      ? labGrownPriceRatio(typeof stone.size === "number" ? stone.size : sizeToCaratEstimate(stone.size))
+      : 1.0;
+    return total + basePrice * originMultiplier * stone.quantity;
   }, 0);
 
   // Calculate labor cost
@@ -496,7 +623,7 @@ function calculatePriceSimple(input: PricingInputSimple): LegacyPricingBreakdown
 
   // Calculate totals
   const subtotal = materialCost + stoneCost + laborCost;
-  const marginMultiplier = 1.8; // 80% margin for online D2C
+  const marginMultiplier = rules.marginMultiplier;
   const margin = subtotal * (marginMultiplier - 1);
   const total = subtotal + margin;
 
@@ -545,3 +672,4 @@ export function formatPriceRange(low: number, high: number, currency: string = "
 export type { MetalPrices } from "./metals-api";
 export type { LaborEstimate, ComplexityLevel } from "./labor-estimator";
 export type { DiamondSizeCategory, DiamondSpecs, DiamondPrice } from "./diamonds-api";
+export type { PricingRules, PricingConfigVersion } from "./config";
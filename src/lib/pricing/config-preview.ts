@@ -0,0 +1,98 @@
+/**
+ * Pricing Rules Preview
+ *
+ * Shows how a draft set of pricing rules would change the price of
+ * existing designs before it is published. Uses the fast, non-AI
+ * calculation path so a preview never triggers Claude calls.
+ */
+
+import { prisma } from "@/lib/db/prisma";
+import { calculatePriceAdvanced, designToPricingInput } from "./calculator";
+import { getActivePricingConfig, draftPricingConfig, type PricingRules, type PricingConfigVersion } from "./config";
+
+/**
+ * Per-design comparison between the active and draft rules
+ */
+export interface PricingPreviewItem {
+  designId: string;
+  name: string | null;
+  jewelryType: string;
+  material: string;
+  storedPrice: number | null; // estimatedPrice currently saved on the design
+  activePrice: number; // Recomputed with the active rules
+  draftPrice: number; // Recomputed with the draft rules
+  delta: number;
+  deltaPercent: number;
+}
+
+export interface PricingPreview {
+  activeVersion: number;
+  items: PricingPreviewItem[];
+  summary: {
+    designs: number;
+    totalActive: number;
+    totalDraft: number;
+    averageDeltaPercent: number;
+  };
+}
+
+type PreviewDesign = Parameters<typeof designToPricingInput>[0];
+
+function priceDesign(design: PreviewDesign, pricingConfig: PricingConfigVersion) {
+  return calculatePriceAdvanced(designToPricingInput(design, { pricingConfig }));
+}
+
+/**
+ * Compare the active rules with a draft on the most recent designs
+ */
+export async function previewPricingRules(
+  rules: PricingRules,
+  options: { limit?: number } = {}
+): Promise<PricingPreview> {
+  const activeConfig = await getActivePricingConfig();
+  const draftConfig = draftPricingConfig(rules);
+
+  const designs = await prisma.design.findMany({
+    orderBy: { updatedAt: "desc" },
+    take: options.limit ?? 25,
+  });
+
+  const items = await Promise.all(
+    designs.map(async (design): Promise<PricingPreviewItem> => {
+      const [active, draft] = await Promise.all([
+        priceDesign(design, activeConfig),
+        priceDesign(design, draftConfig),
+      ]);
+
+      const delta = draft.total - active.total;
+      return {
+        designId: design.id,
+        name: design.name,
+        jewelryType: design.jewelryType,
+        material: design.material,
+        storedPrice: design.estimatedPrice,
+        activePrice: active.total,
+        draftPrice: draft.total,
+        delta,
+        deltaPercent: active.total > 0 ? Math.round((delta / active.total) * 1000) / 10 : 0,
+      };
+    })
+  );
+
+  const totalActive = items.reduce((sum, item) => sum + item.activePrice, 0);
+  const totalDraft = items.reduce((sum, item) => sum + item.draftPrice, 0);
+
+  return {
+    activeVersion: activeConfig.version,
+    items,
+    summary: {
+      designs: items.length,
+      totalActive,
+      totalDraft,
+      averageDeltaPercent:
+        items.length > 0
+          ? Math.round((items.reduce((sum, item) => sum + item.deltaPercent, 0) / items.length) * 10) / 10
+          : 0,
+    },
+  };
+}
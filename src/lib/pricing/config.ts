@@ -0,0 +1,250 @@
+/**
+ * Pricing Rules Configuration
+ *
+ * Versioned, admin-editable pricing rules stored in the PricingConfig table.
+ * Every change creates a new version with an effective date; the calculator
+ * always uses the latest version whose effective date has passed.
+ * Falls back to the built-in defaults when the database is unavailable.
+ */
+
+import { Prisma, type PricingConfig } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/db/prisma";
+import { priceCache, CACHE_KEYS, TTL } from "./cache";
+import type { ComplexityLevel } from "./labor-estimator";
+
+// PricingConfig key holding the calculator rules
+export const PRICING_RULES_KEY = "pricing_rules";
+
+// Saves racing for the same version number before one gives up
+const MAX_VERSION_ATTEMPTS = 3;
+
+/**
+ * Rules consumed by the calculator and labor estimator
+ */
+export interface PricingRules {
+  wasteFactor: number; // Metal loss in casting/finishing (1.15 = 15%)
+  overheadPercentage: number; // Fraction of direct costs (0.15 = 15%)
+  marginMultiplier: number; // Applied to cost subtotal (1.8 = 80% margin)
+  hourlyRates: Record<ComplexityLevel, number>; // ILS per bench hour
+  baseHours: Record<string, number>; // Base labor hours by jewelry type
+  baseVolumes: Record<string, number>; // Base metal volume by jewelry type (cm³)
+  sizeMultipliers: Record<string, number>; // Volume multiplier by size
+}
+
+/**
+ * A stored version of the pricing rules
+ */
+export interface PricingConfigVersion {
+  version: number; // 0 = built-in defaults
+  rules: PricingRules;
+  effectiveAt: Date;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  source: "database" | "default" | "draft";
+}
+
+// Built-in defaults (used until an admin publishes a version)
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  wasteFactor: 1.15,
+  overheadPercentage: 0.15,
+  marginMultiplier: 1.8,
+  hourlyRates: {
+    simple: 150, // Simple, standard pieces
+    moderate: 200, // Some custom work
+    complex: 280, // Significant custom craftsmanship
+    master: 400, // Master jeweler level work
+  },
+  baseHours: {
+    ring: 3,
+    necklace: 5,
+    bracelet: 4,
+    earrings: 4, // Per pair
+  },
+  baseVolumes: {
+    ring: 0.8,
+    necklace: 3.5,
+    bracelet: 2.5,
+    earrings: 0.6, // Per pair
+  },
+  sizeMultipliers: {
+    small: 0.7,
+    medium: 1.0,
+    large: 1.4,
+  },
+};
+
+const DEFAULT_CONFIG_VERSION: PricingConfigVersion = {
+  version: 0,
+  rules: DEFAULT_PRICING_RULES,
+  effectiveAt: new Date(0),
+  note: "Built-in defaults",
+  createdBy: null,
+  createdAt: new Date(0),
+  source: "default",
+};
+
+const positiveTable = z.record(z.string(), z.number().positive());
+
+// Validation schema for admin-submitted rules
+export const pricingRulesSchema = z.object({
+  wasteFactor: z.number().min(1).max(2),
+  overheadPercentage: z.number().min(0).max(1),
+  marginMultiplier: z.number().min(1).max(10),
+  hourlyRates: z.object({
+    simple: z.number().positive(),
+    moderate: z.number().positive(),
+    complex: z.number().positive(),
+    master: z.number().positive(),
+  }),
+  baseHours: positiveTable,
+  baseVolumes: positiveTable,
+  sizeMultipliers: positiveTable,
+});
+
+/**
+ * Merge a stored JSON value over the defaults so older versions
+ * missing newer fields still produce a complete rule set
+ */
+export function parsePricingRules(value: unknown): PricingRules {
+  const stored = (value && typeof value === "object" ? value : {}) as Partial<PricingRules>;
+
+  return {
+    wasteFactor: stored.wasteFactor ?? DEFAULT_PRICING_RULES.wasteFactor,
+    overheadPercentage: stored.overheadPercentage ?? DEFAULT_PRICING_RULES.overheadPercentage,
+    marginMultiplier: stored.marginMultiplier ?? DEFAULT_PRICING_RULES.marginMultiplier,
+    hourlyRates: { ...DEFAULT_PRICING_RULES.hourlyRates, ...stored.hourlyRates },
+    baseHours: { ...DEFAULT_PRICING_RULES.baseHours, ...stored.baseHours },
+    baseVolumes: { ...DEFAULT_PRICING_RULES.baseVolumes, ...stored.baseVolumes },
+    sizeMultipliers: { ...DEFAULT_PRICING_RULES.sizeMultipliers, ...stored.sizeMultipliers },
+  };
+}
+
+function toConfigVersion(record: {
+  version: number;
+  value: unknown;
+  effectiveAt: Date;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+}): PricingConfigVersion {
+  return {
+    version: record.version,
+    rules: parsePricingRules(record.value),
+    effectiveAt: record.effectiveAt,
+    note: record.note,
+    createdBy: record.createdBy,
+    createdAt: record.createdAt,
+    source: "database",
+  };
+}
+
+/**
+ * Get the pricing rules currently in effect
+ *
+ * Cached for a few minutes so every calculation doesn't hit the database.
+ * Never throws - returns the built-in defaults if the lookup fails.
+ */
+export async function getActivePricingConfig(): Promise<PricingConfigVersion> {
+  const cached = await priceCache.get<PricingConfigVersion>(CACHE_KEYS.PRICING_CONFIG);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const record = await prisma.pricingConfig.findFirst({
+      where: {
+        key: PRICING_RULES_KEY,
+        effectiveAt: { lte: new Date() },
+      },
+      orderBy: [{ effectiveAt: "desc" }, { version: "desc" }],
+    });
+
+    const config = record ? toConfigVersion(record) : DEFAULT_CONFIG_VERSION;
+    await priceCache.set(CACHE_KEYS.PRICING_CONFIG, config, { ttlMs: TTL.PRICING_CONFIG });
+    return config;
+  } catch (error) {
+    console.error("[PricingConfig] Failed to load pricing rules, using defaults:", error);
+    return (await priceCache.getFallback<PricingConfigVersion>(CACHE_KEYS.PRICING_CONFIG)) ?? DEFAULT_CONFIG_VERSION;
+  }
+}
+
+/**
+ * List all stored versions, newest first
+ */
+export async function listPricingConfigVersions(): Promise<PricingConfigVersion[]> {
+  const records = await prisma.pricingConfig.findMany({
+    where: { key: PRICING_RULES_KEY },
+    orderBy: { version: "desc" },
+  });
+
+  return records.map(toConfigVersion);
+}
+
+/**
+ * Store the next version under a PricingConfig key
+ *
+ * Versions are numbered latest + 1; a save that races another for the
+ * same number loses on the (key, version) constraint and is renumbered.
+ */
+export async function createNextConfigVersion(
+  key: string,
+  data: Omit<Prisma.PricingConfigCreateInput, "key" | "version">
+): Promise<PricingConfig> {
+  for (let attempt = 1; ; attempt++) {
+    const latest = await prisma.pricingConfig.findFirst({
+      where: { key },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+
+    try {
+      return await prisma.pricingConfig.create({
+        data: { ...data, key, version: (latest?.version ?? 0) + 1 },
+      });
+    } catch (error) {
+      const taken = error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+      if (!taken || attempt >= MAX_VERSION_ATTEMPTS) throw error;
+    }
+  }
+}
+
+/**
+ * Publish a new version of the pricing rules
+ */
+export async function createPricingConfigVersion(input: {
+  rules: PricingRules;
+  effectiveAt?: Date;
+  note?: string;
+  createdBy?: string;
+}): Promise<PricingConfigVersion> {
+  const rules = pricingRulesSchema.parse(input.rules) as PricingRules;
+
+  const record = await createNextConfigVersion(PRICING_RULES_KEY, {
+    value: JSON.parse(JSON.stringify(rules)),
+    effectiveAt: input.effectiveAt ?? new Date(),
+    note: input.note,
+    createdBy: input.createdBy,
+  });
+
+  // Make the new version visible to the calculator immediately
+  await priceCache.delete(CACHE_KEYS.PRICING_CONFIG);
+
+  return toConfigVersion(record);
+}
+
+/**
+ * Wrap ad-hoc rules (e.g. an unsaved draft) as a config version for previews
+ */
+export function draftPricingConfig(rules: PricingRules): PricingConfigVersion {
+  return {
+    version: -1,
+    rules,
+    effectiveAt: new Date(),
+    note: "Draft (not published)",
+    createdBy: null,
+    createdAt: new Date(),
+    source: "draft",
+  };
+}
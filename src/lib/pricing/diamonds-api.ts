@@ -5,9 +5,14 @@
  * Documentation: https://openfacet.net/en/api-docs
  *
  * OpenFacet provides free, real-time access to diamond pricing data.
+ * OpenFacet prices natural stones only; lab-grown diamonds are priced
+ * from the natural price with the discount matrix in stone-origin.ts.
  */
 
-import { priceCache, CACHE_KEYS, TTL, getCachedOrFetch } from "./cache";
+import { CACHE_KEYS, TTL, getCachedOrFetch } from "./cache";
+import { getUsdToIlsRate } from "./exchange-rate";
+import { getGemstonePrice, type StoneType, type GemstoneTreatment } from "./gemstones";
+import { labGrownPriceRatio, type DiamondOrigin } from "./stone-origin";
 
 // OpenFacet API base URL
 const OPENFACET_BASE_URL = "https://openfacet.net/api/v1";
@@ -69,6 +74,7 @@ export interface DiamondSpecs {
   color: DiamondColor;
   cut?: DiamondCut;
   shape?: DiamondShape;
+  origin?: DiamondOrigin; // Defaults to natural
 }
 
 /**
@@ -80,6 +86,7 @@ export interface DiamondPrice {
   totalPrice: number; // Total price in USD
   totalPriceILS: number; // Total price in ILS
   specs: DiamondSpecs;
+  origin: DiamondOrigin;
   source: "live" | "cached" | "fallback" | "matrix";
   timestamp: Date;
 }
@@ -95,41 +102,6 @@ interface OpenFacetPriceResponse {
   };
 }
 
-/**
- * Exchange rate for USD to ILS conversion
- */
-let cachedExchangeRate: number | null = null;
-let exchangeRateTimestamp: number = 0;
-
-async function getUsdToIlsRate(): Promise<number> {
-  const now = Date.now();
-  // Cache exchange rate for 1 hour
-  if (cachedExchangeRate && now - exchangeRateTimestamp < TTL.EXCHANGE_RATE) {
-    return cachedExchangeRate;
-  }
-
-  try {
-    // Try to get from a free exchange rate API
-    const response = await fetch(
-      "https://api.exchangerate-api.com/v4/latest/USD",
-      { next: { revalidate: 3600 } }
-    );
-
-    if (response.ok) {
-      const data = await response.json();
-      const rate = data.rates?.ILS ?? 3.7;
-      cachedExchangeRate = rate;
-      exchangeRateTimestamp = now;
-      return rate;
-    }
-  } catch {
-    console.warn("[DiamondAPI] Failed to fetch exchange rate, using default");
-  }
-
-  // Default fallback rate
-  return 3.7;
-}
-
 /**
  * Diamond price matrix based on GIA standards
  *
@@ -240,6 +212,7 @@ async function fetchFromOpenFacet(specs: DiamondSpecs): Promise<DiamondPrice> {
           totalPrice,
           totalPriceILS: Math.round(totalPrice * exchangeRate),
           specs,
+          origin: "natural",
           source: "live",
           timestamp: new Date(),
         };
@@ -280,6 +253,7 @@ function calculateFromMatrix(
     totalPrice,
     totalPriceILS: Math.round(totalPrice * exchangeRate),
     specs,
+    origin: "natural",
     source: "matrix",
     timestamp: new Date(),
   };
@@ -289,6 +263,10 @@ function calculateFromMatrix(
  * Get diamond price with caching
  */
 export async function getDiamondPrice(specs: DiamondSpecs): Promise<DiamondPrice> {
+  if (specs.origin === "lab_grown") {
+    return getLabGrownDiamondPrice(specs);
+  }
+
   // Create a cache key based on specs
   const specsKey = `${specs.carat}_${specs.clarity}_${specs.color}_${specs.cut ?? "none"}_${specs.shape ?? "round"}`;
   const cacheKey = CACHE_KEYS.DIAMOND_PRICES(specsKey);
@@ -310,6 +288,24 @@ export async function getDiamondPrice(specs: DiamondSpecs): Promise<DiamondPrice
   };
 }
 
+/**
+ * Lab-grown price: the natural price for the same grade, discounted by size
+ */
+async function getLabGrownDiamondPrice(specs: DiamondSpecs): Promise<DiamondPrice> {
+  const natural = await getDiamondPrice({ ...specs, origin: "natural" });
+  const ratio = labGrownPriceRatio(specs.carat);
+
+  return {
+    ...natural,
+    pricePerCarat: Math.round(natural.pricePerCarat * ratio),
+    pricePerCaratILS: Math.round(natural.pricePerCaratILS * ratio),
+    totalPrice: Math.round(natural.totalPrice * ratio),
+    totalPriceILS: Math.round(natural.totalPriceILS * ratio),
+    specs,
+    origin: "lab_grown",
+  };
+}
+
 /**
  * Simplified size categories for jewelry design
  */
@@ -336,7 +332,8 @@ export function sizeToCaratEstimate(size: DiamondSizeCategory): number {
  */
 export async function getQuickDiamondEstimate(
   size: DiamondSizeCategory | number,
-  quality: "economy" | "standard" | "premium" | "luxury" = "standard"
+  quality: "economy" | "standard" | "premium" | "luxury" = "standard",
+  origin: DiamondOrigin = "natural"
 ): Promise<DiamondPrice> {
   const carat = typeof size === "number" ? size : sizeToCaratEstimate(size);
 
@@ -356,23 +353,31 @@ export async function getQuickDiamondEstimate(
     color,
     cut: quality === "luxury" ? "Excellent" : quality === "premium" ? "Very Good" : "Good",
     shape: "round",
+    origin,
   });
 }
 
 /**
  * Calculate total cost for multiple stones
+ *
+ * Diamonds are priced from OpenFacet (or the matrix) by origin, coloured
+ * gemstones from the species tables in gemstones.ts.
  */
 export async function calculateStonesTotal(
   stones: Array<{
-    type: "diamond" | "sapphire" | "ruby" | "emerald";
+    type: StoneType;
     size: DiamondSizeCategory | number;
     quality?: "economy" | "standard" | "premium" | "luxury";
+    treatment?: GemstoneTreatment;
+    origin?: DiamondOrigin;
     quantity: number;
   }>
 ): Promise<{
   totalILS: number;
   breakdown: Array<{
     type: string;
+    treatment?: GemstoneTreatment;
+    origin?: DiamondOrigin;
     quantity: number;
     unitPriceILS: number;
     totalILS: number;
@@ -380,6 +385,8 @@ export async function calculateStonesTotal(
 }> {
   const breakdown: Array<{
     type: string;
+    treatment?: GemstoneTreatment;
+    origin?: DiamondOrigin;
     quantity: number;
     unitPriceILS: number;
     totalILS: number;
@@ -389,20 +396,22 @@ export async function calculateStonesTotal(
 
   for (const stone of stones) {
     let unitPrice: number;
+    let treatment: GemstoneTreatment | undefined;
+    let origin: DiamondOrigin | undefined;
 
     if (stone.type === "diamond") {
-      const diamondPrice = await getQuickDiamondEstimate(stone.size, stone.quality);
+      const diamondPrice = await getQuickDiamondEstimate(stone.size, stone.quality, stone.origin);
       unitPrice = diamondPrice.totalPriceILS;
+      origin = diamondPrice.origin;
     } else {
-      // For other gemstones, use a simplified pricing model
-      // (typically 30-70% of equivalent diamond price)
-      const diamondPrice = await getQuickDiamondEstimate(stone.size, stone.quality);
-      const gemMultipliers: Record<string, number> = {
-        sapphire: 0.6,
-        ruby: 0.7,
-        emerald: 0.65,
-      };
-      unitPrice = Math.round(diamondPrice.totalPriceILS * (gemMultipliers[stone.type] ?? 0.5));
+      const gemstonePrice = await getGemstonePrice({
+        species: stone.type,
+        carat: typeof stone.size === "number" ? stone.size : sizeToCaratEstimate(stone.size),
+        quality: stone.quality,
+        treatment: stone.treatment,
+      });
+      unitPrice = gemstonePrice.totalPriceILS;
+      treatment = gemstonePrice.treatment;
     }
 
     const stoneTotal = unitPrice * stone.quantity;
@@ -410,6 +419,8 @@ export async function calculateStonesTotal(
 
     breakdown.push({
       type: stone.type,
+      treatment,
+      origin,
       quantity: stone.quantity,
       unitPriceILS: unitPrice,
       totalILS: stoneTotal,
@@ -0,0 +1,336 @@
+/**
+ * Discount Codes
+ *
+ * Promotion codes applied at checkout: a percentage or fixed amount off
+ * the eligible items, or free shipping. Codes can be limited to jewelry
+ * types or materials, to a customer's first order, to a number of uses
+ * (overall and per customer) and to a date window.
+ *
+ * Discounts come off the item prices before VAT. A use is reserved when
+ * the order is created and released again if its payment fails.
+ */
+
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db/prisma";
+import { PURCHASED_ORDER_STATUSES, withLegacyStatuses } from "@/lib/orders/lifecycle";
+
+export const DISCOUNT_TYPES = ["percent", "fixed", "free_shipping"] as const;
+export const DISCOUNT_JEWELRY_TYPES = ["ring", "necklace", "bracelet", "earrings"] as const;
+export const DISCOUNT_MATERIALS = ["gold_14k", "gold_18k", "gold_24k", "silver", "platinum"] as const;
+
+export type DiscountType = (typeof DISCOUNT_TYPES)[number];
+
+// Orders that no longer hold a use of their code
+const RELEASED_ORDER_STATUSES = withLegacyStatuses(["cancelled"]);
+
+/**
+ * Why a code was refused (also the i18n key shown to the customer)
+ */
+export type DiscountRejection =
+  | "not_found"
+  | "inactive"
+  | "not_started"
+  | "expired"
+  | "usage_limit"
+  | "customer_limit"
+  | "first_order_only"
+  | "not_eligible"
+  | "min_subtotal";
+
+export interface DiscountCode {
+  id: string;
+  code: string;
+  description: string | null;
+  type: DiscountType;
+  value: number;
+  firstOrderOnly: boolean;
+  jewelryTypes: string[];
+  materials: string[];
+  minSubtotal: number | null;
+  maxUses: number | null;
+  maxUsesPerCustomer: number | null;
+  usedCount: number;
+  startsAt: Date | null;
+  expiresAt: Date | null;
+  active: boolean;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Cart line a discount is evaluated against (server-priced)
+ */
+export interface DiscountLine {
+  id: string;
+  jewelryType?: string; // Absent for test products
+  material: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+/**
+ * A code applied to a cart - stored on the order as discountDetails
+ */
+export interface AppliedDiscount {
+  codeId: string;
+  code: string;
+  type: DiscountType;
+  value: number;
+  amount: number; // ILS off the items in total
+  freeShipping: boolean;
+  items: Array<{ id: string; unitDiscount: number }>; // Eligible lines only
+}
+
+export type DiscountResult =
+  | { success: true; discount: AppliedDiscount }
+  | { success: false; error: string; reason: DiscountRejection };
+
+export type DiscountCodeResult =
+  | { success: true; code: DiscountCode }
+  | { success: false; error: string; notFound?: boolean; conflict?: boolean };
+
+const REJECTION_MESSAGES: Record<DiscountRejection, string> = {
+  not_found: "Discount code not found",
+  inactive: "This discount code is no longer active",
+  not_started: "This discount code is not active yet",
+  expired: "This discount code has expired",
+  usage_limit: "This discount code has been fully redeemed",
+  customer_limit: "You have already used this discount code",
+  first_order_only: "This discount code is only valid on a first order",
+  not_eligible: "This discount code does not apply to the items in your cart",
+  min_subtotal: "Your order does not reach the minimum for this discount code",
+};
+
+export const discountCodeInputSchema = z
+  .object({
+    code: z.string().trim().min(3).max(32).regex(/^[A-Za-z0-9_-]+$/),
+    description: z.string().max(200).nullable().optional(),
+    type: z.enum(DISCOUNT_TYPES),
+    value: z.number().min(0).default(0),
+    firstOrderOnly: z.boolean().default(false),
+    jewelryTypes: z.array(z.enum(DISCOUNT_JEWELRY_TYPES)).default([]),
+    materials: z.array(z.enum(DISCOUNT_MATERIALS)).default([]),
+    minSubtotal: z.number().positive().nullable().optional(),
+    maxUses: z.number().int().positive().nullable().optional(),
+    maxUsesPerCustomer: z.number().int().positive().nullable().optional(),
+    startsAt: z.coerce.date().nullable().optional(),
+    expiresAt: z.coerce.date().nullable().optional(),
+    active: z.boolean().default(true),
+  })
+  .refine((input) => input.type === "free_shipping" || input.value > 0, {
+    message: "A discount value is required",
+    path: ["value"],
+  })
+  .refine((input) => input.type !== "percent" || input.value <= 100, {
+    message: "A percentage cannot exceed 100",
+    path: ["value"],
+  });
+
+export type DiscountCodeInput = z.infer<typeof discountCodeInputSchema>;
+
+// Fields an admin may change after creation (the code itself is fixed)
+export const discountCodeUpdateSchema = z.object({
+  description: z.string().max(200).nullable().optional(),
+  minSubtotal: z.number().positive().nullable().optional(),
+  maxUses: z.number().int().positive().nullable().optional(),
+  maxUsesPerCustomer: z.number().int().positive().nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+export type DiscountCodeUpdate = z.infer<typeof discountCodeUpdateSchema>;
+
+export function normalizeDiscountCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function toDiscountCode(record: {
+  id: string;
+  code: string;
+  description: string | null;
+  type: string;
+  value: number;
+  firstOrderOnly: boolean;
+  jewelryTypes: string[];
+  materials: string[];
+  minSubtotal: number | null;
+  maxUses: number | null;
+  maxUsesPerCustomer: number | null;
+  usedCount: number;
+  startsAt: Date | null;
+  expiresAt: Date | null;
+  active: boolean;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}): DiscountCode {
+  return { ...record, type: record.type as DiscountType };
+}
+
+function reject(reason: DiscountRejection): DiscountResult {
+  return { success: false, error: REJECTION_MESSAGES[reason], reason };
+}
+
+/**
+ * Check a code against a cart and work out the discount
+ *
+ * The customer is identified by user ID and/or email for first-order and
+ * per-customer limits.
+ */
+export async function evaluateDiscountCode(
+  code: string,
+  cart: { lines: DiscountLine[]; userId?: string | null; email?: string | null }
+): Promise<DiscountResult> {
+  const record = await prisma.discountCode.findUnique({
+    where: { code: normalizeDiscountCode(code) },
+  });
+  if (!record) return reject("not_found");
+
+  const discount = toDiscountCode(record);
+  const now = new Date();
+
+  if (!discount.active) return reject("inactive");
+  if (discount.startsAt && discount.startsAt > now) return reject("not_started");
+  if (discount.expiresAt && discount.expiresAt < now) return reject("expired");
+  if (discount.maxUses !== null && discount.usedCount >= discount.maxUses) return reject("usage_limit");
+
+  if (discount.firstOrderOnly || discount.maxUsesPerCustomer !== null) {
+    const customer = [
+      ...(cart.userId ? [{ userId: cart.userId }] : []),
+      ...(cart.email ? [{ customerEmail: { equals: cart.email, mode: "insensitive" as const } }] : []),
+    ];
+    if (customer.length === 0) {
+      return reject(discount.firstOrderOnly ? "first_order_only" : "customer_limit");
+    }
+
+    if (discount.firstOrderOnly) {
+      const previousOrders = await prisma.order.count({
+        where: { OR: customer, status: { in: withLegacyStatuses(PURCHASED_ORDER_STATUSES) } },
+      });
+      if (previousOrders > 0) return reject("first_order_only");
+    }
+
+    if (discount.maxUsesPerCustomer !== null) {
+      const uses = await prisma.order.count({
+        where: { OR: customer, discountCodeId: discount.id, status: { notIn: RELEASED_ORDER_STATUSES } },
+      });
+      if (uses >= discount.maxUsesPerCustomer) return reject("customer_limit");
+    }
+  }
+
+  const eligible = cart.lines.filter(
+    (line) =>
+      (discount.jewelryTypes.length === 0 || (!!line.jewelryType && discount.jewelryTypes.includes(line.jewelryType))) &&
+      (discount.materials.length === 0 || discount.materials.includes(line.material))
+  );
+  if (eligible.length === 0) return reject("not_eligible");
+
+  const eligibleSubtotal = eligible.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  if (discount.minSubtotal !== null && eligibleSubtotal < discount.minSubtotal) return reject("min_subtotal");
+
+  // Share of each eligible unit price taken off
+  const rate =
+    discount.type === "percent"
+      ? discount.value / 100
+      : discount.type === "fixed" && eligibleSubtotal > 0
+        ? Math.min(discount.value, eligibleSubtotal) / eligibleSubtotal
+        : 0;
+
+  const items = rate > 0
+    ? eligible.map((line) => ({ id: line.id, unitDiscount: roundMoney(line.unitPrice * rate) }))
+    : [];
+  const amount = roundMoney(
+    items.reduce((sum, item, index) => sum + item.unitDiscount * eligible[index].quantity, 0)
+  );
+
+  return {
+    success: true,
+    discount: {
+      codeId: discount.id,
+      code: discount.code,
+      type: discount.type,
+      value: discount.value,
+      amount,
+      freeShipping: discount.type === "free_shipping",
+      items,
+    },
+  };
+}
+
+/**
+ * Reserve one use of a code
+ *
+ * Returns false when the last use was taken in the meantime.
+ */
+export async function redeemDiscountCode(codeId: string): Promise<boolean> {
+  const result = await prisma.discountCode.updateMany({
+    where: {
+      id: codeId,
+      OR: [{ maxUses: null }, { usedCount: { lt: prisma.discountCode.fields.maxUses } }],
+    },
+    data: { usedCount: { increment: 1 } },
+  });
+  return result.count === 1;
+}
+
+/**
+ * Give back the use reserved by an order that was never paid
+ */
+export async function releaseDiscountCode(codeId: string): Promise<void> {
+  await prisma.discountCode.updateMany({
+    where: { id: codeId, usedCount: { gt: 0 } },
+    data: { usedCount: { decrement: 1 } },
+  });
+}
+
+/**
+ * All codes, newest first
+ */
+export async function listDiscountCodes(): Promise<DiscountCode[]> {
+  const records = await prisma.discountCode.findMany({
+    orderBy: { createdAt: "desc" },
+  });
+  return records.map(toDiscountCode);
+}
+
+export async function createDiscountCode(
+  input: DiscountCodeInput,
+  createdBy?: string
+): Promise<DiscountCodeResult> {
+  try {
+    const record = await prisma.discountCode.create({
+      data: {
+        ...input,
+        code: normalizeDiscountCode(input.code),
+        value: input.type === "free_shipping" ? 0 : input.value,
+        createdBy: createdBy ?? null,
+      },
+    });
+    return { success: true, code: toDiscountCode(record) };
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return { success: false, error: "A discount code with this name already exists", conflict: true };
+    }
+    throw error;
+  }
+}
+
+export async function updateDiscountCode(id: string, update: DiscountCodeUpdate): Promise<DiscountCodeResult> {
+  const existing = await prisma.discountCode.findUnique({ where: { id } });
+  if (!existing) {
+    return { success: false, error: "Discount code not found", notFound: true };
+  }
+
+  const record = await prisma.discountCode.update({
+    where: { id },
+    data: update,
+  });
+  return { success: true, code: toDiscountCode(record) };
+}
@@ -0,0 +1,41 @@
+/**
+ * USD to ILS Exchange Rate
+ *
+ * Stone price tables are quoted in USD; prices shown to customers are ILS.
+ */
+
+import { TTL } from "./cache";
+
+const EXCHANGE_RATE_URL = "https://api.exchangerate-api.com/v4/latest/USD";
+
+// Used when the exchange rate service is unavailable
+export const DEFAULT_USD_TO_ILS = 3.7;
+
+let cachedExchangeRate: number | null = null;
+let exchangeRateTimestamp: number = 0;
+
+export async function getUsdToIlsRate(): Promise<number> {
+  const now = Date.now();
+  // Cache exchange rate for 1 hour
+  if (cachedExchangeRate && now - exchangeRateTimestamp < TTL.EXCHANGE_RATE) {
+    return cachedExchangeRate;
+  }
+
+  try {
+    // Try to get from a free exchange rate API
+    const response = await fetch(EXCHANGE_RATE_URL, { next: { revalidate: 3600 } });
+
+    if (response.ok) {
+      const data = await response.json();
+      const rate = data.rates?.ILS ?? DEFAULT_USD_TO_ILS;
+      cachedExchangeRate = rate;
+      exchangeRateTimestamp = now;
+      return rate;
+    }
+  } catch {
+    console.warn("[ExchangeRate] Failed to fetch exchange rate, using default");
+  }
+
+  // Default fallback rate
+  return DEFAULT_USD_TO_ILS;
+}
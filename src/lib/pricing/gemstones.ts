@@ -0,0 +1,331 @@
+/**
+ * Coloured Gemstone Pricing
+ *
+ * Per-species price tables (USD per carat) by carat band and quality,
+ * adjusted for treatment. Prices are quoted for the species' typical
+ * treatment (e.g. heated sapphire); untreated stones carry a premium,
+ * heavily treated ones a discount.
+ *
+ * Tables are admin-editable and versioned in the PricingConfig table.
+ * Falls back to the built-in defaults when the database is unavailable.
+ */
+
+import { z } from "zod";
+import { prisma } from "@/lib/db/prisma";
+import { priceCache, CACHE_KEYS, TTL } from "./cache";
+import { createNextConfigVersion } from "./config";
+import { getUsdToIlsRate } from "./exchange-rate";
+
+// PricingConfig key holding the gemstone tables
+export const GEMSTONE_PRICES_KEY = "gemstone_prices";
+
+export const GEMSTONE_SPECIES = ["sapphire", "ruby", "emerald", "opal", "pearl", "amethyst", "topaz", "other"] as const;
+export const GEMSTONE_TREATMENTS = ["untreated", "heated", "oiled", "filled", "diffused", "irradiated", "dyed"] as const;
+export const STONE_TYPES = ["diamond", ...GEMSTONE_SPECIES] as const;
+export const STONE_QUALITIES = ["economy", "standard", "premium", "luxury"] as const;
+
+export type GemstoneSpecies = (typeof GEMSTONE_SPECIES)[number];
+export type GemstoneTreatment = (typeof GEMSTONE_TREATMENTS)[number];
+export type StoneType = (typeof STONE_TYPES)[number];
+export type StoneQuality = (typeof STONE_QUALITIES)[number];
+
+// Upper bound (carats) of each band; heavier stones use the last band
+export const GEMSTONE_CARAT_BANDS = [0.1, 0.25, 0.5, 1, 2, 5];
+
+/**
+ * Price table for one species
+ */
+export interface GemstoneSpeciesPricing {
+  pricesPerCarat: Record<StoneQuality, number[]>; // USD per carat, one entry per carat band
+  treatments: Partial<Record<GemstoneTreatment, number>>; // Multiplier vs. the typical treatment
+  defaultTreatment: GemstoneTreatment; // Assumed when the treatment is unknown
+}
+
+export type GemstonePriceTable = Record<GemstoneSpecies, GemstoneSpeciesPricing>;
+
+/**
+ * A stored version of the gemstone tables
+ */
+export interface GemstonePriceTableVersion {
+  version: number; // 0 = built-in defaults
+  table: GemstonePriceTable;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  source: "database" | "default";
+}
+
+export interface GemstoneSpecs {
+  species: GemstoneSpecies;
+  carat: number;
+  quality?: StoneQuality;
+  treatment?: GemstoneTreatment;
+}
+
+/**
+ * Gemstone price result
+ */
+export interface GemstonePrice {
+  pricePerCarat: number; // USD per carat
+  pricePerCaratILS: number; // ILS per carat
+  totalPrice: number; // Total price in USD
+  totalPriceILS: number; // Total price in ILS
+  treatment: GemstoneTreatment; // Treatment actually priced (default applied)
+  specs: GemstoneSpecs;
+  tableVersion: number;
+}
+
+// Built-in defaults - approximate trade prices for jewelry-grade stones
+export const DEFAULT_GEMSTONE_PRICES: GemstonePriceTable = {
+  sapphire: {
+    pricesPerCarat: {
+      economy: [40, 60, 100, 200, 350, 600],
+      standard: [100, 150, 250, 500, 900, 1500],
+      premium: [250, 350, 600, 1200, 2200, 3500],
+      luxury: [600, 900, 1500, 3000, 5500, 9000],
+    },
+    treatments: { heated: 1.0, untreated: 1.6, diffused: 0.3 },
+    defaultTreatment: "heated",
+  },
+  ruby: {
+    pricesPerCarat: {
+      economy: [50, 80, 120, 250, 450, 800],
+      standard: [150, 220, 400, 800, 1500, 2500],
+      premium: [400, 600, 1000, 2000, 4000, 7000],
+      luxury: [900, 1400, 2500, 5000, 10000, 18000],
+    },
+    treatments: { heated: 1.0, untreated: 1.8, filled: 0.15, diffused: 0.3 },
+    defaultTreatment: "heated",
+  },
+  emerald: {
+    pricesPerCarat: {
+      economy: [40, 60, 90, 180, 300, 500],
+      standard: [120, 180, 300, 600, 1000, 1800],
+      premium: [300, 450, 800, 1600, 3000, 5000],
+      luxury: [700, 1100, 2000, 4000, 7500, 12000],
+    },
+    treatments: { oiled: 1.0, untreated: 1.7, filled: 0.5, dyed: 0.2 },
+    defaultTreatment: "oiled",
+  },
+  opal: {
+    pricesPerCarat: {
+      economy: [10, 15, 25, 40, 60, 90],
+      standard: [30, 45, 80, 150, 250, 400],
+      premium: [100, 150, 250, 500, 800, 1200],
+      luxury: [300, 450, 800, 1500, 2500, 4000],
+    },
+    treatments: { untreated: 1.0, filled: 0.5, dyed: 0.4 },
+    defaultTreatment: "untreated",
+  },
+  pearl: {
+    pricesPerCarat: {
+      economy: [15, 20, 30, 50, 80, 120],
+      standard: [40, 55, 80, 120, 180, 250],
+      premium: [100, 140, 200, 300, 450, 600],
+      luxury: [250, 350, 500, 750, 1100, 1500],
+    },
+    treatments: { untreated: 1.0, dyed: 0.5, irradiated: 0.6 },
+    defaultTreatment: "untreated",
+  },
+  amethyst: {
+    pricesPerCarat: {
+      economy: [3, 4, 5, 8, 10, 12],
+      standard: [8, 10, 15, 20, 25, 30],
+      premium: [20, 25, 35, 50, 60, 75],
+      luxury: [40, 50, 70, 100, 120, 150],
+    },
+    treatments: { untreated: 1.0, heated: 0.9 },
+    defaultTreatment: "untreated",
+  },
+  topaz: {
+    pricesPerCarat: {
+      economy: [3, 4, 5, 6, 8, 10],
+      standard: [8, 10, 12, 15, 20, 25],
+      premium: [20, 25, 30, 40, 50, 60],
+      luxury: [50, 60, 80, 100, 150, 200],
+    },
+    treatments: { irradiated: 1.0, untreated: 1.5, diffused: 0.8 },
+    defaultTreatment: "irradiated",
+  },
+  other: {
+    pricesPerCarat: {
+      economy: [5, 8, 10, 15, 20, 25],
+      standard: [15, 20, 30, 40, 50, 60],
+      premium: [40, 50, 70, 100, 130, 160],
+      luxury: [100, 130, 180, 250, 320, 400],
+    },
+    treatments: { untreated: 1.0, heated: 0.9, dyed: 0.5 },
+    defaultTreatment: "untreated",
+  },
+};
+
+const DEFAULT_TABLE_VERSION: GemstonePriceTableVersion = {
+  version: 0,
+  table: DEFAULT_GEMSTONE_PRICES,
+  note: "Built-in defaults",
+  createdBy: null,
+  createdAt: new Date(0),
+  source: "default",
+};
+
+const bandPrices = z.array(z.number().positive()).length(GEMSTONE_CARAT_BANDS.length);
+
+const speciesPricingSchema = z.object({
+  pricesPerCarat: z.object({
+    economy: bandPrices,
+    standard: bandPrices,
+    premium: bandPrices,
+    luxury: bandPrices,
+  }),
+  treatments: z.partialRecord(z.enum(GEMSTONE_TREATMENTS), z.number().positive().max(5)),
+  defaultTreatment: z.enum(GEMSTONE_TREATMENTS),
+});
+
+// Validation schema for admin-submitted tables (species may be omitted to keep defaults)
+export const gemstonePriceTableSchema = z.partialRecord(z.enum(GEMSTONE_SPECIES), speciesPricingSchema);
+
+/**
+ * Merge a stored JSON value over the defaults, species by species
+ */
+export function parseGemstonePriceTable(value: unknown): GemstonePriceTable {
+  const parsed = gemstonePriceTableSchema.safeParse(value);
+  if (!parsed.success) {
+    console.error("[Gemstones] Invalid stored gemstone table, using defaults");
+    return DEFAULT_GEMSTONE_PRICES;
+  }
+
+  const table = { ...DEFAULT_GEMSTONE_PRICES };
+  for (const species of GEMSTONE_SPECIES) {
+    const stored = parsed.data[species];
+    if (stored) {
+      table[species] = stored as GemstoneSpeciesPricing;
+    }
+  }
+  return table;
+}
+
+function toTableVersion(record: {
+  version: number;
+  value: unknown;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+}): GemstonePriceTableVersion {
+  return {
+    version: record.version,
+    table: parseGemstonePriceTable(record.value),
+    note: record.note,
+    createdBy: record.createdBy,
+    createdAt: record.createdAt,
+    source: "database",
+  };
+}
+
+/**
+ * Get the gemstone tables currently in effect
+ *
+ * Never throws - returns the built-in defaults if the lookup fails.
+ */
+export async function getGemstonePriceTable(): Promise<GemstonePriceTableVersion> {
+  const cached = await priceCache.get<GemstonePriceTableVersion>(CACHE_KEYS.GEMSTONE_PRICES);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const record = await prisma.pricingConfig.findFirst({
+      where: { key: GEMSTONE_PRICES_KEY, effectiveAt: { lte: new Date() } },
+      orderBy: [{ effectiveAt: "desc" }, { version: "desc" }],
+    });
+
+    const table = record ? toTableVersion(record) : DEFAULT_TABLE_VERSION;
+    await priceCache.set(CACHE_KEYS.GEMSTONE_PRICES, table, { ttlMs: TTL.GEMSTONES });
+    return table;
+  } catch (error) {
+    console.error("[Gemstones] Failed to load gemstone prices, using defaults:", error);
+    return (await priceCache.getFallback<GemstonePriceTableVersion>(CACHE_KEYS.GEMSTONE_PRICES)) ?? DEFAULT_TABLE_VERSION;
+  }
+}
+
+/**
+ * List all stored versions, newest first
+ */
+export async function listGemstonePriceTableVersions(): Promise<GemstonePriceTableVersion[]> {
+  const records = await prisma.pricingConfig.findMany({
+    where: { key: GEMSTONE_PRICES_KEY },
+    orderBy: { version: "desc" },
+  });
+
+  return records.map(toTableVersion);
+}
+
+/**
+ * Store a new version of the gemstone tables
+ */
+export async function setGemstonePriceTable(input: {
+  table: Partial<GemstonePriceTable>;
+  note?: string;
+  createdBy?: string;
+}): Promise<GemstonePriceTableVersion> {
+  const table = parseGemstonePriceTable(gemstonePriceTableSchema.parse(input.table));
+
+  const record = await createNextConfigVersion(GEMSTONE_PRICES_KEY, {
+    value: JSON.parse(JSON.stringify(table)),
+    note: input.note,
+    createdBy: input.createdBy,
+  });
+
+  // Make the new tables visible to the calculator immediately
+  await priceCache.delete(CACHE_KEYS.GEMSTONE_PRICES);
+
+  return toTableVersion(record);
+}
+
+function caratBandIndex(carat: number): number {
+  const index = GEMSTONE_CARAT_BANDS.findIndex((upperBound) => carat <= upperBound);
+  return index === -1 ? GEMSTONE_CARAT_BANDS.length - 1 : index;
+}
+
+/**
+ * Price a stone from a table (USD, synchronous)
+ */
+export function priceFromGemstoneTable(
+  table: GemstonePriceTable,
+  specs: GemstoneSpecs
+): { pricePerCarat: number; totalPrice: number; treatment: GemstoneTreatment } {
+  const pricing = table[specs.species] ?? table.other;
+  const treatment = specs.treatment ?? pricing.defaultTreatment;
+  // Unlisted treatments are priced like the typical one
+  const treatmentMultiplier = pricing.treatments[treatment] ?? 1.0;
+
+  const basePrice = pricing.pricesPerCarat[specs.quality ?? "standard"][caratBandIndex(specs.carat)];
+  const pricePerCarat = Math.round(basePrice * treatmentMultiplier);
+
+  return {
+    pricePerCarat,
+    totalPrice: Math.round(pricePerCarat * specs.carat * 100) / 100,
+    treatment,
+  };
+}
+
+/**
+ * Price a coloured gemstone with the active tables
+ */
+export async function getGemstonePrice(specs: GemstoneSpecs): Promise<GemstonePrice> {
+  const [{ table, version }, exchangeRate] = await Promise.all([
+    getGemstonePriceTable(),
+    getUsdToIlsRate(),
+  ]);
+
+  const { pricePerCarat, totalPrice, treatment } = priceFromGemstoneTable(table, specs);
+
+  return {
+    pricePerCarat,
+    pricePerCaratILS: Math.round(pricePerCarat * exchangeRate),
+    totalPrice,
+    totalPriceILS: Math.round(totalPrice * exchangeRate),
+    treatment,
+    specs,
+    tableVersion: version,
+  };
+}
@@ -7,12 +7,13 @@
 
 import Anthropic from "@anthropic-ai/sdk";
 import { priceCache, CACHE_KEYS, TTL, hashString } from "./cache";
+import { STONE_TYPES, type StoneType } from "./gemstones";
 
 /**
  * Detected stone in the jewelry image
  */
 export interface DetectedStone {
-  type: "diamond" | "sapphire" | "ruby" | "emerald" | "opal" | "pearl" | "amethyst" | "topaz" | "other";
+  type: StoneType;
   estimatedSize: "tiny" | "small" | "medium" | "large" | "statement";
   count: number;
   settingType?: "prong" | "bezel" | "channel" | "pave" | "tension" | "flush" | "unknown";
@@ -170,7 +171,7 @@ export async function analyzeJewelryImage(
   const cacheKey = CACHE_KEYS.LABOR_ESTIMATE(hashString(imageUrl));
   
   // Check cache first
-  const cached = priceCache.get<ImageAnalysisResult>(cacheKey);
+  const cached = await priceCache.get<ImageAnalysisResult>(cacheKey);
   if (cached) {
     return cached;
   }
@@ -252,7 +253,7 @@ export async function analyzeJewelryImage(
     };
     
     // Cache the result
-    priceCache.set(cacheKey, result, { ttlMs: TTL.LABOR });
+    await priceCache.set(cacheKey, result, { ttlMs: TTL.LABOR });
     
     return result;
   } catch (error) {
@@ -292,8 +293,7 @@ function normalizeStones(stones: unknown): DetectedStone[] {
 }
 
 function validateStoneType(value: unknown): DetectedStone["type"] {
-  const valid = ["diamond", "sapphire", "ruby", "emerald", "opal", "pearl", "amethyst", "topaz", "other"];
-  return valid.includes(String(value)) ? (value as DetectedStone["type"]) : "other";
+  return (STONE_TYPES as readonly string[]).includes(String(value)) ? (value as DetectedStone["type"]) : "other";
 }
 
 function validateStoneSize(value: unknown): DetectedStone["estimatedSize"] {
@@ -340,21 +340,23 @@ function getDefaultAnalysis(): ImageAnalysisResult {
 
 /**
  * Convert analysis result to pricing inputs
+ *
+ * Every detected stone is kept - unidentified stones were already
+ * normalized to "other" and are priced from its table.
+ * Treatment can't be judged from a photo, so the species default applies.
  */
 export function analysisToStones(analysis: ImageAnalysisResult): Array<{
-  type: "diamond" | "sapphire" | "ruby" | "emerald";
-  size: "tiny" | "small" | "medium" | "large" | "statement";
+  type: StoneType;
+  size: DetectedStone["estimatedSize"];
   quantity: number;
   quality?: "economy" | "standard" | "premium" | "luxury";
 }> {
-  return analysis.stonesDetected
-    .filter(stone => ["diamond", "sapphire", "ruby", "emerald"].includes(stone.type))
-    .map(stone => ({
-      type: stone.type as "diamond" | "sapphire" | "ruby" | "emerald",
-      size: stone.estimatedSize,
-      quantity: stone.count,
-      quality: "standard" as const,
-    }));
+  return analysis.stonesDetected.map(stone => ({
+    type: stone.type,
+    size: stone.estimatedSize,
+    quantity: stone.count,
+    quality: "standard" as const,
+  }));
 }
 
 /**
@@ -0,0 +1,317 @@
+/**
+ * Labor Calibration
+ *
+ * Closes the loop between estimated and actual production. The workshop
+ * records actual bench hours and finished weight per order item; this
+ * module compares them with the estimate the item was priced from and
+ * derives correction factors by jewelry type and complexity, which
+ * calculatePriceAdvanced applies to new estimates.
+ *
+ * Estimates are always recorded before calibration so the factors
+ * measure the estimators themselves, not the previous correction.
+ */
+
+import { prisma } from "@/lib/db/prisma";
+import { priceCache, CACHE_KEYS, TTL } from "./cache";
+import type { ComplexityLevel } from "./labor-estimator";
+import type { PricingBreakdown } from "./calculator";
+
+// Fewer samples than this and a group falls back to the broader group
+export const MIN_CALIBRATION_SAMPLES = 5;
+
+// Only recent production counts (techniques and crafters change)
+const CALIBRATION_WINDOW_DAYS = 365;
+
+// Never correct an estimate by more than this
+const MIN_FACTOR = 0.5;
+const MAX_FACTOR = 2;
+
+/**
+ * Correction factors for one group of production records
+ */
+export interface CalibrationFactor {
+  jewelryType: string;
+  complexity: ComplexityLevel | null; // null = every complexity of the type
+  samples: number;
+  laborFactor: number; // Multiply estimated hours by this
+  weightFactor: number; // Multiply estimated weight by this
+}
+
+export interface LaborCalibration {
+  factors: CalibrationFactor[];
+  samples: number;
+  computedAt: Date;
+}
+
+/**
+ * The correction applied to one estimate
+ */
+export interface LaborCorrection {
+  laborFactor: number;
+  weightFactor: number;
+  samples: number;
+  scope: "type_complexity" | "type" | "none";
+}
+
+export interface ProductionRecord {
+  id: string;
+  orderItemId: string;
+  jewelryType: string;
+  complexity: string;
+  laborSource: string;
+  estimatedLaborHours: number;
+  actualLaborHours: number;
+  estimatedWeightGrams: number;
+  actualWeightGrams: number;
+  notes: string | null;
+  recordedBy: string | null;
+  recordedAt: Date;
+}
+
+export type RecordProductionResult =
+  | { success: true; record: ProductionRecord }
+  | { success: false; error: string; notFound?: boolean };
+
+/**
+ * Estimator bias for one month (positive = estimates too low)
+ */
+export interface EstimatorBiasPeriod {
+  period: string; // YYYY-MM
+  samples: number;
+  laborBiasPercent: number;
+  weightBiasPercent: number;
+  bySource: Record<string, { samples: number; laborBiasPercent: number }>;
+}
+
+const NO_CORRECTION: LaborCorrection = { laborFactor: 1, weightFactor: 1, samples: 0, scope: "none" };
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function toFactor(ratios: number[]): number {
+  const factor = Math.min(MAX_FACTOR, Math.max(MIN_FACTOR, median(ratios)));
+  return Math.round(factor * 100) / 100;
+}
+
+function toBiasPercent(ratios: number[]): number {
+  return Math.round((median(ratios) - 1) * 1000) / 10;
+}
+
+function laborRatio(record: { estimatedLaborHours: number; actualLaborHours: number }): number {
+  return record.actualLaborHours / record.estimatedLaborHours;
+}
+
+function weightRatio(record: { estimatedWeightGrams: number; actualWeightGrams: number }): number {
+  return record.actualWeightGrams / record.estimatedWeightGrams;
+}
+
+/**
+ * Derive correction factors from production records
+ */
+export function computeCalibration(
+  records: Array<{
+    jewelryType: string;
+    complexity: string;
+    estimatedLaborHours: number;
+    actualLaborHours: number;
+    estimatedWeightGrams: number;
+    actualWeightGrams: number;
+  }>
+): LaborCalibration {
+  const groups = new Map<string, typeof records>();
+  for (const record of records) {
+    for (const key of [`${record.jewelryType}|${record.complexity}`, `${record.jewelryType}|`]) {
+      groups.set(key, [...(groups.get(key) || []), record]);
+    }
+  }
+
+  const factors: CalibrationFactor[] = [];
+  for (const [key, group] of groups) {
+    const [jewelryType, complexity] = key.split("|");
+    factors.push({
+      jewelryType,
+      complexity: (complexity || null) as ComplexityLevel | null,
+      samples: group.length,
+      laborFactor: toFactor(group.map(laborRatio)),
+      weightFactor: toFactor(group.map(weightRatio)),
+    });
+  }
+
+  return { factors, samples: records.length, computedAt: new Date() };
+}
+
+/**
+ * Correction for one estimate - the most specific group with enough samples
+ */
+export function laborCorrection(
+  calibration: LaborCalibration | null,
+  jewelryType: string,
+  complexity: ComplexityLevel
+): LaborCorrection {
+  if (!calibration) return NO_CORRECTION;
+
+  const exact = calibration.factors.find(
+    (factor) => factor.jewelryType === jewelryType && factor.complexity === complexity
+  );
+  if (exact && exact.samples >= MIN_CALIBRATION_SAMPLES) {
+    return { ...exact, scope: "type_complexity" };
+  }
+
+  const byType = calibration.factors.find(
+    (factor) => factor.jewelryType === jewelryType && factor.complexity === null
+  );
+  if (byType && byType.samples >= MIN_CALIBRATION_SAMPLES) {
+    return { ...byType, scope: "type" };
+  }
+
+  return NO_CORRECTION;
+}
+
+/**
+ * Current calibration (cached)
+ *
+ * Returns null when nothing can be loaded - pricing then runs uncorrected.
+ */
+export async function getLaborCalibration(): Promise<LaborCalibration | null> {
+  const cached = await priceCache.get<LaborCalibration>(CACHE_KEYS.LABOR_CALIBRATION);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const records = await prisma.productionRecord.findMany({
+      where: { recordedAt: { gt: new Date(Date.now() - CALIBRATION_WINDOW_DAYS * 24 * 60 * 60 * 1000) } },
+    });
+
+    const calibration = computeCalibration(records);
+    await priceCache.set(CACHE_KEYS.LABOR_CALIBRATION, calibration, { ttlMs: TTL.CALIBRATION });
+    return calibration;
+  } catch (error) {
+    console.error("[LaborCalibration] Failed to load production records:", error);
+    return await priceCache.getFallback<LaborCalibration>(CACHE_KEYS.LABOR_CALIBRATION);
+  }
+}
+
+/**
+ * Record actual bench hours and finished weight (per piece) for an order item
+ *
+ * The estimate is taken from the item's checkout pricing snapshot - the
+ * price it was sold at. Recording again replaces the actuals.
+ */
+export async function recordProductionActuals(input: {
+  orderId: string;
+  orderItemId: string;
+  actualLaborHours: number;
+  actualWeightGrams: number;
+  notes?: string;
+  recordedBy?: string;
+}): Promise<RecordProductionResult> {
+  const item = await prisma.orderItem.findUnique({
+    where: { id: input.orderItemId },
+  });
+  if (!item || item.orderId !== input.orderId) {
+    return { success: false, error: "Order item not found", notFound: true };
+  }
+
+  // Read directly - the snapshots module depends on the calculator, which depends on this one
+  const snapshot = await prisma.pricingSnapshot.findFirst({
+    where: { orderItemId: item.id },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!snapshot) {
+    return { success: false, error: "No price estimate was recorded for this item" };
+  }
+
+  const breakdown = snapshot.breakdown as unknown as PricingBreakdown;
+  const estimate = uncalibratedEstimate(breakdown);
+
+  const data = {
+    jewelryType: item.jewelryType,
+    complexity: breakdown.labor.complexity,
+    laborSource: breakdown.metadata.laborSource,
+    estimatedLaborHours: estimate.laborHours,
+    actualLaborHours: input.actualLaborHours,
+    estimatedWeightGrams: estimate.weightGrams,
+    actualWeightGrams: input.actualWeightGrams,
+    notes: input.notes ?? null,
+    recordedBy: input.recordedBy ?? null,
+  };
+
+  const record = await prisma.productionRecord.upsert({
+    where: { orderItemId: item.id },
+    create: { orderItemId: item.id, ...data },
+    update: data,
+  });
+
+  // New actuals change the factors
+  await priceCache.delete(CACHE_KEYS.LABOR_CALIBRATION);
+
+  return { success: true, record };
+}
+
+/**
+ * Estimated hours and weight before any calibration was applied
+ */
+function uncalibratedEstimate(breakdown: PricingBreakdown): { laborHours: number; weightGrams: number } {
+  const laborFactor = breakdown.calibration?.laborFactor ?? 1;
+  const weightFactor = breakdown.calibration?.weightFactor ?? 1;
+
+  return {
+    laborHours: Math.round((breakdown.labor.hours / laborFactor) * 100) / 100,
+    weightGrams: Math.round((breakdown.materials.weightGrams / weightFactor) * 100) / 100,
+  };
+}
+
+/**
+ * Recently recorded production, newest first
+ */
+export async function listProductionRecords(limit: number = 50): Promise<ProductionRecord[]> {
+  return prisma.productionRecord.findMany({
+    orderBy: { recordedAt: "desc" },
+    take: limit,
+  });
+}
+
+/**
+ * Estimator bias per month, oldest first
+ */
+export async function getEstimatorBias(months: number = 12): Promise<EstimatorBiasPeriod[]> {
+  const from = new Date();
+  from.setUTCDate(1);
+  from.setUTCHours(0, 0, 0, 0);
+  from.setUTCMonth(from.getUTCMonth() - (months - 1));
+
+  const records = await prisma.productionRecord.findMany({
+    where: { recordedAt: { gte: from } },
+    orderBy: { recordedAt: "asc" },
+  });
+
+  const byPeriod = new Map<string, typeof records>();
+  for (const record of records) {
+    const period = record.recordedAt.toISOString().slice(0, 7);
+    byPeriod.set(period, [...(byPeriod.get(period) || []), record]);
+  }
+
+  return [...byPeriod].map(([period, group]) => {
+    const sources = new Map<string, typeof group>();
+    for (const record of group) {
+      sources.set(record.laborSource, [...(sources.get(record.laborSource) || []), record]);
+    }
+
+    return {
+      period,
+      samples: group.length,
+      laborBiasPercent: toBiasPercent(group.map(laborRatio)),
+      weightBiasPercent: toBiasPercent(group.map(weightRatio)),
+      bySource: Object.fromEntries(
+        [...sources].map(([source, sourceGroup]) => [
+          source,
+          { samples: sourceGroup.length, laborBiasPercent: toBiasPercent(sourceGroup.map(laborRatio)) },
+        ])
+      ),
+    };
+  });
+}
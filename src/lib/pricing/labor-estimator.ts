@@ -7,6 +7,7 @@
 
 import Anthropic from "@anthropic-ai/sdk";
 import { priceCache, CACHE_KEYS, TTL, hashString } from "./cache";
+import { DEFAULT_PRICING_RULES, type PricingRules } from "./config";
 
 // Labor complexity levels
 export type ComplexityLevel = "simple" | "moderate" | "complex" | "master";
@@ -35,22 +36,6 @@ export interface DesignInput {
   stoneCount?: number;
 }
 
-// Base hourly rates by complexity (ILS)
-const HOURLY_RATES: Record<ComplexityLevel, number> = {
-  simple: 150, // Simple, standard pieces
-  moderate: 200, // Some custom work
-  complex: 280, // Significant custom craftsmanship
-  master: 400, // Master jeweler level work
-};
-
-// Base hours by jewelry type
-const BASE_HOURS: Record<string, number> = {
-  ring: 3,
-  necklace: 5,
-  bracelet: 4,
-  earrings: 4, // Per pair
-};
-
 /**
  * Claude client for labor estimation
  */
@@ -98,7 +83,7 @@ Respond ONLY with valid JSON in this exact format:
 /**
  * Estimate labor using Claude AI
  */
-async function estimateWithAI(input: DesignInput): Promise<LaborEstimate> {
+async function estimateWithAI(input: DesignInput, rules: PricingRules): Promise<LaborEstimate> {
   const client = getClaudeClient();
 
   const userPrompt = `Estimate the labor for this jewelry piece:
@@ -138,10 +123,10 @@ Provide your labor estimate as JSON.`;
 
     // Validate and normalize the response
     const complexity = validateComplexity(parsed.complexity);
-    const hours = Math.max(1, Math.min(40, Number(parsed.hours) || BASE_HOURS[input.jewelryType]));
+    const hours = Math.max(1, Math.min(40, Number(parsed.hours) || rules.baseHours[input.jewelryType]));
     const confidence = Math.max(0, Math.min(1, Number(parsed.confidence) || 0.7));
 
-    const hourlyRate = HOURLY_RATES[complexity];
+    const hourlyRate = rules.hourlyRates[complexity];
     const totalLabor = Math.round(hours * hourlyRate);
 
     return {
@@ -156,7 +141,7 @@ Provide your labor estimate as JSON.`;
   } catch (error) {
     console.error("[LaborEstimator] AI estimation failed:", error);
     // Fall back to rule-based estimation
-    return estimateWithRules(input);
+    return estimateWithRules(input, rules);
   }
 }
 
@@ -174,8 +159,8 @@ function validateComplexity(value: unknown): ComplexityLevel {
 /**
  * Rule-based fallback estimation
  */
-function estimateWithRules(input: DesignInput): LaborEstimate {
-  let hours = BASE_HOURS[input.jewelryType] || 3;
+function estimateWithRules(input: DesignInput, rules: PricingRules): LaborEstimate {
+  let hours = rules.baseHours[input.jewelryType] || 3;
   let complexity: ComplexityLevel = "moderate";
   const factors: string[] = [];
 
@@ -252,7 +237,7 @@ function estimateWithRules(input: DesignInput): LaborEstimate {
   }
 
   hours = Math.round(hours * 10) / 10;
-  const hourlyRate = HOURLY_RATES[complexity];
+  const hourlyRate = rules.hourlyRates[complexity];
 
   return {
     hours,
@@ -268,9 +253,13 @@ function estimateWithRules(input: DesignInput): LaborEstimate {
 /**
  * Get labor estimate with caching
  *
- * Caches estimates by description hash to avoid redundant API calls
+ * Caches estimates by description hash to avoid redundant API calls.
+ * Cached hours are re-priced with the current rules' hourly rates.
  */
-export async function estimateLabor(input: DesignInput): Promise<LaborEstimate> {
+export async function estimateLabor(
+  input: DesignInput,
+  rules: PricingRules = DEFAULT_PRICING_RULES
+): Promise<LaborEstimate> {
   // Create cache key from input
   const inputHash = hashString(
     `${input.description}_${input.jewelryType}_${input.material}_${input.hasStones}_${input.stoneCount}`
@@ -278,9 +267,9 @@ export async function estimateLabor(input: DesignInput): Promise<LaborEstimate>
   const cacheKey = CACHE_KEYS.LABOR_ESTIMATE(inputHash);
 
   // Check cache first
-  const cached = priceCache.get<LaborEstimate>(cacheKey);
+  const cached = await priceCache.get<LaborEstimate>(cacheKey);
   if (cached) {
-    return cached;
+    return applyHourlyRate(cached, rules);
   }
 
   // Check if we have Anthropic API key
@@ -288,26 +277,39 @@ export async function estimateLabor(input: DesignInput): Promise<LaborEstimate>
 
   let estimate: LaborEstimate;
   if (hasApiKey) {
-    estimate = await estimateWithAI(input);
+    estimate = await estimateWithAI(input, rules);
   } else {
-    estimate = estimateWithRules(input);
+    estimate = estimateWithRules(input, rules);
   }
 
   // Cache the result
-  priceCache.set(cacheKey, estimate, { ttlMs: TTL.LABOR });
+  await priceCache.set(cacheKey, estimate, { ttlMs: TTL.LABOR });
 
   return estimate;
 }
 
+/**
+ * Re-price an estimate's hours with the given rules' hourly rate
+ */
+function applyHourlyRate(estimate: LaborEstimate, rules: PricingRules): LaborEstimate {
+  const hourlyRate = rules.hourlyRates[estimate.complexity];
+  return {
+    ...estimate,
+    hourlyRateILS: hourlyRate,
+    totalLaborILS: Math.round(estimate.hours * hourlyRate),
+  };
+}
+
 /**
  * Quick estimate without AI (for real-time UI updates)
  */
 export function quickLaborEstimate(
   jewelryType: string,
   complexity: ComplexityLevel = "moderate",
-  hasStones: boolean = false
+  hasStones: boolean = false,
+  rules: PricingRules = DEFAULT_PRICING_RULES
 ): { hours: number; totalILS: number } {
-  let hours = BASE_HOURS[jewelryType] || 3;
+  let hours = rules.baseHours[jewelryType] || 3;
 
   // Complexity multiplier
   const multipliers: Record<ComplexityLevel, number> = {
@@ -323,7 +325,7 @@ export function quickLaborEstimate(
     hours += 1.5;
   }
 
-  const hourlyRate = HOURLY_RATES[complexity];
+  const hourlyRate = rules.hourlyRates[complexity];
   return {
     hours: Math.round(hours * 10) / 10,
     totalILS: Math.round(hours * hourlyRate),
@@ -0,0 +1,517 @@
+/**
+ * Mesh Volume Measurement
+ *
+ * Computes the enclosed volume of a GLB model (Tripo output) so metal
+ * weight can be priced from the actual geometry instead of per-type
+ * constants. Generated models have no physical units, so the mesh is
+ * scaled until its largest dimension matches a reference size for the
+ * jewelry type (medium size).
+ */
+
+import { prisma } from "@/lib/db/prisma";
+import { priceCache, CACHE_KEYS, TTL } from "./cache";
+import { MATERIAL_DENSITIES } from "./calculator";
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+const COMPONENT_FLOAT = 5126;
+const MODE_TRIANGLES = 4;
+
+// Refuse to download anything larger than this
+const MAX_MODEL_BYTES = 50 * 1024 * 1024;
+
+// Wait this long before downloading a model that failed to measure again
+const MEASUREMENT_RETRY_MS = 60 * 60 * 1000;
+
+/**
+ * Hosts our 3D generators serve models from - the only ones the server
+ * fetches models from (measuring here, proxying in /api/proxy/model)
+ */
+export const TRUSTED_MODEL_HOSTS = [
+  "tripo-data.rg1.data.tripo3d.com",
+  "assets.meshy.ai",
+];
+
+export function isTrustedModelUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === "https:" && TRUSTED_MODEL_HOSTS.some(
+      (host) => hostname === host || hostname.endsWith(`.${host}`)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Largest outer dimension (mm) of a medium piece of each type
+ */
+export const REFERENCE_DIMENSIONS_MM: Record<string, number> = {
+  ring: 22, // ~US 7 inner diameter plus band
+  necklace: 35, // Pendant
+  bracelet: 65,
+  earrings: 20, // Single earring
+};
+
+/**
+ * Raw geometry in model units
+ */
+export interface MeshGeometry {
+  volume: number; // Enclosed volume, model units cubed
+  dimensions: { x: number; y: number; z: number }; // Bounding box size
+  triangleCount: number;
+}
+
+export interface ModelMeasurement {
+  volumeCm3: number;
+  dimensionsMm: { x: number; y: number; z: number };
+  mmPerUnit: number;
+  triangleCount: number;
+}
+
+interface GltfAccessor {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  count: number;
+  type: string;
+  sparse?: unknown;
+}
+
+interface GltfNode {
+  mesh?: number;
+  children?: number[];
+  matrix?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+}
+
+interface GltfDocument {
+  scene?: number;
+  scenes?: Array<{ nodes?: number[] }>;
+  nodes?: GltfNode[];
+  meshes?: Array<{
+    primitives: Array<{
+      attributes: Record<string, number>;
+      indices?: number;
+      mode?: number;
+      extensions?: Record<string, unknown>;
+    }>;
+  }>;
+  accessors?: GltfAccessor[];
+  bufferViews?: Array<{ buffer: number; byteOffset?: number; byteLength: number; byteStride?: number }>;
+  extensionsRequired?: string[];
+}
+
+type Matrix4 = number[]; // Column-major, as in glTF
+
+const IDENTITY: Matrix4 = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+function multiply(a: Matrix4, b: Matrix4): Matrix4 {
+  const out = new Array<number>(16);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) {
+        sum += a[k * 4 + row] * b[col * 4 + k];
+      }
+      out[col * 4 + row] = sum;
+    }
+  }
+  return out;
+}
+
+function nodeMatrix(node: GltfNode): Matrix4 {
+  if (node.matrix) {
+    return node.matrix;
+  }
+
+  const [tx, ty, tz] = node.translation ?? [0, 0, 0];
+  const [qx, qy, qz, qw] = node.rotation ?? [0, 0, 0, 1];
+  const [sx, sy, sz] = node.scale ?? [1, 1, 1];
+
+  // Compose translation * rotation * scale
+  return [
+    (1 - 2 * (qy * qy + qz * qz)) * sx,
+    2 * (qx * qy + qz * qw) * sx,
+    2 * (qx * qz - qy * qw) * sx,
+    0,
+    2 * (qx * qy - qz * qw) * sy,
+    (1 - 2 * (qx * qx + qz * qz)) * sy,
+    2 * (qy * qz + qx * qw) * sy,
+    0,
+    2 * (qx * qz + qy * qw) * sz,
+    2 * (qy * qz - qx * qw) * sz,
+    (1 - 2 * (qx * qx + qy * qy)) * sz,
+    0,
+    tx,
+    ty,
+    tz,
+    1,
+  ];
+}
+
+function transformPoint(m: Matrix4, x: number, y: number, z: number): [number, number, number] {
+  return [
+    m[0] * x + m[4] * y + m[8] * z + m[12],
+    m[1] * x + m[5] * y + m[9] * z + m[13],
+    m[2] * x + m[6] * y + m[10] * z + m[14],
+  ];
+}
+
+/**
+ * Split a GLB container into its JSON document and binary chunk
+ */
+function readGlb(buffer: ArrayBuffer): { gltf: GltfDocument; bin: DataView } {
+  const view = new DataView(buffer);
+
+  if (buffer.byteLength < 20 || view.getUint32(0, true) !== GLB_MAGIC) {
+    throw new Error("Not a GLB file");
+  }
+  if (view.getUint32(4, true) !== 2) {
+    throw new Error("Unsupported glTF version");
+  }
+
+  let gltf: GltfDocument | null = null;
+  let bin: DataView | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.byteLength) {
+    const chunkLength = view.getUint32(offset, true);
+    const chunkType = view.getUint32(offset + 4, true);
+    const chunkStart = offset + 8;
+
+    if (chunkType === CHUNK_JSON) {
+      gltf = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, chunkStart, chunkLength)));
+    } else if (chunkType === CHUNK_BIN) {
+      bin = new DataView(buffer, chunkStart, chunkLength);
+    }
+
+    offset = chunkStart + chunkLength;
+  }
+
+  if (!gltf || !bin) {
+    throw new Error("GLB is missing its JSON or binary chunk");
+  }
+
+  return { gltf, bin };
+}
+
+function readAccessor(
+  gltf: GltfDocument,
+  bin: DataView,
+  index: number
+): { read: (i: number, c: number) => number; count: number; size: number } {
+  const accessor = gltf.accessors?.[index];
+  if (!accessor || accessor.bufferView === undefined || accessor.sparse) {
+    throw new Error(`Unsupported accessor ${index}`);
+  }
+
+  const bufferView = gltf.bufferViews![accessor.bufferView];
+  if (bufferView.buffer !== 0) {
+    throw new Error("External buffers are not supported");
+  }
+
+  const size = accessor.type === "VEC3" ? 3 : accessor.type === "SCALAR" ? 1 : 0;
+  if (size === 0) {
+    throw new Error(`Unsupported accessor type ${accessor.type}`);
+  }
+
+  const componentBytes =
+    accessor.componentType === COMPONENT_FLOAT || accessor.componentType === 5125
+      ? 4
+      : accessor.componentType === 5123
+        ? 2
+        : accessor.componentType === 5121
+          ? 1
+          : 0;
+  if (componentBytes === 0) {
+    throw new Error(`Unsupported component type ${accessor.componentType}`);
+  }
+
+  const base = (bufferView.byteOffset ?? 0) + (accessor.byteOffset ?? 0);
+  const stride = bufferView.byteStride ?? size * componentBytes;
+
+  const read = (i: number, c: number): number => {
+    const position = base + i * stride + c * componentBytes;
+    switch (accessor.componentType) {
+      case COMPONENT_FLOAT:
+        return bin.getFloat32(position, true);
+      case 5125:
+        return bin.getUint32(position, true);
+      case 5123:
+        return bin.getUint16(position, true);
+      default:
+        return bin.getUint8(position);
+    }
+  };
+
+  return { read, count: accessor.count, size };
+}
+
+/**
+ * Compute the enclosed volume of every triangle mesh in the default scene
+ *
+ * Uses the divergence theorem: the sum of signed tetrahedra formed by
+ * each triangle and the origin. Assumes closed, consistently wound meshes.
+ */
+export function measureGlbGeometry(buffer: ArrayBuffer): MeshGeometry {
+  const { gltf, bin } = readGlb(buffer);
+
+  const unsupported = (gltf.extensionsRequired ?? []).filter(
+    (extension) => extension !== "KHR_materials_pbrSpecularGlossiness" && extension !== "KHR_texture_transform"
+  );
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported glTF extensions: ${unsupported.join(", ")}`);
+  }
+
+  let volume = 0;
+  let triangleCount = 0;
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+
+  const visit = (nodeIndex: number, parent: Matrix4) => {
+    const node = gltf.nodes![nodeIndex];
+    const world = multiply(parent, nodeMatrix(node));
+
+    if (node.mesh !== undefined) {
+      for (const primitive of gltf.meshes![node.mesh].primitives) {
+        if ((primitive.mode ?? MODE_TRIANGLES) !== MODE_TRIANGLES || primitive.attributes.POSITION === undefined) {
+          continue;
+        }
+
+        const positions = readAccessor(gltf, bin, primitive.attributes.POSITION);
+        const indices = primitive.indices !== undefined ? readAccessor(gltf, bin, primitive.indices) : null;
+
+        const vertices: Array<[number, number, number]> = [];
+        for (let i = 0; i < positions.count; i++) {
+          const point = transformPoint(world, positions.read(i, 0), positions.read(i, 1), positions.read(i, 2));
+          vertices.push(point);
+          for (let axis = 0; axis < 3; axis++) {
+            min[axis] = Math.min(min[axis], point[axis]);
+            max[axis] = Math.max(max[axis], point[axis]);
+          }
+        }
+
+        const indexCount = indices ? indices.count : positions.count;
+        for (let i = 0; i + 2 < indexCount; i += 3) {
+          const a = vertices[indices ? indices.read(i, 0) : i];
+          const b = vertices[indices ? indices.read(i + 1, 0) : i + 1];
+          const c = vertices[indices ? indices.read(i + 2, 0) : i + 2];
+
+          // a · (b × c) / 6
+          volume +=
+            (a[0] * (b[1] * c[2] - b[2] * c[1]) -
+              a[1] * (b[0] * c[2] - b[2] * c[0]) +
+              a[2] * (b[0] * c[1] - b[1] * c[0])) /
+            6;
+          triangleCount++;
+        }
+      }
+    }
+
+    for (const child of node.children ?? []) {
+      visit(child, world);
+    }
+  };
+
+  const scene = gltf.scenes?.[gltf.scene ?? 0];
+  const roots = scene?.nodes ?? (gltf.nodes ?? []).map((_, index) => index);
+  for (const root of roots) {
+    visit(root, IDENTITY);
+  }
+
+  if (triangleCount === 0) {
+    throw new Error("Model contains no triangles");
+  }
+
+  return {
+    volume: Math.abs(volume),
+    dimensions: { x: max[0] - min[0], y: max[1] - min[1], z: max[2] - min[2] },
+    triangleCount,
+  };
+}
+
+/**
+ * Scale raw geometry to the reference size of the jewelry type
+ */
+export function scaleGeometry(geometry: MeshGeometry, jewelryType: string): ModelMeasurement {
+  const largest = Math.max(geometry.dimensions.x, geometry.dimensions.y, geometry.dimensions.z);
+  if (!(largest > 0)) {
+    throw new Error("Model has an empty bounding box");
+  }
+
+  const referenceMm = REFERENCE_DIMENSIONS_MM[jewelryType] ?? REFERENCE_DIMENSIONS_MM.ring;
+  const mmPerUnit = referenceMm / largest;
+  const boxVolume = geometry.dimensions.x * geometry.dimensions.y * geometry.dimensions.z;
+
+  // A closed mesh can never exceed its bounding box
+  if (!(geometry.volume > 0) || geometry.volume > boxVolume * 1.001) {
+    throw new Error("Mesh is not closed - enclosed volume is not meaningful");
+  }
+
+  // mm³ -> cm³
+  const volumeCm3 = (geometry.volume * Math.pow(mmPerUnit, 3)) / 1000;
+
+  return {
+    volumeCm3: Math.round(volumeCm3 * 1000) / 1000,
+    dimensionsMm: {
+      x: Math.round(geometry.dimensions.x * mmPerUnit * 10) / 10,
+      y: Math.round(geometry.dimensions.y * mmPerUnit * 10) / 10,
+      z: Math.round(geometry.dimensions.z * mmPerUnit * 10) / 10,
+    },
+    mmPerUnit,
+    triangleCount: geometry.triangleCount,
+  };
+}
+
+/**
+ * Resolve our model proxy URL back to the original source, which must
+ * be one of the generators' hosts
+ *
+ * Throws for any other source - the server never fetches from it.
+ */
+export function resolveModelUrl(modelUrl: string): string {
+  let sourceUrl = modelUrl;
+  if (modelUrl.startsWith("/api/proxy/model")) {
+    const original = new URL(modelUrl, "http://localhost").searchParams.get("url");
+    if (!original) {
+      throw new Error("Proxied model URL has no source");
+    }
+    sourceUrl = original;
+  }
+
+  if (!isTrustedModelUrl(sourceUrl)) {
+    throw new Error("Untrusted model source");
+  }
+  return sourceUrl;
+}
+
+/**
+ * Read a model download, giving up once it passes MAX_MODEL_BYTES
+ * (whether or not the response declares its length)
+ */
+async function readModelBody(response: Response): Promise<ArrayBuffer> {
+  const contentLength = Number(response.headers.get("content-length") || 0);
+  if (contentLength > MAX_MODEL_BYTES) {
+    throw new Error(`Model is too large to measure (${contentLength} bytes)`);
+  }
+  if (!response.body) {
+    throw new Error("Model response has no body");
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > MAX_MODEL_BYTES) {
+      await reader.cancel();
+      throw new Error(`Model is too large to measure (over ${MAX_MODEL_BYTES} bytes)`);
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body.buffer;
+}
+
+/**
+ * Download a GLB and measure it (cached per model URL)
+ *
+ * Only models on TRUSTED_MODEL_HOSTS are downloaded. Returns null instead
+ * of throwing - pricing falls back to estimates.
+ */
+export async function measureModel(modelUrl: string, jewelryType: string): Promise<ModelMeasurement | null> {
+  try {
+    const sourceUrl = resolveModelUrl(modelUrl);
+    const cacheKey = CACHE_KEYS.MESH_VOLUME(`${jewelryType}:${sourceUrl}`);
+
+    const cached = await priceCache.get<ModelMeasurement>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await fetch(sourceUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch model: ${response.status}`);
+    }
+
+    const buffer = await readModelBody(response);
+    const measurement = scaleGeometry(measureGlbGeometry(buffer), jewelryType);
+
+    console.log(
+      `[MeshVolume] ${jewelryType}: ${measurement.volumeCm3} cm³, ` +
+        `${measurement.dimensionsMm.x}×${measurement.dimensionsMm.y}×${measurement.dimensionsMm.z} mm, ` +
+        `${measurement.triangleCount} triangles`
+    );
+
+    await priceCache.set(cacheKey, measurement, { ttlMs: TTL.MESH_VOLUME });
+    return measurement;
+  } catch (error) {
+    console.error("[MeshVolume] Failed to measure model:", error);
+    return null;
+  }
+}
+
+/**
+ * Measure the model of a finished Tripo task and store the volume and
+ * metal weight on every design generated from it that has none yet
+ *
+ * A failed measurement is recorded on the design so status polling does
+ * not download the model again until MEASUREMENT_RETRY_MS has passed.
+ * Never throws - called from status polling.
+ */
+export async function storeTaskMeasurement(tripoTaskId: string, modelUrl: string): Promise<ModelMeasurement | null> {
+  try {
+    const designs = await prisma.design.findMany({
+      where: {
+        tripoTaskId,
+        volumeCm3: null,
+        OR: [
+          { measurementFailedAt: null },
+          { measurementFailedAt: { lt: new Date(Date.now() - MEASUREMENT_RETRY_MS) } },
+        ],
+      },
+      select: { id: true, jewelryType: true, material: true },
+    });
+
+    let measurement: ModelMeasurement | null = null;
+    for (const design of designs) {
+      measurement = await measureModel(modelUrl, design.jewelryType);
+      if (!measurement) {
+        await prisma.design.update({
+          where: { id: design.id },
+          data: { measurementFailedAt: new Date() },
+        });
+        continue;
+      }
+
+      const density = MATERIAL_DENSITIES[design.material] || MATERIAL_DENSITIES.gold_18k;
+      await prisma.design.update({
+        where: { id: design.id },
+        data: {
+          volumeCm3: measurement.volumeCm3,
+          weightGrams: Math.round(measurement.volumeCm3 * density * 100) / 100,
+          measurementFailedAt: null,
+        },
+      });
+    }
+
+    return measurement;
+  } catch (error) {
+    console.error("[MeshVolume] Failed to store model measurement:", error);
+    return null;
+  }
+}
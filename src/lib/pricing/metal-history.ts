@@ -0,0 +1,166 @@
+/**
+ * Metal Price History
+ *
+ * Records every metal price fetch as a time series (one GoldPriceCache
+ * row per metal) and aggregates it into buckets for trend charts.
+ * Also lets pricing fall back to the last recorded prices after a
+ * restart instead of the hardcoded defaults.
+ */
+
+import { prisma } from "@/lib/db/prisma";
+import { TTL } from "./cache";
+import type { MetalPrices } from "./metals-api";
+
+export const HISTORY_METALS = ["gold_24k", "gold_18k", "gold_14k", "silver", "platinum"] as const;
+
+export type HistoryMetal = (typeof HISTORY_METALS)[number];
+export type HistoryInterval = "hour" | "day" | "week";
+
+const INTERVAL_MS: Record<HistoryInterval, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * One aggregated point of the series
+ */
+export interface MetalHistoryPoint {
+  timestamp: Date; // Start of the bucket
+  average: number;
+  low: number;
+  high: number;
+  close: number; // Last price in the bucket
+}
+
+export interface MetalHistorySeries {
+  metal: HistoryMetal;
+  points: MetalHistoryPoint[];
+  first: number | null;
+  last: number | null;
+  changePercent: number | null; // From first to last point in the range
+}
+
+export interface MetalHistory {
+  from: Date;
+  to: Date;
+  interval: HistoryInterval;
+  series: MetalHistorySeries[];
+}
+
+/**
+ * Store a fetch as one row per metal
+ *
+ * Never throws - a history write must not break pricing.
+ */
+export async function recordMetalPrices(prices: MetalPrices): Promise<void> {
+  const fetchedAt = new Date(prices.timestamp);
+  const expiresAt = new Date(fetchedAt.getTime() + TTL.METALS);
+
+  try {
+    await prisma.goldPriceCache.createMany({
+      data: HISTORY_METALS.map((metal) => ({
+        metal,
+        pricePerGram: prices[metal],
+        currency: "ILS",
+        source: prices.source.provider,
+        fetchedAt,
+        expiresAt,
+      })),
+    });
+  } catch (error) {
+    console.error("[MetalHistory] Failed to record metal prices:", error);
+  }
+}
+
+/**
+ * Most recently recorded prices, or null if nothing was ever recorded
+ */
+export async function getLatestRecordedPrices(): Promise<MetalPrices | null> {
+  try {
+    const rows = await Promise.all(
+      HISTORY_METALS.map((metal) =>
+        prisma.goldPriceCache.findFirst({
+          where: { metal },
+          orderBy: { fetchedAt: "desc" },
+        })
+      )
+    );
+
+    if (rows.some((row) => row === null)) {
+      return null;
+    }
+
+    const prices = Object.fromEntries(
+      HISTORY_METALS.map((metal, index) => [metal, rows[index]!.pricePerGram])
+    ) as Record<HistoryMetal, number>;
+
+    return {
+      ...prices,
+      timestamp: rows[0]!.fetchedAt,
+      source: { status: "fallback", provider: rows[0]!.source },
+    };
+  } catch (error) {
+    console.error("[MetalHistory] Failed to load recorded prices:", error);
+    return null;
+  }
+}
+
+/**
+ * Load the price series for a range, aggregated per interval
+ */
+export async function getMetalPriceHistory(options: {
+  days: number;
+  interval: HistoryInterval;
+  metals?: HistoryMetal[];
+}): Promise<MetalHistory> {
+  const to = new Date();
+  const from = new Date(to.getTime() - options.days * INTERVAL_MS.day);
+  const metals = options.metals ?? [...HISTORY_METALS];
+  const bucketMs = INTERVAL_MS[options.interval];
+
+  const rows = await prisma.goldPriceCache.findMany({
+    where: {
+      metal: { in: metals },
+      fetchedAt: { gte: from, lte: to },
+    },
+    orderBy: { fetchedAt: "asc" },
+    select: { metal: true, pricePerGram: true, fetchedAt: true },
+  });
+
+  const series = metals.map((metal): MetalHistorySeries => {
+    const buckets = new Map<number, number[]>();
+
+    for (const row of rows) {
+      if (row.metal !== metal) continue;
+      const bucket = Math.floor(row.fetchedAt.getTime() / bucketMs) * bucketMs;
+      const prices = buckets.get(bucket) ?? [];
+      prices.push(row.pricePerGram);
+      buckets.set(bucket, prices);
+    }
+
+    const points = [...buckets.entries()].map(([bucket, prices]) => ({
+      timestamp: new Date(bucket),
+      average: Math.round((prices.reduce((sum, price) => sum + price, 0) / prices.length) * 100) / 100,
+      low: Math.min(...prices),
+      high: Math.max(...prices),
+      close: prices[prices.length - 1],
+    }));
+
+    const first = points.length > 0 ? points[0].close : null;
+    const last = points.length > 0 ? points[points.length - 1].close : null;
+
+    return {
+      metal,
+      points,
+      first,
+      last,
+      changePercent:
+        first !== null && last !== null && first > 0
+          ? Math.round(((last - first) / first) * 10000) / 100
+          : null,
+    };
+  });
+
+  return { from, to, interval: options.interval, series };
+}
@@ -0,0 +1,345 @@
+/**
+ * Metal Price Providers
+ *
+ * Each provider returns pure metal prices in ILS per gram. Providers are
+ * tried in priority order until one answers:
+ *
+ * 1. metalpriceapi - MetalPriceAPI (requires METALPRICEAPI_KEY)
+ * 2. goldapi       - gold-api.com public spot prices, converted from USD
+ * 3. manual        - prices entered by an admin in the dashboard
+ * 4. fixture       - JSON file for offline development and tests
+ *
+ * The order can be changed with METAL_PRICE_PROVIDERS (comma-separated names).
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+import { prisma } from "@/lib/db/prisma";
+import { priceCache, CACHE_KEYS } from "./cache";
+import { createNextConfigVersion } from "./config";
+
+// Conversion constant: troy ounce to grams
+const TROY_OUNCE_TO_GRAMS = 31.1035;
+
+const METALPRICEAPI_BASE_URL = "https://api.metalpriceapi.com/v1";
+const GOLDAPI_BASE_URL = "https://api.gold-api.com/price";
+const EXCHANGE_RATE_URL = "https://api.exchangerate-api.com/v4/latest/USD";
+
+const DEFAULT_PROVIDER_ORDER = ["metalpriceapi", "goldapi", "manual", "fixture"];
+const DEFAULT_FIXTURE_PATH = "src/lib/pricing/fixtures/metal-prices.json";
+
+export const MANUAL_METAL_PRICES_KEY = "manual_metal_prices";
+
+/**
+ * Pure metal prices in ILS per gram, before karat adjustment
+ */
+export interface ProviderPrices {
+  gold_24k: number;
+  silver: number;
+  platinum: number;
+  timestamp: Date;
+}
+
+export interface MetalPriceProvider {
+  name: string;
+  /** Whether the provider can be used in this environment */
+  isConfigured(): Promise<boolean>;
+  fetchPrices(): Promise<ProviderPrices>;
+}
+
+const providerPricesSchema = z.object({
+  gold_24k: z.number().positive(),
+  silver: z.number().positive(),
+  platinum: z.number().positive(),
+});
+
+export const manualMetalPricesSchema = providerPricesSchema.extend({
+  expiresAt: z.string().datetime().nullable().optional(), // Stop using the manual price after this date
+});
+
+export type ManualMetalPrices = z.infer<typeof manualMetalPricesSchema>;
+
+export interface ManualMetalPricesRecord {
+  version: number;
+  prices: ManualMetalPrices;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+/**
+ * MetalPriceAPI - https://metalpriceapi.com/documentation
+ */
+const metalPriceApiProvider: MetalPriceProvider = {
+  name: "metalpriceapi",
+
+  async isConfigured() {
+    return Boolean(process.env.METALPRICEAPI_KEY);
+  },
+
+  async fetchPrices() {
+    const apiKey = process.env.METALPRICEAPI_KEY;
+    if (!apiKey) {
+      throw new Error(
+        "METALPRICEAPI_KEY environment variable is not set. " +
+          "Please add your MetalPriceAPI key to .env.local"
+      );
+    }
+
+    // Request prices in ILS
+    const url = `${METALPRICEAPI_BASE_URL}/latest?api_key=${apiKey}&base=ILS&currencies=XAU,XAG,XPT`;
+
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      // Cache for 1 hour on the fetch level as well
+      next: { revalidate: 3600 },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`MetalPriceAPI error: ${response.status} - ${errorText}`);
+    }
+
+    const data: { success: boolean; timestamp: number; rates: Record<string, number> } =
+      await response.json();
+
+    if (!data.success) {
+      throw new Error("MetalPriceAPI returned unsuccessful response");
+    }
+
+    // Since base is ILS, the rates are 1/price (troy ounces per 1 ILS)
+    // Invert them to get ILS per troy ounce, then convert to per gram
+    return {
+      gold_24k: 1 / data.rates.XAU / TROY_OUNCE_TO_GRAMS,
+      silver: 1 / data.rates.XAG / TROY_OUNCE_TO_GRAMS,
+      platinum: 1 / data.rates.XPT / TROY_OUNCE_TO_GRAMS,
+      timestamp: new Date(data.timestamp * 1000),
+    };
+  },
+};
+
+/**
+ * gold-api.com - free spot prices in USD per troy ounce, no key required
+ */
+const goldApiProvider: MetalPriceProvider = {
+  name: "goldapi",
+
+  async isConfigured() {
+    return process.env.GOLDAPI_DISABLED !== "true";
+  },
+
+  async fetchPrices() {
+    const fetchSpot = async (symbol: string): Promise<number> => {
+      const response = await fetch(`${GOLDAPI_BASE_URL}/${symbol}`, {
+        next: { revalidate: 3600 },
+      });
+      if (!response.ok) {
+        throw new Error(`gold-api.com error for ${symbol}: ${response.status}`);
+      }
+      const data: { price?: number } = await response.json();
+      if (!data.price || data.price <= 0) {
+        throw new Error(`gold-api.com returned no price for ${symbol}`);
+      }
+      return data.price;
+    };
+
+    const [gold, silver, platinum, rateResponse] = await Promise.all([
+      fetchSpot("XAU"),
+      fetchSpot("XAG"),
+      fetchSpot("XPT"),
+      fetch(EXCHANGE_RATE_URL, { next: { revalidate: 3600 } }),
+    ]);
+
+    if (!rateResponse.ok) {
+      throw new Error(`Exchange rate error: ${rateResponse.status}`);
+    }
+    const rates: { rates?: Record<string, number> } = await rateResponse.json();
+    const usdToIls = rates.rates?.ILS;
+    if (!usdToIls) {
+      throw new Error("Exchange rate response has no ILS rate");
+    }
+
+    const toIlsPerGram = (usdPerOunce: number) => (usdPerOunce * usdToIls) / TROY_OUNCE_TO_GRAMS;
+
+    return {
+      gold_24k: toIlsPerGram(gold),
+      silver: toIlsPerGram(silver),
+      platinum: toIlsPerGram(platinum),
+      timestamp: new Date(),
+    };
+  },
+};
+
+/**
+ * Prices entered by an admin (latest PricingConfig version)
+ */
+const manualProvider: MetalPriceProvider = {
+  name: "manual",
+
+  async isConfigured() {
+    const record = await getManualMetalPrices();
+    return record !== null && !isManualPriceExpired(record.prices);
+  },
+
+  async fetchPrices() {
+    const record = await getManualMetalPrices();
+    if (!record || isManualPriceExpired(record.prices)) {
+      throw new Error("No current manual metal prices");
+    }
+
+    return {
+      gold_24k: record.prices.gold_24k,
+      silver: record.prices.silver,
+      platinum: record.prices.platinum,
+      timestamp: record.createdAt,
+    };
+  },
+};
+
+/**
+ * Static prices from a JSON file (offline development and tests)
+ */
+const fixtureProvider: MetalPriceProvider = {
+  name: "fixture",
+
+  async isConfigured() {
+    return Boolean(process.env.METAL_PRICE_FIXTURE) || process.env.NODE_ENV !== "production";
+  },
+
+  async fetchPrices() {
+    const fixturePath = path.resolve(process.cwd(), process.env.METAL_PRICE_FIXTURE || DEFAULT_FIXTURE_PATH);
+    const contents = await fs.readFile(fixturePath, "utf-8");
+    const prices = providerPricesSchema.parse(JSON.parse(contents));
+
+    return { ...prices, timestamp: new Date() };
+  },
+};
+
+const PROVIDERS: Record<string, MetalPriceProvider> = {
+  [metalPriceApiProvider.name]: metalPriceApiProvider,
+  [goldApiProvider.name]: goldApiProvider,
+  [manualProvider.name]: manualProvider,
+  [fixtureProvider.name]: fixtureProvider,
+};
+
+/**
+ * Providers in priority order
+ */
+export function getMetalPriceProviders(): MetalPriceProvider[] {
+  const order = process.env.METAL_PRICE_PROVIDERS
+    ? process.env.METAL_PRICE_PROVIDERS.split(",").map((name) => name.trim())
+    : DEFAULT_PROVIDER_ORDER;
+
+  return order
+    .map((name) => {
+      const provider = PROVIDERS[name];
+      if (!provider) {
+        console.warn(`[MetalProviders] Unknown provider "${name}" in METAL_PRICE_PROVIDERS`);
+      }
+      return provider;
+    })
+    .filter((provider): provider is MetalPriceProvider => Boolean(provider));
+}
+
+/**
+ * Configuration state of every provider, in priority order (admin display)
+ */
+export async function getMetalPriceProviderStatus(): Promise<Array<{ name: string; configured: boolean }>> {
+  return Promise.all(
+    getMetalPriceProviders().map(async (provider) => ({
+      name: provider.name,
+      configured: await provider.isConfigured().catch(() => false),
+    }))
+  );
+}
+
+/**
+ * Ask each configured provider in order until one answers
+ */
+export async function fetchFromProviders(): Promise<{ provider: string; prices: ProviderPrices }> {
+  const errors: string[] = [];
+
+  for (const provider of getMetalPriceProviders()) {
+    try {
+      if (!(await provider.isConfigured())) {
+        continue;
+      }
+
+      const prices = await provider.fetchPrices();
+      return { provider: provider.name, prices };
+    } catch (error) {
+      console.error(`[MetalProviders] Provider ${provider.name} failed:`, error);
+      errors.push(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  throw new Error(
+    errors.length > 0
+      ? `All metal price providers failed (${errors.join("; ")})`
+      : "No metal price provider is configured"
+  );
+}
+
+function isManualPriceExpired(prices: ManualMetalPrices): boolean {
+  return Boolean(prices.expiresAt) && new Date(prices.expiresAt!).getTime() < Date.now();
+}
+
+/**
+ * Latest manual price entry, or null if none was ever entered
+ */
+export async function getManualMetalPrices(): Promise<ManualMetalPricesRecord | null> {
+  const record = await prisma.pricingConfig.findFirst({
+    where: { key: MANUAL_METAL_PRICES_KEY },
+    orderBy: { version: "desc" },
+  });
+
+  if (!record) {
+    return null;
+  }
+
+  const parsed = manualMetalPricesSchema.safeParse(record.value);
+  if (!parsed.success) {
+    console.error(`[MetalProviders] Invalid manual metal prices in version ${record.version}`);
+    return null;
+  }
+
+  return {
+    version: record.version,
+    prices: parsed.data,
+    note: record.note,
+    createdBy: record.createdBy,
+    createdAt: record.createdAt,
+  };
+}
+
+/**
+ * Store a new manual price entry
+ */
+export async function setManualMetalPrices(input: {
+  prices: ManualMetalPrices;
+  note?: string;
+  createdBy?: string;
+}): Promise<ManualMetalPricesRecord> {
+  const prices = manualMetalPricesSchema.parse(input.prices);
+
+  const record = await createNextConfigVersion(MANUAL_METAL_PRICES_KEY, {
+    value: JSON.parse(JSON.stringify(prices)),
+    note: input.note,
+    createdBy: input.createdBy,
+  });
+
+  // Re-resolve the providers on the next price request
+  await priceCache.delete(CACHE_KEYS.METAL_PRICES);
+
+  return {
+    version: record.version,
+    prices,
+    note: record.note,
+    createdBy: record.createdBy,
+    createdAt: record.createdAt,
+  };
+}
@@ -1,27 +1,24 @@
 /**
- * MetalPriceAPI Integration
+ * Metal Prices
  *
- * Fetches real-time precious metal prices from MetalPriceAPI.
+ * Fetches precious metal prices from the configured providers
+ * (see metal-providers.ts) with caching and fallback.
  * Returns prices in ILS (Israeli Shekel) per gram.
- *
- * API Documentation: https://metalpriceapi.com/documentation
  */
 
 import { priceCache, CACHE_KEYS, TTL, getCachedOrFetch } from "./cache";
+import { recordMetalPrices, getLatestRecordedPrices } from "./metal-history";
+import { fetchFromProviders } from "./metal-providers";
 
-// API configuration
-const METALPRICEAPI_BASE_URL = "https://api.metalpriceapi.com/v1";
-
-// Metal symbols used by the API
-const METAL_SYMBOLS = {
-  GOLD: "XAU", // Gold (troy ounce)
-  SILVER: "XAG", // Silver (troy ounce)
-  PLATINUM: "XPT", // Platinum (troy ounce)
-  PALLADIUM: "XPD", // Palladium (troy ounce)
-} as const;
+export type MetalPriceStatus = "live" | "cached" | "fallback";
 
-// Conversion constant: troy ounce to grams
-const TROY_OUNCE_TO_GRAMS = 31.1035;
+/**
+ * Where a set of prices came from
+ */
+export interface MetalPriceSource {
+  status: MetalPriceStatus;
+  provider: string; // e.g. "metalpriceapi", "goldapi", "manual", "fixture", "defaults"
+}
 
 /**
  * Metal prices in ILS per gram
@@ -33,97 +30,34 @@ export interface MetalPrices {
   silver: number; // Silver price per gram in ILS
   platinum: number; // Platinum price per gram in ILS
   timestamp: Date;
-  source: "live" | "cached" | "fallback";
+  source: MetalPriceSource;
 }
 
 /**
- * Raw API response structure from MetalPriceAPI
- */
-interface MetalPriceAPIResponse {
-  success: boolean;
-  timestamp: number;
-  base: string;
-  rates: {
-    [key: string]: number;
-  };
-}
-
-/**
- * Get the API key from environment variables
- */
-function getApiKey(): string {
-  const apiKey = process.env.METALPRICEAPI_KEY;
-  if (!apiKey) {
-    throw new Error(
-      "METALPRICEAPI_KEY environment variable is not set. " +
-        "Please add your MetalPriceAPI key to .env.local"
-    );
-  }
-  return apiKey;
-}
-
-/**
- * Fetch raw metal prices from MetalPriceAPI
+ * Fetch prices from the first provider that answers
  */
 async function fetchFromAPI(): Promise<MetalPrices> {
-  const apiKey = getApiKey();
-
-  // Request prices in ILS
-  const symbols = `${METAL_SYMBOLS.GOLD},${METAL_SYMBOLS.SILVER},${METAL_SYMBOLS.PLATINUM}`;
-  const url = `${METALPRICEAPI_BASE_URL}/latest?api_key=${apiKey}&base=ILS&currencies=${symbols}`;
-
-  const response = await fetch(url, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    // Cache for 1 hour on the fetch level as well
-    next: { revalidate: 3600 },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`MetalPriceAPI error: ${response.status} - ${errorText}`);
-  }
-
-  const data: MetalPriceAPIResponse = await response.json();
-
-  if (!data.success) {
-    throw new Error("MetalPriceAPI returned unsuccessful response");
-  }
-
-  // The API returns rates as currency/metal (how much currency per 1 troy ounce of metal)
-  // We need to convert to ILS per gram
-  // Note: When base=ILS, rates show ILS per unit of each symbol
-
-  // The API returns inverse rates when metals are in currencies field
-  // So we need: ILS per gram = (1 / rate) / TROY_OUNCE_TO_GRAMS
-  // Or if rate is ILS per troy ounce: ILS per gram = rate / TROY_OUNCE_TO_GRAMS
-
-  const goldPerTroyOunce = data.rates[METAL_SYMBOLS.GOLD];
-  const silverPerTroyOunce = data.rates[METAL_SYMBOLS.SILVER];
-  const platinumPerTroyOunce = data.rates[METAL_SYMBOLS.PLATINUM];
-
-  // Since base is ILS, the rates are actually 1/price (ILS per 1 unit of metal)
-  // We need to invert them to get price per troy ounce, then convert to per gram
-  const gold24kPerGram = 1 / goldPerTroyOunce / TROY_OUNCE_TO_GRAMS;
-  const silverPerGram = 1 / silverPerTroyOunce / TROY_OUNCE_TO_GRAMS;
-  const platinumPerGram = 1 / platinumPerTroyOunce / TROY_OUNCE_TO_GRAMS;
+  const { provider, prices: raw } = await fetchFromProviders();
 
   // Calculate karat-adjusted gold prices
   // 24k = 100% gold, 18k = 75% gold, 14k = 58.3% gold
-  const gold18kPerGram = gold24kPerGram * (18 / 24);
-  const gold14kPerGram = gold24kPerGram * (14 / 24);
+  const gold18kPerGram = raw.gold_24k * (18 / 24);
+  const gold14kPerGram = raw.gold_24k * (14 / 24);
 
-  return {
-    gold_24k: Math.round(gold24kPerGram * 100) / 100,
+  const prices: MetalPrices = {
+    gold_24k: Math.round(raw.gold_24k * 100) / 100,
     gold_18k: Math.round(gold18kPerGram * 100) / 100,
     gold_14k: Math.round(gold14kPerGram * 100) / 100,
-    silver: Math.round(silverPerGram * 100) / 100,
-    platinum: Math.round(platinumPerGram * 100) / 100,
-    timestamp: new Date(data.timestamp * 1000),
-    source: "live",
+    silver: Math.round(raw.silver * 100) / 100,
+    platinum: Math.round(raw.platinum * 100) / 100,
+    timestamp: raw.timestamp,
+    source: { status: "live", provider },
   };
+
+  // Keep a persistent time series of every fetch
+  await recordMetalPrices(prices);
+
+  return prices;
 }
 
 /**
@@ -141,7 +75,10 @@ export async function getMetalPrices(): Promise<MetalPrices> {
 
   return {
     ...result.data,
-    source: result.isFallback ? "fallback" : result.isCached ? "cached" : "live",
+    source: {
+      status: result.isFallback ? "fallback" : result.isCached ? "cached" : "live",
+      provider: result.data.source.provider,
+    },
     timestamp: result.timestamp ?? result.data.timestamp,
   };
 }
@@ -150,7 +87,7 @@ export async function getMetalPrices(): Promise<MetalPrices> {
  * Force refresh metal prices (bypass cache)
  */
 export async function refreshMetalPrices(): Promise<MetalPrices> {
-  priceCache.delete(CACHE_KEYS.METAL_PRICES);
+  await priceCache.delete(CACHE_KEYS.METAL_PRICES);
   return getMetalPrices();
 }
 
@@ -175,28 +112,30 @@ export function getMaterialPrice(
 /**
  * Check if we have any metal prices available (cached or fallback)
  */
-export function hasMetalPrices(): boolean {
+export async function hasMetalPrices(): Promise<boolean> {
   return (
-    priceCache.has(CACHE_KEYS.METAL_PRICES) ||
-    priceCache.hasFallback(CACHE_KEYS.METAL_PRICES)
+    (await priceCache.has(CACHE_KEYS.METAL_PRICES)) ||
+    (await priceCache.hasFallback(CACHE_KEYS.METAL_PRICES))
   );
 }
 
 /**
  * Get cache status for metal prices
  */
-export function getMetalPricesCacheStatus(): {
+export async function getMetalPricesCacheStatus(): Promise<{
   isCached: boolean;
   isFresh: boolean;
   lastUpdated: Date | null;
   remainingTtlMs: number;
-} {
-  return {
-    isCached: priceCache.has(CACHE_KEYS.METAL_PRICES),
-    isFresh: priceCache.isFresh(CACHE_KEYS.METAL_PRICES),
-    lastUpdated: priceCache.getTimestamp(CACHE_KEYS.METAL_PRICES),
-    remainingTtlMs: priceCache.getRemainingTtl(CACHE_KEYS.METAL_PRICES),
-  };
+}> {
+  const [isCached, isFresh, lastUpdated, remainingTtlMs] = await Promise.all([
+    priceCache.has(CACHE_KEYS.METAL_PRICES),
+    priceCache.isFresh(CACHE_KEYS.METAL_PRICES),
+    priceCache.getTimestamp(CACHE_KEYS.METAL_PRICES),
+    priceCache.getRemainingTtl(CACHE_KEYS.METAL_PRICES),
+  ]);
+
+  return { isCached, isFresh, lastUpdated, remainingTtlMs };
 }
 
 // Default/fallback prices (based on approximate market rates as of 2024)
@@ -208,18 +147,25 @@ export const DEFAULT_METAL_PRICES: MetalPrices = {
   silver: 3.5, // ~$0.95/g at 3.7 ILS/USD
   platinum: 115, // ~$31/g at 3.7 ILS/USD
   timestamp: new Date(),
-  source: "fallback",
+  source: { status: "fallback", provider: "defaults" },
 };
 
 /**
- * Get metal prices with graceful fallback to defaults
+ * Get metal prices with graceful fallback
  *
- * This function never throws - it returns default prices if all else fails.
+ * This function never throws - it falls back to the last recorded
+ * prices, then to default prices if all else fails.
  */
 export async function getMetalPricesSafe(): Promise<MetalPrices> {
   try {
     return await getMetalPrices();
   } catch (error) {
+    const recorded = await getLatestRecordedPrices();
+    if (recorded) {
+      console.error("[MetalPrices] Failed to fetch prices, using last recorded prices:", error);
+      return recorded;
+    }
+
     console.error("[MetalPrices] Failed to fetch prices, using defaults:", error);
     return DEFAULT_METAL_PRICES;
   }
@@ -0,0 +1,268 @@
+/**
+ * Signed Price Quotes
+ *
+ * A quote freezes the price a customer was shown: the full breakdown,
+ * the exact metal price snapshot it was calculated from, and an expiry.
+ * Quotes are stored in the database and signed with an HMAC so checkout
+ * can detect any tampering with the stored record.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { prisma } from "@/lib/db/prisma";
+import {
+  designToPricingInput,
+  type PricingInput,
+  type PricingBreakdown,
+} from "./calculator";
+import type { MetalPrices } from "./metals-api";
+import { calculatePriceWithSnapshot } from "./snapshots";
+import { parseJewelrySize, formatJewelrySize } from "./sizes";
+
+// Default quote validity (gold moves during the day)
+const DEFAULT_QUOTE_TTL_MINUTES = 30;
+
+/**
+ * A signed price quote
+ */
+export interface PriceQuote {
+  id: string;
+  designId: string | null;
+  material: string;
+  size: string | null;
+  total: number;
+  currency: "ILS";
+  breakdown: PricingBreakdown;
+  metalPrices: MetalPrices;
+  configVersion: number | null;
+  /** The design's updatedAt when priced; the quote lapses once the design changes */
+  designUpdatedAt: Date | null;
+  signature: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export type DesignQuoteResult =
+  | { success: true; quote: PriceQuote }
+  | { success: false; error: string; notFound?: boolean };
+
+export type QuoteVerification =
+  | { status: "valid"; quote: PriceQuote }
+  | { status: "expired"; quote: PriceQuote }
+  | { status: "invalid"; error: string };
+
+/**
+ * Get the signing secret from environment variables
+ */
+function getSigningSecret(): string {
+  const secret = process.env.PRICE_QUOTE_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error(
+      "PRICE_QUOTE_SECRET environment variable is not set. " +
+        "Please add a quote signing secret to .env.local"
+    );
+  }
+  return secret;
+}
+
+function getQuoteTtlMs(): number {
+  const minutes = parseFloat(process.env.PRICE_QUOTE_TTL_MINUTES || "");
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_QUOTE_TTL_MINUTES) * 60 * 1000;
+}
+
+/**
+ * Serialize with sorted keys so the signature survives a JSON column round trip
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function signQuote(quote: Omit<PriceQuote, "signature" | "createdAt">): string {
+  const payload = canonicalJson(
+    JSON.parse(
+      JSON.stringify({
+        id: quote.id,
+        designId: quote.designId,
+        material: quote.material,
+        size: quote.size,
+        total: quote.total,
+        breakdown: quote.breakdown,
+        metalPrices: quote.metalPrices,
+        expiresAt: quote.expiresAt,
+        // Only signed when set, so quotes issued before it existed still verify
+        ...(quote.designUpdatedAt && { designUpdatedAt: quote.designUpdatedAt }),
+      })
+    )
+  );
+  return createHmac("sha256", getSigningSecret()).update(payload).digest("hex");
+}
+
+function toPriceQuote(record: {
+  id: string;
+  designId: string | null;
+  material: string;
+  size: string | null;
+  total: number;
+  breakdown: unknown;
+  metalPrices: unknown;
+  configVersion: number | null;
+  designUpdatedAt: Date | null;
+  signature: string;
+  expiresAt: Date;
+  createdAt: Date;
+}): PriceQuote {
+  return {
+    id: record.id,
+    designId: record.designId,
+    material: record.material,
+    size: record.size,
+    total: record.total,
+    currency: "ILS",
+    breakdown: record.breakdown as PricingBreakdown,
+    metalPrices: record.metalPrices as MetalPrices,
+    configVersion: record.configVersion,
+    designUpdatedAt: record.designUpdatedAt,
+    signature: record.signature,
+    expiresAt: record.expiresAt,
+    createdAt: record.createdAt,
+  };
+}
+
+/**
+ * Calculate a price and store it as a signed quote
+ */
+export async function issuePriceQuote(
+  input: PricingInput,
+  options: { designId?: string; designUpdatedAt?: Date; size?: string } = {}
+): Promise<PriceQuote> {
+  // Freeze the metal prices so the quote records exactly what was used
+  const { breakdown, metalPrices } = await calculatePriceWithSnapshot(input);
+
+  const unsigned = {
+    id: randomUUID(),
+    designId: options.designId ?? null,
+    material: input.material,
+    size: options.size ?? (input.jewelrySize ? formatJewelrySize(input.jewelrySize) : (input.size ?? null)),
+    total: breakdown.total,
+    currency: "ILS" as const,
+    breakdown,
+    metalPrices,
+    configVersion: breakdown.metadata.configVersion,
+    designUpdatedAt: options.designUpdatedAt ?? null,
+    expiresAt: new Date(Date.now() + getQuoteTtlMs()),
+  };
+  const signature = signQuote(unsigned);
+
+  const record = await prisma.priceQuote.create({
+    data: {
+      id: unsigned.id,
+      designId: unsigned.designId,
+      material: unsigned.material,
+      size: unsigned.size,
+      total: unsigned.total,
+      breakdown: JSON.parse(JSON.stringify(breakdown)),
+      metalPrices: JSON.parse(JSON.stringify(metalPrices)),
+      configVersion: unsigned.configVersion,
+      designUpdatedAt: unsigned.designUpdatedAt,
+      signature,
+      expiresAt: unsigned.expiresAt,
+    },
+  });
+
+  return toPriceQuote(record);
+}
+
+/**
+ * Issue a quote for a saved design (deterministic, non-AI path)
+ *
+ * `size` may be given in any supported size system; defaults to the
+ * size stored on the design.
+ */
+export async function issueDesignQuote(
+  designId: string,
+  options: { material?: PricingInput["material"]; size?: string | null } = {}
+): Promise<DesignQuoteResult> {
+  const design = await prisma.design.findUnique({ where: { id: designId } });
+  if (!design) {
+    return { success: false, error: "Design not found", notFound: true };
+  }
+
+  const parsedSize = parseJewelrySize(design.jewelryType, options.size ?? design.jewelrySize);
+  if (!parsedSize.success) {
+    return { success: false, error: parsedSize.error };
+  }
+
+  const overrides: Partial<PricingInput> = { jewelrySize: parsedSize.size ?? undefined };
+  if (options.material) overrides.material = options.material;
+
+  const input = designToPricingInput(design, overrides);
+  const quote = await issuePriceQuote(input, {
+    designId,
+    designUpdatedAt: design.updatedAt,
+    size: parsedSize.size ? formatJewelrySize(parsedSize.size) : undefined,
+  });
+
+  return { success: true, quote };
+}
+
+/**
+ * Load a quote and check its signature and expiry
+ */
+export async function verifyPriceQuote(quoteId: string): Promise<QuoteVerification> {
+  const record = await prisma.priceQuote.findUnique({ where: { id: quoteId } });
+  if (!record) {
+    return { status: "invalid", error: "Quote not found" };
+  }
+
+  const quote = toPriceQuote(record);
+  const expected = Buffer.from(signQuote(quote), "hex");
+  const actual = Buffer.from(quote.signature, "hex");
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    console.error(`[PriceQuote] Signature mismatch for quote ${quoteId}`);
+    return { status: "invalid", error: "Quote signature is invalid" };
+  }
+
+  if (quote.expiresAt.getTime() < Date.now()) {
+    return { status: "expired", quote };
+  }
+
+  return { status: "valid", quote };
+}
+
+/**
+ * End a design's live quotes now, after it was repriced
+ *
+ * Checkout replaces an expired quote with one at the current price and
+ * asks the customer to confirm it. The expiry is signed, so each quote is
+ * signed again; quotes failing their signature are left for checkout to
+ * reject. Returns the number of quotes expired.
+ */
+export async function expireDesignQuotes(designId: string): Promise<number> {
+  const now = new Date();
+  const records = await prisma.priceQuote.findMany({
+    where: { designId, expiresAt: { gt: now } },
+  });
+
+  let expired = 0;
+  for (const record of records) {
+    const quote = toPriceQuote(record);
+    if (signQuote(quote) !== quote.signature) continue;
+
+    const updated = await prisma.priceQuote.updateMany({
+      where: { id: quote.id, expiresAt: { gt: now } },
+      data: { expiresAt: now, signature: signQuote({ ...quote, expiresAt: now }) },
+    });
+    expired += updated.count;
+  }
+
+  return expired;
+}
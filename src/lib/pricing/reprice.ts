@@ -0,0 +1,235 @@
+/**
+ * Checkout Repricing
+ *
+ * Recomputes cart prices on the server from the stored Design records so
+ * the amount charged never depends on prices sent by the browser.
+ * Uses the deterministic (non-AI) calculator path so repeated checkouts
+ * of the same cart produce the same price.
+ *
+ * A line carrying a valid signed quote is charged the quoted price.
+ * An expired quote is replaced with a fresh one so the customer can
+ * confirm the new price.
+ */
+
+import { prisma } from "@/lib/db/prisma";
+import { designToPricingInput, type PricingInput, type PricingBreakdown } from "./calculator";
+import type { MetalPrices } from "./metals-api";
+import { issueDesignQuote, verifyPriceQuote } from "./quotes";
+import { calculatePriceWithSnapshot } from "./snapshots";
+import { parseJewelrySize, formatJewelrySize, describeJewelrySize, type JewelrySize } from "./sizes";
+import { summarizeDiamondOrigins, type DiamondOrigin } from "./stone-origin";
+
+// Maximum relative difference between client and server unit price (2%)
+const DEFAULT_PRICE_TOLERANCE = 0.02;
+
+// Test products bypass repricing - development only
+const TEST_PRODUCT_PREFIX = "test-product";
+
+const MATERIALS: PricingInput["material"][] = ["gold_14k", "gold_18k", "gold_24k", "silver", "platinum"];
+
+/**
+ * Cart line as submitted by the client
+ */
+export interface CartLineInput {
+  id: string; // Cart line ID
+  designId: string;
+  material: string;
+  size?: string; // Any supported size system - normalized on the repriced line
+  price: number; // Unit price shown to the customer
+  quantity: number;
+  quoteId?: string; // Signed quote the price was shown from
+}
+
+export type QuoteStatus = "valid" | "expired" | "none";
+
+/**
+ * Cart line with the server-computed unit price
+ */
+export interface RepricedCartLine extends CartLineInput {
+  jewelryType?: string; // From the design (absent for test products)
+  sizeDetails?: string; // All size systems, for manufacturing
+  diamondOrigin?: DiamondOrigin | "mixed"; // Disclosed on the order and payment page
+  clientPrice: number;
+  unitPrice: number; // Authoritative unit price
+  totalPrice: number;
+  withinTolerance: boolean;
+  isTestProduct: boolean;
+  quoteStatus: QuoteStatus; // "expired" lines carry a fresh quoteId
+  quoteExpiresAt?: Date;
+  pricing?: { breakdown: PricingBreakdown; metalPrices: MetalPrices }; // What unitPrice came from (absent for test products)
+}
+
+export type RepriceResult =
+  | { success: true; items: RepricedCartLine[] }
+  | { success: false; error: string; itemId?: string };
+
+/**
+ * Whether the checkout test product may be purchased
+ */
+export function isTestProductAllowed(): boolean {
+  return process.env.NODE_ENV === "development";
+}
+
+export function isTestProduct(designId: string): boolean {
+  return designId.startsWith(TEST_PRODUCT_PREFIX);
+}
+
+function getPriceTolerance(): number {
+  const configured = parseFloat(process.env.CHECKOUT_PRICE_TOLERANCE || "");
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_PRICE_TOLERANCE;
+}
+
+/**
+ * Recompute the unit price of every cart line from the database
+ *
+ * Fails if a design is missing, a size is invalid or missing for a ring,
+ * or a test product is submitted outside development mode.
+ */
+export async function repriceCartItems(items: CartLineInput[]): Promise<RepriceResult> {
+  const tolerance = getPriceTolerance();
+
+  for (const item of items) {
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      return { success: false, error: `Invalid quantity for item ${item.id}`, itemId: item.id };
+    }
+    if (isTestProduct(item.designId) && !isTestProductAllowed()) {
+      return { success: false, error: "Test products are only available in development mode", itemId: item.id };
+    }
+  }
+
+  const designIds = [...new Set(items.filter((item) => !isTestProduct(item.designId)).map((item) => item.designId))];
+  const designs = await prisma.design.findMany({
+    where: { id: { in: designIds } },
+  });
+  const designsById = new Map(designs.map((design) => [design.id, design]));
+
+  const missing = items.find((item) => !isTestProduct(item.designId) && !designsById.has(item.designId));
+  if (missing) {
+    return { success: false, error: `Design not found: ${missing.designId}`, itemId: missing.id };
+  }
+
+  // Validate and normalize sizes - manufacturing needs an exact size
+  const sizes = new Map<string, JewelrySize | null>();
+  for (const item of items) {
+    if (isTestProduct(item.designId)) continue;
+
+    const design = designsById.get(item.designId)!;
+    const parsed = parseJewelrySize(design.jewelryType, item.size);
+    if (!parsed.success) {
+      return { success: false, error: parsed.error, itemId: item.id };
+    }
+    if (design.jewelryType === "ring" && !parsed.size) {
+      return { success: false, error: "Ring size is required", itemId: item.id };
+    }
+    sizes.set(item.id, parsed.size);
+  }
+
+  const repriced = await Promise.all(
+    items.map(async (item): Promise<RepricedCartLine> => {
+      if (isTestProduct(item.designId)) {
+        return {
+          ...item,
+          clientPrice: item.price,
+          unitPrice: item.price,
+          totalPrice: item.price * item.quantity,
+          withinTolerance: true,
+          isTestProduct: true,
+          quoteStatus: "none",
+        };
+      }
+
+      const design = designsById.get(item.designId)!;
+
+      const material = MATERIALS.includes(item.material as PricingInput["material"])
+        ? (item.material as PricingInput["material"])
+        : (design.material as PricingInput["material"]);
+      const jewelrySize = sizes.get(item.id) ?? null;
+      const size = jewelrySize ? formatJewelrySize(jewelrySize) : undefined;
+      const sizeDetails = jewelrySize ? describeJewelrySize(jewelrySize) : undefined;
+      const diamondOrigin = summarizeDiamondOrigins(design.stones) ?? undefined;
+
+      if (item.quoteId) {
+        const verification = await verifyPriceQuote(item.quoteId);
+
+        if (verification.status !== "invalid") {
+          const { quote } = verification;
+          const matches =
+            quote.designId === design.id && quote.material === material && (quote.size ?? undefined) === size;
+          // A quote priced before the design was last edited no longer describes it
+          const current = quote.designUpdatedAt?.getTime() === design.updatedAt.getTime();
+
+          if (matches && current && verification.status === "valid") {
+            return {
+              ...item,
+              jewelryType: design.jewelryType,
+              material,
+              size,
+              sizeDetails,
+              diamondOrigin,
+              clientPrice: item.price,
+              unitPrice: quote.total,
+              totalPrice: quote.total * item.quantity,
+              withinTolerance: Math.abs(item.price - quote.total) < 0.01,
+              isTestProduct: false,
+              quoteStatus: "valid",
+              quoteExpiresAt: quote.expiresAt,
+              pricing: { breakdown: quote.breakdown, metalPrices: quote.metalPrices },
+            };
+          }
+
+          if (matches) {
+            // Expired or stale - issue a new quote for the design as it is today
+            const fresh = await issueDesignQuote(design.id, { material, size });
+            if (fresh.success) {
+              return {
+                ...item,
+                jewelryType: design.jewelryType,
+                material,
+                size,
+                sizeDetails,
+                diamondOrigin,
+                quoteId: fresh.quote.id,
+                clientPrice: item.price,
+                unitPrice: fresh.quote.total,
+                totalPrice: fresh.quote.total * item.quantity,
+                withinTolerance: false,
+                isTestProduct: false,
+                quoteStatus: "expired",
+                quoteExpiresAt: fresh.quote.expiresAt,
+                pricing: { breakdown: fresh.quote.breakdown, metalPrices: fresh.quote.metalPrices },
+              };
+            }
+          }
+        }
+
+        console.error(`[Reprice] Ignoring unusable quote ${item.quoteId} for design ${design.id}`);
+      }
+
+      const pricing = await calculatePriceWithSnapshot(
+        designToPricingInput(design, { material, jewelrySize: jewelrySize ?? undefined })
+      );
+
+      const unitPrice = pricing.breakdown.total;
+      const difference = unitPrice > 0 ? Math.abs(item.price - unitPrice) / unitPrice : 0;
+
+      return {
+        ...item,
+        jewelryType: design.jewelryType,
+        material,
+        size,
+        sizeDetails,
+        diamondOrigin,
+        clientPrice: item.price,
+        unitPrice,
+        totalPrice: unitPrice * item.quantity,
+        quoteId: undefined,
+        withinTolerance: difference <= tolerance,
+        isTestProduct: false,
+        quoteStatus: "none",
+        pricing,
+      };
+    })
+  );
+
+  return { success: true, items: repriced };
+}
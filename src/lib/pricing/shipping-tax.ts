@@ -0,0 +1,415 @@
+/**
+ * Shipping and Tax Rules
+ *
+ * The single place checkout totals are computed. Shipping is priced by
+ * zone (matched by country, then city) and method, in tiers by insured
+ * value - the value of the goods after any discount. VAT is charged at the
+ * destination country's rate; exports to countries without a rate are
+ * zero-rated. A zone can override the rate (Eilat is a VAT-free zone).
+ *
+ * Rules are admin-editable and versioned in the PricingConfig table.
+ * Falls back to the built-in defaults when the database is unavailable.
+ */
+
+import { z } from "zod";
+import { prisma } from "@/lib/db/prisma";
+import { priceCache, CACHE_KEYS, TTL } from "./cache";
+import { createNextConfigVersion } from "./config";
+import type { AppliedDiscount } from "./discounts";
+
+// PricingConfig key holding the rules
+export const SHIPPING_TAX_RULES_KEY = "shipping_tax_rules";
+
+export const SHIPPING_METHODS = ["standard", "express"] as const;
+
+export type ShippingMethod = (typeof SHIPPING_METHODS)[number];
+
+/**
+ * Price up to an insured value (null = no upper bound)
+ */
+export interface ShippingTier {
+  maxInsuredValue: number | null; // ILS
+  price: number; // ILS, 0 = free
+}
+
+export interface ShippingMethodRules {
+  tiers: ShippingTier[]; // Ascending by maxInsuredValue, last one unbounded
+  minDays: number;
+  maxDays: number;
+}
+
+export interface ShippingZone {
+  id: string;
+  name: string;
+  countries: string[]; // ISO 3166-1 alpha-2, empty = every country not matched before
+  cities: string[]; // Empty = every city
+  vatRate?: number; // Overrides the country rate
+  methods: Partial<Record<ShippingMethod, ShippingMethodRules>>;
+}
+
+export interface ShippingTaxRules {
+  shipsTo: string[]; // Countries offered at checkout
+  zones: ShippingZone[]; // First match wins - list city zones first
+  vatRates: Record<string, number>; // By country; missing = zero-rated export
+  vatOnShipping: boolean;
+}
+
+/**
+ * A stored version of the rules
+ */
+export interface ShippingTaxRulesVersion {
+  version: number; // 0 = built-in defaults
+  rules: ShippingTaxRules;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  source: "database" | "default";
+}
+
+export interface ShippingDestination {
+  country: string; // ISO code or English name
+  city?: string;
+}
+
+export interface ShippingOption {
+  method: ShippingMethod;
+  price: number;
+  minDays: number;
+  maxDays: number;
+}
+
+export interface CheckoutTotals {
+  subtotal: number; // Items before discount
+  discount: number;
+  shipping: number;
+  shippingMethod: ShippingMethod;
+  shippingOptions: ShippingOption[]; // Every method available to the destination
+  zone: string; // Zone ID
+  taxRate: number;
+  tax: number;
+  total: number;
+  currency: "ILS";
+}
+
+export type CheckoutTotalsResult =
+  | { success: true; totals: CheckoutTotals }
+  | { success: false; error: string; reason: "unsupported_country" | "unsupported_method" };
+
+const ISRAEL_STANDARD: ShippingMethodRules = {
+  tiers: [
+    { maxInsuredValue: 500, price: 35 },
+    { maxInsuredValue: 5000, price: 0 },
+    { maxInsuredValue: 20000, price: 60 }, // Insured courier
+    { maxInsuredValue: null, price: 120 },
+  ],
+  minDays: 2,
+  maxDays: 5,
+};
+
+const ISRAEL_EXPRESS: ShippingMethodRules = {
+  tiers: [
+    { maxInsuredValue: 5000, price: 65 },
+    { maxInsuredValue: 20000, price: 95 },
+    { maxInsuredValue: null, price: 160 },
+  ],
+  minDays: 1,
+  maxDays: 2,
+};
+
+// Built-in defaults
+export const DEFAULT_SHIPPING_TAX_RULES: ShippingTaxRules = {
+  shipsTo: ["IL", "US", "GB", "DE", "FR", "CA", "AU"],
+  zones: [
+    {
+      id: "eilat",
+      name: "Eilat",
+      countries: ["IL"],
+      cities: ["Eilat", "אילת"],
+      vatRate: 0,
+      methods: { standard: { ...ISRAEL_STANDARD, minDays: 3, maxDays: 6 }, express: ISRAEL_EXPRESS },
+    },
+    {
+      id: "israel",
+      name: "Israel",
+      countries: ["IL"],
+      cities: [],
+      methods: { standard: ISRAEL_STANDARD, express: ISRAEL_EXPRESS },
+    },
+    {
+      id: "international",
+      name: "International",
+      countries: [],
+      cities: [],
+      methods: {
+        standard: {
+          tiers: [
+            { maxInsuredValue: 2000, price: 150 },
+            { maxInsuredValue: 10000, price: 250 },
+            { maxInsuredValue: null, price: 400 },
+          ],
+          minDays: 7,
+          maxDays: 14,
+        },
+        express: {
+          tiers: [
+            { maxInsuredValue: 2000, price: 250 },
+            { maxInsuredValue: 10000, price: 380 },
+            { maxInsuredValue: null, price: 600 },
+          ],
+          minDays: 3,
+          maxDays: 6,
+        },
+      },
+    },
+  ],
+  vatRates: { IL: 0.17 },
+  vatOnShipping: true,
+};
+
+const DEFAULT_RULES_VERSION: ShippingTaxRulesVersion = {
+  version: 0,
+  rules: DEFAULT_SHIPPING_TAX_RULES,
+  note: "Built-in defaults",
+  createdBy: null,
+  createdAt: new Date(0),
+  source: "default",
+};
+
+// Older addresses store the country name
+const COUNTRY_NAMES: Record<string, string> = {
+  israel: "IL",
+  "ישראל": "IL",
+  "united states": "US",
+  usa: "US",
+  "united kingdom": "GB",
+  uk: "GB",
+  germany: "DE",
+  france: "FR",
+  canada: "CA",
+  australia: "AU",
+};
+
+const countryCode = z.string().regex(/^[A-Z]{2}$/);
+
+const methodRulesSchema = z
+  .object({
+    tiers: z
+      .array(z.object({ maxInsuredValue: z.number().positive().nullable(), price: z.number().min(0) }))
+      .min(1),
+    minDays: z.number().int().min(0),
+    maxDays: z.number().int().min(0),
+  })
+  .refine((method) => method.tiers[method.tiers.length - 1].maxInsuredValue === null, {
+    message: "The last tier must have no upper bound",
+  });
+
+// Validation schema for admin-submitted rules
+export const shippingTaxRulesSchema = z.object({
+  shipsTo: z.array(countryCode).min(1),
+  zones: z
+    .array(
+      z.object({
+        id: z.string().min(1).max(40),
+        name: z.string().min(1).max(80),
+        countries: z.array(countryCode),
+        cities: z.array(z.string().min(1)),
+        vatRate: z.number().min(0).max(1).optional(),
+        methods: z.partialRecord(z.enum(SHIPPING_METHODS), methodRulesSchema),
+      })
+    )
+    .min(1),
+  vatRates: z.record(countryCode, z.number().min(0).max(1)),
+  vatOnShipping: z.boolean(),
+});
+
+/**
+ * Parse a stored JSON value, falling back to the defaults
+ */
+export function parseShippingTaxRules(value: unknown): ShippingTaxRules {
+  const parsed = shippingTaxRulesSchema.safeParse(value);
+  if (!parsed.success) {
+    console.error("[ShippingTax] Invalid stored shipping and tax rules, using defaults");
+    return DEFAULT_SHIPPING_TAX_RULES;
+  }
+  return parsed.data;
+}
+
+function toRulesVersion(record: {
+  version: number;
+  value: unknown;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+}): ShippingTaxRulesVersion {
+  return {
+    version: record.version,
+    rules: parseShippingTaxRules(record.value),
+    note: record.note,
+    createdBy: record.createdBy,
+    createdAt: record.createdAt,
+    source: "database",
+  };
+}
+
+/**
+ * Get the rules currently in effect
+ *
+ * Never throws - returns the built-in defaults if the lookup fails.
+ */
+export async function getShippingTaxRules(): Promise<ShippingTaxRulesVersion> {
+  const cached = await priceCache.get<ShippingTaxRulesVersion>(CACHE_KEYS.SHIPPING_TAX_RULES);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const record = await prisma.pricingConfig.findFirst({
+      where: { key: SHIPPING_TAX_RULES_KEY, effectiveAt: { lte: new Date() } },
+      orderBy: [{ effectiveAt: "desc" }, { version: "desc" }],
+    });
+
+    const rules = record ? toRulesVersion(record) : DEFAULT_RULES_VERSION;
+    await priceCache.set(CACHE_KEYS.SHIPPING_TAX_RULES, rules, { ttlMs: TTL.SHIPPING_TAX });
+    return rules;
+  } catch (error) {
+    console.error("[ShippingTax] Failed to load shipping and tax rules, using defaults:", error);
+    return (await priceCache.getFallback<ShippingTaxRulesVersion>(CACHE_KEYS.SHIPPING_TAX_RULES)) ?? DEFAULT_RULES_VERSION;
+  }
+}
+
+/**
+ * List all stored versions, newest first
+ */
+export async function listShippingTaxRuleVersions(): Promise<ShippingTaxRulesVersion[]> {
+  const records = await prisma.pricingConfig.findMany({
+    where: { key: SHIPPING_TAX_RULES_KEY },
+    orderBy: { version: "desc" },
+  });
+
+  return records.map(toRulesVersion);
+}
+
+/**
+ * Store a new version of the rules
+ */
+export async function setShippingTaxRules(input: {
+  rules: ShippingTaxRules;
+  note?: string;
+  createdBy?: string;
+}): Promise<ShippingTaxRulesVersion> {
+  const rules = shippingTaxRulesSchema.parse(input.rules);
+
+  const record = await createNextConfigVersion(SHIPPING_TAX_RULES_KEY, {
+    value: JSON.parse(JSON.stringify(rules)),
+    note: input.note,
+    createdBy: input.createdBy,
+  });
+
+  // Apply to the next checkout immediately
+  await priceCache.delete(CACHE_KEYS.SHIPPING_TAX_RULES);
+
+  return toRulesVersion(record);
+}
+
+/**
+ * ISO country code for a code or an English/Hebrew country name
+ */
+export function normalizeCountry(country: string): string {
+  const value = country.trim();
+  return COUNTRY_NAMES[value.toLowerCase()] ?? value.toUpperCase();
+}
+
+function sameCity(a: string, b: string): boolean {
+  return a.trim().localeCompare(b.trim(), undefined, { sensitivity: "base" }) === 0;
+}
+
+/**
+ * The zone a destination ships from, if the country is served
+ */
+export function findShippingZone(rules: ShippingTaxRules, destination: ShippingDestination): ShippingZone | null {
+  const country = normalizeCountry(destination.country);
+  if (!rules.shipsTo.includes(country)) return null;
+
+  return (
+    rules.zones.find(
+      (zone) =>
+        (zone.countries.length === 0 || zone.countries.includes(country)) &&
+        (zone.cities.length === 0 || (!!destination.city && zone.cities.some((city) => sameCity(city, destination.city!))))
+    ) ?? null
+  );
+}
+
+function tierPrice(method: ShippingMethodRules, insuredValue: number): number {
+  const tier = method.tiers.find((t) => t.maxInsuredValue === null || insuredValue <= t.maxInsuredValue);
+  return (tier ?? method.tiers[method.tiers.length - 1]).price;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Subtotal, discount, shipping, VAT and total for a cart
+ *
+ * Test orders (development only) carry no shipping or VAT. A free-shipping
+ * discount waives the standard method; express is still charged.
+ */
+export function calculateCheckoutTotals(
+  rules: ShippingTaxRules,
+  input: {
+    lines: Array<{ unitPrice: number; quantity: number }>;
+    destination: ShippingDestination;
+    method?: ShippingMethod;
+    discount?: AppliedDiscount | null;
+    isTestOrder?: boolean;
+  }
+): CheckoutTotalsResult {
+  const zone = findShippingZone(rules, input.destination);
+  if (!zone) {
+    return { success: false, error: "We do not ship to this country", reason: "unsupported_country" };
+  }
+
+  const subtotal = roundMoney(input.lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0));
+  const discount = input.discount?.amount ?? 0;
+  const insuredValue = subtotal - discount;
+
+  const shippingOptions: ShippingOption[] = SHIPPING_METHODS.flatMap((method) => {
+    const rulesForMethod = zone.methods[method];
+    if (!rulesForMethod) return [];
+
+    const waived = input.isTestOrder || (method === "standard" && input.discount?.freeShipping);
+    return [{
+      method,
+      price: waived ? 0 : tierPrice(rulesForMethod, insuredValue),
+      minDays: rulesForMethod.minDays,
+      maxDays: rulesForMethod.maxDays,
+    }];
+  });
+
+  const shippingMethod = input.method ?? "standard";
+  const selected = shippingOptions.find((option) => option.method === shippingMethod);
+  if (!selected) {
+    return { success: false, error: "This shipping method is not available for the destination", reason: "unsupported_method" };
+  }
+
+  const country = normalizeCountry(input.destination.country);
+  const taxRate = input.isTestOrder ? 0 : zone.vatRate ?? rules.vatRates[country] ?? 0;
+  const taxable = insuredValue + (rules.vatOnShipping ? selected.price : 0);
+  const tax = roundMoney(taxable * taxRate);
+
+  return {
+    success: true,
+    totals: {
+      subtotal,
+      discount,
+      shipping: selected.price,
+      shippingMethod,
+      shippingOptions,
+      zone: zone.id,
+      taxRate,
+      tax,
+      total: roundMoney(insuredValue + selected.price + tax),
+      currency: "ILS",
+    },
+  };
+}
@@ -0,0 +1,240 @@
+/**
+ * Jewelry Size Systems
+ *
+ * Ring sizes (US, EU/ISO circumference, UK letters), necklace chain
+ * lengths and bracelet wrist circumference. Sizes are stored as a
+ * canonical label ("US 7", "45cm", "17cm") and scale the metal volume
+ * relative to the reference piece the base volumes describe.
+ *
+ * Shared by the calculator, API validation and the size selector UI.
+ */
+
+export type JewelrySize =
+  | { kind: "ring"; us: number } // US size, quarter steps
+  | { kind: "chain"; lengthCm: number }
+  | { kind: "wrist"; circumferenceCm: number };
+
+export type SizeParseResult =
+  | { success: true; size: JewelrySize | null } // null = no size for this type
+  | { success: false; error: string };
+
+// Reference pieces (volume factor 1.0)
+const REFERENCE_RING_US = 7;
+const REFERENCE_CHAIN_CM = 45;
+const REFERENCE_WRIST_CM = 17;
+
+// Share of a necklace's metal in the chain (the rest is the pendant)
+const CHAIN_VOLUME_SHARE = 0.5;
+
+const RING_US_RANGE = { min: 3, max: 16 };
+const CHAIN_CM_RANGE = { min: 35, max: 90 };
+const WRIST_CM_RANGE = { min: 12, max: 25 };
+
+// UK sizes: A = 37.5mm circumference, 1.25mm per letter
+const UK_A_CIRCUMFERENCE_MM = 37.5;
+const UK_LETTER_STEP_MM = 1.25;
+
+const CM_PER_INCH = 2.54;
+
+export const RING_SIZE_OPTIONS = Array.from({ length: 21 }, (_, i) => 3 + i * 0.5); // US 3 - 13
+export const CHAIN_LENGTH_OPTIONS = [40, 42, 45, 50, 55, 60, 70, 80];
+export const WRIST_SIZE_OPTIONS = [14, 15, 16, 17, 18, 19, 20, 21];
+
+/**
+ * Default size when none is selected (null = a size must be chosen)
+ */
+export const DEFAULT_SIZES: Record<string, JewelrySize | null> = {
+  ring: null,
+  necklace: { kind: "chain", lengthCm: REFERENCE_CHAIN_CM },
+  bracelet: { kind: "wrist", circumferenceCm: REFERENCE_WRIST_CM },
+  earrings: null,
+};
+
+function roundTo(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+/**
+ * ISO 8653 inner circumference (mm) for a US ring size
+ */
+export function ringCircumferenceMm(us: number): number {
+  return 36.4615 + 2.5535 * us;
+}
+
+export function usFromCircumferenceMm(circumferenceMm: number): number {
+  return (circumferenceMm - 36.4615) / 2.5535;
+}
+
+/**
+ * UK letter size, e.g. "N½"
+ */
+export function usToUk(us: number): string {
+  const steps = roundTo((ringCircumferenceMm(us) - UK_A_CIRCUMFERENCE_MM) / UK_LETTER_STEP_MM, 0.5);
+  const whole = Math.floor(steps);
+  const half = steps - whole >= 0.5 ? "½" : "";
+
+  if (whole < 0) return "A";
+  if (whole > 25) return `Z+${whole - 25}${half}`;
+  return `${String.fromCharCode(65 + whole)}${half}`;
+}
+
+export function ukToUs(uk: string): number | null {
+  const match = uk.trim().toUpperCase().match(/^([A-Z])(?:\+(\d+))?\s*(½|1\/2|\.5)?$/);
+  if (!match) return null;
+
+  const steps = match[1].charCodeAt(0) - 65 + (match[2] ? parseInt(match[2], 10) : 0) + (match[3] ? 0.5 : 0);
+  return usFromCircumferenceMm(UK_A_CIRCUMFERENCE_MM + steps * UK_LETTER_STEP_MM);
+}
+
+/**
+ * All size systems for a ring size
+ */
+export function ringSizeConversions(us: number): {
+  us: number;
+  euIso: number; // Circumference in mm
+  uk: string;
+  diameterMm: number;
+} {
+  const circumference = ringCircumferenceMm(us);
+  return {
+    us,
+    euIso: Math.round(circumference * 10) / 10,
+    uk: usToUk(us),
+    diameterMm: Math.round((circumference / Math.PI) * 10) / 10,
+  };
+}
+
+function checkRing(us: number): SizeParseResult {
+  const rounded = roundTo(us, 0.25);
+  if (!Number.isFinite(rounded) || rounded < RING_US_RANGE.min || rounded > RING_US_RANGE.max) {
+    return { success: false, error: `Ring size must be between US ${RING_US_RANGE.min} and US ${RING_US_RANGE.max}` };
+  }
+  return { success: true, size: { kind: "ring", us: rounded } };
+}
+
+function parseLengthCm(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(cm|mm|in|inch|inches|")?$/);
+  if (!match) return null;
+
+  const amount = parseFloat(match[1]);
+  switch (match[2]) {
+    case "mm":
+      return amount / 10;
+    case "in":
+    case "inch":
+    case "inches":
+    case '"':
+      return amount * CM_PER_INCH;
+    default:
+      return amount;
+  }
+}
+
+function parseRingSize(value: string): SizeParseResult {
+  const text = value.trim().toUpperCase();
+
+  const system = text.match(/^(US|EU|ISO|UK)\s*(.+)$/);
+  if (system) {
+    const [, name, rest] = system;
+    if (name === "UK") {
+      const us = ukToUs(rest);
+      return us === null ? { success: false, error: `Unknown UK ring size "${rest}"` } : checkRing(us);
+    }
+
+    const amount = parseFloat(rest.replace(",", "."));
+    if (!Number.isFinite(amount)) {
+      return { success: false, error: `Invalid ring size "${value}"` };
+    }
+    return checkRing(name === "US" ? amount : usFromCircumferenceMm(amount));
+  }
+
+  // Bare number: US sizes are small, EU/ISO circumferences are 40mm+
+  const amount = parseFloat(text.replace(",", "."));
+  if (Number.isFinite(amount) && /^\d+(?:[.,]\d+)?$/.test(text)) {
+    return checkRing(amount >= 40 ? usFromCircumferenceMm(amount) : amount);
+  }
+
+  // Bare UK letter
+  const us = ukToUs(text);
+  return us === null ? { success: false, error: `Invalid ring size "${value}"` } : checkRing(us);
+}
+
+/**
+ * Parse a size entered in any supported system for a jewelry type
+ *
+ * Empty values resolve to the type's default (null for rings and earrings).
+ */
+export function parseJewelrySize(jewelryType: string, value: string | null | undefined): SizeParseResult {
+  if (!value || !value.trim()) {
+    return { success: true, size: DEFAULT_SIZES[jewelryType] ?? null };
+  }
+
+  switch (jewelryType) {
+    case "ring":
+      return parseRingSize(value);
+
+    case "necklace": {
+      const lengthCm = parseLengthCm(value);
+      if (lengthCm === null || lengthCm < CHAIN_CM_RANGE.min || lengthCm > CHAIN_CM_RANGE.max) {
+        return { success: false, error: `Chain length must be between ${CHAIN_CM_RANGE.min} and ${CHAIN_CM_RANGE.max} cm` };
+      }
+      return { success: true, size: { kind: "chain", lengthCm: roundTo(lengthCm, 0.5) } };
+    }
+
+    case "bracelet": {
+      const circumferenceCm = parseLengthCm(value);
+      if (circumferenceCm === null || circumferenceCm < WRIST_CM_RANGE.min || circumferenceCm > WRIST_CM_RANGE.max) {
+        return { success: false, error: `Wrist size must be between ${WRIST_CM_RANGE.min} and ${WRIST_CM_RANGE.max} cm` };
+      }
+      return { success: true, size: { kind: "wrist", circumferenceCm: roundTo(circumferenceCm, 0.5) } };
+    }
+
+    default:
+      return { success: false, error: `${jewelryType} does not take a size` };
+  }
+}
+
+/**
+ * Canonical label stored on designs, cart lines and orders
+ */
+export function formatJewelrySize(size: JewelrySize): string {
+  switch (size.kind) {
+    case "ring":
+      return `US ${size.us}`;
+    case "chain":
+      return `${size.lengthCm}cm`;
+    case "wrist":
+      return `${size.circumferenceCm}cm`;
+  }
+}
+
+/**
+ * Full description for manufacturing, e.g. "US 7 / EU 54.3 / UK N½ (Ø17.3mm)"
+ */
+export function describeJewelrySize(size: JewelrySize): string {
+  switch (size.kind) {
+    case "ring": {
+      const conversions = ringSizeConversions(size.us);
+      return `US ${conversions.us} / EU ${conversions.euIso} / UK ${conversions.uk} (Ø${conversions.diameterMm}mm)`;
+    }
+    case "chain":
+      return `Chain ${size.lengthCm}cm (${Math.round((size.lengthCm / CM_PER_INCH) * 10) / 10}in)`;
+    case "wrist":
+      return `Wrist ${size.circumferenceCm}cm`;
+  }
+}
+
+/**
+ * Metal volume relative to the reference piece of the same type
+ */
+export function sizeVolumeFactor(size: JewelrySize): number {
+  switch (size.kind) {
+    case "ring":
+      // Band length follows the circumference
+      return ringCircumferenceMm(size.us) / ringCircumferenceMm(REFERENCE_RING_US);
+    case "chain":
+      return 1 - CHAIN_VOLUME_SHARE + CHAIN_VOLUME_SHARE * (size.lengthCm / REFERENCE_CHAIN_CM);
+    case "wrist":
+      return size.circumferenceCm / REFERENCE_WRIST_CM;
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Pricing Snapshots
+ *
+ * An immutable record of every price we calculate for a design or an
+ * order item: the full breakdown, the PricingConfig version and the metal
+ * prices it was calculated from. Historical prices are read back from
+ * here instead of being recalculated against today's gold price.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db/prisma";
+import {
+  calculatePriceAdvanced,
+  type PricingInput,
+  type PricingBreakdown,
+} from "./calculator";
+import { getMetalPricesSafe, type MetalPrices } from "./metals-api";
+
+export type PricingSnapshotSource = "design_save" | "admin_recalculate" | "bulk_reprice" | "checkout";
+
+/**
+ * A stored pricing snapshot
+ */
+export interface PricingSnapshot {
+  id: string;
+  designId: string | null;
+  orderItemId: string | null;
+  source: PricingSnapshotSource;
+  total: number;
+  currency: "ILS";
+  breakdown: PricingBreakdown;
+  metalPrices: MetalPrices;
+  configVersion: number | null;
+  createdAt: Date;
+}
+
+function toPricingSnapshot(record: {
+  id: string;
+  designId: string | null;
+  orderItemId: string | null;
+  source: string;
+  total: number;
+  breakdown: unknown;
+  metalPrices: unknown;
+  configVersion: number | null;
+  createdAt: Date;
+}): PricingSnapshot {
+  return {
+    id: record.id,
+    designId: record.designId,
+    orderItemId: record.orderItemId,
+    source: record.source as PricingSnapshotSource,
+    total: record.total,
+    currency: "ILS",
+    breakdown: record.breakdown as PricingBreakdown,
+    metalPrices: record.metalPrices as MetalPrices,
+    configVersion: record.configVersion,
+    createdAt: record.createdAt,
+  };
+}
+
+/**
+ * Calculate a price against a frozen metal price snapshot
+ *
+ * Returns the metal prices alongside the breakdown so the caller can
+ * record exactly what was used.
+ */
+export async function calculatePriceWithSnapshot(
+  input: PricingInput
+): Promise<{ breakdown: PricingBreakdown; metalPrices: MetalPrices }> {
+  const metalPrices = input.metalPrices ?? (await getMetalPricesSafe());
+  const breakdown = await calculatePriceAdvanced({ ...input, metalPrices });
+  return { breakdown, metalPrices };
+}
+
+/**
+ * Row for a snapshot, for writing it nested in another create
+ */
+export function pricingSnapshotData(snapshot: {
+  source: PricingSnapshotSource;
+  breakdown: PricingBreakdown;
+  metalPrices: MetalPrices;
+  designId?: string | null;
+}): Prisma.PricingSnapshotUncheckedCreateWithoutOrderItemInput {
+  return {
+    designId: snapshot.designId ?? null,
+    source: snapshot.source,
+    total: snapshot.breakdown.total,
+    breakdown: JSON.parse(JSON.stringify(snapshot.breakdown)),
+    metalPrices: JSON.parse(JSON.stringify(snapshot.metalPrices)),
+    configVersion: snapshot.breakdown.metadata.configVersion,
+  };
+}
+
+/**
+ * Store a new snapshot (snapshots are never updated)
+ */
+export async function recordPricingSnapshot(snapshot: {
+  source: PricingSnapshotSource;
+  breakdown: PricingBreakdown;
+  metalPrices: MetalPrices;
+  designId?: string | null;
+  orderItemId?: string | null;
+}): Promise<PricingSnapshot> {
+  const record = await prisma.pricingSnapshot.create({
+    data: { ...pricingSnapshotData(snapshot), orderItemId: snapshot.orderItemId ?? null },
+  });
+
+  return toPricingSnapshot(record);
+}
+
+/**
+ * Pricing history for a design, newest first
+ */
+export async function listDesignSnapshots(designId: string, limit: number = 20): Promise<PricingSnapshot[]> {
+  const records = await prisma.pricingSnapshot.findMany({
+    where: { designId },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+  return records.map(toPricingSnapshot);
+}
+
+/**
+ * Latest snapshot for each of the given designs
+ *
+ * Checkout snapshots are left out - they price the order item's material
+ * and size, not the design's own.
+ */
+export async function getLatestDesignSnapshots(designIds: string[]): Promise<Map<string, PricingSnapshot>> {
+  if (designIds.length === 0) return new Map();
+
+  const records = await prisma.pricingSnapshot.findMany({
+    where: { designId: { in: designIds }, orderItemId: null },
+    orderBy: { createdAt: "desc" },
+    distinct: ["designId"],
+  });
+
+  return new Map(records.map((record) => [record.designId!, toPricingSnapshot(record)]));
+}
+
+/**
+ * The price an order item was sold at (its checkout snapshot)
+ */
+export async function getOrderItemSnapshot(orderItemId: string): Promise<PricingSnapshot | null> {
+  const record = await prisma.pricingSnapshot.findFirst({
+    where: { orderItemId },
+    orderBy: { createdAt: "desc" },
+  });
+  return record ? toPricingSnapshot(record) : null;
+}
@@ -0,0 +1,64 @@
+/**
+ * Diamond Origin
+ *
+ * Natural (mined) versus laboratory-grown diamonds. Lab-grown stones are
+ * priced from the natural price with a discount that deepens with size,
+ * and the origin must be disclosed on every order document.
+ *
+ * Shared by the calculator, API validation and the studio/admin UI.
+ */
+
+export const DIAMOND_ORIGINS = ["natural", "lab_grown"] as const;
+
+export type DiamondOrigin = (typeof DIAMOND_ORIGINS)[number];
+
+/**
+ * Lab-grown price as a fraction of the equivalent natural diamond,
+ * by carat (upper bound of each band)
+ */
+const LAB_GROWN_PRICE_RATIOS: Array<{ maxCarat: number; ratio: number }> = [
+  { maxCarat: 0.3, ratio: 0.35 },
+  { maxCarat: 0.5, ratio: 0.3 },
+  { maxCarat: 1.0, ratio: 0.25 },
+  { maxCarat: 2.0, ratio: 0.2 },
+  { maxCarat: Infinity, ratio: 0.15 },
+];
+
+export function labGrownPriceRatio(carat: number): number {
+  return LAB_GROWN_PRICE_RATIOS.find((band) => carat <= band.maxCarat)!.ratio;
+}
+
+/**
+ * Origin of the diamonds in a stone list, for disclosure
+ *
+ * Returns null when there are no diamonds; stones without an origin
+ * count as natural.
+ */
+export function summarizeDiamondOrigins(
+  stones: unknown
+): DiamondOrigin | "mixed" | null {
+  if (!Array.isArray(stones)) return null;
+
+  const origins = new Set<DiamondOrigin>();
+  for (const stone of stones as Array<{ type?: string; origin?: string }>) {
+    if (stone?.type === "diamond") {
+      origins.add(stone.origin === "lab_grown" ? "lab_grown" : "natural");
+    }
+  }
+
+  if (origins.size === 0) return null;
+  if (origins.size > 1) return "mixed";
+  return origins.values().next().value!;
+}
+
+/**
+ * Disclosure text for order records and payment pages
+ */
+export function diamondOriginDisclosure(summary: DiamondOrigin | "mixed", locale: string = "en"): string {
+  const labels: Record<DiamondOrigin | "mixed", { en: string; he: string }> = {
+    natural: { en: "Natural diamonds", he: "יהלומים טבעיים" },
+    lab_grown: { en: "Lab-grown diamonds", he: "יהלומי מעבדה" },
+    mixed: { en: "Lab-grown and natural diamonds", he: "יהלומי מעבדה ויהלומים טבעיים" },
+  };
+  return locale === "he" ? labels[summary].he : labels[summary].en;
+}
@@ -0,0 +1,68 @@
+/**
+ * Shipping Carriers
+ *
+ * One interface over the carriers parcels are sent with. A carrier checks
+ * and normalizes tracking numbers, links to its public tracking page and
+ * looks up the scans a parcel has had; lib/shipping/shipments stores them
+ * as the shipment's timeline.
+ */
+
+import { getIsraelPostCarrier } from "./israel-post";
+
+export const CARRIERS = ["israel_post"] as const;
+
+export type CarrierId = (typeof CARRIERS)[number];
+
+export const SHIPMENT_STATUSES = [
+  "label_created",
+  "in_transit",
+  "out_for_delivery",
+  "delivered",
+  "exception", // Failed delivery attempt, held at customs, returned...
+] as const;
+
+export type ShipmentStatus = (typeof SHIPMENT_STATUSES)[number];
+
+export interface TrackingEvent {
+  status: ShipmentStatus;
+  description: string | null; // In the carrier's words
+  location: string | null;
+  occurredAt: Date;
+}
+
+export type TrackResult =
+  | { success: true; events: TrackingEvent[] }
+  | { success: false; error: string };
+
+export interface Carrier {
+  id: CarrierId;
+  /**
+   * The tracking number in the carrier's canonical form, or null if it
+   * is not one of theirs
+   */
+  normalizeTrackingNumber(raw: string): string | null;
+  trackingUrl(trackingNumber: string): string;
+  /**
+   * Every scan so far, in any order - known scans are skipped when stored
+   */
+  track(trackingNumber: string, shipment: { shippedAt: Date }): Promise<TrackResult>;
+}
+
+export function isCarrierId(value: string): value is CarrierId {
+  return (CARRIERS as readonly string[]).includes(value);
+}
+
+export function isShipmentStatus(value: string): value is ShipmentStatus {
+  return (SHIPMENT_STATUSES as readonly string[]).includes(value);
+}
+
+export function getCarrier(id: string): Carrier {
+  if (!isCarrierId(id)) {
+    throw new Error(`Unknown carrier: ${id}`);
+  }
+
+  switch (id) {
+    case "israel_post":
+      return getIsraelPostCarrier();
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Israel Post
+ *
+ * A stand-in until we have access to Israel Post's tracking API. Tracking
+ * numbers are checked as UPU S10 item numbers (e.g. RR123456785IL: two
+ * letters, eight digits, a check digit and the origin country) and link
+ * to Israel Post's public item trace page.
+ *
+ * Lookups return no scans, so the timeline is what admins enter. With
+ * ISRAEL_POST_SIMULATE_TRACKING=true they return a plausible progression
+ * from the ship date instead, for developing and demonstrating the
+ * timeline - never set it in production.
+ */
+
+import type { Carrier, TrackingEvent } from "./carriers";
+
+const TRACKING_PAGE_URL = "https://israelpost.co.il/itemtrace";
+
+const S10_PATTERN = /^[A-Z]{2}\d{9}[A-Z]{2}$/;
+const S10_WEIGHTS = [8, 6, 4, 2, 3, 5, 9, 7];
+
+const HOUR_MS = 3_600_000;
+
+// Simulated scans, by hours after the parcel was handed over
+const SIMULATED_SCANS: (Omit<TrackingEvent, "occurredAt"> & { afterHours: number })[] = [
+  { afterHours: 0, status: "label_created", description: "Item accepted at the post office", location: "Tel Aviv" },
+  { afterHours: 14, status: "in_transit", description: "Item arrived at the logistics center", location: "Modiin" },
+  { afterHours: 40, status: "out_for_delivery", description: "Item out for delivery", location: null },
+  { afterHours: 50, status: "delivered", description: "Item delivered to the addressee", location: null },
+];
+
+function s10CheckDigit(serial: string): number {
+  const sum = serial.split("").reduce((total, digit, index) => total + Number(digit) * S10_WEIGHTS[index], 0);
+  const check = 11 - (sum % 11);
+  return check === 10 ? 0 : check === 11 ? 5 : check;
+}
+
+export function getIsraelPostCarrier(): Carrier {
+  const simulate = process.env.ISRAEL_POST_SIMULATE_TRACKING === "true";
+
+  return {
+    id: "israel_post",
+
+    normalizeTrackingNumber(raw) {
+      const trackingNumber = raw.replace(/\s+/g, "").toUpperCase();
+      if (!S10_PATTERN.test(trackingNumber)) return null;
+      return s10CheckDigit(trackingNumber.slice(2, 10)) === Number(trackingNumber[10]) ? trackingNumber : null;
+    },
+
+    trackingUrl(trackingNumber) {
+      return `${TRACKING_PAGE_URL}?itemcode=${encodeURIComponent(trackingNumber)}`;
+    },
+
+    async track(trackingNumber, shipment) {
+      if (!simulate) {
+        return { success: true, events: [] };
+      }
+
+      const now = Date.now();
+      const events = SIMULATED_SCANS
+        .map(({ afterHours, ...scan }) => ({
+          ...scan,
+          occurredAt: new Date(shipment.shippedAt.getTime() + afterHours * HOUR_MS),
+        }))
+        .filter((event) => event.occurredAt.getTime() <= now);
+
+      return { success: true, events };
+    },
+  };
+}
@@ -0,0 +1,402 @@
+/**
+ * Order Shipments
+ *
+ * An order ships as one or more parcels, each with its carrier's tracking
+ * number. Admins enter tracking one order at a time or import it from a
+ * CSV; the first parcel of an order that passed its quality check moves
+ * the order to shipped (which emails the customer, lib/notifications).
+ *
+ * The timeline is the scans the carrier reports, looked up when the
+ * customer views it at most every TRACKING_REFRESH_MS, plus any scans
+ * admins enter by hand. Once every parcel is delivered the order moves
+ * to delivered.
+ */
+
+import { Prisma, type Shipment, type ShipmentEvent } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/db/prisma";
+import { toOrderStatus, transitionOrder } from "@/lib/orders/lifecycle";
+import {
+  CARRIERS,
+  SHIPMENT_STATUSES,
+  getCarrier,
+  isShipmentStatus,
+  type CarrierId,
+  type ShipmentStatus,
+  type TrackingEvent,
+} from "./carriers";
+
+const TRACKING_REFRESH_MS = 30 * 60_000;
+
+// Lines in one tracking import
+const MAX_IMPORT_ROWS = 500;
+
+export const shipmentInputSchema = z.object({
+  carrier: z.enum(CARRIERS),
+  trackingNumber: z.string().trim().min(1).max(64),
+  insuredValue: z.number().min(0).max(1_000_000).optional(), // Defaults to the order's value
+  shippedAt: z.coerce.date().optional(), // Defaults to now
+});
+
+export const shipmentEventInputSchema = z.object({
+  status: z.enum(SHIPMENT_STATUSES),
+  description: z.string().trim().max(500).optional(),
+  location: z.string().trim().max(200).optional(),
+  occurredAt: z.coerce.date().optional(), // Defaults to now
+});
+
+export type ShipmentInput = z.infer<typeof shipmentInputSchema>;
+export type ShipmentEventInput = z.infer<typeof shipmentEventInputSchema>;
+
+export interface ShipmentEventRecord {
+  id: string;
+  status: ShipmentStatus;
+  description: string | null;
+  location: string | null;
+  occurredAt: Date;
+  source: string;
+}
+
+export interface ShipmentRecord {
+  id: string;
+  orderId: string;
+  carrier: CarrierId;
+  trackingNumber: string;
+  trackingUrl: string;
+  insuredValue: number | null;
+  shippedAt: Date;
+  status: ShipmentStatus;
+  deliveredAt: Date | null;
+  events: ShipmentEventRecord[]; // Oldest first
+}
+
+export type ShipmentResult =
+  | { success: true; shipment: ShipmentRecord }
+  | { success: false; error: string; notFound?: boolean; conflict?: boolean };
+
+export interface ImportRowResult {
+  line: number;
+  orderNumber: string;
+  trackingNumber: string;
+  success: boolean;
+  error?: string;
+}
+
+type ShipmentWithEvents = Shipment & { events: ShipmentEvent[] };
+
+function toShipmentRecord(shipment: ShipmentWithEvents): ShipmentRecord {
+  const carrier = getCarrier(shipment.carrier);
+  return {
+    id: shipment.id,
+    orderId: shipment.orderId,
+    carrier: carrier.id,
+    trackingNumber: shipment.trackingNumber,
+    trackingUrl: carrier.trackingUrl(shipment.trackingNumber),
+    insuredValue: shipment.insuredValue,
+    shippedAt: shipment.shippedAt,
+    status: isShipmentStatus(shipment.status) ? shipment.status : "label_created",
+    deliveredAt: shipment.deliveredAt,
+    events: shipment.events
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime())
+      .map((event) => ({
+        id: event.id,
+        status: isShipmentStatus(event.status) ? event.status : "in_transit",
+        description: event.description,
+        location: event.location,
+        occurredAt: event.occurredAt,
+        source: event.source,
+      })),
+  };
+}
+
+async function loadShipment(shipmentId: string): Promise<ShipmentWithEvents | null> {
+  return prisma.shipment.findUnique({
+    where: { id: shipmentId },
+    include: { events: true },
+  });
+}
+
+/**
+ * Store new scans and bring the shipment and its order up to date
+ */
+async function recordEvents(
+  shipment: ShipmentWithEvents,
+  events: TrackingEvent[],
+  source: "carrier" | "admin"
+): Promise<ShipmentWithEvents> {
+  if (events.length > 0) {
+    await prisma.shipmentEvent.createMany({
+      data: events.map((event) => ({
+        shipmentId: shipment.id,
+        status: event.status,
+        description: event.description,
+        location: event.location,
+        occurredAt: event.occurredAt,
+        source,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  const latest = await prisma.shipmentEvent.findFirst({
+    where: { shipmentId: shipment.id },
+    orderBy: { occurredAt: "desc" },
+  });
+  const delivered = await prisma.shipmentEvent.findFirst({
+    where: { shipmentId: shipment.id, status: "delivered" },
+    orderBy: { occurredAt: "asc" },
+  });
+
+  await prisma.shipment.update({
+    where: { id: shipment.id },
+    data: {
+      status: latest?.status ?? shipment.status,
+      deliveredAt: delivered?.occurredAt ?? null,
+      ...(source === "carrier" ? { lastCheckedAt: new Date() } : {}),
+    },
+  });
+
+  if (delivered) {
+    await completeDeliveredOrder(shipment.orderId);
+  }
+  return (await loadShipment(shipment.id))!;
+}
+
+// The order is delivered once every parcel is
+async function completeDeliveredOrder(orderId: string): Promise<void> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: { status: true, shipments: { select: { deliveredAt: true } } },
+  });
+  if (!order || toOrderStatus(order.status) !== "shipped") return;
+  if (order.shipments.some((shipment) => !shipment.deliveredAt)) return;
+
+  const result = await transitionOrder(orderId, "delivered", {
+    actor: "system",
+    note: "All parcels delivered",
+  });
+  if (!result.success && !result.conflict) {
+    console.error(`[Shipping] Failed to mark order ${orderId} delivered: ${result.error}`);
+  }
+}
+
+/**
+ * Record a parcel sent for an order
+ *
+ * The order must have passed its quality check (or already be shipped,
+ * for a further parcel); the first parcel moves it to shipped.
+ */
+export async function createShipment(
+  orderId: string,
+  input: ShipmentInput,
+  actor: string
+): Promise<ShipmentResult> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: { status: true, total: true, finalAmount: true },
+  });
+  if (!order) {
+    return { success: false, error: "Order not found", notFound: true };
+  }
+
+  const status = toOrderStatus(order.status);
+  if (status !== "quality_check" && status !== "shipped") {
+    return {
+      success: false,
+      error: `Order cannot ship - it is ${status}, and must pass its quality check first`,
+      conflict: true,
+    };
+  }
+
+  const carrier = getCarrier(input.carrier);
+  const trackingNumber = carrier.normalizeTrackingNumber(input.trackingNumber);
+  if (!trackingNumber) {
+    return { success: false, error: `${input.trackingNumber} is not a valid ${input.carrier} tracking number` };
+  }
+
+  let shipment: ShipmentWithEvents;
+  try {
+    shipment = await prisma.shipment.create({
+      data: {
+        orderId,
+        carrier: carrier.id,
+        trackingNumber,
+        insuredValue: input.insuredValue ?? order.finalAmount ?? order.total,
+        shippedAt: input.shippedAt ?? new Date(),
+        createdBy: actor,
+      },
+      include: { events: true },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return { success: false, error: `Tracking number ${trackingNumber} is already recorded`, conflict: true };
+    }
+    throw error;
+  }
+
+  if (status === "quality_check") {
+    // After the shipment exists, so the shipping email carries its tracking number
+    const shipped = await transitionOrder(orderId, "shipped", {
+      actor: "admin",
+      note: `${carrier.id} ${trackingNumber}`,
+    });
+    if (!shipped.success) {
+      console.error(`[Shipping] Recorded shipment ${shipment.id} but order ${orderId} was not marked shipped: ${shipped.error}`);
+    }
+  }
+
+  console.log(`[Shipping] Order ${orderId} shipped with ${carrier.id} ${trackingNumber}`);
+  return { success: true, shipment: toShipmentRecord(shipment) };
+}
+
+/**
+ * Add a scan by hand - for carriers without tracking lookups, or a
+ * delivery the carrier never reported
+ */
+export async function addShipmentEvent(
+  orderId: string,
+  shipmentId: string,
+  input: ShipmentEventInput
+): Promise<ShipmentResult> {
+  const shipment = await loadShipment(shipmentId);
+  if (!shipment || shipment.orderId !== orderId) {
+    return { success: false, error: "Shipment not found", notFound: true };
+  }
+
+  const updated = await recordEvents(
+    shipment,
+    [{
+      status: input.status,
+      description: input.description || null,
+      location: input.location || null,
+      occurredAt: input.occurredAt ?? new Date(),
+    }],
+    "admin"
+  );
+  return { success: true, shipment: toShipmentRecord(updated) };
+}
+
+// Look up new scans unless the parcel is delivered or was looked up recently
+async function refreshTracking(shipment: ShipmentWithEvents): Promise<ShipmentWithEvents> {
+  if (shipment.deliveredAt) return shipment;
+  if (shipment.lastCheckedAt && Date.now() - shipment.lastCheckedAt.getTime() < TRACKING_REFRESH_MS) {
+    return shipment;
+  }
+
+  try {
+    const result = await getCarrier(shipment.carrier).track(shipment.trackingNumber, shipment);
+    if (!result.success) {
+      console.error(`[Shipping] Tracking lookup for ${shipment.carrier} ${shipment.trackingNumber} failed: ${result.error}`);
+      return shipment;
+    }
+    return await recordEvents(shipment, result.events, "carrier");
+  } catch (error) {
+    console.error(`[Shipping] Tracking lookup for shipment ${shipment.id} failed:`, error);
+    return shipment;
+  }
+}
+
+/**
+ * An order's parcels, oldest first - with `refresh`, after looking up
+ * new scans at the carrier
+ */
+export async function getOrderShipments(
+  orderId: string,
+  options: { refresh?: boolean } = {}
+): Promise<ShipmentRecord[]> {
+  const shipments = await prisma.shipment.findMany({
+    where: { orderId },
+    include: { events: true },
+    orderBy: { shippedAt: "asc" },
+  });
+
+  const current = options.refresh
+    ? await Promise.all(shipments.map(refreshTracking))
+    : shipments;
+  return current.map(toShipmentRecord);
+}
+
+// Splits one CSV line, honouring quoted fields
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Record tracking for many orders from CSV
+ *
+ * Columns: order_number, tracking_number, carrier (israel_post if empty),
+ * insured_value, shipped_at (YYYY-MM-DD). A header row is skipped. Each
+ * line is recorded on its own - a bad line does not stop the rest.
+ */
+export async function importShipments(
+  csv: string,
+  actor: string
+): Promise<{ success: true; results: ImportRowResult[] } | { success: false; error: string }> {
+  const lines = csv
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: index + 1, fields: splitCsvLine(line) }))
+    .filter(({ fields }) => fields.some(Boolean))
+    .filter(({ fields }) => fields[0].toLowerCase() !== "order_number");
+
+  if (lines.length === 0) {
+    return { success: false, error: "No tracking lines to import" };
+  }
+  if (lines.length > MAX_IMPORT_ROWS) {
+    return { success: false, error: `Import at most ${MAX_IMPORT_ROWS} lines at a time` };
+  }
+
+  const results: ImportRowResult[] = [];
+  for (const { line, fields } of lines) {
+    const [orderNumber = "", trackingNumber = "", carrier = "", insuredValue = "", shippedAt = ""] = fields;
+    const row = { line, orderNumber, trackingNumber };
+
+    const parsed = shipmentInputSchema.safeParse({
+      carrier: carrier || "israel_post",
+      trackingNumber,
+      insuredValue: insuredValue ? Number(insuredValue) : undefined,
+      shippedAt: shippedAt || undefined,
+    });
+    if (!parsed.success) {
+      results.push({ ...row, success: false, error: parsed.error.issues[0]?.message ?? "Invalid line" });
+      continue;
+    }
+
+    const order = await prisma.order.findUnique({ where: { orderNumber }, select: { id: true } });
+    if (!order) {
+      results.push({ ...row, success: false, error: "Order not found" });
+      continue;
+    }
+
+    const result = await createShipment(order.id, parsed.data, actor);
+    results.push(result.success ? { ...row, success: true } : { ...row, success: false, error: result.error });
+  }
+
+  const imported = results.filter((result) => result.success).length;
+  console.log(`[Shipping] Imported ${imported} of ${results.length} tracking lines`);
+  return { success: true, results };
+}
@@ -8,6 +8,7 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
 
 const BUCKET_NAME = "jewelry-designs";
+const DOCUMENTS_BUCKET_NAME = "order-documents"; // Private - served through authenticated routes
 
 // Create Supabase client for server-side operations
 function getSupabaseClient(): SupabaseClient | null {
@@ -140,6 +141,119 @@ export async function uploadImageData(
   }
 }
 
+/**
+ * Copy any file (e.g. a GLB model) from a URL into Supabase Storage
+ * Returns the public URL, or null if storage is not configured or the copy failed
+ */
+export async function copyFileFromUrl(
+  fileUrl: string,
+  options: {
+    folder: string;
+    filename: string;
+    contentType?: string;
+  }
+): Promise<string | null> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(fileUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch file: ${response.status}`);
+    }
+
+    const contentType = options.contentType || response.headers.get("content-type") || "application/octet-stream";
+    const fileBuffer = await response.arrayBuffer();
+    const filePath = `${options.folder}/${options.filename}`;
+
+    const { data, error } = await supabase.storage
+      .from(BUCKET_NAME)
+      .upload(filePath, fileBuffer, {
+        contentType,
+        cacheControl: "31536000",
+        upsert: true, // A retried copy overwrites the partial one
+      });
+
+    if (error) {
+      throw new Error(`Supabase upload error: ${error.message}`);
+    }
+
+    const { data: urlData } = supabase.storage
+      .from(BUCKET_NAME)
+      .getPublicUrl(data.path);
+
+    return urlData.publicUrl;
+  } catch (error) {
+    console.error("Failed to copy file to Supabase:", error);
+    return null;
+  }
+}
+
+/**
+ * Store a private document (e.g. an invoice PDF)
+ * Returns the storage path, or null if storage is not configured or the upload failed
+ */
+export async function uploadDocument(
+  data: Uint8Array | ArrayBuffer,
+  options: {
+    path: string;
+    contentType: string;
+  }
+): Promise<string | null> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    return null;
+  }
+
+  try {
+    const { data: uploadData, error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET_NAME)
+      .upload(options.path, data, {
+        contentType: options.contentType,
+        upsert: false, // Stored documents are never replaced
+      });
+
+    if (error) {
+      throw new Error(`Supabase upload error: ${error.message}`);
+    }
+
+    return uploadData.path;
+  } catch (error) {
+    console.error("Failed to upload document to Supabase:", error);
+    return null;
+  }
+}
+
+/**
+ * Read a private document stored with uploadDocument
+ */
+export async function downloadDocument(path: string): Promise<Uint8Array | null> {
+  const supabase = getSupabaseClient();
+
+  if (!supabase) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET_NAME)
+      .download(path);
+
+    if (error) {
+      throw error;
+    }
+
+    return new Uint8Array(await data.arrayBuffer());
+  } catch (error) {
+    console.error("Failed to download document from Supabase:", error);
+    return null;
+  }
+}
+
 /**
  * Delete an image from Supabase Storage
  */